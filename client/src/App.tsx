@@ -8,6 +8,8 @@ import { useWizardStore } from "@/state/wizard";
 import { LoginForm } from "@/components/LoginForm";
 import { Dashboard } from "@/components/Dashboard";
 import { AdminPanel } from "@/components/AdminPanel";
+import { ProfilesPanel } from "@/components/ProfilesPanel";
+import { EmployerListsPanel } from "@/components/EmployerListsPanel";
 import Home from "@/pages/Home";
 import LoadingLines from "@/components/LoadingLines";
 
@@ -31,7 +33,7 @@ interface User {
   isAdmin: boolean;
 }
 
-type AppState = 'dashboard' | 'admin' | 'wizard';
+type AppState = 'dashboard' | 'admin' | 'profiles' | 'employers' | 'wizard';
 
 function AuthenticatedApp() {
   const { user, isAuthenticated, isLoading, logout, setUser } = useAuth();
@@ -109,9 +111,21 @@ function AuthenticatedApp() {
     setAppState('admin');
   };
 
+  const handleProfiles = () => {
+    setAppState('profiles');
+  };
+
+  const handleEmployers = () => {
+    setAppState('employers');
+  };
+
   switch (appState) {
     case 'admin':
       return <AdminPanel onBack={handleBackToDashboard} />;
+    case 'profiles':
+      return <ProfilesPanel onBack={handleBackToDashboard} />;
+    case 'employers':
+      return <EmployerListsPanel onBack={handleBackToDashboard} />;
     case 'wizard':
       return <Home onBackToDashboard={handleBackToDashboard} />;
     case 'dashboard':
@@ -123,6 +137,8 @@ function AuthenticatedApp() {
           onStartNewApplication={handleStartNewApplication}
           onContinueApplication={handleContinueApplication}
           onAdminPanel={handleAdminPanel}
+          onProfiles={handleProfiles}
+          onEmployers={handleEmployers}
         />
       );
   }
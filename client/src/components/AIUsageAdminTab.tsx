@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Gauge, Loader2 } from "lucide-react";
+import LoadingLines from "@/components/LoadingLines";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { AIQuotaLimits, AIUserUsage } from "@shared/schema";
+
+const featureLabels: Record<string, string> = {
+  seedTerms: "Keywords",
+  relevanceFiltering: "Relevance",
+  filterMapping: "Filters",
+  coverLetter: "Cover letters",
+  fitRanking: "Resume fit"
+};
+
+const quotaFields: Array<{ key: keyof AIQuotaLimits; label: string }> = [
+  { key: "dailyRequests", label: "Requests per day" },
+  { key: "monthlyRequests", label: "Requests per month" },
+  { key: "dailyTokens", label: "Tokens per day" },
+  { key: "monthlyTokens", label: "Tokens per month" }
+];
+
+const formatCount = (value: number) => value.toLocaleString("en-US");
+
+// "used / limit", or just "used" without a limit
+const usedOf = (used: number, limit: number | null) =>
+  limit === null ? formatCount(used) : `${formatCount(used)} / ${formatCount(limit)}`;
+
+// AI calls and tokens per user, with daily/monthly quotas an admin can set
+export function AIUsageAdminTab() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<AIUserUsage | null>(null);
+  const [draft, setDraft] = useState<Record<keyof AIQuotaLimits, string>>({
+    dailyRequests: "", monthlyRequests: "", dailyTokens: "", monthlyTokens: ""
+  });
+
+  const { data: usage, isLoading } = useQuery<AIUserUsage[]>({
+    queryKey: ["/api/admin/ai-usage"],
+    refetchInterval: 10000
+  });
+
+  const openEditor = (row: AIUserUsage) => {
+    setEditing(row);
+    setDraft({
+      dailyRequests: row.quota.dailyRequests?.toString() ?? "",
+      monthlyRequests: row.quota.monthlyRequests?.toString() ?? "",
+      dailyTokens: row.quota.dailyTokens?.toString() ?? "",
+      monthlyTokens: row.quota.monthlyTokens?.toString() ?? ""
+    });
+  };
+
+  const quotaMutation = useMutation({
+    mutationFn: async ({ userId, limits }: { userId: number; limits: AIQuotaLimits }) => {
+      const response = await apiRequest("PUT", `/api/admin/users/${userId}/ai-quota`, limits);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "AI quota saved", description: `Limits for ${editing?.username} updated` });
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ai-usage"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save AI quota", variant: "destructive" });
+    }
+  });
+
+  const draftLimits = Object.fromEntries(quotaFields.map(({ key }) => {
+    const value = draft[key].trim();
+    return [key, value === "" ? null : Number(value)];
+  })) as AIQuotaLimits;
+  const draftValid = Object.values(draftLimits).every(value => value === null || (Number.isInteger(value) && value > 0));
+
+  if (isLoading || !usage) {
+    return <LoadingLines count={4} />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI usage</CardTitle>
+        <CardDescription>
+          Provider calls and tokens per user for keywords, relevance, filter mapping, cover letters and resume fit.
+          Days and months are UTC; users over a quota get a 429 until it resets.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table data-testid="ai-usage-table">
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Requests today</TableHead>
+              <TableHead>Tokens today</TableHead>
+              <TableHead>Requests this month</TableHead>
+              <TableHead>Tokens this month</TableHead>
+              <TableHead>Avg latency</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {usage.map(row => (
+              <TableRow key={row.userId} data-testid={`ai-usage-row-${row.userId}`}>
+                <TableCell>
+                  <div className="font-medium">{row.username}</div>
+                  <div className="text-xs text-gray-500">
+                    {Object.entries(row.month.byFeature)
+                      .map(([feature, counts]) => `${featureLabels[feature] ?? feature}: ${counts.requests}`)
+                      .join(", ") || "No AI calls this month"}
+                  </div>
+                </TableCell>
+                <TableCell>{usedOf(row.today.requests, row.quota.dailyRequests)}</TableCell>
+                <TableCell>{usedOf(row.today.tokens, row.quota.dailyTokens)}</TableCell>
+                <TableCell>{usedOf(row.month.requests, row.quota.monthlyRequests)}</TableCell>
+                <TableCell>{usedOf(row.month.tokens, row.quota.monthlyTokens)}</TableCell>
+                <TableCell>{row.month.requests > 0 ? `${row.month.avgLatencyMs} ms` : "—"}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openEditor(row)}
+                    data-testid={`edit-ai-quota-${row.userId}`}
+                  >
+                    <Gauge className="mr-2 h-4 w-4" />
+                    Quota
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>AI quota for {editing?.username}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">Leave a field empty for no limit.</p>
+            {quotaFields.map(({ key, label }) => (
+              <div key={key}>
+                <Label htmlFor={`ai-quota-${key}`}>{label}</Label>
+                <Input
+                  id={`ai-quota-${key}`}
+                  type="number"
+                  min={1}
+                  value={draft[key]}
+                  onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                  placeholder="Unlimited"
+                  data-testid={`ai-quota-${key}`}
+                />
+              </div>
+            ))}
+            <Button
+              className="w-full"
+              disabled={!draftValid || quotaMutation.isPending}
+              onClick={() => editing && quotaMutation.mutate({ userId: editing.userId, limits: draftLimits })}
+              data-testid="save-ai-quota"
+            >
+              {quotaMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save quota
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -11,8 +11,12 @@ import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ArrowLeft, Plus, Edit, UserCheck, UserX, Loader2 } from "lucide-react";
 import LoadingLines from "@/components/LoadingLines";
+import { CacheAdminTab } from "@/components/CacheAdminTab";
+import { HHSchedulerAdminTab } from "@/components/HHSchedulerAdminTab";
+import { AIUsageAdminTab } from "@/components/AIUsageAdminTab";
 import { apiRequest } from "@/lib/queryClient";
 
 const createUserSchema = z.object({
@@ -155,7 +159,7 @@ export function AdminPanel({ onBack }: AdminPanelProps) {
                 Admin Panel
               </h1>
               <p className="text-gray-600 dark:text-gray-400">
-                Manage users and access
+                Manage users, AI quotas, server caches and the HH.ru queue
               </p>
             </div>
           </div>
@@ -239,87 +243,110 @@ export function AdminPanel({ onBack }: AdminPanelProps) {
 
       {/* Main Content */}
       <div className="max-w-6xl mx-auto px-4 py-8">
-        <Card>
-          <CardHeader>
-            <CardTitle>User Management</CardTitle>
-            <CardDescription>
-              Manage user accounts and permissions
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            {isLoading ? (
-              <LoadingLines count={5} />
-            ) : users && users.length > 0 ? (
-              <div className="space-y-4">
-                {users.map((user: User) => (
-                  <div key={user.id} className="border rounded-lg p-4">
-                    <div className="flex items-center justify-between">
-                      <div className="space-y-1">
-                        <div className="flex items-center gap-2">
-                          <h3 className="font-medium">{user.username}</h3>
-                          <div className="flex gap-1">
-                            {user.isAdmin && (
-                              <Badge variant="default">Admin</Badge>
-                            )}
-                            <Badge variant={user.isActive ? "default" : "secondary"}>
-                              {user.isActive ? "Active" : "Inactive"}
-                            </Badge>
+        <Tabs defaultValue="users">
+          <TabsList className="mb-4">
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="caches" data-testid="admin-tab-caches">Caches</TabsTrigger>
+            <TabsTrigger value="hh-queue" data-testid="admin-tab-hh-queue">HH.ru queue</TabsTrigger>
+            <TabsTrigger value="ai-usage" data-testid="admin-tab-ai-usage">AI usage</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="caches">
+            <CacheAdminTab />
+          </TabsContent>
+
+          <TabsContent value="hh-queue">
+            <HHSchedulerAdminTab />
+          </TabsContent>
+
+          <TabsContent value="ai-usage">
+            <AIUsageAdminTab />
+          </TabsContent>
+
+          <TabsContent value="users">
+            <Card>
+              <CardHeader>
+                <CardTitle>User Management</CardTitle>
+                <CardDescription>
+                  Manage user accounts and permissions
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <LoadingLines count={5} />
+                ) : users && users.length > 0 ? (
+                  <div className="space-y-4">
+                    {users.map((user: User) => (
+                      <div key={user.id} className="border rounded-lg p-4">
+                        <div className="flex items-center justify-between">
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              <h3 className="font-medium">{user.username}</h3>
+                              <div className="flex gap-1">
+                                {user.isAdmin && (
+                                  <Badge variant="default">Admin</Badge>
+                                )}
+                                <Badge variant={user.isActive ? "default" : "secondary"}>
+                                  {user.isActive ? "Active" : "Inactive"}
+                                </Badge>
+                              </div>
+                            </div>
+                            <div className="text-sm text-gray-600 dark:text-gray-400">
+                              <p>Created: {formatDate(user.createdAt)}</p>
+                              <p>Last login: {formatDate(user.lastLoginAt)}</p>
+                            </div>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                setSelectedUser(user);
+                                updateUserForm.reset({
+                                  username: user.username,
+                                  isActive: user.isActive
+                                });
+                              }}
+                            >
+                              <Edit className="mr-2 h-4 w-4" />
+                              Edit
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant={user.isActive ? "secondary" : "default"}
+                              onClick={() => {
+                                updateUserMutation.mutate({
+                                  userId: user.id,
+                                  data: { isActive: !user.isActive }
+                                });
+                              }}
+                            >
+                              {user.isActive ? (
+                                <>
+                                  <UserX className="mr-2 h-4 w-4" />
+                                  Deactivate
+                                </>
+                              ) : (
+                                <>
+                                  <UserCheck className="mr-2 h-4 w-4" />
+                                  Activate
+                                </>
+                              )}
+                            </Button>
                           </div>
                         </div>
-                        <div className="text-sm text-gray-600 dark:text-gray-400">
-                          <p>Created: {formatDate(user.createdAt)}</p>
-                          <p>Last login: {formatDate(user.lastLoginAt)}</p>
-                        </div>
-                      </div>
-                      <div className="flex gap-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => {
-                            setSelectedUser(user);
-                            updateUserForm.reset({
-                              username: user.username,
-                              isActive: user.isActive
-                            });
-                          }}
-                        >
-                          <Edit className="mr-2 h-4 w-4" />
-                          Edit
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant={user.isActive ? "secondary" : "default"}
-                          onClick={() => {
-                            updateUserMutation.mutate({
-                              userId: user.id,
-                              data: { isActive: !user.isActive }
-                            });
-                          }}
-                        >
-                          {user.isActive ? (
-                            <>
-                              <UserX className="mr-2 h-4 w-4" />
-                              Deactivate
-                            </>
-                          ) : (
-                            <>
-                              <UserCheck className="mr-2 h-4 w-4" />
-                              Activate
-                            </>
-                          )}
-                        </Button>
                       </div>
-                    </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            ) : (
-              <p className="text-center text-gray-500 py-8">
-                No users found.
-              </p>
-            )}
-          </CardContent>
-        </Card>
+                ) : (
+                  <p className="text-center text-gray-500 py-8">
+                    No users found.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
 
         {/* Edit User Dialog */}
         <Dialog open={!!selectedUser} onOpenChange={() => setSelectedUser(null)}>
@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { KanbanSquare, History, Loader2 } from "lucide-react";
+import LoadingLines from "@/components/LoadingLines";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  appliedVacancyStatuses,
+  type AppliedVacancyStatus
+} from "@shared/schema";
+
+interface PipelineItem {
+  id: number;
+  vacancyId: string;
+  vacancyTitle: string;
+  companyName: string;
+  appliedAt: string;
+  status: AppliedVacancyStatus;
+  statusUpdatedAt: string;
+  allowedTransitions: AppliedVacancyStatus[];
+}
+
+interface StatusHistoryResponse {
+  id: number;
+  status: AppliedVacancyStatus;
+  history: Array<{
+    id: number;
+    fromStatus: AppliedVacancyStatus | null;
+    toStatus: AppliedVacancyStatus;
+    note: string | null;
+    changedAt: string;
+  }>;
+}
+
+interface PendingTransition {
+  item: PipelineItem;
+  status: AppliedVacancyStatus;
+}
+
+const statusLabels: Record<AppliedVacancyStatus, string> = {
+  applied: "Applied",
+  viewed: "Viewed",
+  invited: "Invited",
+  interview: "Interview",
+  offer: "Offer",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn"
+};
+
+const statusColors: Record<AppliedVacancyStatus, string> = {
+  applied: "bg-blue-500",
+  viewed: "bg-sky-500",
+  invited: "bg-amber-500",
+  interview: "bg-purple-500",
+  offer: "bg-green-600",
+  rejected: "bg-red-500",
+  withdrawn: "bg-gray-400"
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+function StatusHistory({ appliedVacancyId }: { appliedVacancyId: number }) {
+  const { data, isLoading } = useQuery<StatusHistoryResponse>({
+    queryKey: ["/api/applied-vacancies", appliedVacancyId, "status"],
+    staleTime: 0
+  });
+
+  if (isLoading) {
+    return <LoadingLines count={1} />;
+  }
+
+  if (!data || data.history.length === 0) {
+    return <p className="text-xs text-gray-500">No history yet</p>;
+  }
+
+  return (
+    <ol className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+      {data.history.map((change) => (
+        <li key={change.id}>
+          <span className="font-medium">{statusLabels[change.toStatus]}</span>
+          {" · "}
+          {formatDate(change.changedAt)}
+          {change.note && <p className="italic ml-2">{change.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export function ApplicationPipelineBoard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pendingTransition, setPendingTransition] = useState<PendingTransition | null>(null);
+  const [note, setNote] = useState("");
+  const [expandedHistoryId, setExpandedHistoryId] = useState<number | null>(null);
+
+  const { data: items, isLoading } = useQuery<PipelineItem[]>({
+    queryKey: ["/api/applied-vacancies/pipeline"],
+    staleTime: 30000
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status, note }: { id: number; status: AppliedVacancyStatus; note?: string }) => {
+      const response = await apiRequest("POST", `/api/applied-vacancies/${id}/status`, { status, note });
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/applied-vacancies/pipeline"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/applied-vacancies", variables.id, "status"] });
+      setPendingTransition(null);
+      setNote("");
+      toast({ description: `Moved to ${statusLabels[variables.status]}` });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update application status",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleConfirmTransition = () => {
+    if (!pendingTransition) return;
+    updateStatusMutation.mutate({
+      id: pendingTransition.item.id,
+      status: pendingTransition.status,
+      note: note.trim() || undefined
+    });
+  };
+
+  const columns = appliedVacancyStatuses.map(status => ({
+    status,
+    items: (items || []).filter(item => item.status === status)
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KanbanSquare className="h-5 w-5 text-purple-600" />
+          Application Pipeline
+        </CardTitle>
+        <CardDescription>
+          Track every vacancy you applied to, from the first response to an offer
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <LoadingLines count={3} />
+        ) : !items || items.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+            Applications appear here once you apply to a vacancy in Step 4
+          </p>
+        ) : (
+          <div className="flex gap-3 overflow-x-auto pb-2" data-testid="pipeline-board">
+            {columns.map(column => (
+              <div
+                key={column.status}
+                className="flex-shrink-0 w-56 bg-gray-50 dark:bg-gray-800 rounded-lg p-2"
+                data-testid={`pipeline-column-${column.status}`}
+              >
+                <div className="flex items-center justify-between mb-2 px-1">
+                  <span className="flex items-center gap-2 text-sm font-medium">
+                    <span className={`w-2 h-2 rounded-full ${statusColors[column.status]}`} />
+                    {statusLabels[column.status]}
+                  </span>
+                  <Badge variant="secondary" className="text-xs">{column.items.length}</Badge>
+                </div>
+                <div className="space-y-2">
+                  {column.items.map(item => (
+                    <div
+                      key={item.id}
+                      className="bg-white dark:bg-gray-900 border rounded-md p-2 space-y-2"
+                      data-testid={`pipeline-card-${item.id}`}
+                    >
+                      <div>
+                        <p className="text-sm font-medium leading-tight">{item.vacancyTitle}</p>
+                        <p className="text-xs text-gray-500">{item.companyName}</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          Since {formatDate(item.statusUpdatedAt)}
+                        </p>
+                      </div>
+                      {item.allowedTransitions.length > 0 && (
+                        <Select
+                          value=""
+                          onValueChange={(status) => setPendingTransition({ item, status: status as AppliedVacancyStatus })}
+                        >
+                          <SelectTrigger className="h-7 text-xs">
+                            <SelectValue placeholder="Move to…" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {item.allowedTransitions.map(status => (
+                              <SelectItem key={status} value={status}>
+                                {statusLabels[status]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-1 text-xs text-gray-500"
+                        onClick={() => setExpandedHistoryId(expandedHistoryId === item.id ? null : item.id)}
+                      >
+                        <History className="mr-1 h-3 w-3" />
+                        {expandedHistoryId === item.id ? "Hide history" : "History"}
+                      </Button>
+                      {expandedHistoryId === item.id && <StatusHistory appliedVacancyId={item.id} />}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!pendingTransition} onOpenChange={(open) => !open && setPendingTransition(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Move to {pendingTransition ? statusLabels[pendingTransition.status] : ""}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              {pendingTransition?.item.vacancyTitle} · {pendingTransition?.item.companyName}
+            </p>
+            <Label htmlFor="pipeline-note">Note (optional)</Label>
+            <Textarea
+              id="pipeline-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Interview scheduled for Monday 11:00"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingTransition(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmTransition} disabled={updateStatusMutation.isPending}>
+              {updateStatusMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
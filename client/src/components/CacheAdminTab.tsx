@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Flame, KeyRound, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import LoadingLines from "@/components/LoadingLines";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { CacheInvalidateResponse, CacheKeysResponse, CacheSummary } from "@shared/schema";
+
+const formatDuration = (ms: number) => {
+  const abs = Math.abs(ms);
+  const text = abs >= 3600000 ? `${Math.round(abs / 3600000)}h`
+    : abs >= 60000 ? `${Math.round(abs / 60000)}m`
+    : `${Math.round(abs / 1000)}s`;
+  return ms < 0 ? `stale ${text}` : text;
+};
+
+const hitRate = (cache: CacheSummary) => {
+  const lookups = cache.hits + cache.staleHits + cache.misses;
+  return lookups === 0 ? "—" : `${Math.round(((cache.hits + cache.staleHits) / lookups) * 100)}%`;
+};
+
+// Server cache stats, key inspection, invalidation by prefix and warming
+export function CacheAdminTab() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [inspected, setInspected] = useState<string | null>(null);
+  const [keyFilter, setKeyFilter] = useState("");
+  const [invalidateCache, setInvalidateCache] = useState("");
+  const [invalidatePrefix, setInvalidatePrefix] = useState("");
+
+  const { data: caches, isLoading, isFetching, refetch } = useQuery<CacheSummary[]>({
+    queryKey: ["/api/admin/caches"]
+  });
+
+  const { data: keys, isFetching: isLoadingKeys } = useQuery<CacheKeysResponse>({
+    queryKey: [`/api/admin/caches/${inspected}/keys?prefix=${encodeURIComponent(keyFilter)}`],
+    enabled: !!inspected
+  });
+
+  const refreshAll = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/caches"] });
+    if (inspected) {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/caches/${inspected}/keys?prefix=${encodeURIComponent(keyFilter)}`] });
+    }
+  };
+
+  const invalidateMutation = useMutation({
+    mutationFn: async ({ cache, prefix }: { cache?: string; prefix: string }) => {
+      const response = await apiRequest("POST", "/api/admin/caches/invalidate", { cache, prefix });
+      return response.json() as Promise<CacheInvalidateResponse>;
+    },
+    onSuccess: ({ invalidated }) => {
+      const total = Object.values(invalidated).reduce((sum, count) => sum + count, 0);
+      toast({ title: "Cache invalidated", description: `${total} in-process entries removed` });
+      refreshAll();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to invalidate cache", variant: "destructive" });
+    }
+  });
+
+  const warmMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", `/api/admin/caches/${name}/warm`);
+      return response.json();
+    },
+    onSuccess: (_data, name) => {
+      toast({ title: "Cache warmed", description: `${name} reloaded from HH.ru` });
+      refreshAll();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to warm cache", variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Caches</CardTitle>
+            <CardDescription>Counters since the server started</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <LoadingLines count={5} />
+          ) : (
+            <Table data-testid="cache-table">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Cache</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>TTL</TableHead>
+                  <TableHead>Hits</TableHead>
+                  <TableHead>Misses</TableHead>
+                  <TableHead>Hit rate</TableHead>
+                  <TableHead>Evictions</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(caches || []).map(cache => (
+                  <TableRow key={cache.name} data-testid={`cache-row-${cache.name}`}>
+                    <TableCell>
+                      <div className="font-medium">{cache.name}</div>
+                      <div className="flex gap-1 mt-1">
+                        <Badge variant="outline" className="font-normal">{cache.kind}</Badge>
+                        {cache.backend !== "memory" && (
+                          <Badge variant="secondary" className="font-normal">{cache.backend}</Badge>
+                        )}
+                        {cache.backendErrors > 0 && (
+                          <Badge variant="destructive" className="font-normal">{cache.backendErrors} backend errors</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{cache.size} / {cache.maxSize}</TableCell>
+                    <TableCell>
+                      {formatDuration(cache.ttlMs)}
+                      {cache.staleMs > 0 && <span className="text-gray-500"> +{formatDuration(cache.staleMs)} stale</span>}
+                    </TableCell>
+                    <TableCell>
+                      {cache.hits}
+                      {cache.staleHits > 0 && <span className="text-gray-500"> (+{cache.staleHits} stale)</span>}
+                    </TableCell>
+                    <TableCell>{cache.misses}</TableCell>
+                    <TableCell>{hitRate(cache)}</TableCell>
+                    <TableCell>{cache.evictions}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant={inspected === cache.name ? "secondary" : "ghost"}
+                          size="sm"
+                          onClick={() => setInspected(inspected === cache.name ? null : cache.name)}
+                        >
+                          <KeyRound className="mr-1 h-4 w-4" />
+                          Keys
+                        </Button>
+                        {cache.warmable && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => warmMutation.mutate(cache.name)}
+                            disabled={warmMutation.isPending}
+                            data-testid={`cache-warm-${cache.name}`}
+                          >
+                            <Flame className="mr-1 h-4 w-4" />
+                            Warm
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => invalidateMutation.mutate({ cache: cache.name, prefix: "" })}
+                          disabled={invalidateMutation.isPending}
+                          data-testid={`cache-clear-${cache.name}`}
+                        >
+                          <Trash2 className="mr-1 h-4 w-4" />
+                          Clear
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Invalidate by prefix</CardTitle>
+          <CardDescription>
+            E.g. <code>vacancy:</code> in vacancy-details or <code>ai-keywords-ru:</code> in suggestions. Leave the cache empty to search all of them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              invalidateMutation.mutate({ cache: invalidateCache || undefined, prefix: invalidatePrefix });
+            }}
+          >
+            <select
+              className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+              value={invalidateCache}
+              onChange={(e) => setInvalidateCache(e.target.value)}
+              data-testid="cache-invalidate-select"
+            >
+              <option value="">All caches</option>
+              {(caches || []).map(cache => (
+                <option key={cache.name} value={cache.name}>{cache.name}</option>
+              ))}
+            </select>
+            <Input
+              value={invalidatePrefix}
+              onChange={(e) => setInvalidatePrefix(e.target.value)}
+              placeholder="Key prefix"
+              data-testid="cache-invalidate-prefix"
+            />
+            <Button type="submit" variant="destructive" disabled={!invalidatePrefix || invalidateMutation.isPending}>
+              {invalidateMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              Invalidate
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {inspected && (
+        <Card data-testid="cache-keys">
+          <CardHeader>
+            <CardTitle>Keys in {inspected}</CardTitle>
+            <CardDescription>In-process entries only; a persistent backend may hold more</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input
+              value={keyFilter}
+              onChange={(e) => setKeyFilter(e.target.value)}
+              placeholder="Filter by prefix"
+            />
+            {isLoadingKeys && !keys ? (
+              <LoadingLines count={3} />
+            ) : keys && keys.keys.length > 0 ? (
+              <>
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {keys.keys.map(info => (
+                    <li key={info.key} className="flex items-center justify-between py-2">
+                      <code className="truncate mr-4">{info.key}</code>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className={info.ttlRemainingMs < 0 ? "text-amber-600" : "text-gray-500"}>
+                          {formatDuration(info.ttlRemainingMs)}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => invalidateMutation.mutate({ cache: inspected, prefix: info.key })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                {keys.total > keys.keys.length && (
+                  <p className="text-xs text-gray-500">Showing {keys.keys.length} of {keys.total}</p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">No keys</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
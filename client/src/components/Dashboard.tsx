@@ -1,12 +1,18 @@
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { PlusCircle, LogOut, Settings, Trash2, Clock, Calendar } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PlusCircle, LogOut, Settings, Trash2, Clock, Calendar, Eye, ExternalLink, FileText, Building2 } from "lucide-react";
 import { useWizardStore } from "@/state/wizard";
 import LoadingLines from "@/components/LoadingLines";
+import { ApplicationPipelineBoard } from "@/components/ApplicationPipelineBoard";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 
 interface User {
   id: number;
@@ -26,14 +32,31 @@ interface JobApplication {
   currentVacancyIndex: number;
   vacancies: any[];
   totalVacancies: number;
+  isWatched: boolean;
+  watchIntervalMinutes: number;
+  lastRunAt: string | null;
+  newVacancies: Array<{
+    id: string;
+    name: string;
+    employer?: { name?: string };
+    alternate_url?: string;
+  }>;
 }
 
+const watchIntervalOptions = [
+  { minutes: 60, label: "Every hour" },
+  { minutes: 6 * 60, label: "Every 6 hours" },
+  { minutes: 24 * 60, label: "Daily" }
+];
+
 interface DashboardProps {
   user: User;
   onLogout: () => void;
   onStartNewApplication: () => void;
   onContinueApplication: (application: JobApplication) => void;
   onAdminPanel: () => void;
+  onProfiles: () => void;
+  onEmployers: () => void;
 }
 
 export function Dashboard({ 
@@ -41,10 +64,13 @@ export function Dashboard({
   onLogout, 
   onStartNewApplication, 
   onContinueApplication,
-  onAdminPanel 
+  onAdminPanel,
+  onProfiles,
+  onEmployers
 }: DashboardProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [expandedNewId, setExpandedNewId] = useState<number | null>(null);
   
   const { data: applications, isLoading } = useQuery<JobApplication[]>({
     queryKey: ["/api/applications"],
@@ -75,6 +101,35 @@ export function Dashboard({
     }
   });
 
+  const watchMutation = useMutation({
+    mutationFn: async ({ id, isWatched, intervalMinutes }: { id: number; isWatched: boolean; intervalMinutes?: number }) => {
+      const response = await apiRequest("POST", `/api/applications/${id}/watch`, { isWatched, intervalMinutes });
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
+      toast({ description: variables.isWatched ? "Watching for new vacancies" : "Stopped watching this search" });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update watch settings",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const markSeenMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/applications/${id}/new-vacancies`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
+      setExpandedNewId(null);
+    }
+  });
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString(undefined, {
       month: 'short',
@@ -129,6 +184,14 @@ export function Dashboard({
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={onProfiles}>
+              <FileText className="mr-2 h-4 w-4" />
+              Profiles
+            </Button>
+            <Button variant="outline" onClick={onEmployers}>
+              <Building2 className="mr-2 h-4 w-4" />
+              Employers
+            </Button>
             {user.isAdmin && (
               <Button variant="outline" onClick={onAdminPanel}>
                 <Settings className="mr-2 h-4 w-4" />
@@ -202,7 +265,18 @@ export function Dashboard({
                     <CardHeader>
                       <div className="flex items-start justify-between">
                         <div className="flex-1">
-                          <CardTitle className="text-lg">{app.title}</CardTitle>
+                          <CardTitle className="text-lg flex items-center gap-2">
+                            {app.title}
+                            {app.isWatched && app.newVacancies.length > 0 && (
+                              <Badge
+                                className="bg-green-600 hover:bg-green-700 cursor-pointer text-xs"
+                                onClick={() => setExpandedNewId(expandedNewId === app.id ? null : app.id)}
+                                data-testid={`badge-new-vacancies-${app.id}`}
+                              >
+                                {app.newVacancies.length} new
+                              </Badge>
+                            )}
+                          </CardTitle>
                           <CardDescription className="mt-1">
                             <div className="flex items-center gap-4 text-sm">
                               <span className="flex items-center gap-1">
@@ -274,6 +348,82 @@ export function Dashboard({
                           </div>
                         )}
 
+                        {/* Watched search */}
+                        {app.currentStep === 4 && (
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="flex items-center space-x-2">
+                              <Switch
+                                id={`watch-${app.id}`}
+                                checked={app.isWatched}
+                                onCheckedChange={(checked) => watchMutation.mutate({ id: app.id, isWatched: checked })}
+                                disabled={watchMutation.isPending}
+                              />
+                              <Label htmlFor={`watch-${app.id}`} className="flex items-center gap-1 text-sm">
+                                <Eye className="h-3 w-3" />
+                                Watch for new vacancies
+                              </Label>
+                            </div>
+                            {app.isWatched && (
+                              <Select
+                                value={String(app.watchIntervalMinutes)}
+                                onValueChange={(value) => watchMutation.mutate({ id: app.id, isWatched: true, intervalMinutes: parseInt(value) })}
+                              >
+                                <SelectTrigger className="h-8 w-36 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {watchIntervalOptions.map(option => (
+                                    <SelectItem key={option.minutes} value={String(option.minutes)}>
+                                      {option.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </div>
+                        )}
+                        {app.isWatched && (
+                          <p className="text-xs text-gray-500">
+                            {app.lastRunAt ? `Last checked ${formatDate(app.lastRunAt)}` : "First check pending"}
+                          </p>
+                        )}
+
+                        {/* New vacancies since the last acknowledged run */}
+                        {expandedNewId === app.id && app.newVacancies.length > 0 && (
+                          <div className="border rounded-md p-3 space-y-2">
+                            <ul className="space-y-1 text-sm">
+                              {app.newVacancies.map(vacancy => (
+                                <li key={vacancy.id} className="flex items-center justify-between gap-2">
+                                  <span>
+                                    <span className="font-medium">{vacancy.name}</span>
+                                    {vacancy.employer?.name && (
+                                      <span className="text-gray-500"> · {vacancy.employer.name}</span>
+                                    )}
+                                  </span>
+                                  {vacancy.alternate_url && (
+                                    <a
+                                      href={vacancy.alternate_url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="text-blue-600 hover:text-blue-700"
+                                    >
+                                      <ExternalLink className="h-3 w-3" />
+                                    </a>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => markSeenMutation.mutate(app.id)}
+                              disabled={markSeenMutation.isPending}
+                            >
+                              Mark as seen
+                            </Button>
+                          </div>
+                        )}
+
                         {/* Continue Button */}
                         <Button 
                           onClick={() => onContinueApplication(app)}
@@ -293,6 +443,11 @@ export function Dashboard({
               </div>
             )}
           </div>
+
+          <Separator />
+
+          {/* Application Pipeline Section */}
+          <ApplicationPipelineBoard />
         </div>
       </div>
     </div>
@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Ban, Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { EmployerListEntry, EmployerListKind } from "@shared/schema";
+
+interface EmployerListButtonsProps {
+  employerId: string;
+  employerName: string;
+  // Lets Step 4 drop the employer's vacancies without waiting for a new search
+  onBlocked?: (employerId: string) => void;
+}
+
+// Block / favorite toggles on the Step 4 vacancy card
+export function EmployerListButtons({ employerId, employerName, onBlocked }: EmployerListButtonsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: entries } = useQuery<EmployerListEntry[]>({
+    queryKey: ["/api/employer-lists"]
+  });
+  const current = entries?.find(entry => entry.employerId === employerId)?.kind;
+
+  const listMutation = useMutation({
+    mutationFn: async (kind: EmployerListKind | null) => {
+      const response = kind
+        ? await apiRequest("PUT", `/api/employer-lists/${employerId}`, { kind, employerName })
+        : await apiRequest("DELETE", `/api/employer-lists/${employerId}`);
+      return response.json();
+    },
+    onSuccess: (_data, kind) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employer-lists"] });
+      // Rankings already on screen stay put; the next search page or rerun picks the lists up
+      queryClient.invalidateQueries({ queryKey: ["/api/vacancies/tiered"], refetchType: "none" });
+      if (kind === "blocked") {
+        onBlocked?.(employerId);
+        toast({ description: `${employerName} is blocked and won't show up in results` });
+      } else if (kind === "favorite") {
+        toast({ description: `${employerName} will be ranked higher in your searches` });
+      } else {
+        toast({ description: `${employerName} removed from your employer lists` });
+      }
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update employer lists", variant: "destructive" });
+    }
+  });
+
+  const toggle = (kind: EmployerListKind) => listMutation.mutate(current === kind ? null : kind);
+
+  return (
+    <div className="flex items-center gap-1" data-testid="employer-list-buttons">
+      <Button
+        variant={current === "favorite" ? "secondary" : "ghost"}
+        size="sm"
+        onClick={() => toggle("favorite")}
+        disabled={listMutation.isPending}
+        data-testid="employer-favorite"
+      >
+        <Heart className={`mr-1 h-4 w-4 ${current === "favorite" ? "fill-current text-rose-500" : ""}`} />
+        {current === "favorite" ? "Favorite" : "Add to favorites"}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-red-600"
+        onClick={() => toggle("blocked")}
+        disabled={listMutation.isPending}
+        data-testid="employer-block"
+      >
+        <Ban className="mr-1 h-4 w-4" />
+        {current === "blocked" ? "Unblock" : "Block employer"}
+      </Button>
+    </div>
+  );
+}
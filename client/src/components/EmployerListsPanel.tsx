@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Ban, Heart, Search, Trash2 } from "lucide-react";
+import LoadingLines from "@/components/LoadingLines";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { EmployerListEntry, EmployerListKind, HHEmployerSearchResult } from "@shared/schema";
+
+interface EmployerListsPanelProps {
+  onBack: () => void;
+}
+
+const listTitles: Record<EmployerListKind, { title: string; description: string; empty: string }> = {
+  favorite: {
+    title: "Favorite employers",
+    description: "Vacancies from these employers are ranked higher",
+    empty: "No favorites yet"
+  },
+  blocked: {
+    title: "Blocked employers",
+    description: "Vacancies from these employers never show up in results",
+    empty: "Nobody is blocked"
+  }
+};
+
+export function EmployerListsPanel({ onBack }: EmployerListsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [searchText, setSearchText] = useState("");
+  const [submittedText, setSubmittedText] = useState("");
+
+  const { data: entries, isLoading } = useQuery<EmployerListEntry[]>({
+    queryKey: ["/api/employer-lists"]
+  });
+
+  const { data: employers, isFetching: isSearching } = useQuery<HHEmployerSearchResult[]>({
+    queryKey: [`/api/employers/search?text=${encodeURIComponent(submittedText)}`],
+    enabled: submittedText.length >= 2
+  });
+
+  const invalidateLists = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/employer-lists"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/vacancies/tiered"] });
+  };
+
+  const upsertMutation = useMutation({
+    mutationFn: async ({ employer, kind }: { employer: { id: string; name: string }; kind: EmployerListKind }) => {
+      const response = await apiRequest("PUT", `/api/employer-lists/${employer.id}`, { kind, employerName: employer.name });
+      return response.json();
+    },
+    onSuccess: invalidateLists,
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update employer lists", variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (employerId: string) => {
+      const response = await apiRequest("DELETE", `/api/employer-lists/${employerId}`);
+      return response.json();
+    },
+    onSuccess: invalidateLists
+  });
+
+  const kindOf = (employerId: string) => entries?.find(entry => entry.employerId === employerId)?.kind;
+
+  const renderList = (kind: EmployerListKind) => {
+    const listed = (entries || []).filter(entry => entry.kind === kind);
+    return (
+      <Card key={kind} data-testid={`employer-list-${kind}`}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {kind === "favorite" ? <Heart className="h-5 w-5 text-rose-500" /> : <Ban className="h-5 w-5 text-red-600" />}
+            {listTitles[kind].title}
+          </CardTitle>
+          <CardDescription>{listTitles[kind].description}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {listed.length === 0 ? (
+            <p className="text-sm text-gray-500">{listTitles[kind].empty}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {listed.map(entry => (
+                <li key={entry.employerId} className="flex items-center justify-between py-2">
+                  <a
+                    href={`https://hh.ru/employer/${entry.employerId}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-gray-800 hover:underline"
+                  >
+                    {entry.employerName}
+                  </a>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600"
+                    onClick={() => deleteMutation.mutate(entry.employerId)}
+                    data-testid={`employer-remove-${entry.employerId}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="border-b bg-white dark:bg-gray-800">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Employers
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Block staffing agencies and employers you've ruled out, favorite the ones you like
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Find an employer on HH.ru</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setSubmittedText(searchText.trim());
+              }}
+            >
+              <Input
+                value={searchText}
+                onChange={(e) => setSearchText(e.target.value)}
+                placeholder="Company name"
+                data-testid="employer-search-input"
+              />
+              <Button type="submit" disabled={searchText.trim().length < 2 || isSearching}>
+                <Search className="mr-2 h-4 w-4" />
+                Search
+              </Button>
+            </form>
+            {submittedText && employers && (
+              employers.length === 0 ? (
+                <p className="text-sm text-gray-500">No employers found for "{submittedText}"</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {employers.map(employer => (
+                    <li key={employer.id} className="flex items-center justify-between py-2" data-testid={`employer-result-${employer.id}`}>
+                      <div className="text-sm">
+                        <span className="text-gray-800">{employer.name}</span>
+                        {employer.open_vacancies !== undefined && (
+                          <span className="text-gray-500"> · {employer.open_vacancies} open vacancies</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant={kindOf(employer.id) === "favorite" ? "secondary" : "ghost"}
+                          size="sm"
+                          onClick={() => upsertMutation.mutate({ employer, kind: "favorite" })}
+                        >
+                          <Heart className="mr-1 h-4 w-4" />
+                          Favorite
+                        </Button>
+                        <Button
+                          variant={kindOf(employer.id) === "blocked" ? "secondary" : "ghost"}
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => upsertMutation.mutate({ employer, kind: "blocked" })}
+                        >
+                          <Ban className="mr-1 h-4 w-4" />
+                          Block
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+          </CardContent>
+        </Card>
+
+        {isLoading ? <LoadingLines count={3} /> : (["blocked", "favorite"] as const).map(renderList)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Building2, CheckCircle, ExternalLink, Loader2 } from "lucide-react";
+import type { EmployerVacanciesResponse, HHEmployer } from "@shared/schema";
+
+interface EmployerPanelProps {
+  employerId: string;
+  currentVacancyId: string;
+}
+
+// How many of the employer's other vacancies are listed before "show all"
+const COLLAPSED_VACANCIES = 5;
+
+// Who the employer is and what else they're hiring for, under the vacancy card
+export function EmployerPanel({ employerId, currentVacancyId }: EmployerPanelProps) {
+  const [showAll, setShowAll] = useState(false);
+  const [showDescription, setShowDescription] = useState(false);
+
+  const { data: employer, isLoading } = useQuery<HHEmployer>({
+    queryKey: [`/api/employers/${employerId}`],
+    staleTime: 60 * 60 * 1000
+  });
+
+  const { data: vacancies } = useQuery<EmployerVacanciesResponse>({
+    queryKey: [`/api/employers/${employerId}/vacancies`],
+    staleTime: 10 * 60 * 1000
+  });
+
+  if (isLoading) {
+    return (
+      <div className="mb-8 text-sm text-slate-500 flex items-center">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading employer...
+      </div>
+    );
+  }
+
+  if (!employer) return null;
+
+  const others = (vacancies?.items || []).filter(vacancy => vacancy.id !== currentVacancyId);
+  const shown = showAll ? others : others.slice(0, COLLAPSED_VACANCIES);
+  const logo = employer.logo_urls?.["90"] || employer.logo_urls?.original;
+
+  return (
+    <div className="mb-8 p-4 rounded-lg border border-slate-200" data-testid="employer-panel">
+      <div className="flex items-start gap-3 mb-3">
+        {logo ? (
+          <img src={logo} alt="" className="h-12 w-12 rounded object-contain" />
+        ) : (
+          <Building2 className="h-12 w-12 p-2 text-slate-400" />
+        )}
+        <div className="flex-1">
+          <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            {employer.name}
+            {employer.trusted && (
+              <Badge variant="secondary" className="font-normal" data-testid="employer-trusted">
+                <CheckCircle className="mr-1 h-3 w-3 text-green-600" />
+                Verified
+              </Badge>
+            )}
+          </h3>
+          <div className="text-sm text-slate-600">
+            {[employer.area?.name, employer.open_vacancies !== null ? `${employer.open_vacancies} open vacancies` : null]
+              .filter(Boolean)
+              .join(" · ")}
+          </div>
+          {employer.industries.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {employer.industries.map(industry => (
+                <Badge key={industry.id} variant="outline" className="font-normal">{industry.name}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+        {employer.alternate_url && (
+          <a
+            href={employer.alternate_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+          >
+            HH.ru
+            <ExternalLink className="ml-1 h-3 w-3" />
+          </a>
+        )}
+      </div>
+
+      {employer.descriptionHtmlSanitized && (
+        <div className="mb-3">
+          <div
+            className={`prose prose-sm max-w-none text-slate-700 ${showDescription ? "" : "line-clamp-3"}`}
+            dangerouslySetInnerHTML={{ __html: employer.descriptionHtmlSanitized }}
+          />
+          <Button variant="link" size="sm" className="px-0" onClick={() => setShowDescription(!showDescription)}>
+            {showDescription ? "Show less" : "About the company"}
+          </Button>
+        </div>
+      )}
+
+      {others.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-slate-700 mb-2">Other open vacancies</h4>
+          <ul className="divide-y divide-slate-100 text-sm" data-testid="employer-vacancies">
+            {shown.map(vacancy => (
+              <li key={vacancy.id} className="flex items-center justify-between py-2">
+                <a
+                  href={vacancy.alternate_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-slate-800 hover:underline"
+                >
+                  {vacancy.name}
+                </a>
+                <span className="text-xs text-slate-500 shrink-0 ml-4">{vacancy.area.name}</span>
+              </li>
+            ))}
+          </ul>
+          {others.length > COLLAPSED_VACANCIES && (
+            <Button variant="link" size="sm" className="px-0" onClick={() => setShowAll(!showAll)}>
+              {showAll ? "Show fewer" : `Show all ${others.length}`}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
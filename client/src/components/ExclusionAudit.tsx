@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Minus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { ExcludedVacancy, ExclusionField } from "@shared/schema";
+
+interface ExclusionAuditProps {
+  excluded: ExcludedVacancy[];
+}
+
+const fieldLabels: Record<ExclusionField, string> = {
+  title: "title",
+  snippet: "snippet",
+  skills: "key skills",
+  description: "description"
+};
+
+// Which exclude word hid which vacancy, so an over-eager word is easy to spot
+export function ExclusionAudit({ excluded }: ExclusionAuditProps) {
+  const [open, setOpen] = useState(false);
+
+  const countsByWord = new Map<string, number>();
+  for (const vacancy of excluded) {
+    countsByWord.set(vacancy.word, (countsByWord.get(vacancy.word) || 0) + 1);
+  }
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="bg-white rounded-2xl shadow-lg p-6" data-testid="exclusion-audit">
+      <CollapsibleTrigger className="flex w-full items-center justify-between text-left">
+        <div className="flex items-center gap-2">
+          <Minus className="h-5 w-5 text-red-500" />
+          <span className="font-semibold text-slate-800">
+            {excluded.length} {excluded.length === 1 ? "vacancy" : "vacancies"} hidden by exclude words
+          </span>
+          {Array.from(countsByWord.entries()).map(([word, count]) => (
+            <Badge key={word} variant="secondary" className="font-normal">
+              {word} · {count}
+            </Badge>
+          ))}
+        </div>
+        {open ? <ChevronDown className="h-4 w-4 text-slate-500" /> : <ChevronRight className="h-4 w-4 text-slate-500" />}
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="mt-4 divide-y divide-slate-100 text-sm">
+          {excluded.map(vacancy => (
+            <li key={vacancy.id} className="flex items-center justify-between py-2" data-testid={`excluded-${vacancy.id}`}>
+              <div>
+                <span className="text-slate-800">{vacancy.name}</span>
+                {vacancy.employerName && <span className="text-slate-500"> · {vacancy.employerName}</span>}
+              </div>
+              <span className="text-xs text-slate-500 shrink-0 ml-4">
+                "{vacancy.word}" in {fieldLabels[vacancy.field]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import LoadingLines from "@/components/LoadingLines";
+import type { HHPriority, HHSchedulerMetrics } from "@shared/schema";
+
+const priorityLabels: Record<HHPriority, string> = {
+  interactive: "Interactive (vacancy details, suggestions)",
+  search: "Search pages",
+  background: "Background (prefetch, watched searches)"
+};
+
+// Live view of the shared HH.ru request scheduler
+export function HHSchedulerAdminTab() {
+  const { data: metrics, isLoading } = useQuery<HHSchedulerMetrics>({
+    queryKey: ["/api/admin/hh-scheduler"],
+    refetchInterval: 2000
+  });
+
+  if (isLoading || !metrics) {
+    return <LoadingLines count={4} />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          HH.ru request queue
+          {metrics.backoffRemainingMs > 0 && (
+            <Badge variant="destructive" data-testid="hh-backoff">
+              Backing off {Math.ceil(metrics.backoffRemainingMs / 1000)}s
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          {metrics.ratePerSecond} requests/s, bursts of {metrics.burst}, at most {metrics.maxConcurrent} at once.
+          {" "}{metrics.inFlight} in flight, {metrics.tokens} tokens left, {metrics.backoffs} Retry-After backoffs so far.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table data-testid="hh-scheduler-table">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Priority</TableHead>
+              <TableHead>Queued</TableHead>
+              <TableHead>Started</TableHead>
+              <TableHead>Avg wait</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(Object.keys(priorityLabels) as HHPriority[]).map(priority => (
+              <TableRow key={priority}>
+                <TableCell>{priorityLabels[priority]}</TableCell>
+                <TableCell>{metrics.queued[priority]}</TableCell>
+                <TableCell>{metrics.started[priority]}</TableCell>
+                <TableCell>{metrics.avgWaitMs[priority]} ms</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-gray-500 mt-2">Deepest queue since start: {metrics.maxQueued}</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,7 +13,7 @@ import {
   AlertCircle
 } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, responseErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import LoadingLines from "@/components/LoadingLines";
@@ -292,7 +292,9 @@ ${jobInfo.description}`;
         body: JSON.stringify(requestData),
         credentials: 'include'
       });
-      if (!response.ok) throw new Error('Failed to generate cover letter');
+      if (!response.ok) {
+        throw new Error(await responseErrorMessage(response, 'Please try again or check your internet connection.'));
+      }
       return response.json() as Promise<{ text: string }>;
     },
     onSuccess: (data) => {
@@ -315,7 +317,7 @@ ${jobInfo.description}`;
       setIsGenerating(false);
       toast({ 
         title: "Failed to generate cover letter", 
-        description: "Please try again or check your internet connection.",
+        description: error.message,
         variant: "destructive" 
       });
       console.error('Cover letter generation error:', error);
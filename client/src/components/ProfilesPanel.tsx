@@ -0,0 +1,312 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Plus, Upload, Edit, Trash2, Star, Loader2 } from "lucide-react";
+import LoadingLines from "@/components/LoadingLines";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ProfileSourceType } from "@shared/schema";
+
+interface Profile {
+  id: number;
+  name: string;
+  content: string;
+  skills: string[];
+  sourceType: ProfileSourceType;
+  isDefault: boolean;
+  updatedAt: string;
+}
+
+interface ProfilesPanelProps {
+  onBack: () => void;
+}
+
+interface ProfileDraft {
+  id?: number;
+  name: string;
+  content: string;
+  skills: string;
+}
+
+const emptyDraft: ProfileDraft = { name: "", content: "", skills: "" };
+
+const parseSkills = (value: string) =>
+  value.split(",").map(skill => skill.trim()).filter(Boolean);
+
+const formatFromFileName = (fileName: string): ProfileSourceType => {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".pdf")) return "pdf";
+  if (lower.endsWith(".md") || lower.endsWith(".markdown")) return "markdown";
+  return "text";
+};
+
+// PDFs travel as base64, text formats as-is
+const readFileForImport = (file: File, format: ProfileSourceType): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    if (format === "pdf") {
+      reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+      reader.readAsDataURL(file);
+    } else {
+      reader.onload = () => resolve(String(reader.result));
+      reader.readAsText(file);
+    }
+  });
+
+export function ProfilesPanel({ onBack }: ProfilesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+
+  const { data: profiles, isLoading } = useQuery<Profile[]>({
+    queryKey: ["/api/profiles"]
+  });
+
+  const invalidateProfiles = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+    // The default profile drives resume fit ranking
+    queryClient.invalidateQueries({ queryKey: ["/api/vacancies/tiered"] });
+    // ...and its skills drive the skill gap panel
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).endsWith("/skill-gap") });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (profile: ProfileDraft) => {
+      const body = { name: profile.name.trim(), content: profile.content, skills: parseSkills(profile.skills) };
+      const response = profile.id
+        ? await apiRequest("PATCH", `/api/profiles/${profile.id}`, body)
+        : await apiRequest("POST", "/api/profiles", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateProfiles();
+      setDraft(null);
+      toast({ description: "Profile saved" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save profile", variant: "destructive" });
+    }
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const format = formatFromFileName(file.name);
+      const data = await readFileForImport(file, format);
+      const response = await apiRequest("POST", "/api/profiles/import", {
+        name: file.name.replace(/\.[^.]+$/, "").slice(0, 100) || "Imported resume",
+        format,
+        data
+      });
+      return response.json();
+    },
+    onSuccess: (profile: Profile) => {
+      invalidateProfiles();
+      toast({ description: `Imported "${profile.name}" with ${profile.skills.length} skills` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message.includes("422")
+          ? "No text could be extracted, paste the resume text instead"
+          : "Failed to import the file",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("PATCH", `/api/profiles/${id}`, { isDefault: true });
+      return response.json();
+    },
+    onSuccess: invalidateProfiles
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/profiles/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateProfiles();
+      toast({ description: "Profile deleted" });
+    }
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) importMutation.mutate(file);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="border-b bg-white dark:bg-gray-800">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" onClick={onBack}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Resume Profiles
+              </h1>
+              <p className="text-gray-600 dark:text-gray-400">
+                The default profile is used for cover letters and fit ranking
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.md,.markdown,.pdf"
+              className="hidden"
+              onChange={handleFileChange}
+              data-testid="profile-import-input"
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importMutation.isPending}>
+              {importMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Import
+            </Button>
+            <Button onClick={() => setDraft(emptyDraft)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Profile
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-4">
+        {isLoading ? (
+          <LoadingLines count={3} />
+        ) : !profiles || profiles.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-600">
+              No profiles yet. Paste your resume or import a .txt, .md or .pdf file.
+            </CardContent>
+          </Card>
+        ) : (
+          profiles.map(profile => (
+            <Card key={profile.id} data-testid={`profile-${profile.id}`}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      {profile.name}
+                      {profile.isDefault && <Badge>Default</Badge>}
+                      <Badge variant="outline">{profile.sourceType}</Badge>
+                    </CardTitle>
+                    <CardDescription>
+                      Updated {new Date(profile.updatedAt).toLocaleDateString()}
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {!profile.isDefault && (
+                      <Button variant="ghost" size="sm" onClick={() => defaultMutation.mutate(profile.id)}>
+                        <Star className="mr-1 h-4 w-4" />
+                        Make default
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraft({
+                        id: profile.id,
+                        name: profile.name,
+                        content: profile.content,
+                        skills: profile.skills.join(", ")
+                      })}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => deleteMutation.mutate(profile.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {profile.skills.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {profile.skills.map(skill => (
+                      <Badge key={skill} variant="secondary">{skill}</Badge>
+                    ))}
+                  </div>
+                )}
+                <p className="text-sm text-gray-600 whitespace-pre-line line-clamp-4">{profile.content}</p>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit profile" : "New profile"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="profile-name">Name</Label>
+                <Input
+                  id="profile-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Frontend resume"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="profile-content">Resume text</Label>
+                <Textarea
+                  id="profile-content"
+                  value={draft.content}
+                  onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                  rows={12}
+                  maxLength={50000}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="profile-skills">Skills (comma-separated)</Label>
+                <Input
+                  id="profile-skills"
+                  value={draft.skills}
+                  onChange={(e) => setDraft({ ...draft, skills: e.target.value })}
+                  placeholder="React, TypeScript, Node.js"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => draft && saveMutation.mutate(draft)}
+              disabled={saveMutation.isPending || !draft?.name.trim() || !draft?.content.trim()}
+            >
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { keywordsQuery, previewQuery, serializeQuery, validateQuery, type QueryPreview } from "@shared/hhQuery";
+
+interface QueryEditorProps {
+  keywords: string[];
+  useExactPhrases: boolean;
+  useAndAcrossPhrases: boolean;
+  excludeWords: string;
+  customQuery: string;
+  onChange: (customQuery: string) => void;
+}
+
+// The query the keywords and phrase/AND/exclusion toggles produce
+function generatedPreview({ keywords, useExactPhrases, useAndAcrossPhrases, excludeWords }: QueryEditorProps): QueryPreview {
+  const query = keywordsQuery(keywords, { useExactPhrases, useAndAcrossPhrases, excludeWords });
+  const issues = validateQuery(query);
+  return { text: issues.length === 0 ? serializeQuery(query) : null, issues };
+}
+
+export function QueryEditor(props: QueryEditorProps) {
+  const { customQuery, onChange } = props;
+  const isCustom = customQuery.trim().length > 0;
+  const generated = generatedPreview(props);
+  const preview = isCustom ? previewQuery(customQuery) : generated;
+
+  return (
+    <div className="space-y-3" data-testid="query-editor">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="custom-query" className="text-sm font-medium text-slate-700">
+            Edit query manually
+          </Label>
+          <p className="text-xs text-slate-500 mt-1">
+            OR, AND, NOT, "exact phrase", stem*, NAME:, COMPANY_NAME: and DESCRIPTION: scopes
+          </p>
+        </div>
+        <Switch
+          id="custom-query"
+          checked={isCustom}
+          // Start from the generated query; switching off goes back to it
+          onCheckedChange={(checked) => onChange(checked ? generated.text || props.keywords.join(" OR ") : "")}
+          data-testid="custom-query-switch"
+        />
+      </div>
+
+      {isCustom && (
+        <Textarea
+          value={customQuery}
+          onChange={(e) => onChange(e.target.value)}
+          rows={3}
+          className="font-mono text-sm"
+          data-testid="custom-query-input"
+        />
+      )}
+
+      <div className="rounded-lg border border-slate-200 bg-white p-3">
+        <div className="text-xs font-medium text-slate-500 mb-1">Query sent to HH.ru</div>
+        {preview.text !== null ? (
+          <code className="block break-words text-sm text-slate-800" data-testid="query-preview">
+            {preview.text}
+          </code>
+        ) : (
+          <ul className="list-disc pl-5 text-sm text-red-600" data-testid="query-issues">
+            {preview.issues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileText, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Profile, UserSettings } from "@shared/schema";
+
+export function ResumeFitDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [resumeText, setResumeText] = useState("");
+
+  const { data: settings } = useQuery<UserSettings | null>({
+    queryKey: ["/api/user-settings"]
+  });
+
+  // A default resume profile takes precedence over the text stored here
+  const { data: profiles } = useQuery<Profile[]>({
+    queryKey: ["/api/profiles"]
+  });
+  const defaultProfile = profiles?.find(profile => profile.isDefault);
+
+  useEffect(() => {
+    if (isOpen) {
+      setResumeText(settings?.resumeText ?? "");
+    }
+  }, [isOpen, settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const response = await apiRequest("POST", "/api/user-settings", { resumeText: text });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vacancies/tiered"] });
+      setIsOpen(false);
+      toast({ description: "Resume saved, results re-ranked by fit" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save resume", variant: "destructive" });
+    }
+  });
+
+  const hasResume = !!defaultProfile || !!settings?.resumeText;
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(true)} data-testid="resume-fit-button">
+        <FileText className="mr-2 h-4 w-4" />
+        {defaultProfile ? `Fit: ${defaultProfile.name}` : hasResume ? "Resume fit: on" : "Add resume"}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Resume for fit ranking</DialogTitle>
+            <DialogDescription>
+              Top results are re-ranked by how closely their description and key skills match this text.
+            </DialogDescription>
+          </DialogHeader>
+          {defaultProfile && (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded p-2">
+              Your default profile "{defaultProfile.name}" is used for fit ranking. Manage it under Profiles on the dashboard.
+            </p>
+          )}
+          <Textarea
+            value={resumeText}
+            onChange={(e) => setResumeText(e.target.value)}
+            rows={14}
+            maxLength={20000}
+            placeholder="Paste your resume or a short profile: experience, stack, domains..."
+            data-testid="resume-text"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate(resumeText)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
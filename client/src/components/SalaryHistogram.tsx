@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { HHDictionaries } from "@/types/api";
+import type { SalaryBasis, SalaryStats } from "@shared/schema";
+
+interface SalaryHistogramProps {
+  keywords: string[];
+  filters: Record<string, any>;
+  searchSignature: string | null;
+}
+
+const chartConfig = {
+  count: { label: "Vacancies", color: "hsl(var(--chart-1))" }
+} satisfies ChartConfig;
+
+const formatAmount = (value: number) =>
+  value >= 1000 ? `${Math.round(value / 1000)}k` : String(value);
+
+export function SalaryHistogram({ keywords, filters, searchSignature }: SalaryHistogramProps) {
+  const [currency, setCurrency] = useState<string>(filters.currency || "RUR");
+  const [basis, setBasis] = useState<SalaryBasis>("net");
+
+  const { data: dictionaries } = useQuery<HHDictionaries>({
+    queryKey: ["/api/dictionaries"],
+    staleTime: 24 * 60 * 60 * 1000
+  });
+
+  const { data: stats, isLoading, isError } = useQuery<SalaryStats>({
+    queryKey: ["/api/search/salary-stats", searchSignature, currency, basis],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/search/salary-stats", { keywords, filters, currency, basis });
+      return response.json();
+    },
+    enabled: keywords.length > 0 && !!searchSignature,
+    staleTime: 5 * 60 * 1000
+  });
+
+  const histogram = (stats?.histogram || []).map(bin => ({
+    ...bin,
+    label: formatAmount(bin.from)
+  }));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6" data-testid="salary-stats">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">Salary Distribution</h3>
+          {stats && (
+            <p className="text-sm text-slate-500">
+              {stats.withSalary} of {stats.total} results list a salary
+              {stats.unconvertible > 0 && `, ${stats.unconvertible} in currencies without a rate`}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={currency} onValueChange={setCurrency}>
+            <SelectTrigger className="w-24" data-testid="salary-currency-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(dictionaries?.currency || [{ id: "RUR", name: "Рубли" }]).map(curr => (
+                <SelectItem key={curr.id} value={curr.id}>
+                  {curr.id}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex rounded-md border border-slate-200">
+            {(["net", "gross"] as const).map(option => (
+              <Button
+                key={option}
+                variant={basis === option ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setBasis(option)}
+                data-testid={`salary-basis-${option}`}
+              >
+                {option === "net" ? "Net" : "Gross"}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-sm text-slate-500 flex items-center">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Collecting salaries...
+        </div>
+      ) : isError ? (
+        <p className="text-sm text-red-600">Failed to load salary statistics.</p>
+      ) : !stats || stats.withSalary === 0 ? (
+        <p className="text-sm text-slate-500">None of these results list a salary.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            {[
+              { label: "25th percentile", value: stats.overall.p25 },
+              { label: "Median", value: stats.overall.median },
+              { label: "75th percentile", value: stats.overall.p75 }
+            ].map(({ label, value }) => (
+              <div key={label} className="p-3 rounded-lg bg-slate-50">
+                <div className="text-xs text-slate-500">{label}</div>
+                <div className="text-lg font-semibold text-slate-800">
+                  {value.toLocaleString()} {stats.currency}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+            <BarChart data={histogram}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const bin = payload?.[0]?.payload;
+                      return bin ? `${bin.from.toLocaleString()}–${bin.to.toLocaleString()} ${stats.currency}` : "";
+                    }}
+                  />
+                }
+              />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+
+          {stats.byExperience.length > 1 && (
+            <table className="w-full text-sm" data-testid="salary-by-experience">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="font-normal py-1">Experience</th>
+                  <th className="font-normal py-1 text-right">Vacancies</th>
+                  <th className="font-normal py-1 text-right">25%</th>
+                  <th className="font-normal py-1 text-right">Median</th>
+                  <th className="font-normal py-1 text-right">75%</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.byExperience.map(row => (
+                  <tr key={row.experienceId} className="border-t border-slate-100">
+                    <td className="py-1 text-slate-700">{row.name}</td>
+                    <td className="py-1 text-right">{row.count}</td>
+                    <td className="py-1 text-right">{row.p25.toLocaleString()}</td>
+                    <td className="py-1 text-right font-medium">{row.median.toLocaleString()}</td>
+                    <td className="py-1 text-right">{row.p75.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SlidersHorizontal, Loader2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  defaultScoringWeights,
+  type ScoringProfileConfig,
+  type ScoringProfileRef,
+  type ScoringWeights
+} from "@shared/schema";
+
+interface BuiltInProfile {
+  key: string;
+  name: string;
+  description: string;
+  config: ScoringProfileConfig;
+}
+
+interface CustomProfile {
+  id: number;
+  name: string;
+  description: string | null;
+  config: ScoringProfileConfig;
+}
+
+interface ScoringProfilesResponse {
+  builtIn: BuiltInProfile[];
+  custom: CustomProfile[];
+}
+
+interface ScoringProfilePickerProps {
+  value: ScoringProfileRef;
+  onChange: (profile: ScoringProfileRef) => void;
+}
+
+const weightFields: Array<{ key: keyof ScoringWeights; label: string }> = [
+  { key: "titleStart", label: "Title starts with keyword" },
+  { key: "titleContains", label: "Title contains keyword" },
+  { key: "descriptionMatch", label: "Description mentions keyword" },
+  { key: "hasSalary", label: "Salary published" },
+  { key: "highSalary", label: "High salary" },
+  { key: "highSalaryThreshold", label: "High salary threshold" },
+  { key: "postedWithin3Days", label: "Posted in last 3 days" },
+  { key: "postedWithin7Days", label: "Posted in last 7 days" }
+];
+
+// "key = value" per line, used for keyword weights and employer boosts
+const formatWeightLines = (record: Record<string, number>) =>
+  Object.entries(record).map(([key, value]) => `${key} = ${value}`).join("\n");
+
+const parseWeightLines = (text: string): Record<string, number> => {
+  const result: Record<string, number> = {};
+  for (const line of text.split("\n")) {
+    const separator = line.lastIndexOf("=");
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = parseFloat(line.slice(separator + 1).trim());
+    if (key && !isNaN(value)) {
+      result[key] = value;
+    }
+  }
+  return result;
+};
+
+export function ScoringProfilePicker({ value, onChange }: ScoringProfilePickerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [weights, setWeights] = useState<ScoringWeights>(defaultScoringWeights);
+  const [keywordWeightsText, setKeywordWeightsText] = useState("");
+  const [employerBoostsText, setEmployerBoostsText] = useState("");
+
+  const { data: profiles } = useQuery<ScoringProfilesResponse>({
+    queryKey: ["/api/scoring-profiles"],
+    staleTime: 60000
+  });
+
+  const selectedCustom = typeof value === "number"
+    ? profiles?.custom.find(profile => profile.id === value)
+    : undefined;
+  const selectedConfig = selectedCustom?.config ??
+    profiles?.builtIn.find(profile => profile.key === value)?.config;
+
+  const openEditor = () => {
+    const config = selectedConfig ?? { weights: defaultScoringWeights, keywordWeights: {}, employerBoosts: {} };
+    setName(selectedCustom?.name ?? "");
+    setWeights({ ...config.weights });
+    setKeywordWeightsText(formatWeightLines(config.keywordWeights));
+    setEmployerBoostsText(formatWeightLines(config.employerBoosts));
+    setIsEditorOpen(true);
+  };
+
+  const buildConfig = (): ScoringProfileConfig => ({
+    weights,
+    keywordWeights: parseWeightLines(keywordWeightsText),
+    employerBoosts: parseWeightLines(employerBoostsText)
+  });
+
+  const onSaved = (profile: CustomProfile) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+    setIsEditorOpen(false);
+    onChange(profile.id);
+    toast({ description: `Scoring profile "${profile.name}" saved` });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message.includes("409") ? "A profile with this name already exists" : "Failed to save scoring profile",
+      variant: "destructive"
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/scoring-profiles", { name: name.trim(), config: buildConfig() });
+      return response.json();
+    },
+    onSuccess: onSaved,
+    onError
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("PATCH", `/api/scoring-profiles/${id}`, { name: name.trim(), config: buildConfig() });
+      return response.json();
+    },
+    onSuccess: onSaved,
+    onError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/scoring-profiles/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+      setIsEditorOpen(false);
+      onChange("default");
+    }
+  });
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={String(value)}
+        onValueChange={(next) => onChange(/^\d+$/.test(next) ? parseInt(next) : next)}
+      >
+        <SelectTrigger className="h-8 w-44 text-sm" data-testid="scoring-profile-select">
+          <SelectValue placeholder="Scoring profile" />
+        </SelectTrigger>
+        <SelectContent>
+          {(profiles?.builtIn ?? []).map(profile => (
+            <SelectItem key={profile.key} value={profile.key}>
+              {profile.name}
+            </SelectItem>
+          ))}
+          {profiles && profiles.custom.length > 0 && <SelectSeparator />}
+          {(profiles?.custom ?? []).map(profile => (
+            <SelectItem key={profile.id} value={String(profile.id)}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="sm" onClick={openEditor} title="Edit scoring weights">
+        <SlidersHorizontal className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{selectedCustom ? `Edit "${selectedCustom.name}"` : "New scoring profile"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="space-y-1">
+              <Label htmlFor="scoring-profile-name">Name</Label>
+              <Input
+                id="scoring-profile-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Remote-friendly"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {weightFields.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`weight-${field.key}`} className="text-xs">{field.label}</Label>
+                  <Input
+                    id={`weight-${field.key}`}
+                    type="number"
+                    value={weights[field.key]}
+                    onChange={(e) => setWeights({ ...weights, [field.key]: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="scoring-keyword-weights">Keyword multipliers (one per line: keyword = 1.5)</Label>
+              <Textarea
+                id="scoring-keyword-weights"
+                value={keywordWeightsText}
+                onChange={(e) => setKeywordWeightsText(e.target.value)}
+                rows={3}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="scoring-employer-boosts">Employer boosts and penalties (employer = 10 or employer = -20)</Label>
+              <Textarea
+                id="scoring-employer-boosts"
+                value={employerBoostsText}
+                onChange={(e) => setEmployerBoostsText(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            {selectedCustom && (
+              <Button
+                variant="ghost"
+                className="text-red-600 mr-auto"
+                onClick={() => deleteMutation.mutate(selectedCustom.id)}
+                disabled={deleteMutation.isPending}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => createMutation.mutate()}
+              disabled={isSaving || !name.trim()}
+            >
+              Save as new
+            </Button>
+            {selectedCustom && (
+              <Button onClick={() => updateMutation.mutate(selectedCustom.id)} disabled={isSaving || !name.trim()}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { BarChart3, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { SkillGap, SkillGapAggregateResponse } from "@shared/schema";
+
+interface SkillGapPanelProps {
+  vacancyId: string;
+  resultVacancyIds: string[];
+}
+
+// How many results the aggregate view looks at; each uncached one is an HH.ru request
+const AGGREGATE_LIMIT = 50;
+
+export function SkillGapPanel({ vacancyId, resultVacancyIds }: SkillGapPanelProps) {
+  const { data: gap, isLoading } = useQuery<SkillGap>({
+    queryKey: [`/api/vacancies/${vacancyId}/skill-gap`],
+    staleTime: 5 * 60 * 1000
+  });
+
+  const aggregateMutation = useMutation({
+    mutationFn: async (): Promise<SkillGapAggregateResponse> => {
+      const response = await apiRequest("POST", "/api/skill-gap/aggregate", {
+        vacancyIds: resultVacancyIds.slice(0, AGGREGATE_LIMIT)
+      });
+      return response.json();
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="mb-8 text-sm text-slate-500 flex items-center">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Comparing skills...
+      </div>
+    );
+  }
+
+  if (!gap) return null;
+
+  const aggregate = aggregateMutation.data;
+
+  return (
+    <div className="mb-8 p-4 rounded-lg border border-slate-200" data-testid="skill-gap-panel">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-slate-800">Skill Gap</h3>
+        {gap.profileName && (gap.matched.length + gap.missing.length + gap.adjacent.length) > 0 && (
+          <span className="text-sm text-slate-600" data-testid="skill-coverage">
+            {gap.coverage}% covered by "{gap.profileName}"
+          </span>
+        )}
+      </div>
+
+      {!gap.profileName ? (
+        <p className="text-sm text-slate-500">
+          Add a default profile with a skills list under Profiles on the dashboard to compare skills.
+        </p>
+      ) : (gap.matched.length + gap.missing.length + gap.adjacent.length) === 0 ? (
+        <p className="text-sm text-slate-500">This vacancy lists no key skills.</p>
+      ) : (
+        <div className="space-y-2 text-sm">
+          {gap.matched.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-slate-600 mr-1">You have:</span>
+              {gap.matched.map(skill => (
+                <Badge key={skill} className="bg-emerald-100 text-emerald-800 hover:bg-emerald-100">{skill}</Badge>
+              ))}
+            </div>
+          )}
+          {gap.adjacent.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-slate-600 mr-1">Close to:</span>
+              {gap.adjacent.map(({ skill, relatedTo }) => (
+                <Badge
+                  key={skill}
+                  className="bg-amber-100 text-amber-800 hover:bg-amber-100"
+                  title={`You know ${relatedTo.join(", ")}`}
+                >
+                  {skill}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {gap.missing.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-slate-600 mr-1">Missing:</span>
+              {gap.missing.map(skill => (
+                <Badge key={skill} className="bg-red-100 text-red-800 hover:bg-red-100">{skill}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {gap.profileName && resultVacancyIds.length > 1 && (
+        <div className="mt-4 pt-3 border-t border-slate-200">
+          {aggregate ? (
+            <div className="text-sm" data-testid="skill-gap-aggregate">
+              <div className="text-slate-600 mb-2">
+                Most common missing skills across {aggregate.analyzed} results
+                {aggregate.skipped > 0 && ` (${aggregate.skipped} skipped)`}:
+              </div>
+              {aggregate.missing.length === 0 ? (
+                <p className="text-slate-500">None - your skills cover these results.</p>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {aggregate.missing.slice(0, 15).map(entry => (
+                    <Badge key={entry.skill} variant="outline">
+                      {entry.skill} · {Math.round((entry.count / aggregate.analyzed) * 100)}%
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => aggregateMutation.mutate()}
+              disabled={aggregateMutation.isPending}
+            >
+              {aggregateMutation.isPending
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <BarChart3 className="mr-2 h-4 w-4" />}
+              Analyze top {Math.min(resultVacancyIds.length, AGGREGATE_LIMIT)} results
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Sparkles, Search, Filter, FileText, Brain, Target, Zap, Star } from 'lucide-react';
+import type { AIQueueStatus } from '@shared/schema';
 
 interface TransitionLoaderProps {
   fromStep: string;
@@ -57,7 +59,24 @@ const getTransitionMessages = (fromStep: string, toStep: string): string[] => {
 export default function TransitionLoader({ fromStep, toStep, onComplete, duration = 4000 }: TransitionLoaderProps) {
   const [currentMessageIndex, setCurrentMessageIndex] = useState(0);
   const [progress, setProgress] = useState(0);
+  const [animationDone, setAnimationDone] = useState(false);
   const messages = getTransitionMessages(fromStep, toStep);
+
+  // The step's AI request may be waiting behind other users' requests
+  const { data: queueStatus } = useQuery<AIQueueStatus>({
+    queryKey: ['/api/ai/queue'],
+    refetchInterval: 1000,
+    staleTime: 0
+  });
+  const queuePosition = queueStatus?.position ?? null;
+
+  // Hold the loader while the request is still queued, so the next step
+  // doesn't open on an empty spinner
+  useEffect(() => {
+    if (animationDone && queuePosition === null) {
+      onComplete();
+    }
+  }, [animationDone, queuePosition, onComplete]);
   
   useEffect(() => {
     const totalMessages = messages.length;
@@ -68,7 +87,7 @@ export default function TransitionLoader({ fromStep, toStep, onComplete, duratio
         const next = prev + 1;
         if (next >= totalMessages) {
           clearInterval(messageTimer);
-          setTimeout(onComplete, 200);
+          setTimeout(() => setAnimationDone(true), 200);
           return prev;
         }
         return next;
@@ -91,7 +110,7 @@ export default function TransitionLoader({ fromStep, toStep, onComplete, duratio
       clearInterval(messageTimer);
       clearInterval(progressTimer);
     };
-  }, [duration, messages.length, onComplete]);
+  }, [duration, messages.length]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center" data-testid="transition-loader">
@@ -144,6 +163,14 @@ export default function TransitionLoader({ fromStep, toStep, onComplete, duratio
         <p className="text-sm text-slate-500" data-testid="transition-progress-text">
           {Math.round(progress)}% complete
         </p>
+        {queueStatus && queuePosition !== null && (
+          <p className="text-sm text-slate-500 mt-1" data-testid="transition-queue-wait">
+            {queuePosition === 0
+              ? 'Your AI request is next'
+              : `${queuePosition} ${queuePosition === 1 ? 'user' : 'users'} ahead in the AI queue`}
+            {queueStatus.estimatedWaitMs > 0 && `, about ${Math.ceil(queueStatus.estimatedWaitMs / 1000)}s`}
+          </p>
+        )}
 
         {/* Floating Elements */}
         <div className="absolute inset-0 overflow-hidden pointer-events-none">
@@ -0,0 +1,56 @@
+import { Copy, History } from "lucide-react";
+import type { DuplicateVacancy, RepostMatch } from "@shared/schema";
+
+interface VacancyDuplicatesProps {
+  duplicates: DuplicateVacancy[];
+  repostOf: RepostMatch | null;
+}
+
+// Other IDs the same job was found under, and an earlier application to it
+export function VacancyDuplicates({ duplicates, repostOf }: VacancyDuplicatesProps) {
+  if (duplicates.length === 0 && !repostOf) return null;
+
+  return (
+    <div className="mb-6 space-y-3">
+      {repostOf && (
+        <div
+          className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800"
+          data-testid="vacancy-repost"
+        >
+          <History className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            Looks like a repost: you applied to this job on {new Date(repostOf.appliedAt).toLocaleDateString()} under
+            another ID (status: {repostOf.status}).
+          </span>
+        </div>
+      )}
+      {duplicates.length > 0 && (
+        <div className="p-3 rounded-lg border border-slate-200 text-sm" data-testid="vacancy-duplicates">
+          <div className="flex items-center gap-2 font-medium text-slate-700 mb-1">
+            <Copy className="h-4 w-4" />
+            Also posted as
+          </div>
+          <ul className="space-y-1">
+            {duplicates.map(duplicate => (
+              <li key={duplicate.id} className="flex items-center justify-between">
+                <a
+                  href={duplicate.alternate_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline"
+                >
+                  {duplicate.name}
+                </a>
+                <span className="text-xs text-slate-500 shrink-0 ml-4">
+                  {[duplicate.areaName, duplicate.published_at ? new Date(duplicate.published_at).toLocaleDateString() : null]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,25 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Over-quota AI requests (429 ai_quota_exceeded) carry a message meant for the user
+function aiQuotaMessage(status: number, body: string): string | undefined {
+  if (status !== 429) return undefined;
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.error === "ai_quota_exceeded" ? parsed.message : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// For callers that fetch directly: the quota message, otherwise `fallback`
+export async function responseErrorMessage(res: Response, fallback: string): Promise<string> {
+  return aiQuotaMessage(res.status, await res.text()) ?? fallback;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new Error(aiQuotaMessage(res.status, text) ?? `${res.status}: ${text}`);
   }
 }
 
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist, subscribeWithSelector } from 'zustand/middleware';
+import type { ScoringProfileRef } from '@shared/schema';
 
 // Feature flag to disable auto-save for debugging
 const AUTO_SAVE_ENABLED = true; // Auto-save enabled for production functionality
@@ -54,6 +55,8 @@ function generateSaveSignature(state: any): string {
       useAndAcrossPhrases: state.filters.useAndAcrossPhrases,
       useCompanyFallback: state.filters.useCompanyFallback,
       excludeWords: state.filters.excludeWords.trim().toLowerCase(),
+      excludeInDescription: !!state.filters.excludeInDescription,
+      customQuery: (state.filters.customQuery || '').trim(),
       safeMode: state.filters.safeMode
     },
     currentStep: state.currentStep,
@@ -123,6 +126,10 @@ export interface WizardFilters {
   useCompanyFallback: boolean;
   enableDebugMode: boolean;
   excludeWords: string;
+  // Also match exclude words against fetched full descriptions
+  excludeInDescription: boolean;
+  // Hand-edited HH query; empty means build it from the keywords
+  customQuery: string;
   safeMode: boolean;
 }
 
@@ -154,6 +161,7 @@ export interface WizardState {
   currentVacancyIndex: number;
   totalFound: number;
   appliedVacancyIds: string[];
+  scoringProfile: ScoringProfileRef; // Built-in profile key or custom profile id
   
   // Auto-save state (external refs prevent re-render loops)
   currentApplicationId: number | null;
@@ -187,6 +195,7 @@ export interface WizardState {
   setVacancies: (vacancies: any[]) => void;
   setCurrentVacancyIndex: (index: number) => void;
   markVacancyAsApplied: (vacancyId: string) => void;
+  setScoringProfile: (profile: ScoringProfileRef) => void;
   
   // Auto-save actions
   autoSave: () => Promise<void>;
@@ -262,6 +271,8 @@ const defaultFilters: WizardFilters = {
   useCompanyFallback: JSON.parse(localStorage.getItem('useCompanyFallback') ?? 'true'),
   enableDebugMode: JSON.parse(localStorage.getItem('enableDebugMode') ?? 'false'),
   excludeWords: localStorage.getItem('excludeWords') ?? '',
+  excludeInDescription: JSON.parse(localStorage.getItem('excludeInDescription') ?? 'false'),
+  customQuery: '',
   safeMode: false
 };
 
@@ -284,6 +295,7 @@ export const useWizardStore = create<WizardState>()(
       currentVacancyIndex: 0,
       totalFound: 0,
       appliedVacancyIds: [],
+      scoringProfile: 'default',
       
       // Auto-save state
       currentApplicationId: null,
@@ -414,6 +426,9 @@ export const useWizardStore = create<WizardState>()(
         if ('excludeWords' in newFilters) {
           localStorage.setItem('excludeWords', newFilters.excludeWords || '');
         }
+        if ('excludeInDescription' in newFilters) {
+          localStorage.setItem('excludeInDescription', JSON.stringify(!!newFilters.excludeInDescription));
+        }
         
         set({
           filters: updatedFilters,
@@ -441,6 +456,9 @@ export const useWizardStore = create<WizardState>()(
         set({ saveSignature: newSignature });
       },
       
+      // Re-ranking only - the search signature stays the same
+      setScoringProfile: (profile) => set({ scoringProfile: profile, currentVacancyIndex: 0 }),
+      
       setCurrentVacancyIndex: (index) => {
         if (process.env.NODE_ENV === 'development') {
           console.log(`Store: setCurrentVacancyIndex(${index})`);
@@ -689,10 +707,12 @@ export const useWizardStore = create<WizardState>()(
             .map(k => k.text.toLowerCase().trim())
             .sort(), // Sort for consistent ordering
           excludeWords: filters.excludeWords?.toLowerCase().trim().split(/\s+/).filter(Boolean).sort() || [],
+          excludeInDescription: !!filters.excludeInDescription,
           useExactPhrases: filters.useExactPhrases,
           useAndAcrossPhrases: filters.useAndAcrossPhrases,
           useCompanyFallback: filters.useCompanyFallback,
           titleFirstSearch: filters.titleFirstSearch,
+          customQuery: filters.customQuery?.trim() || '',
           
           // All location filters
           locationText: filters.locationText?.toLowerCase().trim() || '',
@@ -908,6 +928,7 @@ export const useWizardStore = create<WizardState>()(
         currentVacancyIndex: state.currentVacancyIndex,
         totalFound: state.totalFound,
         appliedVacancyIds: state.appliedVacancyIds,
+        scoringProfile: state.scoringProfile,
         currentSearchSignature: state.currentSearchSignature,
         saveSignature: state.saveSignature
       })
@@ -335,7 +335,8 @@ export default function Step2Confirm({ onBackToDashboard }: Step2ConfirmProps) {
               Exclude Words (Optional)
             </h3>
             <p className="text-sm text-red-700 mb-3">
-              Filter out unwanted results by excluding words like "intern", "trainee", "junior"
+              Filter out unwanted results by excluding words like "intern", "trainee", "junior".
+              Any word form matches; end a word with * to match everything starting with it (стаж*)
             </p>
             <Input
               placeholder="e.g., intern, trainee, junior"
@@ -343,6 +344,17 @@ export default function Step2Confirm({ onBackToDashboard }: Step2ConfirmProps) {
               onChange={(e) => setFilters({ excludeWords: e.target.value })}
               className="w-full border-red-200 focus:border-red-400"
             />
+            <div className="flex items-center space-x-2 mt-3">
+              <Checkbox
+                id="exclude-in-description"
+                checked={!!filters.excludeInDescription}
+                onCheckedChange={(checked) => setFilters({ excludeInDescription: !!checked })}
+                data-testid="exclude-in-description-checkbox"
+              />
+              <label htmlFor="exclude-in-description" className="text-sm text-red-700">
+                Also check full descriptions (slower: fetches the top results' details)
+              </label>
+            </div>
           </div>
 
           {/* Gemini Connection Section */}
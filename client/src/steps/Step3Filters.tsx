@@ -10,8 +10,10 @@ import { Switch } from '@/components/ui/switch';
 import { useQuery } from '@tanstack/react-query';
 import Combobox from '@/components/Combobox';
 import KeywordExpansionModal from '@/components/KeywordExpansionModal';
+import { QueryEditor } from '@/components/QueryEditor';
 import { useWizardStore } from '@/state/wizard';
 import { HHDictionaries, HHArea } from '@/types/api';
+import { previewQuery } from '@shared/hhQuery';
 
 interface Step3FiltersProps {
   onBackToDashboard?: () => void;
@@ -43,6 +45,7 @@ export default function Step3Filters({ onBackToDashboard }: Step3FiltersProps) {
     titleFirstSearch: filters.titleFirstSearch ?? true,
     useExactPhrases: filters.useExactPhrases ?? true,
     enableDebugMode: filters.enableDebugMode ?? false,
+    customQuery: filters.customQuery ?? '',
     // Safe Mode toggle - temporary for diagnostics
     safeMode: filters.safeMode ?? false
   };
@@ -89,6 +92,9 @@ export default function Step3Filters({ onBackToDashboard }: Step3FiltersProps) {
     setTimeout(() => updateSearchSignature(), 100);
   };
 
+  // A hand-edited query has to validate before searching
+  const customQueryInvalid = !!localFilters.customQuery.trim() && previewQuery(localFilters.customQuery).issues.length > 0;
+
   const handleSubmit = () => {
     // Commit filters and update search signature before navigation
     setFilters(localFilters);
@@ -511,6 +517,9 @@ export default function Step3Filters({ onBackToDashboard }: Step3FiltersProps) {
                                focus:ring-2 focus:ring-primary focus:border-transparent"
                     data-testid="employer-input"
                   />
+                  <p className="text-xs text-slate-500 mt-1">
+                    Looked up in HH.ru's employer search; an HH employer ID works too
+                  </p>
                 </div>
               )}
             </div>
@@ -765,6 +774,16 @@ export default function Step3Filters({ onBackToDashboard }: Step3FiltersProps) {
                 data-testid="debug-mode-switch"
               />
             </div>
+
+            {/* HH query preview and manual editor */}
+            <QueryEditor
+              keywords={selectedKeywords.map(k => k.text)}
+              useExactPhrases={localFilters.useExactPhrases}
+              useAndAcrossPhrases={localFilters.useAndAcrossPhrases}
+              excludeWords={localFilters.excludeWords}
+              customQuery={localFilters.customQuery}
+              onChange={(value) => handleLocalChange('customQuery', value)}
+            />
           </div>
         </div>
 
@@ -773,6 +792,7 @@ export default function Step3Filters({ onBackToDashboard }: Step3FiltersProps) {
           <Button
             type="button"
             onClick={handleSubmit}
+            disabled={customQueryInvalid}
             className="w-full max-w-md bg-primary-600 text-white py-3 px-6 rounded-xl font-semibold 
                        hover:bg-primary-700 transition-colors"
             data-testid="search-jobs-button"
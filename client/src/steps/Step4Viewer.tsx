@@ -22,14 +22,21 @@ import {
   HHVacanciesResponse, 
   HHVacancyDetail, 
   CoverLetterRequest,
-  CoverLetterResponse
+  CoverLetterResponse,
+  VacancyStatusResponse
 } from '@/types/api';
-import { 
-  FilterMatchRequest,
-  FilterMatchResponse
-} from '@shared/schema';
+import { DuplicateVacancy, SearchRunResponse, ScoreContribution } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
+import { responseErrorMessage } from '@/lib/queryClient';
 import { ImprovedCoverLetterGenerator } from '@/components/ImprovedCoverLetterGenerator';
+import { ScoringProfilePicker } from '@/components/ScoringProfilePicker';
+import { ResumeFitDialog } from '@/components/ResumeFitDialog';
+import { SkillGapPanel } from '@/components/SkillGapPanel';
+import { SalaryHistogram } from '@/components/SalaryHistogram';
+import { ExclusionAudit } from '@/components/ExclusionAudit';
+import { EmployerListButtons } from '@/components/EmployerListButtons';
+import { EmployerPanel } from '@/components/EmployerPanel';
+import { VacancyDuplicates } from '@/components/VacancyDuplicates';
 
 const searchLoadingMessages = [
   "Calibrating scanners…",
@@ -89,7 +96,9 @@ export default function Step4Viewer({ onBackToDashboard }: Step4ViewerProps) {
     currentSearchSignature,
     lastLoadedSignature,
     currentApplicationId,
-    markReachedStep4
+    markReachedStep4,
+    scoringProfile,
+    setScoringProfile
   } = useWizardStore();
   
   const { toast } = useToast();
@@ -104,7 +113,6 @@ export default function Step4Viewer({ onBackToDashboard }: Step4ViewerProps) {
   const [savedPrompts, setSavedPrompts] = useState<any[]>([]);
   const [pageJumpValue, setPageJumpValue] = useState('');
   const [jumpError, setJumpError] = useState('');
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [hasMoreResults, setHasMoreResults] = useState(true);
 
 
@@ -151,8 +159,13 @@ export default function Step4Viewer({ onBackToDashboard }: Step4ViewerProps) {
         });
       }
       
-      // Mark vacancy as applied immediately
+      // Mark vacancy as applied immediately and remember it on the server
       markVacancyAsApplied(vacancyDetail.id);
+      recordApplicationMutation.mutate({
+        vacancyId: vacancyDetail.id,
+        vacancyTitle: vacancyDetail.name,
+        companyName: vacancyDetail.employer.name
+      });
       
     } catch (error) {
       console.error('Error applying to vacancy:', error);
@@ -259,72 +272,6 @@ ${jobInfo.description}`;
     return `${systemPrompt}\n\n${userPrompt}`;
   };
   
-  // Convert filters to HH format
-  const { data: hhFilters, isLoading: isMatchingFilters } = useQuery<FilterMatchResponse>({
-    queryKey: ['/api/filters/match'],
-    queryFn: async () => {
-      const filterRequest: FilterMatchRequest = {
-        selectedKeywords: selectedKeywordsCanonical.map(k => k.text),
-        
-        // Filter enablement flags
-        enableLocationFilter: filters.enableLocationFilter,
-        enableExperienceFilter: filters.enableExperienceFilter,
-        enableEmploymentFilter: filters.enableEmploymentFilter,
-        enableScheduleFilter: filters.enableScheduleFilter,
-        enableSalaryFilter: filters.enableSalaryFilter,
-        enableMetroFilter: filters.enableMetroFilter,
-        enableLabelFilter: filters.enableLabelFilter,
-        enableEducationFilter: filters.enableEducationFilter,
-        enableWorkFormatFilter: filters.enableWorkFormatFilter,
-        
-        // Existing filters
-        locationText: filters.locationText,
-        remoteHybrid: {
-          remoteOnly: filters.remoteOnly,
-          hybridOk: filters.hybridOk
-        },
-        experienceText: filters.experience,
-        incomeNumber: filters.salary || undefined,
-        currency: filters.currency,
-        employmentTypes: filters.employmentTypes,
-        scheduleTypes: filters.scheduleTypes,
-        onlyWithSalary: filters.onlyWithSalary,
-        period: filters.period,
-        orderBy: filters.orderBy,
-        
-        // New filters
-        metroStation: filters.metroStation,
-        searchFields: filters.searchFields,
-        vacancyLabels: filters.vacancyLabels,
-        employerName: filters.employerName,
-        
-        // Education and work format filters
-        educationLevel: filters.educationLevel,
-        workFormats: filters.workFormats,
-        
-        // New search options
-        titleFirstSearch: filters.titleFirstSearch,
-        useExactPhrases: filters.useExactPhrases,
-        useAndAcrossPhrases: filters.useAndAcrossPhrases,
-        enableDebugMode: filters.enableDebugMode,
-        excludeWords: filters.excludeWords
-      };
-
-      const response = await fetch('/api/filters/match', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(filterRequest)
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to match filters');
-      }
-      
-      return response.json();
-    },
-    enabled: selectedKeywordsCanonical.length > 0
-  });
-
   // Signature ref to prevent infinite loops
   const sigRef = useRef(currentSearchSignature);
   
@@ -396,19 +343,6 @@ ${jobInfo.description}`;
     }
   }, [searchNeedsRefresh, markReachedStep4]);
 
-  // Reset pagination when filters change (guarded)
-  useEffect(() => {
-    if (!ENABLE_STEP4_SIGNATURE_EFFECT) return;
-    
-    if (currentPage !== 0) {
-      setCurrentPage(0);
-    }
-    if (currentVacancyIndex !== 0) {
-      setIndexCalls++;
-      setCurrentVacancyIndex(0);
-    }
-  }, [hhFilters]);
-
   // Clear old cache on signature change to prevent stale data
   useEffect(() => {
     if (currentSearchSignature && currentSearchSignature !== lastLoadedSignature) {
@@ -422,9 +356,9 @@ ${jobInfo.description}`;
     }
   }, [currentSearchSignature, lastLoadedSignature, queryClient, currentApplicationId]);
 
-  // Tiered search: Title → Description → Skills with merged results
-  const { data: vacanciesData, isLoading: isSearching, error: searchError } = useQuery({
-    queryKey: ['/api/vacancies/tiered', currentApplicationId, currentSearchSignature, currentPage],
+  // Tiered search runs on the server: Title → Description → Skills, scored and merged
+  const { data: vacanciesData, isLoading: isSearching, isFetching: isFetchingResults, error: searchError } = useQuery<SearchRunResponse>({
+    queryKey: ['/api/vacancies/tiered', currentApplicationId, currentSearchSignature, scoringProfile, currentPage],
     queryFn: async () => {
       effectRuns.querySuccess++;
       console.log(`Query execution #${effectRuns.querySuccess}`);
@@ -435,359 +369,40 @@ ${jobInfo.description}`;
       }
       
       if (!ENABLE_STEP4_QUERY) {
-        return { items: [], found: 0, pages: 0, page: 0, per_page: 0 };
+        return {
+          items: [], found: 0, pages: 0, page: 0, per_page: 0, scoringProfile, fitRanking: null, excluded: [],
+          tierInfo: { titleCount: 0, descriptionCount: 0, skillsCount: 0, totalAfterDedup: 0, excludedCount: 0, blockedCount: 0, duplicateCount: 0, usedFallback: false }
+        };
       }
-      if (!hhFilters) return { items: [], found: 0, pages: 0, page: 0, per_page: 0 };
-
-      // Prepare base parameters
-      const baseParams = { ...hhFilters };
-      delete baseParams.search_field; // Remove any existing search_field
 
-      const per_page = 100; // Fetch 100 per tier (HH.ru maximum)
-      const startIndex = currentPage * 100; // Calculate where to start in merged results
-      
-      const tierResults: { tier: string; items: any[]; count: number; url: string }[] = [];
-
-      // Apply AND vs OR logic for multiple keywords (with Safe Mode override)
-      const keywordTexts = selectedKeywordsCanonical.map(k => k.text);
-      const isSafeMode = filters.safeMode;
-      const useAnd = isSafeMode ? false : (filters.useAndAcrossPhrases && keywordTexts.length > 1);
-      
-      // Prepare exclude words for hard filtering (disabled in Safe Mode)
-      const excludeWords = isSafeMode ? [] : (filters.excludeWords || '')
-        .split(',')
-        .map(word => {
-          const trimmed = word.trim();
-          // Handle quoted phrases by removing quotes for matching but keeping phrase structure
-          return trimmed.startsWith('"') && trimmed.endsWith('"') 
-            ? trimmed.slice(1, -1) 
-            : trimmed;
+      const response = await fetch('/api/search/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          keywords: selectedKeywordsCanonical.map(k => k.text),
+          filters,
+          scoringProfile,
+          page: currentPage,
+          perPage: 50
         })
-        .filter(word => word.length > 0);
-        
-      // Safe Mode debugging logs
-      if (process.env.NODE_ENV === 'development' && isSafeMode) {
-        console.log('🔧 Safe Mode ACTIVE: titleFirst=false, exactPhrases=false, AND=false, excludes=[], using OR search across all tiers');
-      }
-
-      // Function to check if vacancy should be excluded (hard filter)
-      const isVacancyExcluded = (vacancy: any, excludeKeywords: string[]) => {
-        if (excludeKeywords.length === 0) return false;
-        
-        const title = vacancy.name?.toLowerCase() || '';
-        const description = vacancy.snippet?.requirement?.toLowerCase() || '';
-        const responsibility = vacancy.snippet?.responsibility?.toLowerCase() || '';
-        const skills = vacancy.key_skills?.map((skill: any) => skill.name?.toLowerCase()).join(' ') || '';
-        const fullText = `${title} ${description} ${responsibility} ${skills}`;
-        
-        return excludeKeywords.some(excludeWord => 
-          fullText.includes(excludeWord.toLowerCase())
-        );
-      };
-
-      // Function to apply enhanced relevance scoring within a tier
-      const scoreVacancy = (vacancy: any, tier: string, keywords: string[], excludeKeywords: string[]) => {
-        let score = 0;
-        const title = vacancy.name?.toLowerCase() || '';
-        const description = vacancy.snippet?.requirement?.toLowerCase() || '';
-        const responsibility = vacancy.snippet?.responsibility?.toLowerCase() || '';
-        const fullText = `${title} ${description} ${responsibility}`;
-        
-        // No longer apply score penalties for excluded words - they're hard filtered out
-        
-        // Positive scoring based on keyword matches
-        for (const keyword of keywords) {
-          const keywordLower = keyword.toLowerCase();
-          
-          // Title matches (highest value)
-          if (title.startsWith(keywordLower)) {
-            score += 30; // Exact start match
-          } else if (title.includes(keywordLower)) {
-            score += 15; // Contains in title
-          }
-          
-          // Description/responsibility matches
-          if (description.includes(keywordLower) || responsibility.includes(keywordLower)) {
-            score += 6; // Each additional phrase match
-          }
-        }
-        
-        // Secondary tie-breakers
-        if (vacancy.salary) {
-          score += 4; // Has salary
-          if (vacancy.salary.from && vacancy.salary.from > 100000) {
-            score += 6; // Higher salary bucket
-          }
-        }
-        
-        // Recency bonus (if published_at is available)
-        if (vacancy.published_at) {
-          const publishedDate = new Date(vacancy.published_at);
-          const now = new Date();
-          const daysDiff = (now.getTime() - publishedDate.getTime()) / (1000 * 60 * 60 * 24);
-          
-          if (daysDiff <= 3) {
-            score += 3; // Last 72 hours
-          } else if (daysDiff <= 7) {
-            score += 2; // Last 7 days
-          }
-        }
-        
-        return score;
-      };
-
-      // Function to fetch multiple pages for a tier
-      const fetchTierPages = async (searchField: string, tierName: string, maxPages = 3) => {
-        const allItems: any[] = [];
-        let totalFound = 0;
-        
-        for (let page = 0; page < maxPages; page++) {
-          const params = new URLSearchParams();
-          Object.entries(baseParams).forEach(([key, value]) => {
-            if (value !== undefined && value !== null && value !== '') {
-              if (Array.isArray(value)) {
-                value.forEach(v => params.append(key, v.toString()));
-              } else {
-                params.set(key, value.toString());
-              }
-            }
-          });
-          params.set('search_field', searchField);
-          params.set('page', page.toString());
-          params.set('per_page', per_page.toString());
-
-          const url = `/api/vacancies?${params.toString()}`;
-          if (page === 0 && filters.enableDebugMode) {
-            console.log(`🔍 Tier ${tierName} URL:`, url);
-          }
-          
-          try {
-            const response = await fetch(url, {
-              headers: {
-                'X-Search-Run-Id': currentSearchSignature,
-                'X-Client-Signature': currentSearchSignature
-              }
-            });
-            
-            if (response.ok) {
-              const data = await response.json();
-              
-              if (page === 0) {
-                totalFound = data.found || 0;
-                if (process.env.NODE_ENV === 'development') {
-                  console.log(`Step4: ${tierName} tier echo - client: ${data.debugEcho?.clientSignature}, server: ${data.debugEcho?.serverSignature}`);
-                  console.log(`Step4: ${tierName} tier keywords: ${data.debugEcho?.resolvedKeywords?.join(',') || 'none'}`);
-                }
-              }
-              
-              if (data.items && data.items.length > 0) {
-                allItems.push(...data.items);
-              } else {
-                // No more results on this page, stop fetching
-                break;
-              }
-            } else {
-              console.warn(`Failed to fetch page ${page} for ${tierName} tier:`, response.status);
-              break;
-            }
-          } catch (error) {
-            console.warn(`Error fetching page ${page} for ${tierName} tier:`, error);
-            break;
-          }
-          
-          // Add small delay between requests to be respectful to API
-          if (page < maxPages - 1) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-        }
-        
-        return { items: allItems, count: totalFound };
-      };
-
-      // Adaptive page loading based on results availability
-      const getOptimalPageCount = (tierName: string, basePages: number) => {
-        // In Safe Mode, load more pages since filtering is minimal
-        if (isSafeMode) return basePages + 2;
-        // For high-value searches, load more pages
-        if (keywordTexts.length === 1) return basePages + 1;
-        return basePages;
-      };
-
-      // Tier A: Title search (search_field=name) - most relevant, load more pages
-      const titlePages = getOptimalPageCount('Title', 4); // Up to 6 pages in Safe Mode
-      const titleResult = await fetchTierPages('name', 'Title', titlePages);
-      tierResults.push({
-        tier: 'Title',
-        items: titleResult.items,
-        count: titleResult.count,
-        url: `Title search (${titlePages} pages)`
-      });
-
-      // Tier B: Description search (search_field=description) - good volume
-      const descPages = getOptimalPageCount('Description', 3); // Up to 5 pages in Safe Mode  
-      const descResult = await fetchTierPages('description', 'Description', descPages);
-      tierResults.push({
-        tier: 'Description',
-        items: descResult.items,
-        count: descResult.count,
-        url: `Description search (${descPages} pages)`
-      });
-
-      // Tier C: Skills/Company search - additional results
-      const skillsSearchField = (isSafeMode || filters.useCompanyFallback) ? 'company_name' : 'name';
-      const skillsPages = getOptimalPageCount('Skills', 2); // Up to 4 pages in Safe Mode
-      const skillsResult = await fetchTierPages(skillsSearchField, 'Skills', skillsPages);
-      tierResults.push({
-        tier: 'Skills',
-        items: skillsResult.items,
-        count: skillsResult.count,
-        url: `Skills search (${skillsSearchField}, ${skillsPages} pages)`
       });
-
-      // Apply hard filtering and enhanced scoring to all results  
-      let excludedCount = 0;
-      tierResults.forEach(tierResult => {
-        const originalCount = tierResult.items.length;
-        
-        tierResult.items = tierResult.items
-          // First apply hard exclusion filter
-          .filter(vacancy => {
-            const excluded = isVacancyExcluded(vacancy, excludeWords);
-            if (excluded) excludedCount++;
-            return !excluded;
-          })
-          // Then apply scoring and metadata
-          .map(vacancy => ({
-            ...vacancy,
-            searchTier: tierResult.tier,
-            relevanceScore: scoreVacancy(vacancy, tierResult.tier, keywordTexts, excludeWords),
-            matchedKeywords: keywordTexts.filter(keyword => {
-              const title = vacancy.name?.toLowerCase() || '';
-              const desc = vacancy.snippet?.requirement?.toLowerCase() || '';
-              const resp = vacancy.snippet?.responsibility?.toLowerCase() || '';
-              const skills = vacancy.key_skills?.map((skill: any) => skill.name?.toLowerCase()).join(' ') || '';
-              const fullText = `${title} ${desc} ${resp} ${skills}`;
-              return fullText.includes(keyword.toLowerCase());
-            }),
-            matchLocation: {
-              title: keywordTexts.some(keyword => (vacancy.name?.toLowerCase() || '').includes(keyword.toLowerCase())),
-              description: keywordTexts.some(keyword => {
-                const desc = vacancy.snippet?.requirement?.toLowerCase() || '';
-                const resp = vacancy.snippet?.responsibility?.toLowerCase() || '';
-                return desc.includes(keyword.toLowerCase()) || resp.includes(keyword.toLowerCase());
-              }),
-              skills: tierResult.tier === 'Skills' || vacancy.key_skills?.some((skill: any) => 
-                keywordTexts.some(keyword => skill.name?.toLowerCase().includes(keyword.toLowerCase()))
-              )
-            }
-          }))
-          .sort((a, b) => b.relevanceScore - a.relevanceScore); // Sort by score within tier
-      });
-
-      // Check if AND logic produces sufficient results
-      let usedFallback = false;
-      const totalResults = tierResults.reduce((sum, tier) => sum + tier.items.length, 0);
-      
-      // Configurable threshold for AND->OR fallback
-      const AND_OR_THRESHOLD = 30; // Make this configurable in the future
       
-      if (useAnd && totalResults < AND_OR_THRESHOLD) {
-        usedFallback = true;
-        // Keep current OR results since we already have them
+      if (!response.ok) {
+        throw new Error(await responseErrorMessage(response, 'Failed to run search'));
       }
-
-      // Merge and deduplicate: A → B → C order with enhanced scoring
-      const seenIds = new Set<string>();
-      const mergedItems: any[] = [];
-
-      tierResults.forEach(tierResult => {
-        tierResult.items.forEach(item => {
-          if (!seenIds.has(item.id)) {
-            seenIds.add(item.id);
-            mergedItems.push({
-              ...item,
-              _tierSource: tierResult.tier,
-              _fallbackUsed: usedFallback
-            });
-          }
-        });
-      });
       
-      // Apply deterministic stable sorting after scoring
-      // Tiebreaker order: score desc → posted_at desc → salary desc → employer id asc → vacancy id asc
-      mergedItems.sort((a, b) => {
-        // Primary: relevance score (desc)
-        if (a.relevanceScore !== b.relevanceScore) {
-          return b.relevanceScore - a.relevanceScore;
-        }
-        
-        // Tiebreak 1: posted_at desc (newer first)
-        if (a.published_at && b.published_at) {
-          const dateA = new Date(a.published_at).getTime();
-          const dateB = new Date(b.published_at).getTime();
-          if (dateA !== dateB) {
-            return dateB - dateA;
-          }
-        }
-        
-        // Tiebreak 2: salary desc (higher first)
-        const salaryA = a.salary?.from || a.salary?.to || 0;
-        const salaryB = b.salary?.from || b.salary?.to || 0;
-        if (salaryA !== salaryB) {
-          return salaryB - salaryA;
-        }
-        
-        // Tiebreak 3: employer id asc (alphabetical)
-        const employerA = a.employer?.id || a.employer?.name || '';
-        const employerB = b.employer?.id || b.employer?.name || '';
-        if (employerA !== employerB) {
-          return employerA.localeCompare(employerB);
-        }
-        
-        // Tiebreak 4: vacancy id asc (stable)
-        return a.id.localeCompare(b.id);
-      });
+      const data: SearchRunResponse = await response.json();
 
-      // Debug logging
       if (filters.enableDebugMode) {
-        console.log('🔍 Tiered Search Results:');
-        tierResults.forEach(tier => {
-          console.log(`  ${tier.tier}: ${tier.count} found, ${tier.items.length} fetched`);
-        });
-        console.log(`  Total after dedup: ${mergedItems.length}`);
-        console.log(`  Excluded: ${excludedCount} vacancies`);
-        console.log('  Final keyword list:', keywordTexts);
-        console.log('  Tier URLs:', tierResults.map(t => ({ tier: t.tier, url: t.url })));
+        console.log('🔍 Tiered Search Results:', data.tierInfo);
       }
-
-      // Apply pagination to merged results
-      const paginatedItems = mergedItems.slice(startIndex, startIndex + 50);
-      const totalFound = mergedItems.length;
-      
       if (process.env.NODE_ENV === 'development') {
-        console.log(`Step4: Query complete - found ${totalFound} total, returning ${paginatedItems.length} items`);
-        if (paginatedItems.length > 0) {
-          console.log(`Step4: First vacancy: "${paginatedItems[0].name}"`);
-        }
+        console.log(`Step4: Query complete - found ${data.found} total, returning ${data.items.length} items`);
       }
 
-      return {
-        items: paginatedItems,
-        found: totalFound,
-        pages: Math.ceil(totalFound / 50),
-        page: currentPage,
-        per_page: 50,
-        tierInfo: {
-          titleCount: tierResults.find(t => t.tier === 'Title')?.count || 0,
-          descriptionCount: tierResults.find(t => t.tier === 'Description')?.count || 0,
-          skillsCount: tierResults.find(t => t.tier === 'Skills')?.count || 0,
-          totalAfterDedup: totalFound,
-          excludedCount,
-          usedFallback
-        }
-      };
+      return data;
     },
-    enabled: !!hhFilters && !!currentSearchSignature,
+    enabled: selectedKeywordsCanonical.length > 0 && !!currentSearchSignature,
     staleTime: isSearchSignatureChanged() ? 0 : 5 * 60 * 1000, // Force refresh if signature changed
     placeholderData: isSearchSignatureChanged() ? undefined : (previousData) => previousData, // Don't keep old data when signature changes
     refetchOnMount: isSearchSignatureChanged() ? 'always' : true
@@ -807,9 +422,10 @@ ${jobInfo.description}`;
           console.log(`🚀 Adaptive multi-page fetching: Got ${vacanciesData.items.length} results from 3 tiers (up to ${maxPossible} total possible)`);
         }
       } else {
-        // Subsequent pages - append results (avoid duplicates)
+        // Subsequent pages - append results (avoid duplicates, including IDs
+        // already folded into a card on an earlier page)
         const currentResults = searchResults || [];
-        const existingIds = new Set(currentResults.map(item => item.id));
+        const existingIds = new Set(currentResults.flatMap(item => [item.id, ...(item.duplicates || []).map((duplicate: DuplicateVacancy) => duplicate.id)]));
         const newItems = vacanciesData.items.filter(item => !existingIds.has(item.id));
         const newResults = [...currentResults, ...newItems];
         setSearchResults(newResults, vacanciesData.found);
@@ -827,7 +443,7 @@ ${jobInfo.description}`;
   });
 
   // Query for vacancy application status
-  const { data: vacancyStatus, refetch: refetchStatus } = useQuery({
+  const { data: vacancyStatus, refetch: refetchStatus } = useQuery<VacancyStatusResponse>({
     queryKey: ['/api/vacancy-status', currentVacancy?.id],
     enabled: !!currentVacancy?.id,
     staleTime: 0, // Always check status fresh
@@ -845,6 +461,15 @@ ${jobInfo.description}`;
         if (vacancy) {
           queryClient.prefetchQuery({
             queryKey: ['/api/vacancies', vacancy.id],
+            // Lets the server queue these behind the vacancy on screen
+            queryFn: async () => {
+              const response = await fetch(`/api/vacancies/${vacancy.id}`, {
+                credentials: 'include',
+                headers: { 'X-Purpose': 'prefetch' }
+              });
+              if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
+              return response.json();
+            },
             staleTime: 10 * 60 * 1000
           });
         }
@@ -852,6 +477,40 @@ ${jobInfo.description}`;
     }
   }, [currentVacancyIndex, searchResults, queryClient]);
 
+  // Persist applications so the same vacancy is flagged in later searches
+  const recordApplicationMutation = useMutation<unknown, Error, { vacancyId: string; vacancyTitle: string; companyName: string }>({
+    mutationFn: async (application) => {
+      const response = await fetch('/api/apply-vacancy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(application)
+      });
+      
+      // 409 means the application is already on record
+      if (!response.ok && response.status !== 409) {
+        throw new Error('Failed to record application');
+      }
+      
+      return response.json();
+    },
+    onSettled: (_data, _error, application) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/vacancy-status', application.vacancyId] });
+    },
+    onError: (error) => {
+      console.error('Error recording application:', error);
+    }
+  });
+
+  // Drops a just-blocked employer's vacancies from the loaded results, keeping
+  // the position on the vacancy after the current one
+  const handleEmployerBlocked = useCallback((employerId: string) => {
+    const isBlocked = (vacancy: any) => String(vacancy.employer?.id) === employerId;
+    const remaining = searchResults.filter(vacancy => !isBlocked(vacancy));
+    const keptBefore = searchResults.slice(0, currentVacancyIndex).filter(vacancy => !isBlocked(vacancy)).length;
+    setSearchResults(remaining, Math.max(0, totalFound - (searchResults.length - remaining.length)));
+    setCurrentVacancyIndex(Math.min(keptBefore, Math.max(0, remaining.length - 1)));
+  }, [searchResults, currentVacancyIndex, totalFound, setSearchResults, setCurrentVacancyIndex]);
+
   // Cover letter generation
   const coverLetterMutation = useMutation<CoverLetterResponse, Error, CoverLetterRequest>({
     mutationFn: async (request) => {
@@ -862,7 +521,7 @@ ${jobInfo.description}`;
       });
       
       if (!response.ok) {
-        throw new Error('Failed to generate cover letter');
+        throw new Error(await responseErrorMessage(response, 'Failed to generate cover letter'));
       }
       
       return response.json();
@@ -1040,153 +699,22 @@ ${jobInfo.description}`;
     URL.revokeObjectURL(url);
   };
 
-  const handleLoadMore = async () => {
+  const isLoadingMore = isFetchingResults && currentPage > 0;
+
+  // Later pages come from the merged list the server already holds for this search
+  const handleLoadMore = () => {
     if (isLoadingMore || !hasMoreResults) return;
     
-    setIsLoadingMore(true);
-    try {
-      // Fetch additional pages for each tier
-      const hhFilters = generateSearchSignature();
-      if (!hhFilters || !selectedKeywordsCanonical) return;
-
-      const baseParams = { ...hhFilters };
-      delete baseParams.search_field;
-      
-      const keywordTexts = selectedKeywordsCanonical.map(k => k.text);
-      const isSafeMode = filters.safeMode;
-
-      // Function to fetch one more page for a tier
-      const fetchMorePages = async (searchField: string, tierName: string, startPage: number, count: number = 2) => {
-        const allItems: any[] = [];
-        
-        for (let i = 0; i < count; i++) {
-          const page = startPage + i;
-          const params = new URLSearchParams();
-          Object.entries(baseParams).forEach(([key, value]) => {
-            if (value !== undefined && value !== null && value !== '') {
-              if (Array.isArray(value)) {
-                value.forEach(v => params.append(key, v.toString()));
-              } else {
-                params.set(key, value.toString());
-              }
-            }
-          });
-          params.set('search_field', searchField);
-          params.set('page', page.toString());
-          params.set('per_page', '100');
-
-          const response = await fetch(`/api/vacancies?${params.toString()}`, {
-            headers: {
-              'X-Search-Run-Id': currentSearchSignature,
-              'X-Client-Signature': currentSearchSignature
-            }
-          });
-          
-          if (response.ok) {
-            const data = await response.json();
-            if (data.items && data.items.length > 0) {
-              allItems.push(...data.items);
-            } else {
-              setHasMoreResults(false);
-              break;
-            }
-          }
-          
-          // Small delay between requests
-          if (i < count - 1) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-        }
-        
-        return allItems;
-      };
-
-      // Fetch more results from all tiers
-      const [moreTitle, moreDesc, moreSkills] = await Promise.all([
-        fetchMorePages('name', 'Title', 5), // Start from page 5 for titles
-        fetchMorePages('description', 'Description', 4), // Start from page 4 for descriptions  
-        fetchMorePages(isSafeMode || filters.useCompanyFallback ? 'company_name' : 'name', 'Skills', 3)
-      ]);
-
-      const allNewItems = [...moreTitle, ...moreDesc, ...moreSkills];
-      
-      if (allNewItems.length > 0) {
-        // Apply the same filtering and scoring logic as main search
-        const keywordTexts = selectedKeywordsCanonical.map(k => k.text);
-        const excludeWords = isSafeMode ? [] : (filters.excludeWords || '')
-          .split(',')
-          .map(word => {
-            const trimmed = word.trim();
-            return trimmed.startsWith('"') && trimmed.endsWith('"') 
-              ? trimmed.slice(1, -1) 
-              : trimmed;
-          })
-          .filter(word => word.length > 0);
-
-        // Filter and score new items
-        const processedItems = allNewItems
-          .filter((vacancy: any) => {
-            // Hard filtering for excluded words
-            if (excludeWords.length === 0) return true;
-            
-            const title = vacancy.name?.toLowerCase() || '';
-            const description = vacancy.snippet?.requirement?.toLowerCase() || '';
-            const responsibility = vacancy.snippet?.responsibility?.toLowerCase() || '';
-            const skills = vacancy.key_skills?.map((skill: any) => skill.name?.toLowerCase()).join(' ') || '';
-            const fullText = `${title} ${description} ${responsibility} ${skills}`;
-            
-            return !excludeWords.some(excludeWord => 
-              fullText.includes(excludeWord.toLowerCase())
-            );
-          })
-          .map((vacancy: any) => {
-            // Add relevance score
-            let score = 0;
-            const title = vacancy.name?.toLowerCase() || '';
-            const description = vacancy.snippet?.requirement?.toLowerCase() || '';
-            
-            for (const keyword of keywordTexts) {
-              const keywordLower = keyword.toLowerCase();
-              if (title.includes(keywordLower)) score += 10;
-              if (description.includes(keywordLower)) score += 5;
-            }
-            
-            return { ...vacancy, relevanceScore: score };
-          });
-
-        // Merge with existing results, avoiding duplicates
-        const currentResults = searchResults || [];
-        const existingIds = new Set(currentResults.map(item => item.id));
-        const newUniqueItems = processedItems.filter(item => !existingIds.has(item.id));
-        
-        if (newUniqueItems.length > 0) {
-          const updatedResults = [...currentResults, ...newUniqueItems];
-          setSearchResults(updatedResults, totalFound + newUniqueItems.length);
-          
-          toast({
-            title: "More Results Loaded",
-            description: `Added ${newUniqueItems.length} more job opportunities`
-          });
-        } else {
-          setHasMoreResults(false);
-          toast({
-            title: "No More Results",
-            description: "All available results have been loaded"
-          });
-        }
-      } else {
-        setHasMoreResults(false);
-      }
-    } catch (error) {
-      console.error('Failed to load more results:', error);
+    if (!vacanciesData || vacanciesData.page >= vacanciesData.pages - 1) {
+      setHasMoreResults(false);
       toast({
-        title: "Error Loading More",
-        description: "Failed to load additional results. Please try again.",
-        variant: "destructive"
+        title: "No More Results",
+        description: "All available results have been loaded"
       });
-    } finally {
-      setIsLoadingMore(false);
+      return;
     }
+    
+    setCurrentPage(vacanciesData.page + 1);
   };
 
   const formatSalary = (salary: any) => {
@@ -1209,7 +737,9 @@ ${jobInfo.description}`;
 
   const renderApplyButton = () => {
     const currentVacancy = searchResults[currentVacancyIndex];
-    const isAlreadyApplied = currentVacancy && appliedVacancyIds.includes(currentVacancy.id);
+    const isAlreadyApplied = currentVacancy && (
+      appliedVacancyIds.includes(currentVacancy.id) || vacancyStatus?.hasApplied
+    );
 
     // Check if vacancy is missing ID or URL
     if (!currentVacancy?.id) {
@@ -1241,7 +771,7 @@ ${jobInfo.description}`;
       );
     }
 
-    const { exists } = vacancyStatus as any;
+    const { exists } = vacancyStatus;
 
     // Vacancy no longer exists on HH.ru
     if (!exists) {
@@ -1288,7 +818,7 @@ ${jobInfo.description}`;
   }
 
   // Show loading state
-  if (isMatchingFilters || isSearching) {
+  if (isSearching) {
     return (
       <div className="w-full max-w-4xl mx-auto">
         <div className="bg-white rounded-2xl shadow-lg p-8 mb-8">
@@ -1357,6 +887,22 @@ ${jobInfo.description}`;
                 </span>
               )}
             </p>
+            <div className="flex items-center gap-2 mt-2">
+              <span className="text-sm text-slate-500">Ranking:</span>
+              <ScoringProfilePicker
+                value={scoringProfile}
+                onChange={(profile) => {
+                  setScoringProfile(profile);
+                  setCurrentPage(0);
+                }}
+              />
+              <ResumeFitDialog />
+              {vacanciesData?.fitRanking && (
+                <span className="text-xs text-slate-500">
+                  Top {vacanciesData.fitRanking.reranked} re-ranked by resume fit
+                </span>
+              )}
+            </div>
             <div className="flex items-center gap-4 mt-2">
               <p className="text-slate-600" data-testid="current-position">
                 Showing position {(currentPage * 50) + currentVacancyIndex + 1} of {totalFound}
@@ -1425,6 +971,16 @@ ${jobInfo.description}`;
         </div>
       </div>
 
+      <SalaryHistogram
+        keywords={selectedKeywordsCanonical.map(k => k.text)}
+        filters={filters}
+        searchSignature={currentSearchSignature}
+      />
+
+      {vacanciesData?.excluded && vacanciesData.excluded.length > 0 && (
+        <ExclusionAudit excluded={vacanciesData.excluded} />
+      )}
+
       {/* Vacancy Display */}
       {currentVacancy && (
         <div className="bg-white rounded-2xl shadow-lg p-8 animate-fade-in">
@@ -1448,6 +1004,15 @@ ${jobInfo.description}`;
                           <ExternalLink className="mr-2 h-4 w-4" />
                           {vacancyDetail.employer.name}
                         </span>
+                        {currentVacancy.employer?.id && (
+                          <div className="ml-4 mt-1">
+                            <EmployerListButtons
+                              employerId={String(currentVacancy.employer.id)}
+                              employerName={vacancyDetail.employer.name}
+                              onBlocked={handleEmployerBlocked}
+                            />
+                          </div>
+                        )}
                         {/* Employer Website Information */}
                         <div className="ml-6 mt-1">
                           {vacancyDetail.employer.site_url ? (
@@ -1526,6 +1091,23 @@ ${jobInfo.description}`;
                         {formatSalary(vacancyDetail.salary)}
                       </div>
                     )}
+                    {currentVacancy?.scoreBreakdown && (
+                      <div className="mb-2 text-xs text-slate-500" data-testid="score-breakdown">
+                        <div className="font-medium text-slate-700">
+                          Score {currentVacancy.relevanceScore}
+                          {currentVacancy.fitScore != null && (
+                            <span className="ml-2 px-2 py-0.5 bg-emerald-100 text-emerald-700 rounded" data-testid="fit-score">
+                              Fit {currentVacancy.fitScore}%
+                            </span>
+                          )}
+                        </div>
+                        {currentVacancy.scoreBreakdown.map((contribution: ScoreContribution, index: number) => (
+                          <div key={index}>
+                            {contribution.label}: {contribution.points > 0 ? '+' : ''}{contribution.points}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <Button
                       onClick={() => window.open(vacancyDetail.alternate_url, '_blank')}
                       className="bg-primary-600 text-white hover:bg-primary-700"
@@ -1538,8 +1120,13 @@ ${jobInfo.description}`;
                 </div>
               </div>
 
+              <VacancyDuplicates
+                duplicates={currentVacancy.duplicates || []}
+                repostOf={currentVacancy.repostOf || null}
+              />
+
               {/* Enhanced Debug Info Panel (when debug mode is enabled) */}
-              {filters.enableDebugMode && vacanciesData && (vacanciesData as any).tierInfo && (
+              {filters.enableDebugMode && vacanciesData && vacanciesData.tierInfo && (
                 <div className="mb-6 p-4 bg-gray-50 rounded-lg text-sm border-2 border-dashed border-gray-300">
                   <div className="font-bold text-gray-800 mb-3">🔍 Tiered Search Debug Panel</div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -1548,25 +1135,29 @@ ${jobInfo.description}`;
                       <div className="space-y-1 text-gray-600 text-xs">
                         <div>Keywords: {selectedKeywords.map(k => k.text).join(', ')}</div>
                         <div>Exact phrases: {filters.useExactPhrases ? 'ENABLED' : 'DISABLED'}</div>
+                        <div>Query: {filters.customQuery?.trim() || 'built from keywords'}</div>
                         <div>Title-first: {filters.titleFirstSearch ? 'LEGACY MODE' : 'TIERED MODE'}</div>
                       </div>
                     </div>
                     <div>
                       <div className="font-medium text-gray-700 mb-2">Tier Results:</div>
                       <div className="space-y-1 text-gray-600 text-xs">
-                        <div>🎯 Title: {(vacanciesData as any).tierInfo.titleCount} found</div>
-                        <div>📄 Description: {(vacanciesData as any).tierInfo.descriptionCount} found</div>
-                        <div>🛠️ Skills: {(vacanciesData as any).tierInfo.skillsCount} found</div>
-                        <div className="font-medium pt-1">📊 Total after dedup: {(vacanciesData as any).tierInfo.totalAfterDedup}</div>
+                        <div>🎯 Title: {vacanciesData.tierInfo.titleCount} found</div>
+                        <div>📄 Description: {vacanciesData.tierInfo.descriptionCount} found</div>
+                        <div>🛠️ Skills: {vacanciesData.tierInfo.skillsCount} found</div>
+                        <div className="font-medium pt-1">📊 Total after dedup: {vacanciesData.tierInfo.totalAfterDedup}</div>
+                        <div>🚫 Blocked employers: {vacanciesData.tierInfo.blockedCount} removed</div>
+                        <div>🧬 Duplicates: {vacanciesData.tierInfo.duplicateCount} collapsed</div>
+                        <div>🧭 Fit re-rank: {vacanciesData.fitRanking ? `${vacanciesData.fitRanking.provider}, top ${vacanciesData.fitRanking.reranked}` : 'off'}</div>
                       </div>
                     </div>
                   </div>
                   <div className="mt-3 pt-2 border-t border-gray-200">
                     <div className="text-xs text-gray-600">
                       Current vacancy: #{(currentPage * 50) + currentVacancyIndex + 1} of {totalFound}
-                      {currentVacancy?._tierSource && (
+                      {currentVacancy?.searchTier && (
                         <span className="ml-2 px-2 py-1 bg-blue-100 text-blue-700 rounded font-medium">
-                          {currentVacancy._tierSource} match
+                          {currentVacancy.searchTier} match
                           {currentVacancy.matchedKeywords && currentVacancy.matchedKeywords.length > 0 && (
                             <span className="text-xs text-blue-600 ml-1">
                               ({currentVacancy.matchedKeywords.slice(0, 2).join(', ')}
@@ -1617,6 +1208,16 @@ ${jobInfo.description}`;
                 </div>
               )}
 
+              {/* Skill gap against the default profile */}
+              <SkillGapPanel
+                vacancyId={String(vacancyDetail.id)}
+                resultVacancyIds={searchResults.map((vacancy: any) => String(vacancy.id))}
+              />
+
+              {vacancyDetail.employer.id && (
+                <EmployerPanel employerId={vacancyDetail.employer.id} currentVacancyId={String(vacancyDetail.id)} />
+              )}
+
               {/* Navigation */}
               <div className="flex items-center justify-between py-4 border-t border-slate-200">
                 <Button
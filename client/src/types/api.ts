@@ -97,6 +97,8 @@ export interface FilterMatchRequest {
   useCompanyFallback?: boolean;
   enableDebugMode?: boolean;
   excludeWords?: string;
+  excludeInDescription?: boolean;
+  customQuery?: string;
 }
 
 export interface FilterMatchResponse {
@@ -145,6 +147,7 @@ export interface HHVacancyDetail {
   id: string;
   name: string;
   employer: { 
+    id?: string;
     name: string;
     url?: string;
     alternate_url?: string;
@@ -182,6 +185,19 @@ export interface CoverLetterResponse {
   text: string;
 }
 
+// GET /api/vacancy-status/:id
+export interface VacancyStatusResponse {
+  vacancyId: string;
+  exists: boolean;
+  canApply: boolean;
+  hasApplied: boolean;
+  appliedAt: string | null;
+  applicationStatus: string | null;
+  requiresTest: boolean;
+  isDirect: boolean;
+  message: string;
+}
+
 export interface ApiError {
   error: string;
   message?: string;
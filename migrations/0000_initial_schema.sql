@@ -0,0 +1,51 @@
+CREATE TABLE "job_applications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"current_step" integer NOT NULL,
+	"selected_keywords" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"suggested_keywords" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"filters" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"current_vacancy_index" integer DEFAULT 0 NOT NULL,
+	"vacancies" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"total_vacancies" integer DEFAULT 0 NOT NULL,
+	"applied_vacancy_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"last_edited_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"is_completed" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "saved_prompts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"prompt" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"last_used_prompt_type" text,
+	"last_used_prompt_id" integer,
+	"last_used_custom_prompt" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_settings_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"is_admin" boolean DEFAULT false NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"last_login_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "job_applications" ADD CONSTRAINT "job_applications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_prompts" ADD CONSTRAINT "saved_prompts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "job_applications_user_id_idx" ON "job_applications" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "saved_prompts_user_id_name_idx" ON "saved_prompts" USING btree ("user_id","name");
\ No newline at end of file
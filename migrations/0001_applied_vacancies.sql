@@ -0,0 +1,12 @@
+CREATE TABLE "applied_vacancies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"vacancy_id" text NOT NULL,
+	"vacancy_title" text NOT NULL,
+	"company_name" text NOT NULL,
+	"applied_at" timestamp DEFAULT now() NOT NULL,
+	"status" text DEFAULT 'applied' NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "applied_vacancies" ADD CONSTRAINT "applied_vacancies_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "applied_vacancies_user_id_vacancy_id_idx" ON "applied_vacancies" USING btree ("user_id","vacancy_id");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "applied_vacancy_status_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"applied_vacancy_id" integer NOT NULL,
+	"from_status" text,
+	"to_status" text NOT NULL,
+	"note" text,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "applied_vacancies" ADD COLUMN "status_updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "applied_vacancy_status_history" ADD CONSTRAINT "applied_vacancy_status_history_applied_vacancy_id_applied_vacancies_id_fk" FOREIGN KEY ("applied_vacancy_id") REFERENCES "public"."applied_vacancies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "applied_vacancy_status_history_applied_vacancy_id_idx" ON "applied_vacancy_status_history" USING btree ("applied_vacancy_id");
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "job_applications" ADD COLUMN "is_watched" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "job_applications" ADD COLUMN "watch_interval_minutes" integer DEFAULT 60 NOT NULL;--> statement-breakpoint
+ALTER TABLE "job_applications" ADD COLUMN "watch_params" jsonb;--> statement-breakpoint
+ALTER TABLE "job_applications" ADD COLUMN "last_run_at" timestamp;--> statement-breakpoint
+ALTER TABLE "job_applications" ADD COLUMN "known_vacancy_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "job_applications" ADD COLUMN "new_vacancies" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+CREATE INDEX "job_applications_is_watched_idx" ON "job_applications" USING btree ("is_watched");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "user_settings" ADD COLUMN "resume_text" text;
\ No newline at end of file
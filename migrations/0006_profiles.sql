@@ -0,0 +1,14 @@
+CREATE TABLE "profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"content" text NOT NULL,
+	"skills" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"source_type" text DEFAULT 'text' NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "profiles" ADD CONSTRAINT "profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "profiles_user_id_idx" ON "profiles" USING btree ("user_id");
\ No newline at end of file
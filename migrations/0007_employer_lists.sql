@@ -0,0 +1,11 @@
+CREATE TABLE "employer_list_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"employer_id" text NOT NULL,
+	"employer_name" text NOT NULL,
+	"kind" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "employer_list_entries" ADD CONSTRAINT "employer_list_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "employer_list_entries_user_id_employer_id_idx" ON "employer_list_entries" USING btree ("user_id","employer_id");
\ No newline at end of file
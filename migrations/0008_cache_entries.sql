@@ -0,0 +1,11 @@
+CREATE TABLE "cache_entries" (
+	"namespace" text NOT NULL,
+	"key" text NOT NULL,
+	"value" jsonb NOT NULL,
+	"stored_at" timestamp NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"retain_until" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "cache_entries_namespace_key_idx" ON "cache_entries" USING btree ("namespace","key");--> statement-breakpoint
+CREATE INDEX "cache_entries_retain_until_idx" ON "cache_entries" USING btree ("retain_until");
\ No newline at end of file
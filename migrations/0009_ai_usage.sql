@@ -0,0 +1,27 @@
+CREATE TABLE "ai_quotas" (
+	"user_id" integer PRIMARY KEY NOT NULL,
+	"daily_requests" integer,
+	"monthly_requests" integer,
+	"daily_tokens" integer,
+	"monthly_tokens" integer,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ai_usage" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"feature" text NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"prompt_tokens" integer,
+	"completion_tokens" integer,
+	"total_tokens" integer,
+	"latency_ms" integer NOT NULL,
+	"success" boolean NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ai_quotas" ADD CONSTRAINT "ai_quotas_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ai_usage_user_id_created_at_idx" ON "ai_usage" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "ai_usage_created_at_idx" ON "ai_usage" USING btree ("created_at");
\ No newline at end of file
@@ -2,11 +2,14 @@ import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { watchScheduler } from "./services/watchScheduler";
 
 // Debug flags
 const BYPASS_SEARCH_CACHE = process.env.BYPASS_SEARCH_CACHE === 'true' || true; // Temporary bypass
 
 const app = express();
+// Base64 PDF resumes are larger than the default 100kb body limit
+app.use('/api/profiles/import', express.json({ limit: '10mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -83,5 +86,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    if (process.env.WATCH_SCHEDULER_ENABLED !== 'false') {
+      watchScheduler.start();
+    }
   });
 })();
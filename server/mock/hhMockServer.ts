@@ -0,0 +1,326 @@
+import express, { type Request, type Response, type NextFunction } from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import fs from "fs";
+import path from "path";
+import { hhQueryFields, parseQuery, HHQueryError, type HHQueryField, type HHQueryNode } from "@shared/hhQuery";
+import { DEFAULT_HH_API_BASE_URL } from "../services/hhClient";
+
+// Offline stand-in for the subset of api.hh.ru the app uses. Responses come
+// from the recorded JSON in ./fixtures; faults (429s, slow responses, errors)
+// are queued per test or through the /__mock control endpoints.
+
+export interface HHMockFixtures {
+  vacancies: any[];
+  employers: Record<string, any>;
+  suggests: { items: Array<{ text: string }> };
+  dictionaries: any;
+  areas: any[];
+}
+
+export type HHMockFault =
+  | { type: 'rate_limit'; path?: string; times?: number; retryAfterSeconds?: number }
+  | { type: 'timeout'; path?: string; times?: number; delayMs?: number }
+  | { type: 'error'; path?: string; times?: number; status?: number };
+
+export interface HHMockRequestLog {
+  method: string;
+  path: string;
+  query: Record<string, any>;
+  fault?: HHMockFault['type'];
+}
+
+export interface HHMockServerOptions {
+  port?: number;
+  fixturesDir?: string;
+  faults?: HHMockFault[];
+}
+
+export interface HHMockServer {
+  url: string;
+  requests: HHMockRequestLog[];
+  addFault(fault: HHMockFault): void;
+  clearFaults(): void;
+  close(): Promise<void>;
+}
+
+const DEFAULT_FIXTURES_DIR = path.resolve(import.meta.dirname, 'fixtures');
+const DEFAULT_PER_PAGE = 20;
+const MAX_PER_PAGE = 100;
+// HH.ru refuses to page past the first 2000 results of a query
+const MAX_SEARCH_DEPTH = 2000;
+
+export function loadHHMockFixtures(fixturesDir: string = DEFAULT_FIXTURES_DIR): HHMockFixtures {
+  const read = (name: string) => JSON.parse(fs.readFileSync(path.join(fixturesDir, `${name}.json`), 'utf8'));
+  return {
+    vacancies: read('vacancies'),
+    employers: read('employers'),
+    suggests: read('suggests'),
+    dictionaries: read('dictionaries'),
+    areas: read('areas')
+  };
+}
+
+const toArray = (value: unknown): string[] =>
+  value === undefined ? [] : (Array.isArray(value) ? value : [value]).map(String);
+
+// Search list items carry a snippet; only the detail endpoint has the full
+// description and key skills
+function toListItem({ description, key_skills, branded_description, ...item }: any) {
+  return item;
+}
+
+function toDetail({ snippet, ...vacancy }: any) {
+  return vacancy;
+}
+
+function stripTags(html: string | null | undefined): string {
+  return (html || '').replace(/<[^>]+>/g, ' ').toLowerCase();
+}
+
+export type HHMockDocument = Record<HHQueryField, string>;
+
+function searchableDocument(vacancy: any): HHMockDocument {
+  return {
+    NAME: vacancy.name.toLowerCase(),
+    DESCRIPTION: [
+      stripTags(vacancy.description),
+      stripTags(vacancy.snippet?.requirement),
+      stripTags(vacancy.snippet?.responsibility)
+    ].join(' '),
+    COMPANY_NAME: (vacancy.employer?.name || '').toLowerCase()
+  };
+}
+
+// Substring matching over the parsed query: terms, phrases and stems match
+// anywhere in the searched fields, NAME:/DESCRIPTION:/COMPANY_NAME: narrow them
+function evaluateQuery(node: HHQueryNode, document: HHMockDocument, scope: readonly HHQueryField[]): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return scope.some(field => document[field].includes(node.value.toLowerCase()));
+    case 'field':
+      return evaluateQuery(node.child, document, [node.field]);
+    case 'and':
+      return node.children.every(child => evaluateQuery(child, document, scope));
+    case 'or':
+      return node.children.some(child => evaluateQuery(child, document, scope));
+    case 'not':
+      return !evaluateQuery(node.child, document, scope);
+  }
+}
+
+// search_field values are the lowercase field names
+export function matchesSearchText(text: string | undefined, document: HHMockDocument, searchFields: string[] = []): boolean {
+  if (!text || !text.trim()) return true;
+  const scope = searchFields.length > 0
+    ? hhQueryFields.filter(field => searchFields.includes(field.toLowerCase()))
+    : hhQueryFields;
+  return evaluateQuery(parseQuery(text), document, scope);
+}
+
+function areaAncestors(areas: any[]): Map<string, string[]> {
+  const ancestors = new Map<string, string[]>();
+  const walk = (nodes: any[], chain: string[]) => {
+    for (const node of nodes) {
+      ancestors.set(node.id, chain);
+      walk(node.areas || [], [...chain, node.id]);
+    }
+  };
+  walk(areas, []);
+  return ancestors;
+}
+
+function searchVacancies(fixtures: HHMockFixtures, query: Record<string, any>) {
+  const ancestors = areaAncestors(fixtures.areas);
+  const fields = toArray(query.search_field);
+  const areas = toArray(query.area);
+  const experience = toArray(query.experience);
+  const employment = toArray(query.employment);
+  const schedule = toArray(query.schedule);
+  const employers = toArray(query.employer_id);
+  const salary = query.salary ? Number(query.salary) : null;
+
+  const matches = fixtures.vacancies.filter(vacancy => {
+    if (!matchesSearchText(query.text, searchableDocument(vacancy), fields)) return false;
+    if (areas.length && !areas.some(area => vacancy.area.id === area || (ancestors.get(vacancy.area.id) || []).includes(area))) return false;
+    if (experience.length && !experience.includes(vacancy.experience?.id)) return false;
+    if (employment.length && !employment.includes(vacancy.employment?.id)) return false;
+    if (schedule.length && !schedule.includes(vacancy.schedule?.id)) return false;
+    if (employers.length && !employers.includes(vacancy.employer?.id)) return false;
+    if (query.only_with_salary === 'true' && !vacancy.salary) return false;
+    if (salary !== null && vacancy.salary && (vacancy.salary.to ?? vacancy.salary.from) < salary) return false;
+    return true;
+  });
+
+  if (query.order_by === 'publication_time') {
+    matches.sort((a, b) => b.published_at.localeCompare(a.published_at));
+  } else if (query.order_by === 'salary_desc' || query.order_by === 'salary_asc') {
+    const amount = (vacancy: any) => vacancy.salary?.from ?? vacancy.salary?.to ?? 0;
+    const direction = query.order_by === 'salary_desc' ? -1 : 1;
+    matches.sort((a, b) => direction * (amount(a) - amount(b)));
+  }
+  return matches;
+}
+
+// Recorded payloads link to api.hh.ru; point those links back at the mock
+function rebase(data: any, baseUrl: string): any {
+  return JSON.parse(JSON.stringify(data).split(DEFAULT_HH_API_BASE_URL).join(baseUrl));
+}
+
+export function createHHMockApp(fixtures: HHMockFixtures, state: { faults: HHMockFault[]; requests: HHMockRequestLog[] }) {
+  const app = express();
+  app.use(express.json());
+
+  const send = (req: Request, res: Response, data: any) => {
+    res.json(rebase(data, `${req.protocol}://${req.get('host')}`));
+  };
+
+  // Test control surface, for suites that drive the mock from another process
+  app.post('/__mock/faults', (req, res) => {
+    const faults: HHMockFault[] = Array.isArray(req.body) ? req.body : [req.body];
+    state.faults.push(...faults);
+    res.status(201).json({ faults: state.faults });
+  });
+
+  app.delete('/__mock/faults', (_req, res) => {
+    state.faults.length = 0;
+    res.json({ faults: [] });
+  });
+
+  app.get('/__mock/requests', (_req, res) => {
+    res.json(state.requests);
+  });
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const entry: HHMockRequestLog = { method: req.method, path: req.path, query: { ...req.query } };
+    state.requests.push(entry);
+
+    const index = state.faults.findIndex(fault => !fault.path || req.path.startsWith(fault.path));
+    if (index === -1) return next();
+
+    const fault = state.faults[index];
+    entry.fault = fault.type;
+    if (fault.times !== undefined && --fault.times <= 0) {
+      state.faults.splice(index, 1);
+    }
+
+    switch (fault.type) {
+      case 'rate_limit':
+        res.set('Retry-After', String(fault.retryAfterSeconds ?? 1));
+        return res.status(429).json({ errors: [{ type: 'too_many_requests' }] });
+      case 'error':
+        return res.status(fault.status ?? 500).json({ errors: [{ type: 'server_error' }] });
+      case 'timeout': {
+        // Answer normally, just too late for the client's timeout
+        const timer = setTimeout(next, fault.delayMs ?? 30000);
+        req.on('close', () => clearTimeout(timer));
+        return;
+      }
+    }
+  });
+
+  app.get('/vacancies', (req, res) => {
+    const perPage = Math.min(MAX_PER_PAGE, Math.max(1, Number(req.query.per_page) || DEFAULT_PER_PAGE));
+    const page = Math.max(0, Number(req.query.page) || 0);
+    if ((page + 1) * perPage > MAX_SEARCH_DEPTH) {
+      return res.status(400).json({ errors: [{ type: 'bad_argument', value: 'page' }] });
+    }
+
+    let matches: any[];
+    try {
+      matches = searchVacancies(fixtures, req.query);
+    } catch (error) {
+      if (!(error instanceof HHQueryError)) throw error;
+      return res.status(400).json({ errors: [{ type: 'bad_argument', value: 'text' }] });
+    }
+    send(req, res, {
+      items: matches.slice(page * perPage, (page + 1) * perPage).map(toListItem),
+      found: matches.length,
+      pages: Math.min(Math.ceil(matches.length / perPage), Math.floor(MAX_SEARCH_DEPTH / perPage)),
+      per_page: perPage,
+      page,
+      clusters: null,
+      arguments: null,
+      alternate_url: `https://hh.ru/search/vacancy?text=${encodeURIComponent(String(req.query.text || ''))}`
+    });
+  });
+
+  app.get('/vacancies/:id', (req, res) => {
+    const vacancy = fixtures.vacancies.find(item => item.id === req.params.id);
+    if (!vacancy) {
+      return res.status(404).json({ errors: [{ type: 'not_found' }] });
+    }
+    send(req, res, toDetail(vacancy));
+  });
+
+  // Name search, registered before /employers/:id
+  app.get('/employers', (req, res) => {
+    const text = String(req.query.text || '').toLowerCase().replace(/ё/g, 'е');
+    const perPage = Math.min(Number(req.query.per_page) || 20, 100);
+    const matches = Object.values(fixtures.employers)
+      .filter((employer: any) => employer.name.toLowerCase().replace(/ё/g, 'е').includes(text));
+    send(req, res, {
+      items: matches.slice(0, perPage).map((employer: any) => ({
+        id: employer.id,
+        name: employer.name,
+        url: `https://api.hh.ru/employers/${employer.id}`,
+        alternate_url: employer.alternate_url,
+        logo_urls: employer.logo_urls,
+        open_vacancies: employer.open_vacancies
+      })),
+      found: matches.length,
+      pages: Math.ceil(matches.length / perPage),
+      per_page: perPage,
+      page: 0
+    });
+  });
+
+  app.get('/employers/:id', (req, res) => {
+    const employer = fixtures.employers[req.params.id];
+    if (!employer) {
+      return res.status(404).json({ errors: [{ type: 'not_found' }] });
+    }
+    send(req, res, employer);
+  });
+
+  app.get('/suggests/vacancy_search_keyword', (req, res) => {
+    const text = String(req.query.text || '').toLowerCase();
+    if (text.length < 2) {
+      return res.status(400).json({ errors: [{ type: 'bad_argument', value: 'text' }] });
+    }
+    send(req, res, { items: fixtures.suggests.items.filter(item => item.text.toLowerCase().includes(text)) });
+  });
+
+  app.get('/dictionaries', (req, res) => send(req, res, fixtures.dictionaries));
+  app.get('/areas', (req, res) => send(req, res, fixtures.areas));
+
+  app.use((_req, res) => {
+    res.status(404).json({ errors: [{ type: 'not_found' }] });
+  });
+
+  return app;
+}
+
+export async function startHHMockServer(options: HHMockServerOptions = {}): Promise<HHMockServer> {
+  const fixtures = loadHHMockFixtures(options.fixturesDir);
+  const state = { faults: [...(options.faults || [])], requests: [] as HHMockRequestLog[] };
+  const app = createHHMockApp(fixtures, state);
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(options.port ?? 0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests: state.requests,
+    addFault: fault => state.faults.push(fault),
+    clearFaults: () => { state.faults.length = 0; },
+    close: () => new Promise<void>((resolve, reject) => {
+      // Keep-alive sockets from HHClient's agent would hold the server open
+      server.closeAllConnections();
+      server.close(error => error ? reject(error) : resolve());
+    })
+  };
+}
@@ -0,0 +1,132 @@
+import net from "net";
+import type { AddressInfo } from "net";
+import { encodeRespReply, parseResp, RedisReplyError, type RedisReply } from "../services/redisClient";
+
+// In-process stand-in for the Redis commands the cache backend sends, so
+// RedisCacheBackend can be tested without a Redis install. Keys live in a Map
+// with optional PX expiry; SCAN returns every match in one batch.
+
+export interface RedisMockServerOptions {
+  port?: number;
+  now?: () => number;
+}
+
+export interface RedisMockServer {
+  url: string;
+  commands: string[][];
+  // Client connections accepted so far
+  connectionCount(): number;
+  // Drops every open client connection, as a Redis restart would
+  dropConnections(): void;
+  close(): Promise<void>;
+}
+
+interface StoredValue {
+  value: string;
+  expiresAt: number | null;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function createRedisMockHandler(now: () => number = Date.now) {
+  const store = new Map<string, StoredValue>();
+
+  const read = (key: string) => {
+    const stored = store.get(key);
+    if (stored && stored.expiresAt !== null && now() >= stored.expiresAt) {
+      store.delete(key);
+      return undefined;
+    }
+    return stored;
+  };
+
+  return (args: string[]): RedisReply | 'OK' => {
+    const [name, ...rest] = args;
+    switch (name.toUpperCase()) {
+      case 'PING':
+        return 'PONG';
+      case 'AUTH':
+      case 'SELECT':
+        return 'OK';
+      case 'GET':
+        return read(rest[0])?.value ?? null;
+      case 'SET': {
+        const pxIndex = rest.findIndex(arg => arg.toUpperCase() === 'PX');
+        const expiresAt = pxIndex === -1 ? null : now() + parseInt(rest[pxIndex + 1], 10);
+        store.set(rest[0], { value: rest[1], expiresAt });
+        return 'OK';
+      }
+      case 'DEL':
+        return rest.filter(key => read(key) !== undefined && store.delete(key)).length;
+      case 'SCAN': {
+        const matchIndex = rest.findIndex(arg => arg.toUpperCase() === 'MATCH');
+        const pattern = matchIndex === -1 ? null : globToRegExp(rest[matchIndex + 1]);
+        const keys = Array.from(store.keys()).filter(key => read(key) !== undefined && (!pattern || pattern.test(key)));
+        return ['0', keys];
+      }
+      case 'FLUSHALL':
+        store.clear();
+        return 'OK';
+      default:
+        return new RedisReplyError(`ERR unknown command '${name}'`);
+    }
+  };
+}
+
+export async function startRedisMockServer(options: RedisMockServerOptions = {}): Promise<RedisMockServer> {
+  const handle = createRedisMockHandler(options.now);
+  const commands: string[][] = [];
+  const sockets = new Set<net.Socket>();
+  let connections = 0;
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    connections++;
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let offset = 0;
+      let parsed = parseResp(buffer, offset);
+      while (parsed) {
+        const args = (parsed.value as RedisReply[]).map(String);
+        commands.push(args);
+        socket.write(encodeRespReply(handle(args)));
+        offset = parsed.next;
+        parsed = offset < buffer.length ? parseResp(buffer, offset) : null;
+      }
+      buffer = buffer.subarray(offset);
+    });
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    commands,
+    connectionCount: () => connections,
+    dropConnections: () => sockets.forEach(socket => socket.destroy()),
+    close: () => new Promise<void>((resolve, reject) => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(error => error ? reject(error) : resolve());
+    })
+  };
+}
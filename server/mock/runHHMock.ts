@@ -0,0 +1,12 @@
+import { startHHMockServer } from "./hhMockServer";
+
+// npm run mock:hh, then start the app with HH_API_BASE_URL=http://127.0.0.1:5055
+const port = parseInt(process.env.HH_MOCK_PORT || '5055', 10);
+
+startHHMockServer({ port, fixturesDir: process.env.HH_MOCK_FIXTURES_DIR }).then(mock => {
+  console.log(`🧪 HH.ru mock serving fixtures at ${mock.url}`);
+
+  const shutdown = () => mock.close().then(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+});
@@ -4,13 +4,38 @@ import compression from "compression";
 import bcrypt from "bcryptjs";
 import { storage } from "./storage";
 import { hhClient } from "./services/hhClient";
+import { hhScheduler } from "./services/hhScheduler";
 import { aiClient } from "./services/aiClient";
+import { AIRequestCancelledError, type AIRequestContext } from "./services/aiQueue";
+import { aiUsageTracker, AIQuotaExceededError } from "./services/aiUsage";
 import { sanitizeHTML, stripHTMLToText } from "./services/sanitize";
+import { watchScheduler } from "./services/watchScheduler";
+import {
+  fetchSearchTiers,
+  rankSearchTiers,
+  parseExcludeWords,
+  paginateSearchResult,
+  toFilterMatchRequest,
+  toVacancySummary,
+  type RawTierResult
+} from "./services/tieredSearch";
+import { embeddingProvider, rerankByFit } from "./services/fitRanking";
+import { importProfileDocument } from "./services/profileImport";
+import { analyzeSkillGap, aggregateMissingSkills } from "./services/skillGap";
+import { computeSalaryStats, currencyRatesFromDictionaries } from "./services/salaryStats";
+import { FULL_TEXT_EXCLUSION_LIMIT } from "./services/exclusionFilter";
+import { employerStore } from "./services/employerStore";
 import { 
   suggestionsCache, 
   dictionariesCache, 
   areasCache, 
+  employerSearchCache,
+  employerVacanciesCache,
   vacancyDetailsCache,
+  searchRunCache,
+  vacancyFitTextCache,
+  vacancySkillsCache,
+  namedCaches,
   coalesceRequest 
 } from "./services/cache";
 import { 
@@ -19,6 +44,21 @@ import {
   filterMatchResponseSchema,
   coverLetterRequestSchema,
   coverLetterResponseSchema,
+  searchRunRequestSchema,
+  salaryStatsRequestSchema,
+  builtInScoringProfiles,
+  insertScoringProfileSchema,
+  insertScoringProfileWithUserSchema,
+  updateScoringProfileSchema,
+  insertProfileSchema,
+  insertProfileWithUserSchema,
+  updateProfileSchema,
+  profileImportRequestSchema,
+  employerListRequestSchema,
+  insertEmployerListEntrySchema,
+  skillGapAggregateRequestSchema,
+  cacheInvalidateRequestSchema,
+  aiQuotaLimitsSchema,
   insertSavedPromptSchema,
   insertSavedPromptWithUserSchema,
   insertUserSettingsSchema,
@@ -28,8 +68,21 @@ import {
   updateUserSchema,
   insertJobApplicationSchema,
   updateJobApplicationSchema,
-  type User
+  watchJobApplicationRequestSchema,
+  insertAppliedVacancySchema,
+  updateAppliedVacancyStatusRequestSchema,
+  getAllowedStatusTransitions,
+  canTransitionStatus,
+  type User,
+  type CacheInvalidateResponse,
+  type CacheKeysResponse,
+  type CacheSummary,
+  type HHEmployerSearchResult,
+  type JobApplicationWatchState,
+  type ScoringProfileConfig,
+  type ScoringProfileRef
 } from "@shared/schema";
+import { HHQueryError } from "@shared/hhQuery";
 
 // Extend Express session with user
 declare module "express-session" {
@@ -63,14 +116,76 @@ const requireAdmin = async (req: Request, res: Response, next: NextFunction) =>
   next();
 };
 
+// AI calls for this request queue under the user and are dropped if the
+// browser disconnects before they are sent
+const aiRequestContext = (req: Request, res: Response): AIRequestContext => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return { userId: ((req as any).user as User | undefined)?.id, signal: controller.signal };
+};
+
+// The browser left before a response went out
+const clientGone = (res: Response) => res.destroyed && !res.writableFinished;
+
+// Requests waiting on each shared AI load, and the load's own abort signal
+const sharedLoadWaiters = new Map<string, { controller: AbortController; waiting: number }>();
+
+// Runs `load` with the signal of the load shared by every request for `key`.
+// As in RequestBatcher, it is aborted only once every waiting request has
+// disconnected.
+const withSharedSignal = async <T>(key: string, res: Response, load: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  let waiters = sharedLoadWaiters.get(key);
+  if (!waiters || waiters.controller.signal.aborted) {
+    waiters = { controller: new AbortController(), waiting: 0 };
+    sharedLoadWaiters.set(key, waiters);
+  }
+  const joined = waiters;
+  joined.waiting++;
+
+  const leave = () => {
+    res.off('close', onClose);
+    if (--joined.waiting > 0) return;
+    if (sharedLoadWaiters.get(key) === joined) sharedLoadWaiters.delete(key);
+    if (clientGone(res)) joined.controller.abort();
+  };
+  const onClose = () => leave();
+  res.on('close', onClose);
+
+  try {
+    return await load(joined.controller.signal);
+  } finally {
+    if (!clientGone(res)) leave();
+  }
+};
+
+const MAX_SHARED_LOAD_ATTEMPTS = 3;
+
+// Work shared with other requests (coalesced or cached) runs for the user who
+// started it, so each caller's quota is checked before joining. If the work
+// fails on someone else's quota, or is cancelled because everyone else left,
+// a caller who is still here and within quota starts it again.
+const runSharedLoad = async <T>(userId: number, res: Response, load: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    await aiClient.checkQuota(userId);
+    try {
+      return await load();
+    } catch (error) {
+      const notThisCallers = error instanceof AIQuotaExceededError || error instanceof AIRequestCancelledError;
+      if (!notThisCallers || clientGone(res) || attempt === MAX_SHARED_LOAD_ATTEMPTS) throw error;
+    }
+  }
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Enable compression
   app.use(compression());
 
-  // Health check endpoint for Gemini API key
+  // Health check for AI keyword suggestions: whichever provider seedTerms is
+  // bound to, not only Gemini
   app.get('/api/health/gemini', (req, res) => {
-    const hasKey = !!process.env.GEMINI_API_KEY;
-    res.json({ available: hasKey });
+    res.json({ available: aiClient.isFeatureConfigured('seedTerms') });
   });
 
   // POST /api/gemini/connect - Save Gemini API key temporarily
@@ -87,6 +202,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ success: true, message: 'Gemini API key saved successfully' });
   });
 
+  // GET /api/ai/queue - where the user's next AI request stands in the shared queue
+  app.get('/api/ai/queue', requireAuth, (req, res) => {
+    const user = (req as any).user as User;
+    res.json(aiClient.getQueueStatus(user.id));
+  });
+
+  // GET /api/ai/metrics - structured output failures and repairs per AI feature
+  app.get('/api/ai/metrics', requireAuth, requireAdmin, (req, res) => {
+    res.json(aiClient.getOutputMetrics());
+  });
+
   // POST /api/keywords/expand - Generate keyword expansions with Gemini
   app.post('/api/keywords/expand', requireAuth, async (req, res) => {
     try {
@@ -96,13 +222,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Keywords array is required' });
       }
       
-      if (!process.env.GEMINI_API_KEY) {
-        return res.status(400).json({ error: 'Gemini API key not configured' });
+      if (!aiClient.isFeatureConfigured('seedTerms')) {
+        return res.status(400).json({ error: 'AI provider not configured' });
       }
       
       const { generateKeywordExpansions, createExpansionPreview } = await import('./services/keywordExpansion');
       
-      const expansions = await generateKeywordExpansions(keywords);
+      const expansions = await generateKeywordExpansions(keywords, aiRequestContext(req, res));
       const preview = createExpansionPreview(keywords, expansions);
       
       res.json({ 
@@ -113,6 +239,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
     } catch (error) {
       console.error('Keyword expansion error:', error);
+
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(429).json(error.toResponse());
+      }
+
       res.status(500).json({ error: 'Failed to generate keyword expansions' });
     }
   });
@@ -122,7 +253,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.locals.timings = [];
     res.locals.addTiming = (name: string, duration: number) => {
       res.locals.timings.push(`${name};dur=${duration}`);
-      res.set('Server-Timing', res.locals.timings.join(', '));
+      // Cache refreshes can finish after the response went out
+      if (!res.headersSent) res.set('Server-Timing', res.locals.timings.join(', '));
     };
     next();
   });
@@ -243,6 +375,310 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Caches an admin can refill on demand, e.g. after HH changes a dictionary
+  const cacheWarmers: Record<string, () => Promise<unknown>> = {
+    dictionaries: () => dictionariesCache.reload('dictionaries', async () => (await hhClient.getDictionaries()).data),
+    areas: () => areasCache.reload('areas', async () => (await hhClient.getAreas()).data)
+  };
+
+  const cacheSummaries = (): CacheSummary[] => Object.entries(namedCaches).map(([name, cache]) => ({
+    name,
+    ...cache.summary(),
+    warmable: name in cacheWarmers
+  }));
+
+  // GET /api/admin/caches - size, hit/miss/eviction counters and TTLs per cache
+  app.get('/api/admin/caches', requireAuth, requireAdmin, (req, res) => {
+    res.json(cacheSummaries());
+  });
+
+  // GET /api/admin/caches/:name/keys?prefix= - in-process keys with their remaining TTL
+  app.get('/api/admin/caches/:name/keys', requireAuth, requireAdmin, (req, res) => {
+    const cache = namedCaches[req.params.name];
+    if (!cache) {
+      return res.status(404).json({ error: "Unknown cache" });
+    }
+
+    const prefix = typeof req.query.prefix === 'string' ? req.query.prefix : '';
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 100, 1000);
+    const keys = cache.keys(prefix).sort((a, b) => a.key.localeCompare(b.key));
+    const response: CacheKeysResponse = { total: keys.length, keys: keys.slice(0, limit) };
+    res.json(response);
+  });
+
+  // POST /api/admin/caches/invalidate - drop keys by prefix from one cache or all of them
+  app.post('/api/admin/caches/invalidate', requireAuth, requireAdmin, async (req, res) => {
+    const parsed = cacheInvalidateRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid invalidation request", details: parsed.error.errors });
+    }
+
+    const { cache: name, prefix } = parsed.data;
+    if (name && !namedCaches[name]) {
+      return res.status(404).json({ error: "Unknown cache" });
+    }
+
+    try {
+      const invalidated: CacheInvalidateResponse['invalidated'] = {};
+      for (const cacheName of name ? [name] : Object.keys(namedCaches)) {
+        invalidated[cacheName] = await namedCaches[cacheName].invalidate(prefix);
+      }
+      const user = (req as any).user as User;
+      console.log(`🗄️ ${user.username} invalidated "${prefix}*" in ${name || 'all caches'}`);
+      res.json({ invalidated });
+    } catch (error: any) {
+      console.error('Cache invalidation error:', error);
+      res.status(500).json({ error: 'Failed to invalidate cache', message: error.message });
+    }
+  });
+
+  // POST /api/admin/caches/:name/warm - refetch a cache's data from HH.ru now
+  app.post('/api/admin/caches/:name/warm', requireAuth, requireAdmin, async (req, res) => {
+    const warm = cacheWarmers[req.params.name];
+    if (!warm) {
+      return res.status(namedCaches[req.params.name] ? 400 : 404).json({
+        error: namedCaches[req.params.name] ? "This cache can't be warmed" : "Unknown cache"
+      });
+    }
+
+    try {
+      await warm();
+      res.json(cacheSummaries().find(summary => summary.name === req.params.name));
+    } catch (error: any) {
+      console.error('Cache warm error:', error);
+
+      if (error.error === 'rate_limited') {
+        return res.status(429).json({
+          error: 'rate_limited',
+          retryInMs: error.retryInMs,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({ error: 'Failed to warm cache', message: error.message });
+    }
+  });
+
+  // GET /api/admin/ai-usage - AI calls and tokens per user today and this month, with quotas
+  app.get('/api/admin/ai-usage', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      res.json(await aiUsageTracker.listUsage(await storage.getAllUsers()));
+    } catch (error: any) {
+      console.error('AI usage error:', error);
+      res.status(500).json({
+        error: 'Failed to load AI usage',
+        message: error.message
+      });
+    }
+  });
+
+  // PUT /api/admin/users/:id/ai-quota - daily/monthly request and token limits; null lifts one
+  app.put('/api/admin/users/:id/ai-quota', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const parsed = aiQuotaLimitsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid AI quota", details: parsed.error.errors });
+      }
+
+      if (!await storage.getUser(userId)) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const quota = await storage.upsertAIQuota(userId, parsed.data);
+      console.log(`🤖 AI quota for user ${userId} set to ${JSON.stringify(parsed.data)}`);
+      res.json(quota);
+    } catch (error: any) {
+      console.error('AI quota update error:', error);
+      res.status(500).json({
+        error: 'Failed to update AI quota',
+        message: error.message
+      });
+    }
+  });
+
+  // GET /api/admin/hh-scheduler - HH.ru queue depth per priority, tokens and backoff
+  app.get('/api/admin/hh-scheduler', requireAuth, requireAdmin, (req, res) => {
+    res.json(hhScheduler.getMetrics());
+  });
+
+  // Search pages queue behind vacancies the user is looking at; prefetched
+  // details queue behind both
+  const searchClient = hhClient.withPriority('search');
+  const prefetchClient = hhClient.withPriority('background');
+
+  // Both change rarely, so a stale copy is served while HH is asked again
+  const loadDictionaries = () => dictionariesCache.getOrLoad('dictionaries', async () => {
+    const { data } = await hhClient.getDictionaries();
+    return data;
+  });
+
+  const loadAreas = () => areasCache.getOrLoad('areas', async () => {
+    const { data } = await hhClient.getAreas();
+    return data;
+  });
+
+  const searchEmployers = async (text: string): Promise<HHEmployerSearchResult[]> => {
+    const cacheKey = text.trim().toLowerCase();
+    const cached = employerSearchCache.get(cacheKey);
+    if (cached) return cached;
+
+    return coalesceRequest(`employers:${cacheKey}`, async () => {
+      const { data } = await hhClient.searchEmployers(text.trim());
+      const items: HHEmployerSearchResult[] = (data.items || []).map((item: any) => ({ ...item, id: String(item.id) }));
+      employerSearchCache.set(cacheKey, items);
+      return items;
+    });
+  };
+
+  // Candidates for the wizard's company filter; numeric input is already an ID.
+  // A failed lookup drops the filter, as the AI mapping used to
+  const loadEmployerMatches = async (employerName: string | undefined) => {
+    if (!employerName?.trim() || /^\d+$/.test(employerName.trim())) return [];
+    try {
+      return await searchEmployers(employerName);
+    } catch (error: any) {
+      if (error.error === 'rate_limited') throw error;
+      console.warn(`🏢 Employer search for "${employerName}" failed:`, error?.message || error);
+      return [];
+    }
+  };
+
+  // Same wizard filters → HH params mapping Step 4 gets from /api/filters/match
+  const resolveHHParams = async (keywords: string[], filters: Record<string, any>, context: AIRequestContext = {}) => {
+    return aiClient.mapFiltersToHH(
+      toFilterMatchRequest(keywords, filters),
+      await loadDictionaries(),
+      await loadAreas(),
+      await loadEmployerMatches(filters.employerName),
+      context
+    );
+  };
+
+  const loadEmployerLists = async (userId: number) => {
+    const entries = await storage.getEmployerListEntries(userId);
+    const idsOf = (kind: string) => new Set(entries.filter(entry => entry.kind === kind).map(entry => entry.employerId));
+    return { blockedEmployerIds: idsOf('blocked'), favoriteEmployerIds: idsOf('favorite') };
+  };
+
+  // Raw tier pages are cached per keywords+filters and shared by the search,
+  // re-ranking and salary analytics routes
+  const loadSearchTiers = async (keywords: string[], filters: Record<string, any>, res: Response, userId: number) => {
+    const startTime = Date.now();
+    const cacheKey = JSON.stringify({ keywords, filters });
+    const cached: RawTierResult[] | undefined = searchRunCache.get(cacheKey);
+    if (cached) {
+      res.locals.addTiming('cache', Date.now() - startTime);
+      return cached;
+    }
+
+    const tiers = await runSharedLoad(userId, res, () => coalesceRequest(`search-run:${cacheKey}`, async () => {
+      // Shared by everyone searching the same thing, so it isn't cancelled with one request
+      const hhParams = await resolveHHParams(keywords, filters, { userId });
+      const fetched = await fetchSearchTiers(searchClient, hhParams, keywords, filters);
+      searchRunCache.set(cacheKey, fetched);
+      return fetched;
+    }));
+    res.locals.addTiming('upstream', Date.now() - startTime);
+    return tiers;
+  };
+
+  // Built-in profiles are looked up by key; custom ones must belong to the user
+  const resolveScoringConfig = async (ref: ScoringProfileRef, userId: number) => {
+    if (typeof ref === 'number') {
+      const profile = await storage.getScoringProfile(ref);
+      return profile && profile.userId === userId ? profile.config : undefined;
+    }
+    return builtInScoringProfiles.find(profile => profile.key === ref)?.config;
+  };
+
+  // Text of the user's default resume/profile, falling back to the resume pasted
+  // in user settings before profiles existed
+  const resolveDefaultProfileText = async (userId: number) => {
+    const profile = await storage.getDefaultProfile(userId);
+    if (profile) {
+      return profile.skills.length > 0
+        ? `${profile.content}\n\nSkills: ${profile.skills.join(', ')}`
+        : profile.content;
+    }
+    return (await storage.getUserSettings(userId))?.resumeText;
+  };
+
+  // Skills and full text from a vacancy detail response, for skill gaps, resume
+  // fit re-ranking and the full-text exclusion filter
+  const cacheVacancyTexts = (data: any) => {
+    const skills: string[] = (data.key_skills || []).map((skill: any) => skill.name);
+    vacancySkillsCache.set(String(data.id), skills);
+    vacancyFitTextCache.set(String(data.id), [
+      data.name,
+      stripHTMLToText(data.description || ''),
+      skills.join(', ')
+    ].filter(Boolean).join('\n'));
+    return skills;
+  };
+
+  // key_skills names are cached when a vacancy is opened; otherwise fetched once
+  const getVacancyKeySkills = async (vacancyId: string): Promise<string[]> => {
+    const cached = vacancySkillsCache.get(vacancyId);
+    if (cached) return cached;
+
+    return coalesceRequest(`vacancy-skills:${vacancyId}`, async () => {
+      const { data } = await searchClient.getVacancy(vacancyId);
+      return cacheVacancyTexts(data);
+    });
+  };
+
+  // The user's blocked/favorite employers, exclusion and scoring over cached
+  // tiers. With excludeInDescription the top of the ranking gets its full
+  // descriptions fetched, then is filtered again; exclusions pull new vacancies
+  // into the top, so that repeats until every one there has been checked.
+  const rankWithExclusions = async (
+    tiers: RawTierResult[],
+    keywords: string[],
+    filters: Record<string, any>,
+    userId: number,
+    config?: ScoringProfileConfig
+  ) => {
+    const context = {
+      getVacancySkills: (vacancyId: string) => vacancySkillsCache.get(vacancyId),
+      getVacancyText: (vacancyId: string) => vacancyFitTextCache.get(vacancyId),
+      ...await loadEmployerLists(userId),
+      previousApplications: await storage.getAppliedVacanciesByUser(userId)
+    };
+    let result = rankSearchTiers(tiers, keywords, filters, config, Date.now(), context);
+    if (!filters.excludeInDescription || filters.safeMode || parseExcludeWords(filters.excludeWords).length === 0) {
+      return result;
+    }
+
+    // Each vacancy is fetched at most once per search, even if its text fails to load
+    const attempted = new Set<string>();
+    while (true) {
+      const missing = result.items
+        .slice(0, FULL_TEXT_EXCLUSION_LIMIT)
+        .filter(vacancy => !vacancyFitTextCache.has(vacancy.id) && !attempted.has(vacancy.id));
+      if (missing.length === 0) return result;
+      missing.forEach(vacancy => attempted.add(vacancy.id));
+
+      // All at once: the HH scheduler paces them behind interactive requests
+      const outcomes = await Promise.allSettled(missing.map(vacancy =>
+        coalesceRequest(`vacancy-skills:${vacancy.id}`, async () => {
+          const { data } = await prefetchClient.getVacancy(vacancy.id);
+          return cacheVacancyTexts(data);
+        })
+      ));
+      let rateLimited = false;
+      outcomes.forEach((outcome, i) => {
+        if (outcome.status === 'fulfilled') return;
+        // Left unchecked rather than failing the whole search
+        console.warn(`🚫 No full text for exclusion check of vacancy ${missing[i].id}:`, outcome.reason?.message || outcome.reason);
+        if (outcome.reason?.error === 'rate_limited') rateLimited = true;
+      });
+
+      result = rankSearchTiers(tiers, keywords, filters, config, Date.now(), context);
+      if (rateLimited) return result;
+    }
+  };
+
   // Job application routes
   app.get('/api/applications', requireAuth, async (req, res) => {
     const user = (req as any).user as User;
@@ -325,10 +761,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updates = updateJobApplicationSchema.parse(req.body);
-      const application = await storage.updateJobApplication(appId, updates);
-      
+
+      // A watched search whose query changed starts over with a new baseline.
+      // The parameters are rebuilt before anything is saved, so a failed rebuild
+      // leaves the old query and its watch parameters together.
+      const queryChanged = (updates.selectedKeywords !== undefined && JSON.stringify(updates.selectedKeywords) !== JSON.stringify(existingApp.selectedKeywords)) ||
+        (updates.filters !== undefined && JSON.stringify(updates.filters) !== JSON.stringify(existingApp.filters));
+      let watchState: JobApplicationWatchState = {};
+      if (existingApp.isWatched && queryChanged) {
+        console.log(`👁️ Watched search ${appId} changed, rebuilding watch parameters`);
+        watchState = {
+          watchParams: await resolveHHParams(
+            updates.selectedKeywords ?? existingApp.selectedKeywords,
+            updates.filters ?? existingApp.filters,
+            { userId: user.id }
+          ),
+          lastRunAt: null,
+          knownVacancyIds: [],
+          newVacancies: []
+        };
+      }
+
+      const application = await storage.updateJobApplication(appId, updates, watchState);
       res.json(application);
-    } catch (error) {
+    } catch (error: any) {
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(429).json(error.toResponse());
+      }
+      if (error.error === 'rate_limited') {
+        return res.status(429).json({
+          error: 'rate_limited',
+          retryInMs: error.retryInMs,
+          message: error.message
+        });
+      }
       res.status(400).json({ error: "Invalid update data" });
     }
   });
@@ -347,6 +813,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ success: true });
   });
 
+  // Watched searches
+  app.post('/api/applications/:id/watch', requireAuth, async (req, res) => {
+    try {
+      const user = (req as any).user as User;
+      const appId = parseInt(req.params.id);
+
+      const parsed = watchJobApplicationRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid watch settings", details: parsed.error.errors });
+      }
+
+      const existingApp = await storage.getJobApplication(appId);
+      if (!existingApp || existingApp.userId !== user.id) {
+        return res.status(404).json({ error: "Application not found" });
+      }
+
+      const { isWatched, intervalMinutes } = parsed.data;
+      if (!isWatched) {
+        const application = await storage.updateJobApplicationWatchState(appId, { isWatched: false });
+        console.log(`👁️ Stopped watching application ${appId}`);
+        return res.json(application);
+      }
+
+      if (existingApp.selectedKeywords.length === 0) {
+        return res.status(400).json({ error: "Cannot watch a search without keywords" });
+      }
+
+      // HH params are resolved once here; scheduled runs replay them as-is
+      const application = await storage.updateJobApplicationWatchState(appId, {
+        isWatched: true,
+        watchIntervalMinutes: intervalMinutes ?? existingApp.watchIntervalMinutes,
+        watchParams: existingApp.watchParams ?? await resolveHHParams(existingApp.selectedKeywords, existingApp.filters, { userId: user.id })
+      });
+      console.log(`👁️ Watching application ${appId} every ${application?.watchIntervalMinutes} min`);
+
+      // Record the baseline right away instead of waiting for the next tick
+      if (application && !application.lastRunAt) {
+        watchScheduler.runWatch(application).catch(error =>
+          console.error(`👁️ Baseline run for application ${appId} failed:`, error?.message || error)
+        );
+      }
+
+      res.json(application);
+    } catch (error: any) {
+      console.error('Watch application error:', error);
+
+      if (error instanceof HHQueryError) {
+        return res.status(400).json({ error: 'invalid_query', issues: error.issues });
+      }
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(429).json(error.toResponse());
+      }
+      res.status(500).json({
+        error: 'Failed to update watch settings',
+        message: error.message
+      });
+    }
+  });
+
+  app.get('/api/applications/:id/new-vacancies', requireAuth, async (req, res) => {
+    const user = (req as any).user as User;
+    const appId = parseInt(req.params.id);
+
+    const application = await storage.getJobApplication(appId);
+    if (!application || application.userId !== user.id) {
+      return res.status(404).json({ error: "Application not found" });
+    }
+
+    res.json({
+      isWatched: application.isWatched,
+      lastRunAt: application.lastRunAt,
+      items: application.newVacancies
+    });
+  });
+
+  // Marks the new vacancies as seen; they stay in knownVacancyIds
+  app.delete('/api/applications/:id/new-vacancies', requireAuth, async (req, res) => {
+    const user = (req as any).user as User;
+    const appId = parseInt(req.params.id);
+
+    const application = await storage.getJobApplication(appId);
+    if (!application || application.userId !== user.id) {
+      return res.status(404).json({ error: "Application not found" });
+    }
+
+    await storage.updateJobApplicationWatchState(appId, { newVacancies: [] });
+    res.json({ success: true });
+  });
+
   // Protected AI and search routes - Russian-first suggestions
   app.get('/api/ai-keywords', requireAuth, async (req, res) => {
     const startTime = Date.now();
@@ -357,23 +912,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Query parameter "q" is required' });
       }
 
+      const user = (req as any).user as User;
       const cacheKey = `ai-keywords-ru:${query}`;
-      const cached = suggestionsCache.get(cacheKey);
-      if (cached) {
-        res.locals.addTiming('cache', Date.now() - startTime);
-        return res.json(cached);
-      }
-
-      const result = await coalesceRequest(cacheKey, async () => {
+      // Shared by everyone asking for the same query; its timings go to the
+      // request that ran it
+      let loadTimings: Record<'ai' | 'hh' | 'relevance', number> | null = null;
+      const result = await runSharedLoad(user.id, res, () => withSharedSignal(cacheKey, res, signal => suggestionsCache.getOrLoad(cacheKey, async () => {
+        const aiContext: AIRequestContext = { userId: user.id, signal };
         const aiStartTime = Date.now();
         let aiSeeds = null;
         let aiDuration = 0;
         
         try {
           // Generate Russian seed terms using Gemini
-          aiSeeds = await aiClient.generateRussianSeedTerms(query);
+          aiSeeds = await aiClient.generateRussianSeedTerms(query, aiContext);
           aiDuration = Date.now() - aiStartTime;
         } catch (error) {
+          if (error instanceof AIQuotaExceededError) throw error;
           console.error('Gemini AI failed, using fallback:', error);
           aiDuration = Date.now() - aiStartTime;
           // Fallback: use user's query as direct seed
@@ -401,45 +956,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ...aiSeeds.allowedEnglishAcronyms
         ];
 
-        for (const term of allSeedTerms.slice(0, 20)) { // Limit API calls
+        // All at once; the HH scheduler paces them. Results are walked in seed
+        // order so the counts don't depend on which reply lands first.
+        const suggestionResults = await Promise.all(allSeedTerms.slice(0, 20).map(async term => { // Limit API calls
           try {
             const { data } = await hhClient.getSuggestions(term);
-            if (data && data.items && Array.isArray(data.items)) {
-              data.items.forEach((item: any) => {
-                if (item && item.text) {
-                  const text = item.text.trim();
-                  
-                  // Categorize based on original seed source and Russian priority
-                  let category: keyof typeof categorizedSuggestions = 'strongSynonyms';
-                  
-                  if (aiSeeds.exactPhrases.includes(term)) {
-                    category = 'exactPhrases';
-                  } else if (aiSeeds.weakAmbiguous.includes(term)) {
-                    category = 'weakAmbiguous';
-                  }
-                  
-                  // Russian terms get priority (move up category if Russian)
-                  const isRussian = /[а-яё]/i.test(text);
-                  if (isRussian && category === 'weakAmbiguous') {
-                    category = 'strongSynonyms';
-                  } else if (isRussian && category === 'strongSynonyms' && 
-                             aiSeeds.exactPhrases.some(exact => 
-                               text.toLowerCase().includes(exact.toLowerCase()) || 
-                               exact.toLowerCase().includes(text.toLowerCase()))) {
-                    category = 'exactPhrases';
-                  }
-                  
-                  const count = categorizedSuggestions[category].get(text) || 0;
-                  categorizedSuggestions[category].set(text, count + 1);
-                }
-              });
-            }
+            return { term, data };
           } catch (error) {
             console.error(`Failed to get suggestions for "${term}":`, error);
+            return { term, data: null };
+          }
+        }));
+
+        for (const { term, data } of suggestionResults) {
+          if (data && data.items && Array.isArray(data.items)) {
+            data.items.forEach((item: any) => {
+              if (item && item.text) {
+                const text = item.text.trim();
+                
+                // Categorize based on original seed source and Russian priority
+                let category: keyof typeof categorizedSuggestions = 'strongSynonyms';
+                
+                if (aiSeeds.exactPhrases.includes(term)) {
+                  category = 'exactPhrases';
+                } else if (aiSeeds.weakAmbiguous.includes(term)) {
+                  category = 'weakAmbiguous';
+                }
+                
+                // Russian terms get priority (move up category if Russian)
+                const isRussian = /[а-яё]/i.test(text);
+                if (isRussian && category === 'weakAmbiguous') {
+                  category = 'strongSynonyms';
+                } else if (isRussian && category === 'strongSynonyms' && 
+                           aiSeeds.exactPhrases.some(exact => 
+                             text.toLowerCase().includes(exact.toLowerCase()) || 
+                             exact.toLowerCase().includes(text.toLowerCase()))) {
+                  category = 'exactPhrases';
+                }
+                
+                const count = categorizedSuggestions[category].get(text) || 0;
+                categorizedSuggestions[category].set(text, count + 1);
+              }
+            });
           }
-          
-          // Small delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 150));
         }
 
         const hhDuration = Date.now() - hhStartTime;
@@ -497,7 +1056,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const allKeywords = allSuggestions.map(s => s.text);
           
           if (allKeywords.length > 0) {
-            const scoredKeywords = await aiClient.filterKeywordsByRelevance(query, allKeywords);
+            const scoredKeywords = await aiClient.filterKeywordsByRelevance(query, allKeywords, aiContext);
             
             // Only keep keywords with relevance score >= 6 and limit to top 10
             const relevantKeywords = scoredKeywords
@@ -518,6 +1077,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
           }
         } catch (error) {
+          if (error instanceof AIQuotaExceededError) throw error;
           console.error('Relevance filtering failed, keeping all keywords:', error);
         }
         const relevanceDuration = Date.now() - relevanceStartTime;
@@ -530,20 +1090,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
           englishCount: allSuggestions.filter(s => s.isEnglish).length
         };
 
-        res.locals.addTiming('ai', aiDuration);
-        res.locals.addTiming('hh', hhDuration);
-        res.locals.addTiming('relevance', relevanceDuration);
-        
+        // A cancelled run is built from fallbacks; it must not be cached
+        if (signal.aborted) throw new AIRequestCancelledError();
+        loadTimings = { ai: aiDuration, hh: hhDuration, relevance: relevanceDuration };
         return result;
-      });
+      })));
 
-      suggestionsCache.set(cacheKey, result, 60 * 1000); // 60s cache
-      
+      if (loadTimings) {
+        Object.entries(loadTimings).forEach(([name, duration]) => res.locals.addTiming(name, duration));
+      } else {
+        res.locals.addTiming('cache', Date.now() - startTime);
+      }
       res.locals.addTiming('total', Date.now() - startTime);
       res.json(result);
 
     } catch (error: any) {
+      if (error instanceof AIRequestCancelledError && clientGone(res)) {
+        console.log(`🛑 AI keywords for "${req.query.q}" cancelled, the client disconnected`);
+        return;
+      }
       console.error('AI keywords error:', error);
+
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(429).json(error.toResponse());
+      }
       
       if (error.error === 'rate_limited') {
         return res.status(429).json({
@@ -566,17 +1136,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     try {
       const cacheKey = 'dictionaries';
-      const cached = dictionariesCache.get(cacheKey);
-      if (cached) {
-        res.locals.addTiming('cache', Date.now() - startTime);
-        return res.json(cached);
-      }
+      let upstreamMs: number | undefined;
+      const data = await dictionariesCache.getOrLoad(cacheKey, async () => {
+        const { data, timing } = await hhClient.getDictionaries();
+        upstreamMs = timing.upstream;
+        return data;
+      });
 
-      const { data, timing } = await hhClient.getDictionaries();
-      
-      dictionariesCache.set(cacheKey, data, 24 * 60 * 60 * 1000); // 24h cache
-      
-      res.locals.addTiming('upstream', timing.upstream);
+      res.locals.addTiming(upstreamMs === undefined ? 'cache' : 'upstream', upstreamMs ?? Date.now() - startTime);
       res.locals.addTiming('total', Date.now() - startTime);
       res.json(data);
 
@@ -604,17 +1171,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     try {
       const cacheKey = 'areas';
-      const cached = areasCache.get(cacheKey);
-      if (cached) {
-        res.locals.addTiming('cache', Date.now() - startTime);
-        return res.json(cached);
-      }
+      let upstreamMs: number | undefined;
+      const data = await areasCache.getOrLoad(cacheKey, async () => {
+        const { data, timing } = await hhClient.getAreas();
+        upstreamMs = timing.upstream;
+        return data;
+      });
 
-      const { data, timing } = await hhClient.getAreas();
-      
-      areasCache.set(cacheKey, data, 24 * 60 * 60 * 1000); // 24h cache
-      
-      res.locals.addTiming('upstream', timing.upstream);
+      res.locals.addTiming(upstreamMs === undefined ? 'cache' : 'upstream', upstreamMs ?? Date.now() - startTime);
       res.locals.addTiming('total', Date.now() - startTime);
       res.json(data);
 
@@ -648,12 +1212,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log('   Use exact phrases:', validatedBody.useExactPhrases);
       console.log('   Title first search:', validatedBody.titleFirstSearch);
       
-      // Get dictionaries for mapping
-      const dictionaries = dictionariesCache.get('dictionaries') || 
-                          (await hhClient.getDictionaries()).data;
+      // Dictionaries, areas and employer candidates for the deterministic part of the mapping
+      const dictionaries = await loadDictionaries();
+      const areas = await loadAreas();
+      const employers = await loadEmployerMatches(validatedBody.employerName);
 
       const aiStartTime = Date.now();
-      const filters = await aiClient.mapFiltersToHH(validatedBody, dictionaries);
+      const filters = await aiClient.mapFiltersToHH(validatedBody, dictionaries, areas, employers, aiRequestContext(req, res));
       const aiDuration = Date.now() - aiStartTime;
       
       console.log('🎯 Filter match response generated:');
@@ -667,6 +1232,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     } catch (error: any) {
       console.error('Filter match error:', error);
+
+      if (error instanceof HHQueryError) {
+        return res.status(400).json({ error: 'invalid_query', issues: error.issues });
+      }
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(429).json(error.toResponse());
+      }
       res.status(500).json({ 
         error: 'Failed to match filters',
         message: error.message 
@@ -699,7 +1271,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         specialization: req.query.specialization as string,
         metro: req.query.metro as string,
         employer_id: req.query.employer_id as string,
-        search_field: Array.isArray(req.query.search_field) ? req.query.search_field : [req.query.search_field].filter(Boolean),
+        search_field: (Array.isArray(req.query.search_field) ? req.query.search_field : [req.query.search_field].filter(Boolean)) as string[],
         label: req.query.label as string[]
       };
       
@@ -715,7 +1287,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`   Search Field: ${searchFieldArray.join(',') || 'default'}`);
       console.log(`   Full Params:`, JSON.stringify(params, null, 2));
       
-      const { data, timing } = await hhClient.searchVacancies(params);
+      const { data, timing } = await searchClient.searchVacancies(params);
       
       console.log(`🔍 [${searchRunId}] HH.ru Response: status=200, found=${data.found}, items=${data.items?.length || 0}`);
 
@@ -778,79 +1350,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // GET /api/vacancies/:id
-  app.get('/api/vacancies/:id', requireAuth, async (req, res) => {
+  // POST /api/search/run - tiered Title → Description → Skills search with scoring.
+  // Raw tier pages are cached per keywords+filters, so later pages and profile
+  // switches only re-rank
+  app.post('/api/search/run', requireAuth, async (req, res) => {
     const startTime = Date.now();
-    
+
     try {
-      const id = req.params.id;
-      const cacheKey = `vacancy:${id}`;
-      
-      const cached = vacancyDetailsCache.get(cacheKey);
-      if (cached) {
-        res.locals.addTiming('cache', Date.now() - startTime);
-        return res.json(cached);
+      const user = (req as any).user as User;
+      const parsed = searchRunRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid search request", details: parsed.error.errors });
       }
 
-      const { data, timing } = await hhClient.getVacancy(id);
+      const { keywords, filters, scoringProfile, rerankByFit: useFitRanking, page, perPage } = parsed.data;
+      const scoringConfig = await resolveScoringConfig(scoringProfile, user.id);
+      if (!scoringConfig) {
+        return res.status(400).json({ error: 'unknown_scoring_profile', scoringProfile });
+      }
 
-      const sanitizeStartTime = Date.now();
-      const descriptionHtmlSanitized = sanitizeHTML(data.description || '');
-      const sanitizeDuration = Date.now() - sanitizeStartTime;
+      const tiers = await loadSearchTiers(keywords, filters, res, user.id);
 
-      // Fetch employer details if employer URL is available
-      let employerData: {
-        name: any;
-        url?: any;
-        alternate_url?: any;
-        site_url?: any;
-      } = { 
-        name: data.employer?.name,
-        url: data.employer?.url,
-        alternate_url: data.employer?.alternate_url
-      };
+      const rankStart = Date.now();
+      let result = await rankWithExclusions(tiers, keywords, filters, user.id, scoringConfig);
+      res.locals.addTiming('rank', Date.now() - rankStart);
 
-      if (data.employer?.url) {
-        try {
-          const { data: fullEmployer } = await hhClient.getEmployer(data.employer.url);
-          employerData.site_url = fullEmployer.site_url;
-        } catch (error) {
-          console.warn('Failed to fetch employer details:', error);
-          // Continue with basic employer data
+      if (useFitRanking) {
+        const resumeText = await resolveDefaultProfileText(user.id);
+        if (resumeText) {
+          const fitStart = Date.now();
+          result = await rerankByFit(result, resumeText, embeddingProvider, {
+            getVacancyText: (vacancyId) => vacancyFitTextCache.get(vacancyId),
+            context: aiRequestContext(req, res)
+          });
+          res.locals.addTiming('fit', Date.now() - fitStart);
         }
       }
 
-      const result = {
-        id: data.id,
-        name: data.name,
-        employer: employerData,
-        area: { name: data.area?.name },
-        alternate_url: data.alternate_url,
-        apply_alternate_url: data.apply_alternate_url,
-        response_url: data.response_url,
-        descriptionHtmlSanitized,
-        key_skills: data.key_skills || [],
-        salary: data.salary,
-        // Work format and schedule information from HH.ru API
-        working_time_modes: data.working_time_modes || [],
-        schedule: data.schedule || null,
-        employment: data.employment || null,
-        experience: data.experience || null
-      };
-
-      // Cache by id + updated_at if available, or just id
-      const finalCacheKey = data.updated_at ? 
-        `vacancy:${id}:${data.updated_at}` : cacheKey;
-      vacancyDetailsCache.set(finalCacheKey, result, 10 * 60 * 1000); // 10m cache
+      if (page === 0) {
+        console.log(`🔍 Search run: keywords=[${keywords.join(', ')}], profile=${scoringProfile}, merged=${result.items.length}, excluded=${result.tierInfo.excludedCount}, blocked=${result.tierInfo.blockedCount}, fit=${result.fitRanking?.provider ?? 'off'}`);
+      }
 
-      res.locals.addTiming('upstream', timing.upstream);
-      res.locals.addTiming('sanitize', sanitizeDuration);
       res.locals.addTiming('total', Date.now() - startTime);
-      res.json(result);
+      res.json(paginateSearchResult(result, page, perPage, scoringProfile));
 
     } catch (error: any) {
-      console.error('Vacancy detail error:', error);
-      
+      console.error('Search run error:', error);
+
+      if (error instanceof HHQueryError) {
+        return res.status(400).json({ error: 'invalid_query', issues: error.issues });
+      }
+
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(429).json(error.toResponse());
+      }
+
       if (error.error === 'rate_limited') {
         return res.status(429).json({
           error: 'rate_limited',
@@ -858,40 +1412,273 @@ export async function registerRoutes(app: Express): Promise<Server> {
           message: error.message
         });
       }
-      
-      res.status(500).json({ 
-        error: 'Failed to fetch vacancy details',
-        message: error.message 
+
+      res.status(500).json({
+        error: 'Failed to run search',
+        message: error.message
       });
     }
   });
 
-  // POST /api/cover-letter
-  app.post('/api/cover-letter', requireAuth, async (req, res) => {
+  // POST /api/search/salary-stats - salary distribution of the merged result set,
+  // converted with HH's currency rates and normalized to net or gross
+  app.post('/api/search/salary-stats', requireAuth, async (req, res) => {
     const startTime = Date.now();
-    
+
     try {
-      const validatedBody = coverLetterRequestSchema.parse(req.body);
+      const user = (req as any).user as User;
+      const parsed = salaryStatsRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid salary stats request", details: parsed.error.errors });
+      }
 
-      const aiStartTime = Date.now();
-      const coverLetterText = await aiClient.generateCoverLetter(validatedBody);
-      const aiDuration = Date.now() - aiStartTime;
+      const { keywords, filters, currency, basis } = parsed.data;
+      const rates = currencyRatesFromDictionaries(await loadDictionaries());
+      if (!rates[currency]) {
+        return res.status(400).json({ error: 'unknown_currency', currency });
+      }
+
+      const tiers = await loadSearchTiers(keywords, filters, res, user.id);
+      // Scoring doesn't affect the distribution, only exclusion and dedup do
+      const { items } = await rankWithExclusions(tiers, keywords, filters, user.id);
 
-      res.locals.addTiming('ai', aiDuration);
       res.locals.addTiming('total', Date.now() - startTime);
-      
-      res.json({ text: coverLetterText });
+      res.json(computeSalaryStats(items, { currency, basis, rates }));
 
     } catch (error: any) {
-      console.error('Cover letter error:', error);
-      res.status(500).json({ 
-        error: 'Failed to generate cover letter',
-        message: error.message 
-      });
-    }
-  });
+      console.error('Salary stats error:', error);
 
-  // GET /api/saved-prompts
+      if (error instanceof HHQueryError) {
+        return res.status(400).json({ error: 'invalid_query', issues: error.issues });
+      }
+
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(429).json(error.toResponse());
+      }
+
+      if (error.error === 'rate_limited') {
+        return res.status(429).json({
+          error: 'rate_limited',
+          retryInMs: error.retryInMs,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        error: 'Failed to compute salary stats',
+        message: error.message
+      });
+    }
+  });
+
+  // GET /api/vacancies/:id
+  app.get('/api/vacancies/:id', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      const id = req.params.id;
+      let upstreamMs: number | undefined;
+      let sanitizeDuration = 0;
+      // Step 4 marks the next few vacancies it loads ahead of time
+      const client = req.get('X-Purpose') === 'prefetch' ? prefetchClient : hhClient;
+
+      const result = await vacancyDetailsCache.getOrLoad(`vacancy:${id}`, async () => {
+        const { data, timing } = await client.getVacancy(id);
+        upstreamMs = timing.upstream;
+
+        const sanitizeStartTime = Date.now();
+        const descriptionHtmlSanitized = sanitizeHTML(data.description || '');
+        sanitizeDuration = Date.now() - sanitizeStartTime;
+
+        // The site link comes from the employer record, which the employer
+        // store keeps across vacancies of the same employer
+        let employerData: {
+          id?: string;
+          name: any;
+          url?: any;
+          alternate_url?: any;
+          site_url?: any;
+        } = { 
+          id: data.employer?.id ? String(data.employer.id) : undefined,
+          name: data.employer?.name,
+          url: data.employer?.url,
+          alternate_url: data.employer?.alternate_url
+        };
+
+        if (employerData.id) {
+          try {
+            const employer = await employerStore.get(employerData.id);
+            employerData.site_url = employer.site_url ?? undefined;
+          } catch (error) {
+            console.warn('Failed to fetch employer details:', error);
+            // Continue with basic employer data
+          }
+        }
+
+        cacheVacancyTexts(data);
+        return {
+          id: data.id,
+          name: data.name,
+          employer: employerData,
+          area: { name: data.area?.name },
+          alternate_url: data.alternate_url,
+          apply_alternate_url: data.apply_alternate_url,
+          response_url: data.response_url,
+          descriptionHtmlSanitized,
+          key_skills: data.key_skills || [],
+          salary: data.salary,
+          // Work format and schedule information from HH.ru API
+          working_time_modes: data.working_time_modes || [],
+          schedule: data.schedule || null,
+          employment: data.employment || null,
+          experience: data.experience || null
+        };
+      });
+
+      if (upstreamMs === undefined) {
+        res.locals.addTiming('cache', Date.now() - startTime);
+      } else {
+        res.locals.addTiming('upstream', upstreamMs);
+        res.locals.addTiming('sanitize', sanitizeDuration);
+      }
+      res.locals.addTiming('total', Date.now() - startTime);
+      res.json(result);
+
+    } catch (error: any) {
+      console.error('Vacancy detail error:', error);
+      
+      if (error.error === 'rate_limited') {
+        return res.status(429).json({
+          error: 'rate_limited',
+          retryInMs: error.retryInMs,
+          message: error.message
+        });
+      }
+      
+      res.status(500).json({ 
+        error: 'Failed to fetch vacancy details',
+        message: error.message 
+      });
+    }
+  });
+
+  // GET /api/vacancies/:id/skill-gap - key_skills against the default profile's skills
+  app.get('/api/vacancies/:id/skill-gap', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const profile = await storage.getDefaultProfile(user.id);
+      const vacancySkills = await getVacancyKeySkills(req.params.id);
+
+      res.locals.addTiming('total', Date.now() - startTime);
+      res.json({
+        ...analyzeSkillGap(req.params.id, vacancySkills, profile?.skills ?? []),
+        profileName: profile?.name ?? null
+      });
+
+    } catch (error: any) {
+      console.error('Skill gap error:', error);
+
+      if (error.error === 'rate_limited') {
+        return res.status(429).json({
+          error: 'rate_limited',
+          retryInMs: error.retryInMs,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        error: 'Failed to analyze skill gap',
+        message: error.message
+      });
+    }
+  });
+
+  // POST /api/skill-gap/aggregate - most common missing skills over a result set.
+  // Vacancies are fetched one by one; on rate limiting the rest are skipped
+  app.post('/api/skill-gap/aggregate', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const parsed = skillGapAggregateRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid aggregate request", details: parsed.error.errors });
+      }
+
+      const profile = await storage.getDefaultProfile(user.id);
+      const userSkills = profile?.skills ?? [];
+      const vacancyIds = Array.from(new Set(parsed.data.vacancyIds));
+
+      const gaps = [];
+      for (const vacancyId of vacancyIds) {
+        try {
+          gaps.push(analyzeSkillGap(vacancyId, await getVacancyKeySkills(vacancyId), userSkills));
+        } catch (error: any) {
+          if (error.error === 'rate_limited') break;
+          console.warn(`Skill gap: failed to load vacancy ${vacancyId}:`, error?.message || error);
+        }
+      }
+
+      res.locals.addTiming('total', Date.now() - startTime);
+      res.json({
+        profileName: profile?.name ?? null,
+        analyzed: gaps.length,
+        skipped: vacancyIds.length - gaps.length,
+        missing: aggregateMissingSkills(gaps)
+      });
+
+    } catch (error: any) {
+      console.error('Skill gap aggregate error:', error);
+      res.status(500).json({
+        error: 'Failed to aggregate skill gaps',
+        message: error.message
+      });
+    }
+  });
+
+  // POST /api/cover-letter
+  app.post('/api/cover-letter', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      const user = (req as any).user as User;
+      const { profileId, ...validatedBody } = coverLetterRequestSchema.parse(req.body);
+
+      // An explicit userProfile wins, then the chosen profile, then the default one
+      if (!validatedBody.userProfile) {
+        const profile = profileId !== undefined
+          ? await storage.getProfile(profileId)
+          : await storage.getDefaultProfile(user.id);
+        if (profile && profile.userId === user.id) {
+          validatedBody.userProfile = profile.content;
+        }
+      }
+
+      const aiStartTime = Date.now();
+      const coverLetterText = await aiClient.generateCoverLetter(validatedBody, aiRequestContext(req, res));
+      const aiDuration = Date.now() - aiStartTime;
+
+      res.locals.addTiming('ai', aiDuration);
+      res.locals.addTiming('total', Date.now() - startTime);
+      
+      res.json({ text: coverLetterText });
+
+    } catch (error: any) {
+      console.error('Cover letter error:', error);
+
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(429).json(error.toResponse());
+      }
+      res.status(500).json({ 
+        error: 'Failed to generate cover letter',
+        message: error.message 
+      });
+    }
+  });
+
+  // GET /api/saved-prompts
   app.get('/api/saved-prompts', requireAuth, async (req, res) => {
     const startTime = Date.now();
     
@@ -971,6 +1758,465 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/scoring-profiles - built-in profiles plus the user's own
+  app.get('/api/scoring-profiles', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const custom = await storage.getScoringProfilesByUser(user.id);
+
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.json({ builtIn: builtInScoringProfiles, custom });
+
+    } catch (error: any) {
+      console.error('Get scoring profiles error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch scoring profiles',
+        message: error.message
+      });
+    }
+  });
+
+  // POST /api/scoring-profiles
+  app.post('/api/scoring-profiles', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const validatedBody = insertScoringProfileSchema.parse(req.body);
+      const profileData = insertScoringProfileWithUserSchema.parse({ ...validatedBody, userId: user.id });
+
+      const existingProfile = await storage.getScoringProfileByUserAndName(user.id, validatedBody.name);
+      if (existingProfile) {
+        return res.status(409).json({
+          error: 'A scoring profile with this name already exists',
+          existingProfileId: existingProfile.id
+        });
+      }
+
+      const profile = await storage.createScoringProfile(profileData);
+
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.status(201).json(profile);
+
+    } catch (error: any) {
+      console.error('Save scoring profile error:', error);
+      res.status(400).json({
+        error: 'Failed to save scoring profile',
+        message: error.message
+      });
+    }
+  });
+
+  // PATCH /api/scoring-profiles/:id
+  app.patch('/api/scoring-profiles/:id', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const profileId = parseInt(req.params.id);
+
+      const profile = await storage.getScoringProfile(profileId);
+      if (!profile || profile.userId !== user.id) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+
+      const updates = updateScoringProfileSchema.parse(req.body);
+      if (updates.name && updates.name !== profile.name) {
+        const existingProfile = await storage.getScoringProfileByUserAndName(user.id, updates.name);
+        if (existingProfile) {
+          return res.status(409).json({
+            error: 'A scoring profile with this name already exists',
+            existingProfileId: existingProfile.id
+          });
+        }
+      }
+
+      const updatedProfile = await storage.updateScoringProfile(profileId, updates);
+
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.json(updatedProfile);
+
+    } catch (error: any) {
+      console.error('Update scoring profile error:', error);
+      res.status(400).json({
+        error: 'Failed to update scoring profile',
+        message: error.message
+      });
+    }
+  });
+
+  // DELETE /api/scoring-profiles/:id
+  app.delete('/api/scoring-profiles/:id', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const profileId = parseInt(req.params.id);
+
+      const profile = await storage.getScoringProfile(profileId);
+      if (!profile || profile.userId !== user.id) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+
+      await storage.deleteScoringProfile(profileId);
+
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.json({ success: true });
+
+    } catch (error: any) {
+      console.error('Delete scoring profile error:', error);
+      res.status(500).json({
+        error: 'Failed to delete scoring profile',
+        message: error.message
+      });
+    }
+  });
+
+  // GET /api/profiles - the user's resume/profile documents, default first
+  app.get('/api/profiles', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const userProfiles = await storage.getProfilesByUser(user.id);
+
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.json(userProfiles);
+
+    } catch (error: any) {
+      console.error('Get profiles error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch profiles',
+        message: error.message
+      });
+    }
+  });
+
+  // GET /api/profiles/:id
+  app.get('/api/profiles/:id', requireAuth, async (req, res) => {
+    const user = (req as any).user as User;
+    const profile = await storage.getProfile(parseInt(req.params.id));
+    if (!profile || profile.userId !== user.id) {
+      return res.status(404).json({ error: "Profile not found" });
+    }
+    res.json(profile);
+  });
+
+  // POST /api/profiles - the user's first profile becomes the default
+  app.post('/api/profiles', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const validatedBody = insertProfileSchema.parse(req.body);
+      const hasDefault = !!(await storage.getDefaultProfile(user.id));
+
+      const profile = await storage.createProfile(insertProfileWithUserSchema.parse({
+        ...validatedBody,
+        isDefault: validatedBody.isDefault || !hasDefault,
+        userId: user.id
+      }));
+
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.status(201).json(profile);
+
+    } catch (error: any) {
+      console.error('Create profile error:', error);
+      res.status(400).json({
+        error: 'Failed to create profile',
+        message: error.message
+      });
+    }
+  });
+
+  // POST /api/profiles/import - plain text, Markdown or base64 PDF; skills are
+  // pulled from a "Skills:" section when there is one
+  app.post('/api/profiles/import', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const parsed = profileImportRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid import request", details: parsed.error.errors });
+      }
+
+      const { name, format, data, isDefault } = parsed.data;
+      const imported = importProfileDocument(format, data);
+      if (!imported.content) {
+        return res.status(422).json({
+          error: 'no_text_extracted',
+          message: format === 'pdf'
+            ? 'No text could be extracted from this PDF, paste the resume text instead'
+            : 'The document is empty'
+        });
+      }
+
+      const hasDefault = !!(await storage.getDefaultProfile(user.id));
+      const profile = await storage.createProfile(insertProfileWithUserSchema.parse({
+        name,
+        content: imported.content.slice(0, 50000),
+        skills: imported.skills,
+        sourceType: format,
+        isDefault: isDefault || !hasDefault,
+        userId: user.id
+      }));
+
+      console.log(`📄 Imported ${format} profile "${name}" for user ${user.id}: ${imported.content.length} chars, ${imported.skills.length} skills`);
+
+      res.locals.addTiming('total', Date.now() - startTime);
+      res.status(201).json(profile);
+
+    } catch (error: any) {
+      console.error('Import profile error:', error);
+      res.status(400).json({
+        error: 'Failed to import profile',
+        message: error.message
+      });
+    }
+  });
+
+  // PATCH /api/profiles/:id
+  app.patch('/api/profiles/:id', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const profileId = parseInt(req.params.id);
+
+      const profile = await storage.getProfile(profileId);
+      if (!profile || profile.userId !== user.id) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      const updates = updateProfileSchema.parse(req.body);
+      const updatedProfile = await storage.updateProfile(profileId, updates);
+
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.json(updatedProfile);
+
+    } catch (error: any) {
+      console.error('Update profile error:', error);
+      res.status(400).json({
+        error: 'Failed to update profile',
+        message: error.message
+      });
+    }
+  });
+
+  // DELETE /api/profiles/:id - deleting the default promotes the most recent remaining profile
+  app.delete('/api/profiles/:id', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const profileId = parseInt(req.params.id);
+
+      const profile = await storage.getProfile(profileId);
+      if (!profile || profile.userId !== user.id) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      await storage.deleteProfile(profileId);
+      if (profile.isDefault) {
+        const [next] = await storage.getProfilesByUser(user.id);
+        if (next) await storage.updateProfile(next.id, { isDefault: true });
+      }
+
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.json({ success: true });
+
+    } catch (error: any) {
+      console.error('Delete profile error:', error);
+      res.status(500).json({
+        error: 'Failed to delete profile',
+        message: error.message
+      });
+    }
+  });
+
+  // GET /api/employer-lists - the user's blocked and favorite employers
+  app.get('/api/employer-lists', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const entries = await storage.getEmployerListEntries(user.id);
+
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.json(entries);
+
+    } catch (error: any) {
+      console.error('Get employer lists error:', error);
+      res.status(500).json({
+        error: 'Failed to fetch employer lists',
+        message: error.message
+      });
+    }
+  });
+
+  // PUT /api/employer-lists/:employerId - block or favorite an employer; an
+  // employer already on the other list is moved
+  app.put('/api/employer-lists/:employerId', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      const parsed = insertEmployerListEntrySchema.safeParse({
+        ...employerListRequestSchema.parse(req.body),
+        employerId: req.params.employerId,
+        userId: user.id
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid employer list entry", details: parsed.error.errors });
+      }
+
+      const entry = await storage.upsertEmployerListEntry(parsed.data);
+      console.log(`🏢 User ${user.id} marked employer ${entry.employerId} (${entry.employerName}) as ${entry.kind}`);
+
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.json(entry);
+
+    } catch (error: any) {
+      console.error('Update employer list error:', error);
+      res.status(400).json({
+        error: 'Failed to update employer list',
+        message: error.message
+      });
+    }
+  });
+
+  // DELETE /api/employer-lists/:employerId
+  app.delete('/api/employer-lists/:employerId', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+
+    try {
+      const user = (req as any).user as User;
+      await storage.deleteEmployerListEntry(user.id, req.params.employerId);
+
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.json({ success: true });
+
+    } catch (error: any) {
+      console.error('Delete employer list entry error:', error);
+      res.status(500).json({
+        error: 'Failed to delete employer list entry',
+        message: error.message
+      });
+    }
+  });
+
+  // GET /api/employers/search?text= - HH employer search, for adding employers
+  // to the lists by name
+  app.get('/api/employers/search', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+    const text = typeof req.query.text === 'string' ? req.query.text.trim() : '';
+    if (text.length < 2) {
+      return res.json([]);
+    }
+
+    try {
+      const employers = await searchEmployers(text);
+      res.locals.addTiming('upstream', Date.now() - startTime);
+      res.json(employers);
+
+    } catch (error: any) {
+      console.error('Employer search error:', error);
+
+      if (error.error === 'rate_limited') {
+        return res.status(429).json({
+          error: 'rate_limited',
+          retryInMs: error.retryInMs,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        error: 'Failed to search employers',
+        message: error.message
+      });
+    }
+  });
+
+  // GET /api/employers/:id - full employer record from the employer store
+  app.get('/api/employers/:id', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+    if (!/^\d+$/.test(req.params.id)) {
+      return res.status(400).json({ error: "Invalid employer ID" });
+    }
+
+    try {
+      const employer = await employerStore.get(req.params.id);
+      res.locals.addTiming('total', Date.now() - startTime);
+      res.json(employer);
+
+    } catch (error: any) {
+      console.error('Employer detail error:', error);
+
+      if (error.error === 'rate_limited') {
+        return res.status(429).json({
+          error: 'rate_limited',
+          retryInMs: error.retryInMs,
+          message: error.message
+        });
+      }
+      if (/HH\.ru API error: 404/.test(error.message)) {
+        return res.status(404).json({ error: "Employer not found" });
+      }
+
+      res.status(500).json({
+        error: 'Failed to fetch employer',
+        message: error.message
+      });
+    }
+  });
+
+  // GET /api/employers/:id/vacancies - the employer's open vacancies, newest first
+  app.get('/api/employers/:id/vacancies', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+    if (!/^\d+$/.test(req.params.id)) {
+      return res.status(400).json({ error: "Invalid employer ID" });
+    }
+
+    try {
+      const cached = employerVacanciesCache.get(req.params.id);
+      if (cached) {
+        res.locals.addTiming('cache', Date.now() - startTime);
+        return res.json(cached);
+      }
+
+      const { data, timing } = await hhClient.searchVacancies({
+        employer_id: req.params.id,
+        order_by: 'publication_time',
+        per_page: 20
+      });
+      const result = { items: (data.items || []).map(toVacancySummary), found: data.found || 0 };
+      employerVacanciesCache.set(req.params.id, result);
+
+      res.locals.addTiming('upstream', timing.upstream);
+      res.locals.addTiming('total', Date.now() - startTime);
+      res.json(result);
+
+    } catch (error: any) {
+      console.error('Employer vacancies error:', error);
+
+      if (error.error === 'rate_limited') {
+        return res.status(429).json({
+          error: 'rate_limited',
+          retryInMs: error.retryInMs,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        error: 'Failed to fetch employer vacancies',
+        message: error.message
+      });
+    }
+  });
+
   // GET /api/user-settings
   app.get('/api/user-settings', requireAuth, async (req, res) => {
     const startTime = Date.now();
@@ -1051,9 +2297,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const idsArray = vacancyIds.split(',').filter(Boolean);
       
-      // For now, return empty array since we don't have database setup
-      // In real implementation, query database for applied vacancies
-      const appliedVacancies: string[] = [];
+      const applied = await storage.getAppliedVacanciesByUser(userId, idsArray);
+      const appliedVacancies = applied.map(item => item.vacancyId);
       
       res.locals.addTiming('db', Date.now() - startTime);
       res.json({ appliedVacancies });
@@ -1067,6 +2312,124 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/applied-vacancies/pipeline - All tracked applications for the pipeline board
+  app.get('/api/applied-vacancies/pipeline', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      const user = (req as any).user as User;
+      const appliedVacancies = await storage.getAppliedVacanciesByUser(user.id);
+      
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.json(appliedVacancies.map(item => ({
+        ...item,
+        allowedTransitions: getAllowedStatusTransitions(item.status)
+      })));
+
+    } catch (error: any) {
+      console.error('Get application pipeline error:', error);
+      res.status(500).json({ 
+        error: 'Failed to fetch application pipeline',
+        message: error.message 
+      });
+    }
+  });
+
+  // GET /api/applied-vacancies/:id/status - Current status with transition history
+  app.get('/api/applied-vacancies/:id/status', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      const user = (req as any).user as User;
+      const appliedVacancyId = parseInt(req.params.id);
+      
+      const appliedVacancy = await storage.getAppliedVacancy(appliedVacancyId);
+      if (!appliedVacancy || appliedVacancy.userId !== user.id) {
+        return res.status(404).json({ error: "Application not found" });
+      }
+      
+      const history = await storage.getAppliedVacancyStatusHistory(appliedVacancyId);
+      
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.json({
+        id: appliedVacancy.id,
+        vacancyId: appliedVacancy.vacancyId,
+        status: appliedVacancy.status,
+        statusUpdatedAt: appliedVacancy.statusUpdatedAt,
+        allowedTransitions: getAllowedStatusTransitions(appliedVacancy.status),
+        history
+      });
+
+    } catch (error: any) {
+      console.error('Get application status error:', error);
+      res.status(500).json({ 
+        error: 'Failed to fetch application status',
+        message: error.message 
+      });
+    }
+  });
+
+  // POST /api/applied-vacancies/:id/status - Move an application to another pipeline stage
+  app.post('/api/applied-vacancies/:id/status', requireAuth, async (req, res) => {
+    const startTime = Date.now();
+    
+    try {
+      const user = (req as any).user as User;
+      const appliedVacancyId = parseInt(req.params.id);
+      
+      const parsed = updateAppliedVacancyStatusRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid status update',
+          message: parsed.error.message 
+        });
+      }
+      const { status, note } = parsed.data;
+      
+      const appliedVacancy = await storage.getAppliedVacancy(appliedVacancyId);
+      if (!appliedVacancy || appliedVacancy.userId !== user.id) {
+        return res.status(404).json({ error: "Application not found" });
+      }
+      
+      if (!canTransitionStatus(appliedVacancy.status, status)) {
+        return res.status(409).json({
+          error: 'invalid_transition',
+          message: `Cannot move an application from "${appliedVacancy.status}" to "${status}"`,
+          allowedTransitions: getAllowedStatusTransitions(appliedVacancy.status)
+        });
+      }
+      
+      const transition = await storage.transitionAppliedVacancyStatus(
+        appliedVacancyId,
+        appliedVacancy.status,
+        status,
+        note?.trim() || null
+      );
+      if (!transition) {
+        const current = await storage.getAppliedVacancy(appliedVacancyId);
+        return res.status(409).json({
+          error: 'invalid_transition',
+          message: `The application was moved to "${current?.status}" in the meantime`,
+          allowedTransitions: current ? getAllowedStatusTransitions(current.status) : []
+        });
+      }
+      
+      res.locals.addTiming('db', Date.now() - startTime);
+      res.json({
+        ...transition.appliedVacancy,
+        allowedTransitions: getAllowedStatusTransitions(status),
+        change: transition.change
+      });
+
+    } catch (error: any) {
+      console.error('Update application status error:', error);
+      res.status(500).json({ 
+        error: 'Failed to update application status',
+        message: error.message 
+      });
+    }
+  });
+
   // POST /api/apply-vacancy - Apply to a vacancy
   app.post('/api/apply-vacancy', requireAuth, async (req, res) => {
     const startTime = Date.now();
@@ -1089,29 +2452,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Check if user has already applied (mock for now)
-      // In real implementation: query applied_vacancies table
-      const hasAlreadyApplied = false;
+      const alreadyApplied = (appliedAt?: Date) => res.status(409).json({ 
+        error: 'already_applied',
+        message: 'You have already applied to this vacancy',
+        appliedAt
+      });
+
+      // Check if user has already applied
+      const existingApplication = await storage.getAppliedVacancyByUserAndVacancy(userId, vacancyId);
       
-      if (hasAlreadyApplied) {
-        return res.status(409).json({ 
-          error: 'already_applied',
-          message: 'You have already applied to this vacancy' 
-        });
+      if (existingApplication) {
+        return alreadyApplied(existingApplication.appliedAt);
       }
 
       // TODO: Implement actual HH.ru application via API
       // For now, just record the application attempt
+      const appliedVacancy = await storage.createAppliedVacancy(insertAppliedVacancySchema.parse({
+        userId,
+        vacancyId,
+        vacancyTitle,
+        companyName
+      }));
+      if (!appliedVacancy) {
+        // Another request for the same vacancy got in between the check and the insert
+        const winner = await storage.getAppliedVacancyByUserAndVacancy(userId, vacancyId);
+        return alreadyApplied(winner?.appliedAt);
+      }
+      await storage.createAppliedVacancyStatusChange({
+        appliedVacancyId: appliedVacancy.id,
+        fromStatus: null,
+        toStatus: appliedVacancy.status,
+        note: null
+      });
       
-      // Mock application response
       const applicationResult = {
-        vacancyId,
-        appliedAt: new Date(),
-        status: 'applied' as const
+        id: appliedVacancy.id,
+        vacancyId: appliedVacancy.vacancyId,
+        appliedAt: appliedVacancy.appliedAt,
+        status: appliedVacancy.status
       };
       
       res.locals.addTiming('db', Date.now() - startTime);
-      res.json(applicationResult);
+      res.status(201).json(applicationResult);
 
     } catch (error: any) {
       console.error('Apply to vacancy error:', error);
@@ -1140,8 +2522,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         vacancyExists = false;
       }
       
-      // Check if user has already applied (mock for now)
-      const hasApplied = false;
+      // Check if user has already applied
+      const appliedVacancy = await storage.getAppliedVacancyByUserAndVacancy(userId, vacancyId);
+      const hasApplied = !!appliedVacancy;
       
       // Check if vacancy requires test or is direct type (mock for now)
       const requiresTest = false;
@@ -1152,6 +2535,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         exists: vacancyExists,
         canApply: vacancyExists && !hasApplied && !requiresTest && !isDirect,
         hasApplied,
+        appliedAt: appliedVacancy?.appliedAt ?? null,
+        applicationStatus: appliedVacancy?.status ?? null,
         requiresTest,
         isDirect,
         message: !vacancyExists ? 'This job is no longer available.' :
@@ -1,43 +1,270 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { cassette as defaultCassette, type CassetteStore } from './cassette';
+import { resolveFeatureBindings, aiFeatures, type AIFeature, type FeatureBinding, type LLMCompletion, type LLMRequest, type LLMUsage } from './llmProvider';
+import type { ZodType, ZodTypeDef } from 'zod';
+import {
+  aiJobCandidatesSchema,
+  aiRankedTitlesSchema,
+  aiKeywordRelevanceSchema,
+  aiKeywordRelevanceBatchSchema,
+  aiUnresolvedFiltersSchema,
+  type AIFilterMapping,
+  type FilterMatchRequest,
+  type HHEmployerSearchResult
+} from '@shared/schema';
+import { mapFiltersDeterministically, type UnresolvedFilterField } from './filterMapper';
+import { aiRequestQueue, AIRequestQueue, RequestBatcher, type AIRequestContext, type BatcherOptions } from './aiQueue';
+import { aiUsageTracker, AIQuotaExceededError, type AIUsageTracker } from './aiUsage';
+
+export interface AIClientOptions {
+  cassette?: CassetteStore;
+  // Provider and model per feature; unset features follow the LLM_* env vars
+  bindings?: Partial<Record<AIFeature, FeatureBinding>>;
+  // Queue shared with other clients; the process-wide one by default
+  queue?: AIRequestQueue;
+  // A private queue with this budget instead; 0 for local and rule-based providers
+  requestsPerMinute?: number;
+  // Relevance scoring calls that arrive close together share one request
+  relevanceBatch?: BatcherOptions;
+  // Records every provider call and enforces per-user quotas; off when unset
+  usage?: AIUsageTracker;
+}
 
-const apiKey = process.env.GEMINI_API_KEY || '';
-if (!apiKey) {
-  console.error('GEMINI_API_KEY not found in environment variables');
-} else {
-  console.log('Gemini API key loaded, length:', apiKey.length);
+interface RelevanceItem {
+  userInput: string;
+  keywords: string[];
 }
 
-const genAI = new GoogleGenerativeAI(apiKey);
+type ScoredKeyword = { text: string; relevanceScore: number };
+
+// Part of one provider call accounted to a user; a batched call is split
+// between its callers
+interface UsageShare {
+  userId?: number;
+  share: number;
+}
+
+const shareOf = (tokens: number | undefined, share: number) =>
+  tokens === undefined ? null : Math.round(tokens * share);
+
+const UNRESOLVED_FIELD_PROMPTS: Record<UnresolvedFilterField, string> = {
+  locationText: 'Location (city or region) the user typed',
+  metroStation: 'Metro station'
+};
+
+// Repair round trips after the first invalid structured response
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface AIOutputMetrics {
+  requests: number;
+  parseFailures: number;
+  validationFailures: number;
+  repaired: number;
+  failed: number;
+}
+
+// Raised once a structured response is still invalid after all repairs
+export class AIOutputError extends Error {
+  constructor(public feature: AIFeature, public issues: string[]) {
+    super(`Invalid ${feature} response: ${issues.join('; ')}`);
+    this.name = 'AIOutputError';
+  }
+}
+
+// The non-AI fallbacks stand in for a failing model, not for a user who is
+// over quota; that has to reach the route as a 429
+function rethrowQuotaError(error: unknown): void {
+  if (error instanceof AIQuotaExceededError) throw error;
+}
+
+// Model output → JSON value: tolerates code fences and prose around the document
+export function extractJson(text: string): unknown {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
+  try {
+    return JSON.parse(unfenced);
+  } catch (error) {
+    const start = unfenced.search(/[{[]/);
+    const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(unfenced.slice(start, end + 1));
+  }
+}
 
 export class AIClient {
-  private model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-  private proModel = genAI.getGenerativeModel({ model: 'gemini-1.5-pro' });
-  private lastRequestTime = 0;
-  private readonly MIN_REQUEST_INTERVAL = 5000; // 5 seconds between requests (increased for stability)
-
-  private async waitForRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.MIN_REQUEST_INTERVAL) {
-      const waitTime = this.MIN_REQUEST_INTERVAL - timeSinceLastRequest;
-      console.log(`🕒 Rate limiting: waiting ${waitTime}ms before next AI request`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+  private queue: AIRequestQueue;
+  private relevanceBatcher: RequestBatcher<RelevanceItem, ScoredKeyword[]>;
+  private cassette: CassetteStore;
+  private usage?: AIUsageTracker;
+  private bindings: Record<AIFeature, FeatureBinding>;
+  private outputMetrics = Object.fromEntries(aiFeatures.map(feature => [feature, {
+    requests: 0,
+    parseFailures: 0,
+    validationFailures: 0,
+    repaired: 0,
+    failed: 0
+  }])) as Record<AIFeature, AIOutputMetrics>;
+
+  constructor(options: AIClientOptions = {}) {
+    this.cassette = options.cassette || defaultCassette;
+    this.usage = options.usage;
+    this.bindings = { ...resolveFeatureBindings(), ...options.bindings };
+    this.queue = options.queue
+      ?? (options.requestsPerMinute !== undefined ? new AIRequestQueue({ requestsPerMinute: options.requestsPerMinute }) : aiRequestQueue);
+    this.relevanceBatcher = new RequestBatcher(
+      (items, context, callers) => this.scoreKeywordBatch(items, context, callers),
+      options.relevanceBatch
+    );
+  }
+
+  // Throws AIQuotaExceededError for a user over quota; replayed answers cost
+  // nothing, so they are never limited
+  async checkQuota(userId?: number): Promise<void> {
+    if (!this.cassette.isReplaying) {
+      await this.usage?.checkQuota(userId);
     }
-    
-    this.lastRequestTime = Date.now();
   }
 
+  // Whether the provider bound to the feature can be called at all
+  isFeatureConfigured(feature: AIFeature): boolean {
+    return this.bindings[feature].provider.isConfigured();
+  }
+
+  // Queue position and wait estimate for the user's next AI request
+  getQueueStatus(userId?: number) {
+    return this.queue.getStatus(userId);
+  }
+
+  // One completion for a feature, keyed by provider, model and prompt for
+  // record/replay. Live calls are recorded against the user with their latency
+  // and the provider's token counts, or against `shares` when given.
+  private async generate(
+    feature: AIFeature,
+    prompt: string,
+    options: Pick<LLMRequest, 'json' | 'temperature' | 'timeoutMs'> = {},
+    context: AIRequestContext = {},
+    shares: UsageShare[] = [{ userId: context.userId, share: 1 }]
+  ): Promise<string> {
+    const { provider, model } = this.bindings[feature];
+    const request: LLMRequest = { feature, model, prompt, ...options };
+    const cassetteRequest = { provider: provider.name, ...request };
+
+    if (this.cassette.isReplaying) {
+      const { text } = await this.cassette.load<{ text: string }>('ai', cassetteRequest);
+      return text;
+    }
+
+    const startedAt = Date.now();
+    let completion: LLMCompletion;
+    try {
+      completion = await provider.generate(request);
+    } catch (error) {
+      this.recordUsage(feature, shares, Date.now() - startedAt, false);
+      throw error;
+    }
+    this.recordUsage(feature, shares, Date.now() - startedAt, true, completion.usage);
+
+    const { text } = completion;
+    if (this.cassette.isRecording) {
+      await this.cassette.save('ai', cassetteRequest, { text });
+    }
+    return text;
+  }
+
+  private recordUsage(feature: AIFeature, shares: UsageShare[], latencyMs: number, success: boolean, usage?: LLMUsage): void {
+    const { provider, model } = this.bindings[feature];
+    for (const { userId, share } of shares) {
+      void this.usage?.record({
+        userId: userId ?? null,
+        feature,
+        provider: provider.name,
+        model,
+        promptTokens: shareOf(usage?.promptTokens, share),
+        completionTokens: shareOf(usage?.completionTokens, share),
+        totalTokens: shareOf(usage?.totalTokens, share),
+        latencyMs,
+        success
+      });
+    }
+  }
+
+  // JSON-mode completion validated against `schema`. Invalid output is sent back
+  // with the validation errors for repair instead of being silently dropped.
+  private async generateStructured<T>(
+    feature: AIFeature,
+    prompt: string,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    options: Pick<LLMRequest, 'temperature' | 'timeoutMs'> = {},
+    context: AIRequestContext = {},
+    shares?: UsageShare[]
+  ): Promise<T> {
+    const metrics = this.outputMetrics[feature];
+    metrics.requests++;
+
+    let currentPrompt = prompt;
+    let issues: string[] = [];
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const text = await this.makeAIRequest(async () => {
+        return await this.generate(feature, currentPrompt, { ...options, json: true }, context, shares);
+      }, context);
+
+      let value: unknown;
+      try {
+        value = extractJson(text);
+      } catch (error: any) {
+        metrics.parseFailures++;
+        issues = [`Response is not valid JSON: ${error.message}`];
+      }
+
+      if (issues.length === 0) {
+        const parsed = schema.safeParse(value);
+        if (parsed.success) {
+          if (attempt > 0) {
+            metrics.repaired++;
+            console.log(`🔧 ${feature} response repaired after ${attempt} attempt(s)`);
+          }
+          return parsed.data;
+        }
+        metrics.validationFailures++;
+        issues = parsed.error.errors.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      }
+
+      console.log(`⚠️  Invalid ${feature} response (attempt ${attempt + 1}): ${issues.join('; ')}`);
+      if (attempt < MAX_REPAIR_ATTEMPTS) {
+        currentPrompt = `${prompt}
+
+Your previous response could not be used:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${text.slice(0, 4000)}
+
+Reply again with only the corrected JSON document, no prose or Markdown.`;
+        issues = [];
+      }
+    }
+
+    metrics.failed++;
+    throw new AIOutputError(feature, issues);
+  }
+
+  getOutputMetrics(): Record<AIFeature, AIOutputMetrics> {
+    return JSON.parse(JSON.stringify(this.outputMetrics));
+  }
+
+  // Each attempt takes its turn in the queue; replayed answers cost nothing
+  // upstream. Over-quota users are turned away before they queue.
   private async makeAIRequest<T>(
     requestFn: () => Promise<T>,
+    context: AIRequestContext = {},
     maxRetries: number = 3,
     baseDelay: number = 1000
   ): Promise<T> {
-    await this.waitForRateLimit();
-    
+    await this.checkQuota(context.userId);
+
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        return await requestFn();
+        return this.cassette.isReplaying
+          ? await requestFn()
+          : await this.queue.enqueue(requestFn, context);
       } catch (error: any) {
         const isRetryable = error?.status === 503 || error?.status === 429 || error?.status === 500;
         
@@ -57,7 +284,7 @@ export class AIClient {
   }
 
   // New 3-step structured approach
-  async generateRussianSeedTerms(userInput: string): Promise<{
+  async generateRussianSeedTerms(userInput: string, context: AIRequestContext = {}): Promise<{
     exactPhrases: string[];
     strongSynonyms: string[];
     weakAmbiguous: string[];
@@ -65,7 +292,7 @@ export class AIClient {
   }> {
     try {
       // Step 1: Candidate Generation
-      const { candidates, domain } = await this.generateJobCandidates(userInput);
+      const { candidates, domain } = await this.generateJobCandidates(userInput, context);
       
       if (candidates.length === 0) {
         console.log('🔄 No candidates from AI - returning empty results (no fallback)');
@@ -77,11 +304,8 @@ export class AIClient {
         };
       }
       
-      // Step 3: Ranking - add extra wait time between AI calls to avoid rate limiting
-      console.log('⏳ Waiting extra time before ranking to avoid rate limits...');
-      await new Promise(resolve => setTimeout(resolve, 3000)); // Additional 3s wait
-      
-      const rankedResults = await this.rankJobTitles(userInput, candidates);
+      // Step 3: Ranking
+      const rankedResults = await this.rankJobTitles(userInput, candidates, context);
       
       if (rankedResults.length === 0) {
         console.log('🔄 No ranked results - using unranked candidates as fallback');
@@ -98,6 +322,7 @@ export class AIClient {
       return this.convertRankedToCategorized(rankedResults);
       
     } catch (error) {
+      rethrowQuotaError(error);
       console.error('Full AI pipeline failed:', error);
       // Return empty results instead of fallback as per new requirements
       return {
@@ -109,7 +334,7 @@ export class AIClient {
     }
   }
 
-  private async generateJobCandidates(userInput: string): Promise<{ candidates: string[]; domain: string }> {
+  private async generateJobCandidates(userInput: string, context: AIRequestContext = {}): Promise<{ candidates: string[]; domain: string }> {
     const systemMessage = `You help users search jobs on hh.ru (HeadHunter).
 Return only JSON exactly matching the requested schema. No prose, no Markdown.
 Rules:
@@ -145,42 +370,23 @@ Rules:
     console.log(`🎯 Step 1: Generating candidates for: "${userInput}"`);
 
     try {
-      const result = await this.makeAIRequest(async () => {
-        return await this.model.generateContent(`${systemMessage}\n\n${userMessage}`);
-      });
-      
-      let response = result.response.text().trim();
-      console.log(`✅ Step 1 AI response: ${response}`);
-      
-      // Strip markdown code fences if present
-      if (response.startsWith('```json') && response.endsWith('```')) {
-        response = response.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (response.startsWith('```') && response.endsWith('```')) {
-        response = response.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      // Parse JSON response
-      const parsed = JSON.parse(response);
+      const parsed = await this.generateStructured('seedTerms', `${systemMessage}\n\n${userMessage}`, aiJobCandidatesSchema, {}, context);
       
-      if (!parsed.candidates || !Array.isArray(parsed.candidates)) {
-        console.log('❌ Invalid response format');
-        return { candidates: [], domain: '' };
-      }
-      
-      const candidates = parsed.candidates.map((c: any) => c.title).filter((title: string) => title && title.trim());
-      const domain = parsed.domain || '';
+      const candidates = parsed.candidates.map(candidate => candidate.title);
+      const domain = parsed.domain;
       
       console.log(`🎯 Step 1 extracted ${candidates.length} candidates in domain "${domain}": ${candidates.join(', ')}`);
       
       return { candidates, domain };
       
     } catch (error) {
+      rethrowQuotaError(error);
       console.error('Step 1 candidate generation failed:', error);
       return { candidates: [], domain: '' };
     }
   }
 
-  private async rankJobTitles(userInput: string, titles: string[]): Promise<Array<{rank: number, title: string, reason: string}>> {
+  private async rankJobTitles(userInput: string, titles: string[], context: AIRequestContext = {}): Promise<Array<{rank: number, title: string, reason: string}>> {
     const systemMessage = `You help users search jobs on hh.ru (HeadHunter).
 Return only JSON exactly matching the requested schema. No prose, no Markdown.
 Rules:
@@ -221,32 +427,13 @@ ${JSON.stringify(titles)}
     console.log(`🎯 Step 3: Ranking ${titles.length} titles for: "${userInput}"`);
 
     try {
-      const result = await this.makeAIRequest(async () => {
-        return await this.model.generateContent(`${systemMessage}\n\n${userMessage}`);
-      });
-      
-      let response = result.response.text().trim();
-      console.log(`✅ Step 3 AI response: ${response}`);
-      
-      // Strip markdown code fences if present
-      if (response.startsWith('```json') && response.endsWith('```')) {
-        response = response.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (response.startsWith('```') && response.endsWith('```')) {
-        response = response.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      // Parse JSON response
-      const parsed = JSON.parse(response);
-      
-      if (!parsed.ranked || !Array.isArray(parsed.ranked)) {
-        console.log('❌ Invalid ranking response format');
-        return [];
-      }
+      const parsed = await this.generateStructured('seedTerms', `${systemMessage}\n\n${userMessage}`, aiRankedTitlesSchema, {}, context);
       
       console.log(`🎯 Step 3 ranked ${parsed.ranked.length} titles`);
       return parsed.ranked;
       
     } catch (error) {
+      rethrowQuotaError(error);
       console.error('Step 3 ranking failed:', error);
       return [];
     }
@@ -296,6 +483,7 @@ ${JSON.stringify(titles)}
       return await this.rankJobTitles(userInput, candidates);
       
     } catch (error) {
+      rethrowQuotaError(error);
       console.error('Ranked job titles generation failed:', error);
       return null;
     }
@@ -512,8 +700,85 @@ ${JSON.stringify(titles)}
     return result;
   }
 
-  // AI relevance filtering for keywords
-  async filterKeywordsByRelevance(userInput: string, keywords: string[]): Promise<{text: string; relevanceScore: number}[]> {
+  // AI relevance filtering for keywords. Calls that arrive together (several
+  // users searching at once) are scored in one request, whose tokens are split
+  // between the callers by their share of the keywords. The quota is checked
+  // for each caller before joining and again when the batch runs.
+  async filterKeywordsByRelevance(userInput: string, keywords: string[], context: AIRequestContext = {}): Promise<ScoredKeyword[]> {
+    await this.checkQuota(context.userId);
+    return this.relevanceBatcher.add({ userInput, keywords }, context);
+  }
+
+  private async scoreKeywordBatch(
+    items: RelevanceItem[],
+    context: AIRequestContext,
+    callers: AIRequestContext[]
+  ): Promise<Array<ScoredKeyword[] | Promise<ScoredKeyword[]>>> {
+    // A caller who went over quota while the batch was collecting is scored
+    // alone, which turns just them away
+    const withinQuota = await Promise.all(callers.map(caller => this.checkQuota(caller.userId).then(
+      () => true,
+      error => error instanceof AIQuotaExceededError ? false : Promise.reject(error)
+    )));
+    const alone = (index: number) => this.scoreKeywords(items[index], { userId: callers[index].userId, signal: context.signal });
+    const batched = items.map((_, index) => index).filter(index => withinQuota[index]);
+    if (batched.length <= 1) {
+      return items.map((_, index) => alone(index));
+    }
+
+    const batchResults = await this.scoreKeywordsTogether(batched.map(index => items[index]), batched.map(index => callers[index]), context);
+    return items.map((_, index) => withinQuota[index] ? batchResults[batched.indexOf(index)] : alone(index));
+  }
+
+  private async scoreKeywordsTogether(items: RelevanceItem[], callers: AIRequestContext[], context: AIRequestContext): Promise<ScoredKeyword[][]> {
+    const totalKeywords = items.reduce((sum, item) => sum + item.keywords.length, 0);
+    const shares = items.map((item, index) => ({
+      userId: callers[index].userId,
+      share: totalKeywords ? item.keywords.length / totalKeywords : 1 / items.length
+    }));
+
+    const prompt = `
+Ты эксперт по поиску работы. Ниже несколько независимых запросов пользователей, у каждого свой номер и свои ключевые слова.
+
+Для каждого запроса оцени его ключевые слова по релевантности к этому запросу по шкале 0-10:
+- 10: Прямое совпадение или точный синоним
+- 8-9: Очень связанные термины (та же профессия, но разные формулировки)
+- 6-7: Похожие профессии или смежные области
+- 4-5: Отдалённо связанные термины
+- 0-3: Совершенно несвязанные термины
+
+Запросы:
+${items.map((item, index) => `${index}. Запрос: "${item.userInput}". Ключевые слова: ${JSON.stringify(item.keywords)}`).join('\n')}
+
+Верни JSON массив, по одному объекту на запрос, с его номером в поле "query":
+[
+  {"query": 0, "keywords": [{"text": "ключевое слово", "relevanceScore": 9}]}
+]
+
+Только JSON, без объяснений.`;
+
+    try {
+      const results = await this.generateStructured(
+        'relevanceFiltering',
+        prompt,
+        aiKeywordRelevanceBatchSchema,
+        {},
+        { userId: callers[0].userId, signal: context.signal },
+        shares
+      );
+      console.log(`🎯 Scored ${items.length} relevance requests in one batch`);
+      return items.map((item, index) => {
+        const scored = results.find(result => result.query === index)?.keywords;
+        return scored ? scored.sort((a, b) => b.relevanceScore - a.relevanceScore) : this.scoreKeywordsFallback(item);
+      });
+    } catch (error) {
+      rethrowQuotaError(error);
+      console.error('AI relevance filtering failed:', error);
+      return items.map(item => this.scoreKeywordsFallback(item));
+    }
+  }
+
+  private async scoreKeywords({ userInput, keywords }: RelevanceItem, context: AIRequestContext): Promise<ScoredKeyword[]> {
     const prompt = `
 Ты эксперт по поиску работы. Пользователь ввёл запрос: "${userInput}"
 
@@ -535,52 +800,38 @@ ${JSON.stringify(titles)}
 Только JSON, без объяснений.`;
 
     try {
-      const result = await this.makeAIRequest(async () => {
-        return await this.model.generateContent(prompt);
-      });
-      const response = result.response.text().trim();
-      
-      // Extract JSON from response
-      let jsonText = response;
-      if (response.includes('```json')) {
-        jsonText = response.split('```json')[1].split('```')[0].trim();
-      } else if (response.includes('```')) {
-        jsonText = response.split('```')[1].split('```')[0].trim();
-      }
-      
-      const parsed = JSON.parse(jsonText);
-      
-      // Validate and sort by relevance score
-      const validatedResults = parsed
-        .filter((item: any) => item.text && typeof item.relevanceScore === 'number')
-        .sort((a: any, b: any) => b.relevanceScore - a.relevanceScore);
-      
-      return validatedResults;
+      const scored = await this.generateStructured('relevanceFiltering', prompt, aiKeywordRelevanceSchema, {}, context);
+      return scored.sort((a, b) => b.relevanceScore - a.relevanceScore);
     } catch (error) {
+      rethrowQuotaError(error);
       console.error('AI relevance filtering failed:', error);
-      // Enhanced fallback: assign relevance based on keyword position and content
-      return keywords.map((text, index) => {
-        // Give higher scores to earlier keywords and exact matches
-        let score = Math.max(8 - index, 3); // Start high, decrease by position
-        
-        // Boost score for exact or partial matches with user input
-        const lowerInput = userInput.toLowerCase();
-        const lowerText = text.toLowerCase();
-        
-        if (lowerText === lowerInput) {
-          score = 10; // Exact match
-        } else if (lowerText.includes(lowerInput) || lowerInput.includes(lowerText)) {
-          score = Math.min(score + 2, 9); // Partial match boost
-        }
-        
-        return { text, relevanceScore: score };
-      }).sort((a, b) => b.relevanceScore - a.relevanceScore);
+      return this.scoreKeywordsFallback({ userInput, keywords });
     }
   }
 
+  private scoreKeywordsFallback({ userInput, keywords }: RelevanceItem): ScoredKeyword[] {
+    // Enhanced fallback: assign relevance based on keyword position and content
+    return keywords.map((text, index) => {
+      // Give higher scores to earlier keywords and exact matches
+      let score = Math.max(8 - index, 3); // Start high, decrease by position
+      
+      // Boost score for exact or partial matches with user input
+      const lowerInput = userInput.toLowerCase();
+      const lowerText = text.toLowerCase();
+      
+      if (lowerText === lowerInput) {
+        score = 10; // Exact match
+      } else if (lowerText.includes(lowerInput) || lowerInput.includes(lowerText)) {
+        score = Math.min(score + 2, 9); // Partial match boost
+      }
+      
+      return { text, relevanceScore: score };
+    }).sort((a, b) => b.relevanceScore - a.relevanceScore);
+  }
+
   // Keep the legacy method for backward compatibility (deprecated)
-  async generateJobTitles(userInput: string): Promise<string[]> {
-    const seeds = await this.generateRussianSeedTerms(userInput);
+  async generateJobTitles(userInput: string, context: AIRequestContext = {}): Promise<string[]> {
+    const seeds = await this.generateRussianSeedTerms(userInput, context);
     return [
       ...seeds.exactPhrases,
       ...seeds.strongSynonyms,
@@ -589,139 +840,44 @@ ${JSON.stringify(titles)}
     ];
   }
 
+  // Dictionary-backed filters are resolved deterministically; the model is only
+  // asked about free text the mapper couldn't place (see filterMapper.ts)
   async mapFiltersToHH(
-    answers: any, 
-    dictionaries: any
-  ): Promise<{
-    text: string;
-    area?: string;
-    experience?: string;
-    employment?: string[];
-    schedule?: string[];
-    salary?: number;
-    currency?: string;
-    only_with_salary?: boolean;
-    period?: number;
-    order_by?: string;
-  }> {
-    const prompt = `
-You are an HH.ru API specialist. Convert user answers to HH.ru search parameters.
-
-User answers: ${JSON.stringify(answers)}
-
-Available values from HH.ru dictionaries:
-Experience: ${JSON.stringify(dictionaries.experience)}
-Employment type: ${JSON.stringify(dictionaries.employment)}
-Schedule: ${JSON.stringify(dictionaries.schedule)}
-Currencies: ${JSON.stringify(dictionaries.currency)}
-Sort order: ${JSON.stringify(dictionaries.vacancy_search_order)}
+    answers: FilterMatchRequest, 
+    dictionaries: any,
+    areas: any[] = [],
+    employers: HHEmployerSearchResult[] = [],
+    context: AIRequestContext = {}
+  ): Promise<AIFilterMapping> {
+    const { params, unresolved } = mapFiltersDeterministically(answers, dictionaries, areas, employers);
+    const fields = Object.keys(unresolved) as UnresolvedFilterField[];
+    if (fields.length === 0) return params;
 
-The user has selected these job keywords: ${answers.selectedKeywords?.join(', ') || 'none'}
-
-Search options:
-- Title-first search: ${answers.titleFirstSearch ? 'enabled (use search_field: ["name"])' : 'disabled (search all fields)'}
-- Exact phrases: ${answers.useExactPhrases ? 'enabled (wrap keywords in quotes)' : 'disabled (plain text)'}
+    const prompt = `
+You are an HH.ru API specialist. Resolve these free-text job search filters to HH.ru API parameters.
 
-Important: Only include filter parameters in the response if the corresponding enableXFilter flag is true. For example, only include "area" if enableLocationFilter is true.
+${fields.map(field => `- ${UNRESOLVED_FIELD_PROMPTS[field]}: ${JSON.stringify(unresolved[field])}`).join('\n')}
 
-Return a JSON object with correct IDs from dictionaries. For the "text" field, combine the selected keywords considering the search options:
+Return a JSON object with only the parameters you can resolve confidently and omit the rest:
 {
-  "text": "combine selected keywords into search string",
-  "area": "1", // Area ID (1 = Moscow, 2 = SPb, etc.)
-  "experience": "ID_from_dictionary",
-  "employment": ["ID1", "ID2"],
-  "schedule": ["ID1", "ID2"], 
-  "salary": number,
-  "currency": "RUR",
-  "only_with_salary": true/false,
-  "period": number_of_days,
-  "order_by": "sort_ID",
-  "metro": "metro_station_id",
-  "search_field": ["field_ID1", "field_ID2"],
-  "label": ["label_ID1", "label_ID2"],
-  "employer_id": "company_name_or_id",
-  "education_level": "education_ID",
-  "working_time_modes": ["mode_ID1", "mode_ID2"]
+  "area": "HH.ru area ID, e.g. 1 for Moscow, 2 for Saint Petersburg",
+  "metro": "HH.ru metro station ID, e.g. 6.8"
 }
 `;
 
     try {
-      const result = await this.proModel.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
-          temperature: 0.1,
-          topK: 1,
-          topP: 0.8,
-        },
-      });
-
-      const response = result.response.text();
-      const cleanJson = response.replace(/```json\n?|```\n?/g, '').trim();
-      
-      try {
-        return JSON.parse(cleanJson);
-      } catch (parseError) {
-        console.error('Failed to parse AI response as JSON:', cleanJson);
-        throw new Error('AI returned invalid JSON format');
-      }
+      const resolved = await this.generateStructured('filterMapping', prompt, aiUnresolvedFiltersSchema, { temperature: 0.1 }, context);
+      console.log(`🎯 AI resolved filter fields: ${Object.keys(resolved).join(', ') || 'none'}`);
+      return {
+        ...params,
+        ...(unresolved.locationText && resolved.area ? { area: resolved.area } : {}),
+        ...(unresolved.metroStation && resolved.metro ? { metro: resolved.metro } : {})
+      };
     } catch (error) {
+      rethrowQuotaError(error);
       console.error('Filter mapping failed:', error);
-      // Return basic fallback with proper keyword combination, but only include enabled filters
-      const keywords = answers.selectedKeywords || [];
-      
-      // Apply exact phrases if enabled
-      let keywordText: string;
-      if (answers.useExactPhrases) {
-        keywordText = keywords.map((k: string) => `"${k}"`).join(' OR ');
-      } else {
-        keywordText = keywords.join(' OR ');
-      }
-      
-      const fallback: any = {
-        text: keywordText
-      };
-      
-      // Add search_field=name if title-first search is enabled
-      if (answers.titleFirstSearch) {
-        fallback.search_field = ['name'];
-      }
-      
-      // Only include filters that are explicitly enabled
-      if (answers.enableLocationFilter && answers.locationText) {
-        fallback.area = answers.locationText?.includes('Москва') ? '1' : undefined;
-      }
-      if (answers.enableExperienceFilter && answers.experienceText) {
-        fallback.experience = 'doesNotMatter';
-      }
-      if (answers.enableEmploymentFilter && answers.employmentTypes?.length) {
-        fallback.employment = ['full'];
-      }
-      if (answers.enableScheduleFilter && answers.scheduleTypes?.length) {
-        fallback.schedule = ['fullDay'];
-      }
-      if (answers.enableSalaryFilter && answers.incomeNumber) {
-        fallback.salary = answers.incomeNumber;
-        fallback.currency = answers.currency || 'RUR';
-        fallback.only_with_salary = answers.onlyWithSalary || false;
-      }
-      if (answers.enableMetroFilter && answers.metroStation) {
-        fallback.metro = answers.metroStation;
-      }
-      if (answers.enableLabelFilter && answers.vacancyLabels?.length) {
-        fallback.label = answers.vacancyLabels;
-      }
-      if (answers.enableEducationFilter && answers.educationLevel) {
-        fallback.education_level = answers.educationLevel;
-      }
-      if (answers.enableWorkFormatFilter && answers.workFormats?.length) {
-        fallback.working_time_modes = answers.workFormats;
-      }
-      
-      // Always include basic search params
-      fallback.period = answers.period || 7;
-      fallback.order_by = answers.orderBy || 'relevance';
-      
-      return fallback;
+      // Unresolved free text is dropped rather than guessed
+      return params;
     }
   }
 
@@ -733,7 +889,7 @@ Return a JSON object with correct IDs from dictionaries. For the "text" field, c
     plainDescription: string;
     userProfile?: string;
     customPrompt?: string;
-  }): Promise<string> {
+  }, context: AIRequestContext = {}): Promise<string> {
     try {
       // Use the custom prompt from frontend if provided, otherwise use simple fallback
       let finalPrompt: string;
@@ -755,10 +911,10 @@ Format: 3 short paragraphs, 150-200 words total, professional tone.`;
       }
 
       const result = await this.makeAIRequest(async () => {
-        return await this.model.generateContent(finalPrompt);
-      });
+        return await this.generate('coverLetter', finalPrompt, {}, context);
+      }, context);
       
-      const generatedText = result.response.text().trim();
+      const generatedText = result.trim();
       
       // Validate the response is reasonable
       if (generatedText.length < 30 || generatedText.includes('[ERROR')) {
@@ -768,6 +924,7 @@ Format: 3 short paragraphs, 150-200 words total, professional tone.`;
       return generatedText;
       
     } catch (error) {
+      rethrowQuotaError(error);
       console.error('Cover letter generation failed:', error);
       
       // Return error message instead of template
@@ -779,4 +936,4 @@ Format: 3 short paragraphs, 150-200 words total, professional tone.`;
 
 }
 
-export const aiClient = new AIClient();
+export const aiClient = new AIClient({ usage: aiUsageTracker });
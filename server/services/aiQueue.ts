@@ -0,0 +1,294 @@
+import type { AIQueueStatus } from "@shared/schema";
+
+// Shared queue in front of the LLM provider. Requests run concurrently within a
+// requests-per-minute budget; waiting requests are taken round-robin per user so
+// one user's burst can't push everyone else's to the back.
+
+export interface AIRequestContext {
+  // Requests without a user share one anonymous slot in the rotation
+  userId?: number;
+  // Aborting drops a request that is still queued; one already sent is left to finish
+  signal?: AbortSignal;
+}
+
+export interface AIRequestQueueOptions {
+  // 0 disables the budget, e.g. for local and rule-based providers
+  requestsPerMinute?: number;
+  maxConcurrent?: number;
+  now?: () => number;
+}
+
+export class AIRequestCancelledError extends Error {
+  constructor() {
+    super('AI request cancelled');
+    this.name = 'AIRequestCancelledError';
+  }
+}
+
+interface QueuedRequest {
+  userKey: string;
+  start: () => void;
+}
+
+const WINDOW_MS = 60 * 1000;
+// Until a few requests have completed, assume this long per request
+const DEFAULT_DURATION_MS = 3000;
+
+const userKeyOf = (userId?: number) => userId === undefined ? 'anonymous' : `user:${userId}`;
+
+export class AIRequestQueue {
+  private requestsPerMinute: number;
+  private maxConcurrent: number;
+  private now: () => number;
+  private queues = new Map<string, QueuedRequest[]>();
+  // Users with queued requests, in the order they will be served
+  private rotation: string[] = [];
+  private recentStarts: number[] = [];
+  private inFlight = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private completed = 0;
+  private totalDurationMs = 0;
+
+  constructor(options: AIRequestQueueOptions = {}) {
+    this.requestsPerMinute = options.requestsPerMinute ?? 12;
+    this.maxConcurrent = options.maxConcurrent ?? 4;
+    this.now = options.now ?? Date.now;
+  }
+
+  enqueue<T>(call: () => Promise<T>, context: AIRequestContext = {}): Promise<T> {
+    const { signal } = context;
+    if (signal?.aborted) return Promise.reject(new AIRequestCancelledError());
+
+    return new Promise<T>((resolve, reject) => {
+      const userKey = userKeyOf(context.userId);
+      const onAbort = () => {
+        this.remove(request);
+        reject(new AIRequestCancelledError());
+        this.pump();
+      };
+      const request: QueuedRequest = {
+        userKey,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          const startedAt = this.now();
+          const release = () => {
+            this.inFlight--;
+            this.completed++;
+            this.totalDurationMs += this.now() - startedAt;
+            this.pump();
+          };
+          Promise.resolve()
+            .then(call)
+            .then(
+              value => { release(); resolve(value); },
+              error => { release(); reject(error); }
+            );
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const queue = this.queues.get(userKey);
+      if (queue) {
+        queue.push(request);
+      } else {
+        this.queues.set(userKey, [request]);
+        this.rotation.push(userKey);
+      }
+      this.pump();
+    });
+  }
+
+  getStatus(userId?: number): AIQueueStatus {
+    const userKey = userKeyOf(userId);
+    const index = this.rotation.indexOf(userKey);
+    return {
+      position: index === -1 ? null : index,
+      queued: this.queues.get(userKey)?.length ?? 0,
+      // Round-robin: one request from each user ahead, then this one
+      estimatedWaitMs: index === -1 ? 0 : this.estimateStartMs(index),
+      totalQueued: this.totalQueued(),
+      inFlight: this.inFlight,
+      requestsPerMinute: this.requestsPerMinute
+    };
+  }
+
+  private totalQueued(): number {
+    let total = 0;
+    this.queues.forEach(queue => { total += queue.length; });
+    return total;
+  }
+
+  private averageDurationMs(): number {
+    return this.completed === 0 ? DEFAULT_DURATION_MS : this.totalDurationMs / this.completed;
+  }
+
+  // Time until the request `ahead` places from the front can start, from the
+  // per-minute budget and from how long requests have been taking
+  private estimateStartMs(ahead: number): number {
+    const now = this.now();
+    this.pruneStarts(now);
+
+    let budgetWaitMs = 0;
+    if (this.requestsPerMinute > 0) {
+      const starts = this.recentStarts.slice();
+      for (let i = 0; i <= ahead; i++) {
+        const blocking = starts.length - this.requestsPerMinute;
+        const at = blocking < 0 ? now : Math.max(now, starts[blocking] + WINDOW_MS);
+        starts.push(at);
+        budgetWaitMs = at - now;
+      }
+    }
+
+    const freeSlots = this.maxConcurrent - this.inFlight;
+    const concurrencyWaitMs = ahead < freeSlots
+      ? 0
+      : Math.ceil((ahead - freeSlots + 1) / this.maxConcurrent) * this.averageDurationMs();
+
+    return Math.round(Math.max(budgetWaitMs, concurrencyWaitMs));
+  }
+
+  private remove(request: QueuedRequest): void {
+    const queue = this.queues.get(request.userKey);
+    const index = queue ? queue.indexOf(request) : -1;
+    if (!queue || index === -1) return;
+    queue.splice(index, 1);
+    if (queue.length === 0) {
+      this.queues.delete(request.userKey);
+      this.rotation.splice(this.rotation.indexOf(request.userKey), 1);
+    }
+  }
+
+  private pruneStarts(now: number): void {
+    while (this.recentStarts.length > 0 && this.recentStarts[0] <= now - WINDOW_MS) {
+      this.recentStarts.shift();
+    }
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.inFlight < this.maxConcurrent && this.rotation.length > 0) {
+      const now = this.now();
+      this.pruneStarts(now);
+      if (this.requestsPerMinute > 0 && this.recentStarts.length >= this.requestsPerMinute) {
+        // A finishing request or a new arrival re-pumps and replaces this timer
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.pump();
+        }, Math.max(1, this.recentStarts[0] + WINDOW_MS - now));
+        return;
+      }
+
+      // Serve the user at the front, then send them to the back of the rotation
+      const userKey = this.rotation.shift()!;
+      const queue = this.queues.get(userKey)!;
+      const request = queue.shift()!;
+      if (queue.length > 0) {
+        this.rotation.push(userKey);
+      } else {
+        this.queues.delete(userKey);
+      }
+
+      this.recentStarts.push(now);
+      this.inFlight++;
+      request.start();
+    }
+  }
+}
+
+export interface BatcherOptions {
+  // How long the first item waits for others to join
+  windowMs?: number;
+  maxSize?: number;
+}
+
+interface BatchEntry<I, R> {
+  item: I;
+  context: AIRequestContext;
+  settled: boolean;
+  resolve: (result: R | PromiseLike<R>) => void;
+  reject: (error: unknown) => void;
+}
+
+// Collects items that arrive within a short window into one call. The batch
+// runs for the first caller's user and is cancelled only if every caller leaves.
+// `run` also gets each item's own context, and may answer an item with a
+// promise of its own so that one caller can fail without the rest.
+export class RequestBatcher<I, R> {
+  private pending: BatchEntry<I, R>[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private windowMs: number;
+  private maxSize: number;
+
+  constructor(
+    private run: (items: I[], context: AIRequestContext, callers: AIRequestContext[]) => Promise<Array<R | Promise<R>>>,
+    options: BatcherOptions = {}
+  ) {
+    this.windowMs = options.windowMs ?? 200;
+    this.maxSize = options.maxSize ?? 5;
+  }
+
+  add(item: I, context: AIRequestContext = {}): Promise<R> {
+    if (context.signal?.aborted) return Promise.reject(new AIRequestCancelledError());
+
+    return new Promise<R>((resolve, reject) => {
+      const entry: BatchEntry<I, R> = { item, context, settled: false, resolve, reject };
+      context.signal?.addEventListener('abort', () => {
+        if (entry.settled) return;
+        entry.settled = true;
+        reject(new AIRequestCancelledError());
+      }, { once: true });
+
+      this.pending.push(entry);
+      if (this.pending.length >= this.maxSize) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.windowMs);
+      }
+    });
+  }
+
+  private flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const entries = this.pending.filter(entry => !entry.settled);
+    this.pending = [];
+    if (entries.length === 0) return;
+
+    const controller = new AbortController();
+    entries.forEach(entry => entry.context.signal?.addEventListener('abort', () => {
+      if (entries.every(other => other.context.signal?.aborted)) controller.abort();
+    }, { once: true }));
+
+    const settle = (entry: BatchEntry<I, R>, finish: () => void) => {
+      if (entry.settled) return;
+      entry.settled = true;
+      finish();
+    };
+
+    this.run(
+      entries.map(entry => entry.item),
+      { userId: entries[0].context.userId, signal: controller.signal },
+      entries.map(entry => entry.context)
+    )
+      .then(
+        results => entries.forEach((entry, index) => settle(entry, () => entry.resolve(results[index]))),
+        error => entries.forEach(entry => settle(entry, () => entry.reject(error)))
+      );
+  }
+}
+
+const envNumber = (name: string) => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+export const aiRequestQueue = new AIRequestQueue({
+  requestsPerMinute: envNumber('AI_REQUESTS_PER_MINUTE'),
+  maxConcurrent: envNumber('AI_MAX_CONCURRENT') || undefined
+});
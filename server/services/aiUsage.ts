@@ -0,0 +1,132 @@
+import type { AIQuota, AIQuotaLimits, AIUsagePeriod, AIUsageTotals, AIUserUsage, InsertAIUsageRecord, User } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { storage } from "../storage";
+
+// Per-user accounting of AI provider calls and the admin-set quotas on them.
+// Days and months are UTC calendar periods.
+
+export type AIUsageStore = Pick<IStorage, 'recordAIUsage' | 'getAIUsageTotals' | 'getAIQuota' | 'getAIQuotas'>;
+
+type QuotaLimitKind = 'requests' | 'tokens';
+
+export class AIQuotaExceededError extends Error {
+  constructor(
+    public period: AIUsagePeriod,
+    public limit: QuotaLimitKind,
+    public used: number,
+    public quota: number,
+    public resetAt: Date
+  ) {
+    super(`You have used your ${period === 'day' ? 'daily' : 'monthly'} AI ${limit === 'requests' ? 'request' : 'token'} limit (${used} of ${quota}). It resets ${period === 'day' ? 'at midnight UTC' : 'on the 1st of next month (UTC)'}.`);
+    this.name = 'AIQuotaExceededError';
+  }
+
+  // Body of the 429 the routes send
+  toResponse() {
+    return {
+      error: 'ai_quota_exceeded',
+      message: this.message,
+      period: this.period,
+      limit: this.limit,
+      used: this.used,
+      quota: this.quota,
+      resetAt: this.resetAt.toISOString()
+    };
+  }
+}
+
+function periodStart(period: AIUsagePeriod, at: Date): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()))
+    : new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+}
+
+function periodEnd(period: AIUsagePeriod, at: Date): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() + 1))
+    : new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+}
+
+const sum = (totals: AIUsageTotals[], field: 'requests' | 'tokens' | 'latencyMs') =>
+  totals.reduce((total, entry) => total + entry[field], 0);
+
+const noQuota: AIQuotaLimits = { dailyRequests: null, monthlyRequests: null, dailyTokens: null, monthlyTokens: null };
+
+export class AIUsageTracker {
+  constructor(
+    private store: AIUsageStore,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  // Throws AIQuotaExceededError once the user has used up a daily or monthly
+  // limit. Calls without a user are never limited.
+  async checkQuota(userId?: number): Promise<void> {
+    if (userId === undefined) return;
+    const quota = await this.store.getAIQuota(userId);
+    if (!quota) return;
+
+    const now = this.now();
+    const periods: Array<[AIUsagePeriod, number | null, number | null]> = [
+      ['day', quota.dailyRequests, quota.dailyTokens],
+      ['month', quota.monthlyRequests, quota.monthlyTokens]
+    ];
+    for (const [period, requestLimit, tokenLimit] of periods) {
+      if (requestLimit === null && tokenLimit === null) continue;
+      const totals = await this.store.getAIUsageTotals(periodStart(period, now), userId);
+      const requests = sum(totals, 'requests');
+      const tokens = sum(totals, 'tokens');
+      if (requestLimit !== null && requests >= requestLimit) {
+        throw new AIQuotaExceededError(period, 'requests', requests, requestLimit, periodEnd(period, now));
+      }
+      if (tokenLimit !== null && tokens >= tokenLimit) {
+        throw new AIQuotaExceededError(period, 'tokens', tokens, tokenLimit, periodEnd(period, now));
+      }
+    }
+  }
+
+  // Accounting must never fail the AI call it describes
+  async record(entry: InsertAIUsageRecord): Promise<void> {
+    try {
+      await this.store.recordAIUsage(entry);
+    } catch (error) {
+      console.error('Failed to record AI usage:', error);
+    }
+  }
+
+  // Today's and this month's usage for each user, with their quota
+  async listUsage(users: User[]): Promise<AIUserUsage[]> {
+    const now = this.now();
+    const [today, month, quotas] = await Promise.all([
+      this.store.getAIUsageTotals(periodStart('day', now)),
+      this.store.getAIUsageTotals(periodStart('month', now)),
+      this.store.getAIQuotas()
+    ]);
+    const quotaByUser = new Map<number, AIQuota>(quotas.map(quota => [quota.userId, quota]));
+
+    return users.map(user => {
+      const todayTotals = today.filter(entry => entry.userId === user.id);
+      const monthTotals = month.filter(entry => entry.userId === user.id);
+      const monthRequests = sum(monthTotals, 'requests');
+      const quota = quotaByUser.get(user.id);
+      return {
+        userId: user.id,
+        username: user.username,
+        today: { requests: sum(todayTotals, 'requests'), tokens: sum(todayTotals, 'tokens') },
+        month: {
+          requests: monthRequests,
+          tokens: sum(monthTotals, 'tokens'),
+          avgLatencyMs: monthRequests === 0 ? 0 : Math.round(sum(monthTotals, 'latencyMs') / monthRequests),
+          byFeature: Object.fromEntries(monthTotals.map(entry => [entry.feature, { requests: entry.requests, tokens: entry.tokens }]))
+        },
+        quota: quota ? {
+          dailyRequests: quota.dailyRequests,
+          monthlyRequests: quota.monthlyRequests,
+          dailyTokens: quota.dailyTokens,
+          monthlyTokens: quota.monthlyTokens
+        } : noQuota
+      };
+    });
+  }
+}
+
+export const aiUsageTracker = new AIUsageTracker(storage);
@@ -1,12 +1,27 @@
+import type { CacheKeyInfo, CacheSummary } from "@shared/schema";
+import { createCacheBackend, type CacheBackend, type CacheEntry } from "./cacheBackends";
+
 interface CacheItem<T> {
   value: T;
   expires: number;
 }
 
-export class LRUCache<T> {
+// What the admin endpoints need from every named cache
+export interface InspectableCache {
+  summary(): Omit<CacheSummary, 'name' | 'warmable'>;
+  keys(prefix?: string): CacheKeyInfo[];
+  invalidate(prefix: string): Promise<number>;
+}
+
+function keyInfo(key: string, expires: number, now: number): CacheKeyInfo {
+  return { key, expiresAt: new Date(expires).toISOString(), ttlRemainingMs: expires - now };
+}
+
+export class LRUCache<T> implements InspectableCache {
   private cache = new Map<string, CacheItem<T>>();
   private maxSize: number;
   private defaultTTL: number;
+  private stats = { hits: 0, misses: 0, evictions: 0 };
 
   constructor(maxSize = 1000, defaultTTLMs = 60000) {
     this.maxSize = maxSize;
@@ -14,11 +29,9 @@ export class LRUCache<T> {
   }
 
   get(key: string): T | undefined {
-    const item = this.cache.get(key);
-    if (!item) return undefined;
-
-    if (Date.now() > item.expires) {
-      this.cache.delete(key);
+    const item = this.lookup(key);
+    if (!item) {
+      this.stats.misses++;
       return undefined;
     }
 
@@ -26,37 +39,337 @@ export class LRUCache<T> {
     this.cache.delete(key);
     this.cache.set(key, item);
     
+    this.stats.hits++;
     return item.value;
   }
 
   set(key: string, value: T, ttlMs?: number): void {
     const expires = Date.now() + (ttlMs || this.defaultTTL);
+    this.cache.delete(key);
     
-    // Remove oldest item if at capacity
+    // At capacity, expired entries go first, then the least recently used one
+    if (this.cache.size >= this.maxSize) {
+      this.purgeExpired();
+    }
     if (this.cache.size >= this.maxSize) {
       const firstKey = this.cache.keys().next().value;
-      if (firstKey) {
+      if (firstKey !== undefined) {
         this.cache.delete(firstKey);
+        this.stats.evictions++;
       }
     }
 
     this.cache.set(key, { value, expires });
   }
 
+  // Doesn't count as a hit or miss - callers check before a get()
   has(key: string): boolean {
-    return this.get(key) !== undefined;
+    return this.lookup(key) !== undefined;
+  }
+
+  delete(key: string): boolean {
+    return this.cache.delete(key);
   }
 
   clear(): void {
     this.cache.clear();
   }
+
+  summary() {
+    this.purgeExpired();
+    return {
+      kind: 'lru' as const,
+      backend: 'memory',
+      size: this.cache.size,
+      maxSize: this.maxSize,
+      ttlMs: this.defaultTTL,
+      staleMs: 0,
+      ...this.stats,
+      staleHits: 0,
+      backendErrors: 0
+    };
+  }
+
+  keys(prefix = ''): CacheKeyInfo[] {
+    this.purgeExpired();
+    const now = Date.now();
+    return Array.from(this.cache.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, item]) => keyInfo(key, item.expires, now));
+  }
+
+  async invalidate(prefix: string): Promise<number> {
+    const keys = Array.from(this.cache.keys()).filter(key => key.startsWith(prefix));
+    keys.forEach(key => this.cache.delete(key));
+    return keys.length;
+  }
+
+  private lookup(key: string): CacheItem<T> | undefined {
+    const item = this.cache.get(key);
+    if (!item) return undefined;
+    if (Date.now() > item.expires) {
+      this.cache.delete(key);
+      return undefined;
+    }
+    return item;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    this.cache.forEach((item, key) => {
+      if (now > item.expires) this.cache.delete(key);
+    });
+  }
+}
+
+export interface TieredCacheOptions {
+  ttlMs: number;
+  // How long past the TTL an entry is still served while it's refreshed in
+  // the background; 0 refetches synchronously as soon as the TTL runs out
+  staleMs?: number;
+  // In-process entries kept in front of the backend
+  maxSize?: number;
+  backend?: CacheBackend;
+  now?: () => number;
 }
 
-// Cache instances
-export const suggestionsCache = new LRUCache<any>(500, 60 * 1000); // 60s
-export const dictionariesCache = new LRUCache<any>(10, 24 * 60 * 60 * 1000); // 24h
-export const areasCache = new LRUCache<any>(10, 24 * 60 * 60 * 1000); // 24h
-export const vacancyDetailsCache = new LRUCache<any>(1000, 10 * 60 * 1000); // 10m
+export interface TieredCacheStats {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  evictions: number;
+  backendErrors: number;
+}
+
+// Namespaced cache with an in-process LRU tier in front of an optional shared
+// backend (file, Postgres or Redis), so entries survive restarts and are seen
+// by every instance. Backend failures count as misses and never fail a request.
+export class TieredCache<T> implements InspectableCache {
+  private memory = new Map<string, CacheEntry<T>>();
+  private stats: TieredCacheStats = { hits: 0, staleHits: 0, misses: 0, evictions: 0, backendErrors: 0 };
+  readonly ttlMs: number;
+  readonly staleMs: number;
+  private maxSize: number;
+  private backend?: CacheBackend;
+  private now: () => number;
+
+  constructor(readonly namespace: string, options: TieredCacheOptions) {
+    this.ttlMs = options.ttlMs;
+    this.staleMs = options.staleMs ?? 0;
+    this.maxSize = options.maxSize ?? 1000;
+    this.backend = options.backend;
+    this.now = options.now ?? Date.now;
+  }
+
+  get backendKind(): string {
+    return this.backend?.kind ?? 'memory';
+  }
+
+  // Fresh values only; a stale entry is a miss here
+  async get(key: string): Promise<T | undefined> {
+    const entry = await this.lookup(key);
+    if (entry && this.now() < entry.expiresAt) {
+      this.stats.hits++;
+      return entry.value;
+    }
+    this.stats.misses++;
+    return undefined;
+  }
+
+  async set(key: string, value: T, ttlMs: number = this.ttlMs): Promise<void> {
+    const storedAt = this.now();
+    const entry: CacheEntry<T> = { value, storedAt, expiresAt: storedAt + ttlMs };
+    this.remember(key, entry);
+    if (!this.backend) return;
+    try {
+      await this.backend.set(this.namespace, key, entry, ttlMs + this.staleMs);
+    } catch (error: any) {
+      this.backendError('write', key, error);
+    }
+  }
+
+  // Stale-while-revalidate: a fresh entry is returned as is, a stale one is
+  // returned while load() refreshes it in the background, and a miss waits
+  // for load(). Concurrent loads of one key share a single call.
+  async getOrLoad(key: string, load: () => Promise<T>, ttlMs: number = this.ttlMs): Promise<T> {
+    const entry = await this.lookup(key);
+    if (entry && this.now() < entry.expiresAt) {
+      this.stats.hits++;
+      return entry.value;
+    }
+    if (entry) {
+      this.stats.staleHits++;
+      this.refresh(key, load, ttlMs).catch(error => {
+        console.warn(`🗄️ Background refresh of ${this.namespace}:${key} failed:`, error?.message || error);
+      });
+      return entry.value;
+    }
+    this.stats.misses++;
+    return this.refresh(key, load, ttlMs);
+  }
+
+  // Loads and stores a new value however fresh the current one is
+  reload(key: string, load: () => Promise<T>, ttlMs: number = this.ttlMs): Promise<T> {
+    return this.refresh(key, load, ttlMs);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.memory.delete(key);
+    try {
+      await this.backend?.delete(this.namespace, key);
+    } catch (error: any) {
+      this.backendError('delete', key, error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.invalidate('');
+  }
+
+  getStats(): TieredCacheStats & { size: number } {
+    return { ...this.stats, size: this.memory.size };
+  }
+
+  summary() {
+    return {
+      kind: 'tiered' as const,
+      backend: this.backendKind,
+      size: this.memory.size,
+      maxSize: this.maxSize,
+      ttlMs: this.ttlMs,
+      staleMs: this.staleMs,
+      ...this.stats
+    };
+  }
+
+  // In-process tier only; the backend may hold more
+  keys(prefix = ''): CacheKeyInfo[] {
+    const now = this.now();
+    return Array.from(this.memory.entries())
+      .filter(([key, entry]) => key.startsWith(prefix) && now < entry.expiresAt + this.staleMs)
+      .map(([key, entry]) => keyInfo(key, entry.expiresAt, now));
+  }
+
+  // Drops matching keys from both tiers; the count is the in-process ones
+  async invalidate(prefix: string): Promise<number> {
+    const keys = Array.from(this.memory.keys()).filter(key => key.startsWith(prefix));
+    keys.forEach(key => this.memory.delete(key));
+    try {
+      await this.backend?.clear(this.namespace, prefix);
+    } catch (error: any) {
+      this.backendError('clear', `${prefix}*`, error);
+    }
+    return keys.length;
+  }
+
+  private refresh(key: string, load: () => Promise<T>, ttlMs: number): Promise<T> {
+    return coalesceRequest(`cache:${this.namespace}:${key}`, async () => {
+      const value = await load();
+      await this.set(key, value, ttlMs);
+      return value;
+    });
+  }
+
+  // Fresh or still-servable stale entry, from memory first, then the backend
+  private async lookup(key: string): Promise<CacheEntry<T> | undefined> {
+    const now = this.now();
+    const local = this.memory.get(key);
+    if (local && now < local.expiresAt + this.staleMs) {
+      this.remember(key, local);
+      return local;
+    }
+    this.memory.delete(key);
+    if (!this.backend) return undefined;
+
+    try {
+      const entry = await this.backend.get<T>(this.namespace, key);
+      if (entry && now < entry.expiresAt + this.staleMs) {
+        this.remember(key, entry);
+        return entry;
+      }
+    } catch (error: any) {
+      this.backendError('read', key, error);
+    }
+    return undefined;
+  }
+
+  private remember(key: string, entry: CacheEntry<T>): void {
+    // Re-inserted to move it to the most recently used end
+    this.memory.delete(key);
+    if (this.memory.size >= this.maxSize) {
+      const now = this.now();
+      this.memory.forEach((stored, storedKey) => {
+        if (now >= stored.expiresAt + this.staleMs) this.memory.delete(storedKey);
+      });
+    }
+    if (this.memory.size >= this.maxSize) {
+      const oldest = this.memory.keys().next().value;
+      if (oldest !== undefined) {
+        this.memory.delete(oldest);
+        this.stats.evictions++;
+      }
+    }
+    this.memory.set(key, entry);
+  }
+
+  private backendError(operation: string, key: string, error: any): void {
+    this.stats.backendErrors++;
+    console.warn(`🗄️ Cache ${this.backendKind} ${operation} failed for ${this.namespace}:${key}:`, error?.message || error);
+  }
+}
+
+// CACHE_BACKEND=memory (default) | file (CACHE_DIR) | postgres (DATABASE_URL) | redis (REDIS_URL)
+export const cacheBackend = createCacheBackend({
+  kind: process.env.CACHE_BACKEND,
+  dir: process.env.CACHE_DIR,
+  redisUrl: process.env.REDIS_URL
+});
+
+// Cache instances. The tiered ones are worth sharing and keeping across
+// restarts; the rest hold per-process working data.
+export const suggestionsCache = new TieredCache<any>('suggestions', {
+  ttlMs: 60 * 1000, // 60s, AI + HH suggestions per query
+  maxSize: 500,
+  backend: cacheBackend
+});
+export const dictionariesCache = new TieredCache<any>('dictionaries', {
+  ttlMs: 24 * 60 * 60 * 1000, // 24h
+  staleMs: 7 * 24 * 60 * 60 * 1000,
+  maxSize: 10,
+  backend: cacheBackend
+});
+export const areasCache = new TieredCache<any>('areas', {
+  ttlMs: 24 * 60 * 60 * 1000, // 24h
+  staleMs: 7 * 24 * 60 * 60 * 1000,
+  maxSize: 10,
+  backend: cacheBackend
+});
+export const vacancyDetailsCache = new TieredCache<any>('vacancy-details', {
+  ttlMs: 10 * 60 * 1000, // 10m
+  staleMs: 50 * 60 * 1000,
+  maxSize: 1000,
+  backend: cacheBackend
+});
+export const employerSearchCache = new LRUCache<any[]>(500, 60 * 60 * 1000); // 1h, /employers?text= items
+export const employerVacanciesCache = new LRUCache<any>(500, 10 * 60 * 1000); // 10m, open vacancies per employer
+export const searchRunCache = new LRUCache<any>(100, 5 * 60 * 1000); // 5m, merged tiered results
+export const vacancySkillsCache = new LRUCache<string[]>(5000, 24 * 60 * 60 * 1000); // 24h, key_skills names
+export const vacancyFitTextCache = new LRUCache<string>(5000, 24 * 60 * 60 * 1000); // 24h, description + key skills
+export const embeddingCache = new LRUCache<number[]>(5000, 24 * 60 * 60 * 1000); // 24h, per provider + text
+
+// Names the admin endpoints use; tiered caches share them with their namespace
+export const namedCaches: Record<string, InspectableCache> = {
+  suggestions: suggestionsCache,
+  dictionaries: dictionariesCache,
+  areas: areasCache,
+  'vacancy-details': vacancyDetailsCache,
+  'employer-search': employerSearchCache,
+  'employer-vacancies': employerVacanciesCache,
+  'search-runs': searchRunCache,
+  'vacancy-skills': vacancySkillsCache,
+  'vacancy-fit-text': vacancyFitTextCache,
+  embeddings: embeddingCache
+};
 
 // In-flight request coalescing
 export const inFlightRequests = new Map<string, Promise<any>>();
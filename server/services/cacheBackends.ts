@@ -0,0 +1,262 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { and, eq, gt, like, lte } from "drizzle-orm";
+import { cacheEntries } from "@shared/schema";
+import { RedisClient } from "./redisClient";
+
+// Storage behind TieredCache. A backend keeps entries past their TTL until
+// the retain time it is given, so stale values survive for revalidation;
+// what counts as fresh or stale is decided by the cache, not here.
+
+export interface CacheEntry<T = any> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheBackend {
+  readonly kind: CacheBackendKind;
+  get<T>(namespace: string, key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(namespace: string, key: string, entry: CacheEntry<T>, retainMs: number): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+  // Every key of the namespace starting with keyPrefix
+  clear(namespace: string, keyPrefix?: string): Promise<void>;
+}
+
+export const cacheBackendKinds = ['memory', 'file', 'postgres', 'redis'] as const;
+export type CacheBackendKind = typeof cacheBackendKinds[number];
+
+interface StoredEntry {
+  key: string;
+  entry: CacheEntry;
+  retainUntil: number;
+}
+
+// Mostly for tests: two caches sharing one instance behave like two app
+// instances sharing a persistent store
+export class MemoryCacheBackend implements CacheBackend {
+  readonly kind = 'memory' as const;
+  private entries = new Map<string, StoredEntry>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  async get<T>(namespace: string, key: string): Promise<CacheEntry<T> | undefined> {
+    const id = `${namespace}\u0000${key}`;
+    const stored = this.entries.get(id);
+    if (!stored) return undefined;
+    if (this.now() >= stored.retainUntil) {
+      this.entries.delete(id);
+      return undefined;
+    }
+    return stored.entry;
+  }
+
+  async set<T>(namespace: string, key: string, entry: CacheEntry<T>, retainMs: number): Promise<void> {
+    this.entries.set(`${namespace}\u0000${key}`, { key, entry, retainUntil: this.now() + retainMs });
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.entries.delete(`${namespace}\u0000${key}`);
+  }
+
+  async clear(namespace: string, keyPrefix = ''): Promise<void> {
+    Array.from(this.entries.keys())
+      .filter(id => id.startsWith(`${namespace}\u0000${keyPrefix}`))
+      .forEach(id => this.entries.delete(id));
+  }
+}
+
+// One JSON file per entry under <dir>/<namespace>/, named by key hash
+export class FileCacheBackend implements CacheBackend {
+  readonly kind = 'file' as const;
+
+  constructor(readonly dir: string, private now: () => number = Date.now) {}
+
+  private filePath(namespace: string, key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex').slice(0, 32);
+    return path.join(this.dir, namespace, `${hash}.json`);
+  }
+
+  async get<T>(namespace: string, key: string): Promise<CacheEntry<T> | undefined> {
+    const file = this.filePath(namespace, key);
+    let stored: StoredEntry;
+    try {
+      stored = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+    if (stored.key !== key) return undefined;
+    if (this.now() >= stored.retainUntil) {
+      await fs.rm(file, { force: true });
+      return undefined;
+    }
+    return stored.entry;
+  }
+
+  async set<T>(namespace: string, key: string, entry: CacheEntry<T>, retainMs: number): Promise<void> {
+    const file = this.filePath(namespace, key);
+    const stored: StoredEntry = { key, entry, retainUntil: this.now() + retainMs };
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Written aside and renamed so a concurrent reader never sees half a file
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(stored));
+    await fs.rename(tmp, file);
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await fs.rm(this.filePath(namespace, key), { force: true });
+  }
+
+  async clear(namespace: string, keyPrefix = ''): Promise<void> {
+    const namespaceDir = path.join(this.dir, namespace);
+    if (!keyPrefix) {
+      await fs.rm(namespaceDir, { recursive: true, force: true });
+      return;
+    }
+
+    // File names are hashes, so each file is read for its key
+    let files: string[];
+    try {
+      files = await fs.readdir(namespaceDir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    for (const name of files.filter(file => file.endsWith('.json'))) {
+      const file = path.join(namespaceDir, name);
+      try {
+        const stored: StoredEntry = JSON.parse(await fs.readFile(file, 'utf8'));
+        if (stored.key.startsWith(keyPrefix)) await fs.rm(file, { force: true });
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+  }
+}
+
+type Database = typeof import("../db")["db"];
+
+// Rows past their retain time are deleted every this many writes
+const POSTGRES_PRUNE_INTERVAL = 500;
+
+// Rows in cache_entries; shares DATABASE_URL with DbStorage
+export class PostgresCacheBackend implements CacheBackend {
+  readonly kind = 'postgres' as const;
+  private dbPromise: Promise<Database> | null = null;
+  private writesSincePrune = 0;
+
+  constructor(private now: () => number = Date.now) {}
+
+  // db.ts throws without DATABASE_URL, so it's only loaded on first use
+  private getDb(): Promise<Database> {
+    if (!this.dbPromise) this.dbPromise = import("../db").then(module => module.db);
+    return this.dbPromise;
+  }
+
+  async get<T>(namespace: string, key: string): Promise<CacheEntry<T> | undefined> {
+    const db = await this.getDb();
+    const [row] = await db.select()
+      .from(cacheEntries)
+      .where(and(
+        eq(cacheEntries.namespace, namespace),
+        eq(cacheEntries.key, key),
+        gt(cacheEntries.retainUntil, new Date(this.now()))
+      ));
+    if (!row) return undefined;
+    return { value: row.value as T, storedAt: row.storedAt.getTime(), expiresAt: row.expiresAt.getTime() };
+  }
+
+  async set<T>(namespace: string, key: string, entry: CacheEntry<T>, retainMs: number): Promise<void> {
+    const db = await this.getDb();
+    const row = {
+      value: entry.value,
+      storedAt: new Date(entry.storedAt),
+      expiresAt: new Date(entry.expiresAt),
+      retainUntil: new Date(this.now() + retainMs)
+    };
+    await db.insert(cacheEntries)
+      .values({ namespace, key, ...row })
+      .onConflictDoUpdate({ target: [cacheEntries.namespace, cacheEntries.key], set: row });
+
+    if (++this.writesSincePrune >= POSTGRES_PRUNE_INTERVAL) {
+      this.writesSincePrune = 0;
+      await db.delete(cacheEntries).where(lte(cacheEntries.retainUntil, new Date(this.now())));
+    }
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(cacheEntries).where(and(eq(cacheEntries.namespace, namespace), eq(cacheEntries.key, key)));
+  }
+
+  async clear(namespace: string, keyPrefix = ''): Promise<void> {
+    const db = await this.getDb();
+    const pattern = `${keyPrefix.replace(/[\\%_]/g, '\\$&')}%`;
+    await db.delete(cacheEntries).where(and(eq(cacheEntries.namespace, namespace), like(cacheEntries.key, pattern)));
+  }
+}
+
+// Entries as JSON strings under <prefix><namespace>:<key>, expired by Redis
+// itself through PX
+export class RedisCacheBackend implements CacheBackend {
+  readonly kind = 'redis' as const;
+
+  constructor(private client: RedisClient, private prefix = 'hh-finder:cache:') {}
+
+  private redisKey(namespace: string, key: string): string {
+    return `${this.prefix}${namespace}:${key}`;
+  }
+
+  async get<T>(namespace: string, key: string): Promise<CacheEntry<T> | undefined> {
+    const raw = await this.client.command('GET', this.redisKey(namespace, key));
+    return typeof raw === 'string' ? JSON.parse(raw) : undefined;
+  }
+
+  async set<T>(namespace: string, key: string, entry: CacheEntry<T>, retainMs: number): Promise<void> {
+    await this.client.command(
+      'SET',
+      this.redisKey(namespace, key),
+      JSON.stringify(entry),
+      'PX',
+      String(Math.max(1, Math.round(retainMs)))
+    );
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await this.client.command('DEL', this.redisKey(namespace, key));
+  }
+
+  async clear(namespace: string, keyPrefix = ''): Promise<void> {
+    const pattern = `${`${this.prefix}${namespace}:${keyPrefix}`.replace(/([\[\]?*\\])/g, '\\$1')}*`;
+    let cursor = '0';
+    do {
+      const reply = await this.client.command('SCAN', cursor, 'MATCH', pattern, 'COUNT', '500') as [string, string[]];
+      cursor = reply[0];
+      if (reply[1].length > 0) await this.client.command('DEL', ...reply[1]);
+    } while (cursor !== '0');
+  }
+}
+
+export interface CacheBackendConfig {
+  kind?: string;
+  dir?: string;
+  redisUrl?: string;
+}
+
+// No backend for 'memory': TieredCache's own in-process tier is the cache
+export function createCacheBackend(config: CacheBackendConfig): CacheBackend | undefined {
+  switch (config.kind || 'memory') {
+    case 'memory':
+      return undefined;
+    case 'file':
+      return new FileCacheBackend(config.dir || path.resolve('.cache'));
+    case 'postgres':
+      return new PostgresCacheBackend();
+    case 'redis':
+      return new RedisCacheBackend(new RedisClient(config.redisUrl || 'redis://127.0.0.1:6379'));
+    default:
+      throw new Error(`Unknown CACHE_BACKEND "${config.kind}", expected one of ${cacheBackendKinds.join(', ')}`);
+  }
+}
@@ -0,0 +1,129 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Record/replay of upstream traffic (HH.ru and Gemini). In record mode every
+// successful exchange is written to <dir>/<kind>/<hash>.json; in replay mode
+// requests are answered only from those files, so a user-reported search or
+// keyword suggestion can be reproduced offline.
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+export type CassetteKind = 'hh' | 'ai';
+
+export interface CassetteEntry<T = any> {
+  kind: CassetteKind;
+  key: string;
+  request: any;
+  response: T;
+  recordedAt: string;
+}
+
+export interface CassetteOptions {
+  mode?: CassetteMode;
+  dir?: string;
+  // Extra literal values to redact, on top of the known API key env vars
+  secrets?: string[];
+}
+
+const SECRET_ENV_VARS = ['GEMINI_API_KEY', 'HH_ACCESS_TOKEN', 'HH_CLIENT_SECRET'];
+const SECRET_QUERY_PARAMS = ['key', 'api_key', 'apikey', 'access_token', 'token', 'client_secret'];
+// Google API keys and bearer tokens, in case one shows up under another name
+const SECRET_PATTERNS = [/AIza[0-9A-Za-z_-]{35}/g, /Bearer\s+[0-9A-Za-z._~+/-]+=*/g];
+const REDACTED = '[REDACTED]';
+
+export class CassetteMissError extends Error {
+  constructor(public kind: CassetteKind, public request: any) {
+    super(`No ${kind} cassette recorded for ${JSON.stringify(request)}`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+// Origin-independent and order-independent, so a cassette recorded against
+// api.hh.ru replays against any base URL and query params may come in any order
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !SECRET_QUERY_PARAMS.includes(name.toLowerCase()))
+    .sort(([nameA, valueA], [nameB, valueB]) => nameA.localeCompare(nameB) || valueA.localeCompare(valueB));
+  const query = params.map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`).join('&');
+  return query ? `${parsed.pathname}?${query}` : parsed.pathname;
+}
+
+export function cassetteKey(request: any): string {
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 16);
+}
+
+export function scrubSecrets<T>(value: T, secrets: string[] = []): T {
+  const literals = [
+    ...SECRET_ENV_VARS.map(name => process.env[name]),
+    ...secrets
+  ].filter((secret): secret is string => !!secret && secret.length >= 8);
+
+  let json = JSON.stringify(value);
+  for (const secret of literals) {
+    json = json.split(secret).join(REDACTED);
+  }
+  for (const pattern of SECRET_PATTERNS) {
+    json = json.replace(pattern, REDACTED);
+  }
+  return JSON.parse(json);
+}
+
+export class CassetteStore {
+  readonly mode: CassetteMode;
+  readonly dir: string;
+  private secrets: string[];
+
+  constructor(options: CassetteOptions = {}) {
+    this.mode = options.mode || 'off';
+    this.dir = options.dir || path.resolve('cassettes');
+    this.secrets = options.secrets || [];
+  }
+
+  get isRecording(): boolean {
+    return this.mode === 'record';
+  }
+
+  get isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  private filePath(kind: CassetteKind, key: string): string {
+    return path.join(this.dir, kind, `${key}.json`);
+  }
+
+  async load<T>(kind: CassetteKind, request: any): Promise<T> {
+    const key = cassetteKey(request);
+    try {
+      const entry: CassetteEntry<T> = JSON.parse(await fs.readFile(this.filePath(kind, key), 'utf8'));
+      return entry.response;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') throw new CassetteMissError(kind, request);
+      throw error;
+    }
+  }
+
+  async save(kind: CassetteKind, request: any, response: any): Promise<void> {
+    const key = cassetteKey(request);
+    const entry: CassetteEntry = scrubSecrets({
+      kind,
+      key,
+      request,
+      response,
+      recordedAt: new Date().toISOString()
+    }, this.secrets);
+
+    await fs.mkdir(path.join(this.dir, kind), { recursive: true });
+    await fs.writeFile(this.filePath(kind, key), JSON.stringify(entry, null, 2) + '\n');
+  }
+}
+
+function modeFromEnv(): CassetteMode {
+  const mode = process.env.CASSETTE_MODE;
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export const cassette = new CassetteStore({
+  mode: modeFromEnv(),
+  dir: process.env.CASSETTE_DIR
+});
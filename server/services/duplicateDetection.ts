@@ -0,0 +1,104 @@
+import type { AppliedVacancy, DuplicateVacancy, RepostMatch, ScoredVacancy } from "@shared/schema";
+import { snippetText, stemWord, tokenize } from "./exclusionFilter";
+
+// Near-duplicate vacancies: the same employer posting one job in several
+// cities, or reposting it under a new ID. Candidates share the employer and
+// normalized title; their descriptions then have to overlap enough.
+
+// Jaccard similarity of the stemmed description words above which two
+// same-titled vacancies of one employer count as the same job
+export const DUPLICATE_SIMILARITY = 0.8;
+
+export type PreviousApplication = Pick<AppliedVacancy, 'vacancyId' | 'vacancyTitle' | 'companyName' | 'status' | 'appliedAt'>;
+
+export function normalizeTitle(title: string): string {
+  return tokenize(title || '').join(' ');
+}
+
+function normalizeEmployerName(name: string | undefined): string {
+  return tokenize(name || '').join(' ');
+}
+
+function employerKey(vacancy: { employer?: { id?: string; name?: string } }): string {
+  return vacancy.employer?.id ? `id:${vacancy.employer.id}` : `name:${normalizeEmployerName(vacancy.employer?.name)}`;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(tokenize(text).map(stemWord));
+}
+
+export function textSimilarity(a: string, b: string): number {
+  const wordsA = wordSet(a);
+  const wordsB = wordSet(b);
+  // Nothing to compare - title and employer already matched
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  wordsA.forEach(word => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+function toDuplicate(vacancy: ScoredVacancy): DuplicateVacancy {
+  return {
+    id: vacancy.id,
+    name: vacancy.name,
+    areaName: vacancy.area?.name ?? null,
+    alternate_url: vacancy.alternate_url,
+    published_at: vacancy.published_at
+  };
+}
+
+// Folds near-duplicates into the highest-ranked vacancy of each group, keeping
+// the order of the rest. Full descriptions are compared when both are cached,
+// snippets otherwise.
+export function collapseDuplicates(
+  items: ScoredVacancy[],
+  getVacancyText?: (vacancyId: string) => string | undefined
+): { items: ScoredVacancy[]; duplicateCount: number } {
+  const groups = new Map<string, ScoredVacancy[]>();
+  const kept: ScoredVacancy[] = [];
+  let duplicateCount = 0;
+
+  const descriptionsMatch = (a: ScoredVacancy, b: ScoredVacancy) => {
+    const fullA = getVacancyText?.(a.id);
+    const fullB = getVacancyText?.(b.id);
+    const similarity = fullA && fullB
+      ? textSimilarity(fullA, fullB)
+      : textSimilarity(snippetText(a), snippetText(b));
+    return similarity >= DUPLICATE_SIMILARITY;
+  };
+
+  for (const item of items) {
+    const key = `${employerKey(item)}|${normalizeTitle(item.name)}`;
+    const candidates = groups.get(key) || [];
+    const primary = candidates.find(candidate => descriptionsMatch(candidate, item));
+    if (primary) {
+      primary.duplicates.push(toDuplicate(item));
+      duplicateCount++;
+      continue;
+    }
+    const copy = { ...item, duplicates: [...item.duplicates] };
+    groups.set(key, [...candidates, copy]);
+    kept.push(copy);
+  }
+
+  return { items: kept, duplicateCount };
+}
+
+// Earlier application to the same title at the same company under another
+// vacancy ID - the job came back as a repost
+export function findRepost(vacancy: ScoredVacancy, applications: PreviousApplication[]): RepostMatch | null {
+  const title = normalizeTitle(vacancy.name);
+  const employer = normalizeEmployerName(vacancy.employer?.name);
+  const ids = new Set([vacancy.id, ...vacancy.duplicates.map(duplicate => duplicate.id)]);
+
+  const match = applications.find(application =>
+    !ids.has(application.vacancyId) &&
+    normalizeTitle(application.vacancyTitle) === title &&
+    normalizeEmployerName(application.companyName) === employer
+  );
+  return match
+    ? { vacancyId: match.vacancyId, status: match.status, appliedAt: match.appliedAt.toISOString() }
+    : null;
+}
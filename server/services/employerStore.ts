@@ -0,0 +1,94 @@
+import type { HHEmployer } from "@shared/schema";
+import { hhClient, type HHClient } from "./hhClient";
+import { coalesceRequest } from "./cache";
+import { sanitizeHTML } from "./sanitize";
+
+// Employer records change rarely (description, industries, open vacancy count),
+// so one HH request per employer per day is plenty
+export const EMPLOYER_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type EmployerClient = Pick<HHClient, 'getEmployer'>;
+
+export interface EmployerStoreOptions {
+  ttlMs?: number;
+  maxSize?: number;
+  now?: () => number;
+}
+
+interface StoredEmployer {
+  employer: HHEmployer;
+  fetchedAt: number;
+}
+
+export function toEmployerRecord(data: any, fetchedAt: number): HHEmployer {
+  return {
+    id: String(data.id),
+    name: data.name,
+    type: data.type ?? null,
+    trusted: !!data.trusted,
+    site_url: data.site_url || null,
+    alternate_url: data.alternate_url || null,
+    descriptionHtmlSanitized: sanitizeHTML(data.description || ''),
+    area: data.area ? { id: String(data.area.id), name: data.area.name } : null,
+    industries: (data.industries || []).map((industry: any) => ({ id: String(industry.id), name: industry.name })),
+    logo_urls: data.logo_urls ?? null,
+    open_vacancies: data.open_vacancies ?? null,
+    fetchedAt: new Date(fetchedAt).toISOString()
+  };
+}
+
+// Full HH employer records by ID. Expired records are refetched on the next
+// read; when HH can't be reached the stale record is served instead of failing.
+export class EmployerStore {
+  private records = new Map<string, StoredEmployer>();
+  private ttlMs: number;
+  private maxSize: number;
+  private now: () => number;
+
+  constructor(private client: EmployerClient, options: EmployerStoreOptions = {}) {
+    this.ttlMs = options.ttlMs ?? EMPLOYER_TTL_MS;
+    this.maxSize = options.maxSize ?? 5000;
+    this.now = options.now ?? Date.now;
+  }
+
+  // Cached record regardless of age, without touching HH
+  peek(employerId: string): HHEmployer | undefined {
+    return this.records.get(employerId)?.employer;
+  }
+
+  async get(employerId: string): Promise<HHEmployer> {
+    const stored = this.records.get(employerId);
+    if (stored && this.now() - stored.fetchedAt < this.ttlMs) {
+      return stored.employer;
+    }
+
+    try {
+      return await coalesceRequest(`employer:${employerId}`, () => this.refresh(employerId));
+    } catch (error: any) {
+      if (!stored) throw error;
+      console.warn(`🏢 Serving stale employer ${employerId}:`, error?.message || error);
+      return stored.employer;
+    }
+  }
+
+  private async refresh(employerId: string): Promise<HHEmployer> {
+    const { data } = await this.client.getEmployer(employerId);
+    const fetchedAt = this.now();
+    const employer = toEmployerRecord(data, fetchedAt);
+
+    // Re-inserted so the Map's order stays oldest-fetched first for eviction
+    this.records.delete(employerId);
+    if (this.records.size >= this.maxSize) {
+      const oldest = this.records.keys().next().value;
+      if (oldest) this.records.delete(oldest);
+    }
+    this.records.set(employerId, { employer, fetchedAt });
+    return employer;
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
+
+export const employerStore = new EmployerStore(hhClient);
@@ -0,0 +1,180 @@
+import type { ExcludedVacancy, ExclusionField } from "@shared/schema";
+
+// Exclude-word matching for search results. Words match any inflection
+// (Russian via the Snowball stemmer, English plurals), `стаж*` matches any word
+// starting with the stem, and multi-word entries match as a phrase. Every
+// match names the exclusion word and field so the filter can be audited.
+
+export interface ExclusionRule {
+  // As the user typed it, for the audit trail
+  word: string;
+  kind: 'word' | 'stem' | 'phrase';
+  // Stems for word/phrase rules, the literal prefix for stem rules
+  stems: string[];
+}
+
+export type ExclusionTexts = Partial<Record<ExclusionField, string>>;
+
+// Full descriptions are fetched for the top of the ranking only, since every
+// uncached vacancy costs an HH request
+export const FULL_TEXT_EXCLUSION_LIMIT = 100;
+
+const VOWELS = 'аеиоуыэюя';
+
+// [ending, needs a preceding а/я]
+type Ending = [string, boolean];
+
+const group = (endings: string, needsAY = false): Ending[] =>
+  endings.split(' ').map(ending => [ending, needsAY] as Ending);
+
+const byLength = (endings: Ending[]) => endings.sort((a, b) => b[0].length - a[0].length);
+
+const PERFECTIVE_GERUND = byLength([...group('в вши вшись', true), ...group('ив ивши ившись ыв ывши ывшись')]);
+const ADJECTIVE = byLength(group('ее ие ые ое ими ыми ей ий ый ой ем им ым ом его ого ему ому их ых ую юю ая яя ою ею'));
+const PARTICIPLE = byLength([...group('ем нн вш ющ щ', true), ...group('ивш ывш ующ')]);
+const REFLEXIVE = byLength(group('ся сь'));
+const VERB = byLength([
+  ...group('ла на ете йте ли й л ем н ло но ет ют ны ть ешь нно', true),
+  ...group('ила ыла ена ейте уйте ите или ыли ей уй ил ыл им ым ен ило ыло ено ят ует уют ит ыт ены ить ыть ишь ую ю')
+]);
+const NOUN = byLength(group('а ев ов ие ье е иями ями ами еи ии и ией ей ой ий й иям ям ием ем ам ом о у ах иях ях ы ь ию ью ю ия ья я'));
+const SUPERLATIVE = byLength(group('ейш ейше'));
+const DERIVATIONAL = byLength(group('ост ость'));
+
+// Longest ending inside the region; null when none matches or its а/я condition fails
+function removeEnding(word: string, regionStart: number, endings: Ending[]): string | null {
+  for (const [ending, needsAY] of endings) {
+    const start = word.length - ending.length;
+    if (start < regionStart || !word.endsWith(ending)) continue;
+    if (needsAY && (start - 1 < regionStart || !'ая'.includes(word[start - 1]))) return null;
+    return word.slice(0, start);
+  }
+  return null;
+}
+
+function regionAfterVowelConsonant(word: string, from: number): number {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!VOWELS.includes(word[i]) && VOWELS.includes(word[i - 1])) return i + 1;
+  }
+  return word.length;
+}
+
+// Snowball Russian stemmer (snowballstem.org/algorithms/russian/stemmer.html)
+export function stemRussian(input: string): string {
+  let word = input.toLowerCase().replace(/ё/g, 'е');
+  const firstVowel = word.split('').findIndex(char => VOWELS.includes(char));
+  if (firstVowel === -1) return word;
+  const rv = firstVowel + 1;
+  const r2 = regionAfterVowelConsonant(word, regionAfterVowelConsonant(word, 0));
+
+  const gerund = removeEnding(word, rv, PERFECTIVE_GERUND);
+  if (gerund !== null) {
+    word = gerund;
+  } else {
+    word = removeEnding(word, rv, REFLEXIVE) ?? word;
+    const adjective = removeEnding(word, rv, ADJECTIVE);
+    word = adjective !== null
+      ? removeEnding(adjective, rv, PARTICIPLE) ?? adjective
+      : removeEnding(word, rv, VERB) ?? removeEnding(word, rv, NOUN) ?? word;
+  }
+
+  if (word.endsWith('и') && word.length - 1 >= rv) word = word.slice(0, -1);
+  word = removeEnding(word, r2, DERIVATIONAL) ?? word;
+
+  if (word.endsWith('нн') && word.length - 2 >= rv) {
+    word = word.slice(0, -1);
+  } else {
+    const superlative = removeEnding(word, rv, SUPERLATIVE);
+    if (superlative !== null) {
+      word = superlative.endsWith('нн') ? superlative.slice(0, -1) : superlative;
+    } else if (word.endsWith('ь') && word.length - 1 >= rv) {
+      word = word.slice(0, -1);
+    }
+  }
+  return word;
+}
+
+// English: plurals only, so "senior" stays "senior" and "leads" matches "lead"
+function stemEnglish(word: string): string {
+  if (word.length <= 3 || /(?:ss|us|is)$/.test(word)) return word;
+  if (/(?:[sxz]|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  return word.endsWith('s') ? word.slice(0, -1) : word;
+}
+
+export function stemWord(word: string): string {
+  const lower = word.toLowerCase().replace(/ё/g, 'е');
+  return /[а-я]/.test(lower) ? stemRussian(lower) : stemEnglish(lower);
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/ё/g, 'е').match(/[a-zа-я0-9+#]+/g) || [];
+}
+
+export function compileExclusions(words: string[]): ExclusionRule[] {
+  return words
+    .map(word => word.trim())
+    .filter(Boolean)
+    .map(word => {
+      if (/^[^\s*]+\*$/.test(word)) {
+        return { word, kind: 'stem' as const, stems: [word.slice(0, -1).toLowerCase().replace(/ё/g, 'е')] };
+      }
+      const stems = tokenize(word).map(stemWord);
+      return { word, kind: stems.length > 1 ? 'phrase' as const : 'word' as const, stems };
+    })
+    .filter(rule => rule.stems.length > 0 && rule.stems.every(Boolean));
+}
+
+function matchesRule(tokens: string[], stemmed: string[], rule: ExclusionRule): boolean {
+  if (rule.kind === 'stem') return tokens.some(token => token.startsWith(rule.stems[0]));
+  const { stems } = rule;
+  for (let i = 0; i + stems.length <= stemmed.length; i++) {
+    if (stems.every((stem, offset) => stemmed[i + offset] === stem)) return true;
+  }
+  return false;
+}
+
+// First rule, in the order the user listed them, matching any of the texts
+export function findExclusion(texts: ExclusionTexts, rules: ExclusionRule[]): { word: string; field: ExclusionField } | null {
+  if (rules.length === 0) return null;
+  const fields = (Object.keys(texts) as ExclusionField[]).filter(field => texts[field]);
+  const tokenized = fields.map(field => {
+    const tokens = tokenize(texts[field]!);
+    return { field, tokens, stemmed: tokens.map(stemWord) };
+  });
+
+  for (const rule of rules) {
+    const hit = tokenized.find(({ tokens, stemmed }) => matchesRule(tokens, stemmed, rule));
+    if (hit) return { word: rule.word, field: hit.field };
+  }
+  return null;
+}
+
+// Requirement and responsibility as plain text; snippets wrap query matches
+// in <highlighttext>
+export function snippetText(vacancy: any): string {
+  return [vacancy.snippet?.requirement, vacancy.snippet?.responsibility].filter(Boolean).join(' ').replace(/<[^>]+>/g, ' ');
+}
+
+// Search list items only carry the title and snippet; skills and the full
+// description come from vacancy details when they've been fetched
+export function vacancyExclusionTexts(vacancy: any, skills?: string[], fullText?: string): ExclusionTexts {
+  const keySkills = skills ?? vacancy.key_skills?.map((skill: any) => skill.name);
+  return {
+    title: vacancy.name || '',
+    snippet: snippetText(vacancy),
+    skills: keySkills?.join(', ') || '',
+    description: fullText || ''
+  };
+}
+
+export function toExcludedVacancy(vacancy: any, tier: ExcludedVacancy['tier'], match: { word: string; field: ExclusionField }): ExcludedVacancy {
+  return {
+    id: String(vacancy.id),
+    name: vacancy.name,
+    employerName: vacancy.employer?.name ?? null,
+    tier,
+    word: match.word,
+    field: match.field
+  };
+}
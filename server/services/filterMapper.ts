@@ -0,0 +1,239 @@
+import type { AIFilterMapping, FilterMatchRequest } from "@shared/schema";
+import { keywordsQuery, parseQuery, toSearchText } from "@shared/hhQuery";
+
+// Wizard answers → HH.ru search params without the LLM. Dictionary-backed
+// fields resolve by ID or fuzzy name, employer names against HH's employer
+// search results; only free text that can't be resolved (unknown places,
+// metro stations) is left for the AI.
+
+export type UnresolvedFilterField = 'locationText' | 'metroStation';
+
+export interface DeterministicFilterMapping {
+  params: AIFilterMapping;
+  unresolved: Partial<Record<UnresolvedFilterField, string>>;
+}
+
+interface DictionaryItem {
+  id: string;
+  name: string;
+}
+
+interface AreaNode extends DictionaryItem {
+  areas?: AreaNode[];
+}
+
+// Latin spellings and colloquial names users type for the largest HH.ru areas
+const AREA_ALIASES: Record<string, string> = {
+  'moscow': 'москва',
+  'msk': 'москва',
+  'мск': 'москва',
+  'saint petersburg': 'санкт-петербург',
+  'st petersburg': 'санкт-петербург',
+  'st. petersburg': 'санкт-петербург',
+  'spb': 'санкт-петербург',
+  'спб': 'санкт-петербург',
+  'питер': 'санкт-петербург',
+  'петербург': 'санкт-петербург',
+  'novosibirsk': 'новосибирск',
+  'yekaterinburg': 'екатеринбург',
+  'ekaterinburg': 'екатеринбург',
+  'екб': 'екатеринбург',
+  'kazan': 'казань',
+  'nizhny novgorod': 'нижний новгород',
+  'нижний': 'нижний новгород',
+  'krasnodar': 'краснодар',
+  'samara': 'самара',
+  'russia': 'россия',
+  'рф': 'россия',
+  'minsk': 'минск',
+  'almaty': 'алматы',
+  'astana': 'астана'
+};
+
+const DEFAULT_PERIOD_DAYS = 7;
+const DEFAULT_ORDER = 'relevance';
+
+export function normalizeName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/^(?:г\.|город|city of)\s*/, '')
+    .replace(/[()«»"',]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// Exact ID, then exact name, then a name containing the value (or vice
+// versa), then a close spelling - first hit in dictionary order wins
+export function resolveDictionaryId(value: string | undefined, items: DictionaryItem[] | undefined): string | undefined {
+  if (!value || !items?.length) return undefined;
+  const byId = items.find(item => item.id === value);
+  if (byId) return byId.id;
+
+  const wanted = normalizeName(value);
+  if (!wanted) return undefined;
+  const named = items.map(item => ({ id: item.id, name: normalizeName(item.name) }));
+
+  const exact = named.find(item => item.name === wanted);
+  if (exact) return exact.id;
+  if (wanted.length >= 3) {
+    const partial = named.find(item => item.name.includes(wanted) || wanted.includes(item.name));
+    if (partial) return partial.id;
+  }
+
+  let best: { id: string; distance: number } | undefined;
+  for (const item of named) {
+    const distance = editDistance(wanted, item.name);
+    if (distance <= Math.floor(Math.max(wanted.length, item.name.length) / 4) && (!best || distance < best.distance)) {
+      best = { id: item.id, distance };
+    }
+  }
+  return best?.id;
+}
+
+function flattenAreas(areas: AreaNode[]): DictionaryItem[] {
+  const flat: DictionaryItem[] = [];
+  // Breadth-first, so a region or big city wins over a same-named village deeper down
+  let level = areas;
+  while (level.length > 0) {
+    flat.push(...level.map(({ id, name }) => ({ id, name })));
+    level = level.flatMap(area => area.areas || []);
+  }
+  return flat;
+}
+
+export function resolveArea(locationText: string | undefined, areas: AreaNode[]): string | undefined {
+  if (!locationText?.trim()) return undefined;
+  const wanted = normalizeName(locationText);
+  return resolveDictionaryId(AREA_ALIASES[wanted] ?? locationText.trim(), flattenAreas(areas));
+}
+
+// Legal-form prefixes/suffixes HH keeps in some employer names but users don't type
+const LEGAL_FORMS = /(?:^|\s)(?:ооо|оао|зао|пао|ао|ип|llc|ltd|inc|gmbh)(?=\s|$)/g;
+
+// Company filter → HH employer ID: numeric input is taken as an ID, a name is
+// matched against HH's /employers?text= results (exact name first, then partial)
+export function resolveEmployer(employerName: string | undefined, employers: DictionaryItem[] = []): string | undefined {
+  const wanted = employerName?.trim();
+  if (!wanted) return undefined;
+  if (/^\d+$/.test(wanted)) return wanted;
+
+  const strip = (name: string) => normalizeName(name).replace(LEGAL_FORMS, ' ').replace(/\s+/g, ' ').trim();
+  return resolveDictionaryId(strip(wanted), employers.map(employer => ({ id: String(employer.id), name: strip(employer.name) })));
+}
+
+// Keywords and the phrase/AND/exclusion toggles, or the query hand-edited in
+// Step 3; throws HHQueryError when the latter doesn't validate
+export function buildSearchText(
+  keywords: string[],
+  options: Pick<FilterMatchRequest, 'useExactPhrases' | 'useAndAcrossPhrases' | 'excludeWords' | 'customQuery'> = {}
+): string {
+  if (options.customQuery?.trim()) {
+    return toSearchText(parseQuery(options.customQuery));
+  }
+  // No keywords searches everything, as HH does for an empty text
+  if (!keywords.some(keyword => keyword.replace(/"/g, '').trim())) return '';
+  return toSearchText(keywordsQuery(keywords, options));
+}
+
+function resolveAll(values: string[] | undefined, items: DictionaryItem[] | undefined): string[] {
+  const ids = (values || [])
+    .map(value => resolveDictionaryId(value, items))
+    .filter((id): id is string => !!id);
+  return Array.from(new Set(ids));
+}
+
+export function mapFiltersDeterministically(
+  answers: FilterMatchRequest,
+  dictionaries: any,
+  areas: AreaNode[] = [],
+  employers: DictionaryItem[] = []
+): DeterministicFilterMapping {
+  const params: AIFilterMapping = {
+    text: buildSearchText(answers.selectedKeywords || [], answers),
+    period: answers.period || DEFAULT_PERIOD_DAYS,
+    order_by: resolveDictionaryId(answers.orderBy, dictionaries?.vacancy_search_order) || DEFAULT_ORDER
+  };
+  const unresolved: DeterministicFilterMapping['unresolved'] = {};
+
+  const searchFields = answers.titleFirstSearch
+    ? ['name']
+    : resolveAll(answers.searchFields, dictionaries?.vacancy_search_fields);
+  if (searchFields.length > 0) params.search_field = searchFields;
+
+  if (answers.enableLocationFilter) {
+    const area = resolveArea(answers.locationText, areas);
+    if (area) {
+      params.area = area;
+    } else if (answers.locationText?.trim()) {
+      unresolved.locationText = answers.locationText.trim();
+    }
+    if (answers.remoteHybrid?.remoteOnly) {
+      params.schedule = ['remote'];
+    }
+  }
+
+  if (answers.enableExperienceFilter) {
+    const experience = resolveDictionaryId(answers.experienceText, dictionaries?.experience);
+    if (experience) params.experience = experience;
+  }
+
+  if (answers.enableEmploymentFilter) {
+    const employment = resolveAll(answers.employmentTypes, dictionaries?.employment);
+    if (employment.length > 0) params.employment = employment;
+  }
+
+  if (answers.enableScheduleFilter) {
+    const schedule = resolveAll([...(params.schedule || []), ...(answers.scheduleTypes || [])], dictionaries?.schedule);
+    if (schedule.length > 0) params.schedule = schedule;
+  }
+
+  if (answers.enableSalaryFilter && answers.incomeNumber) {
+    params.salary = answers.incomeNumber;
+    params.currency = resolveDictionaryId(answers.currency, (dictionaries?.currency || [])
+      .map((item: any) => ({ id: item.code ?? item.id, name: item.name }))) || 'RUR';
+    params.only_with_salary = !!answers.onlyWithSalary;
+  }
+
+  if (answers.enableMetroFilter && answers.metroStation?.trim()) {
+    if (/^\d+(\.\d+)?$/.test(answers.metroStation.trim())) {
+      params.metro = answers.metroStation.trim();
+    } else {
+      unresolved.metroStation = answers.metroStation.trim();
+    }
+  }
+
+  if (answers.enableLabelFilter) {
+    const labels = resolveAll(answers.vacancyLabels, dictionaries?.vacancy_label);
+    if (labels.length > 0) params.label = labels;
+  }
+
+  const employerId = resolveEmployer(answers.employerName, employers);
+  if (employerId) params.employer_id = employerId;
+
+  if (answers.enableEducationFilter) {
+    const education = resolveDictionaryId(answers.educationLevel, dictionaries?.education_level);
+    if (education) params.education_level = education;
+  }
+
+  if (answers.enableWorkFormatFilter) {
+    const workFormats = resolveAll(answers.workFormats, dictionaries?.working_time_modes);
+    if (workFormats.length > 0) params.working_time_modes = workFormats;
+  }
+
+  return { params, unresolved };
+}
@@ -0,0 +1,205 @@
+import { GoogleGenerativeAI, type GenerativeModel } from '@google/generative-ai';
+import type { ScoredVacancy } from "@shared/schema";
+import { embeddingCache } from "./cache";
+import { compareScoredVacancies, type TieredSearchResult } from "./tieredSearch";
+import { aiRequestQueue, AIRequestCancelledError, type AIRequestContext, type AIRequestQueue } from "./aiQueue";
+import { aiUsageTracker, AIQuotaExceededError, type AIUsageTracker } from "./aiUsage";
+
+// Only the head of the relevance-ranked list is re-ranked by resume fit
+export const FIT_RERANK_LIMIT = 200;
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  embed(texts: string[], context?: AIRequestContext): Promise<number[][]>;
+}
+
+export interface FitRerankOptions {
+  limit?: number;
+  // Full description + key skills text for vacancies whose details were fetched
+  getVacancyText?: (vacancyId: string) => string | undefined;
+  // User and abort signal for hosted providers
+  context?: AIRequestContext;
+}
+
+export interface GeminiEmbeddingOptions {
+  model?: string;
+  // Batches take their turn in the shared AI queue by default
+  queue?: AIRequestQueue;
+  // Records each batch and enforces the user's quota; off when unset
+  usage?: AIUsageTracker;
+}
+
+const MIN_TOKEN_LENGTH = 2;
+const STEM_LENGTH = 6;
+
+// Lowercased words; long words are cut to a fixed prefix so Russian inflections
+// ("разработчик", "разработчика") land on the same term
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-zа-яё0-9+#]+/g) || [])
+    .filter(token => token.length >= MIN_TOKEN_LENGTH)
+    .map(token => token.length > STEM_LENGTH ? token.slice(0, STEM_LENGTH) : token);
+}
+
+// Offline, deterministic fallback: TF-IDF over the batch itself, L2-normalised
+export class TfIdfEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'tfidf';
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const documents = texts.map(tokenize);
+    const documentFrequency = new Map<string, number>();
+    for (const tokens of documents) {
+      for (const token of Array.from(new Set(tokens))) {
+        documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+      }
+    }
+
+    const vocabulary = Array.from(documentFrequency.keys()).sort();
+    const index = new Map(vocabulary.map((term, i) => [term, i]));
+    const idf = vocabulary.map(term => Math.log((1 + texts.length) / (1 + documentFrequency.get(term)!)) + 1);
+
+    return documents.map(tokens => {
+      const vector = new Array<number>(vocabulary.length).fill(0);
+      for (const token of tokens) {
+        vector[index.get(token)!] += 1;
+      }
+      for (let i = 0; i < vector.length; i++) {
+        if (vector[i]) vector[i] = (vector[i] / tokens.length) * idf[i];
+      }
+      return normalize(vector);
+    });
+  }
+}
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'gemini';
+  private readonly BATCH_SIZE = 100; // batchEmbedContents limit
+  private model: string;
+  private queue: AIRequestQueue;
+  private usage?: AIUsageTracker;
+
+  constructor(private apiKey: string, options: GeminiEmbeddingOptions = {}) {
+    this.model = options.model ?? 'text-embedding-004';
+    this.queue = options.queue ?? aiRequestQueue;
+    this.usage = options.usage;
+  }
+
+  async embed(texts: string[], context: AIRequestContext = {}): Promise<number[][]> {
+    const model = new GoogleGenerativeAI(this.apiKey).getGenerativeModel({ model: this.model });
+    const cacheKey = (text: string) => `${this.name}:${this.model}:${text}`;
+    const missing = Array.from(new Set(texts.filter(text => !embeddingCache.has(cacheKey(text)))));
+
+    if (missing.length > 0) {
+      await this.usage?.checkQuota(context.userId);
+    }
+    for (let start = 0; start < missing.length; start += this.BATCH_SIZE) {
+      const batch = missing.slice(start, start + this.BATCH_SIZE);
+      const embeddings = await this.queue.enqueue(() => this.embedBatch(model, batch, context), context);
+      embeddings.forEach((values, i) => embeddingCache.set(cacheKey(batch[i]), normalize(values)));
+    }
+
+    return texts.map(text => embeddingCache.get(cacheKey(text)) || []);
+  }
+
+  // batchEmbedContents reports no token counts, so only the call is recorded
+  private async embedBatch(model: GenerativeModel, batch: string[], context: AIRequestContext): Promise<number[][]> {
+    const startedAt = Date.now();
+    const record = (success: boolean) => void this.usage?.record({
+      userId: context.userId ?? null,
+      feature: 'fitRanking',
+      provider: this.name,
+      model: this.model,
+      promptTokens: null,
+      completionTokens: null,
+      totalTokens: null,
+      latencyMs: Date.now() - startedAt,
+      success
+    });
+
+    try {
+      const { embeddings } = await model.batchEmbedContents({
+        requests: batch.map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+      });
+      record(true);
+      return embeddings.map(embedding => embedding.values);
+    } catch (error) {
+      record(false);
+      throw error;
+    }
+  }
+}
+
+// EMBEDDING_PROVIDER=gemini opts into hosted embeddings; everything else stays offline
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (process.env.EMBEDDING_PROVIDER === 'gemini' && apiKey) {
+    return new GeminiEmbeddingProvider(apiKey, { usage: aiUsageTracker });
+  }
+  return new TfIdfEmbeddingProvider();
+}
+
+const offlineProvider = new TfIdfEmbeddingProvider();
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map(value => value / norm) : vector;
+}
+
+// Vectors are normalised, so the dot product is the cosine similarity
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+export function vacancyFitText(vacancy: ScoredVacancy, detailText?: string): string {
+  if (detailText) return detailText;
+  return [vacancy.name, vacancy.snippet?.requirement, vacancy.snippet?.responsibility]
+    .filter(Boolean)
+    .join('\n')
+    .replace(/<\/?highlighttext>/g, '');
+}
+
+// Second stage: the top `limit` results are re-ordered by similarity to the
+// resume, the tail keeps its relevance order with a null fitScore. A failing
+// hosted provider (network, bad key) falls back to TF-IDF rather than failing
+// the search; a user over quota or gone still ends it.
+export async function rerankByFit(
+  result: TieredSearchResult,
+  resumeText: string,
+  provider: EmbeddingProvider,
+  options: FitRerankOptions = {}
+): Promise<TieredSearchResult> {
+  const limit = options.limit ?? FIT_RERANK_LIMIT;
+  const head = result.items.slice(0, limit);
+  if (!resumeText.trim() || head.length === 0) return result;
+
+  const texts = head.map(vacancy => vacancyFitText(vacancy, options.getVacancyText?.(vacancy.id)));
+  let usedProvider = provider;
+  let vectors: number[][];
+  try {
+    vectors = await provider.embed([resumeText, ...texts], options.context);
+  } catch (error) {
+    if (error instanceof AIQuotaExceededError || error instanceof AIRequestCancelledError) throw error;
+    console.error(`Fit ranking with ${provider.name} failed, falling back to TF-IDF:`, error);
+    usedProvider = offlineProvider;
+    vectors = await offlineProvider.embed([resumeText, ...texts]);
+  }
+  const [resumeVector, ...vacancyVectors] = vectors;
+
+  const reranked = head
+    .map((vacancy, i) => ({
+      ...vacancy,
+      fitScore: Math.round(Math.max(0, cosineSimilarity(resumeVector, vacancyVectors[i])) * 100)
+    }))
+    .sort((a, b) => (b.fitScore - a.fitScore) || compareScoredVacancies(a, b));
+
+  return {
+    ...result,
+    items: [...reranked, ...result.items.slice(limit)],
+    fitRanking: { provider: usedProvider.name, reranked: reranked.length }
+  };
+}
+
+export const embeddingProvider = createEmbeddingProvider();
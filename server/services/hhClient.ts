@@ -2,6 +2,8 @@ import https from 'https';
 import http from 'http';
 import { URL } from 'url';
 import zlib from 'zlib';
+import { cassette as defaultCassette, CassetteMissError, normalizeUrl, type CassetteStore } from './cassette';
+import { hhScheduler, type HHPriority, type HHScheduler } from './hhScheduler';
 
 // Keep-alive agents
 const httpsAgent = new https.Agent({
@@ -22,14 +24,80 @@ export interface HHRequestOptions {
   timeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  // Queue position under the shared scheduler, 'interactive' by default
+  priority?: HHPriority;
 }
 
+export interface HHClientOptions {
+  // HH_API_BASE_URL points the app at the offline mock (see server/mock)
+  baseURL?: string;
+  // Per-client defaults for HHRequestOptions
+  requestDefaults?: HHRequestOptions;
+  // Record/replay store, CASSETTE_MODE/CASSETTE_DIR by default
+  cassette?: CassetteStore;
+  // Shared rate limiter; without one every request goes out immediately
+  scheduler?: HHScheduler;
+}
+
+interface RecordedHHResponse {
+  status: number;
+  retryAfter: string | null;
+  body: any;
+}
+
+export const DEFAULT_HH_API_BASE_URL = 'https://api.hh.ru';
+
 export class HHClient {
   private userAgent: string;
-  private baseURL = 'https://api.hh.ru';
+  private baseURL: string;
+  private requestDefaults: HHRequestOptions;
+  private cassette: CassetteStore;
+  private scheduler?: HHScheduler;
 
-  constructor() {
+  constructor(private options: HHClientOptions = {}) {
     this.userAgent = process.env.HH_USER_AGENT || 'hh-finder/1.0 (+localhost)';
+    this.baseURL = options.baseURL || process.env.HH_API_BASE_URL || DEFAULT_HH_API_BASE_URL;
+    this.requestDefaults = options.requestDefaults || {};
+    this.cassette = options.cassette || defaultCassette;
+    this.scheduler = options.scheduler;
+  }
+
+  // Same client and scheduler, with a different default queue priority
+  withPriority(priority: HHPriority): HHClient {
+    return new HHClient({
+      ...this.options,
+      requestDefaults: { ...this.requestDefaults, priority }
+    });
+  }
+
+  // Network fetch, or the recorded exchange when cassettes are replaying.
+  // Rate limits and server errors are transient and never recorded.
+  private async fetchWithCassette(url: URL, init: RequestInit): Promise<Response> {
+    const request = { method: 'GET', url: normalizeUrl(url.toString()) };
+
+    if (this.cassette.isReplaying) {
+      const recorded = await this.cassette.load<RecordedHHResponse>('hh', request);
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (recorded.retryAfter) headers['Retry-After'] = recorded.retryAfter;
+      return new Response(JSON.stringify(recorded.body), { status: recorded.status, headers });
+    }
+
+    const response = await fetch(url.toString(), init);
+    if (this.cassette.isRecording && response.status !== 429 && response.status < 500) {
+      const text = await response.clone().text();
+      let body: any = text;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // non-JSON error pages are kept verbatim
+      }
+      await this.cassette.save('hh', request, {
+        status: response.status,
+        retryAfter: response.headers.get('Retry-After'),
+        body
+      } satisfies RecordedHHResponse);
+    }
+    return response;
   }
 
   private async makeRequest(
@@ -37,9 +105,10 @@ export class HHClient {
     options: HHRequestOptions = {},
     queryParams: Record<string, any> = {}
   ): Promise<any> {
-    const { timeout = 8000, retryAttempts = 3, retryDelay = 1000 } = options;
+    const { timeout = 8000, retryAttempts = 3, retryDelay = 1000, priority = 'interactive' } = { ...this.requestDefaults, ...options };
     
-    const url = new URL(path, this.baseURL);
+    // Appended rather than resolved so a base URL with a path prefix keeps it
+    const url = new URL(this.baseURL.replace(/\/+$/, '') + path);
     
     // Add query parameters
     Object.entries(queryParams).forEach(([key, value]) => {
@@ -52,32 +121,44 @@ export class HHClient {
       }
     });
 
+    const init: RequestInit = {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'Accept-Language': 'ru',
+        'Accept-Encoding': 'gzip, deflate',
+        'User-Agent': this.userAgent,
+        'HH-User-Agent': this.userAgent
+      },
+      // @ts-ignore - Node.js specific options
+      agent: url.protocol === 'https:' ? httpsAgent : httpAgent
+    };
+
+    // The timeout starts once the scheduler lets the request out, not while it queues
+    const send = async () => {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      try {
+        return await this.fetchWithCassette(url, { ...init, signal: controller.signal });
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    };
+
     const startTime = Date.now();
     
     for (let attempt = 0; attempt < retryAttempts; attempt++) {
       try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-        const response = await fetch(url.toString(), {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-            'Accept-Language': 'ru',
-            'Accept-Encoding': 'gzip, deflate',
-            'User-Agent': this.userAgent,
-            'HH-User-Agent': this.userAgent
-          },
-          signal: controller.signal,
-          // @ts-ignore - Node.js specific options
-          agent: url.protocol === 'https:' ? httpsAgent : httpAgent
-        });
-
-        clearTimeout(timeoutId);
+        // Replayed cassettes never reach HH, so they skip the queue
+        const response = this.scheduler && !this.cassette.isReplaying
+          ? await this.scheduler.schedule(send, priority)
+          : await send();
 
         if (response.status === 429) {
           const retryAfter = response.headers.get('Retry-After');
           const retryInMs = retryAfter ? parseInt(retryAfter) * 1000 : retryDelay * (attempt + 1);
+          // Every queued request waits out the limit, not just this one
+          this.scheduler?.backoff(retryInMs);
           
           if (attempt === retryAttempts - 1) {
             throw {
@@ -88,7 +169,10 @@ export class HHClient {
             };
           }
           
-          await new Promise(resolve => setTimeout(resolve, retryInMs + Math.random() * 1000));
+          // The scheduler already holds the retry until the backoff lapses
+          if (!this.scheduler) {
+            await new Promise(resolve => setTimeout(resolve, retryInMs + Math.random() * 1000));
+          }
           continue;
         }
 
@@ -110,7 +194,9 @@ export class HHClient {
         return { data, timing };
 
       } catch (error: any) {
-        if (error.name === 'AbortError') {
+        if (error instanceof CassetteMissError) {
+          throw error;
+        } else if (error.name === 'AbortError') {
           if (attempt === retryAttempts - 1) {
             throw new Error('Request timeout');
           }
@@ -153,6 +239,8 @@ export class HHClient {
     specialization?: string;
     metro?: string;
     employer_id?: string;
+    search_field?: string | string[];
+    label?: string[];
   }): Promise<{ data: any; timing: any }> {
     return this.makeRequest('/vacancies', {}, params);
   }
@@ -161,6 +249,11 @@ export class HHClient {
     return this.makeRequest(`/vacancies/${id}`);
   }
 
+  // Employers by name, for resolving the wizard's company filter to HH IDs
+  async searchEmployers(text: string, perPage = 20): Promise<{ data: any; timing: any }> {
+    return this.makeRequest('/employers', {}, { text, per_page: perPage });
+  }
+
   async getEmployer(employerUrl: string): Promise<{ data: any; timing: any }> {
     // Extract employer ID from URL (e.g., https://api.hh.ru/employers/123 -> 123)
     const employerId = employerUrl.split('/').pop();
@@ -168,4 +261,7 @@ export class HHClient {
   }
 }
 
-export const hhClient = new HHClient();
+// Search-only surface, so schedulers and the tiered search can run against a stub
+export type VacancySearchClient = Pick<HHClient, 'searchVacancies'>;
+
+export const hhClient = new HHClient({ scheduler: hhScheduler });
@@ -0,0 +1,166 @@
+import { hhPrioritySchema, type HHPriority, type HHSchedulerMetrics } from "@shared/schema";
+
+// One token bucket in front of every HH.ru request. Calls queue by priority,
+// start as tokens and concurrency slots free up, and all of them pause together
+// once HH answers with Retry-After instead of each request retrying on its own.
+
+// Highest first: a vacancy the user is looking at beats search pages, which
+// beat prefetched details and watched-search refreshes
+export const hhPriorities = hhPrioritySchema.options;
+export type { HHPriority };
+
+export interface HHSchedulerOptions {
+  ratePerSecond?: number;
+  burst?: number;
+  maxConcurrent?: number;
+  now?: () => number;
+}
+
+interface QueuedCall {
+  enqueuedAt: number;
+  start: () => void;
+}
+
+const perPriority = (value: number) => ({ interactive: value, search: value, background: value });
+
+export class HHScheduler {
+  private ratePerSecond: number;
+  private burst: number;
+  private maxConcurrent: number;
+  private now: () => number;
+  private tokens: number;
+  private refilledAt: number;
+  private queues: Record<HHPriority, QueuedCall[]> = { interactive: [], search: [], background: [] };
+  private inFlight = 0;
+  private backoffUntil = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private stats = { started: perPriority(0), waitMs: perPriority(0), maxQueued: 0, backoffs: 0 };
+
+  constructor(options: HHSchedulerOptions = {}) {
+    this.ratePerSecond = options.ratePerSecond ?? 5;
+    this.burst = options.burst ?? 10;
+    this.maxConcurrent = options.maxConcurrent ?? 6;
+    this.now = options.now ?? Date.now;
+    this.tokens = this.burst;
+    this.refilledAt = this.now();
+  }
+
+  schedule<T>(call: () => Promise<T>, priority: HHPriority = 'interactive'): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const enqueuedAt = this.now();
+      this.queues[priority].push({
+        enqueuedAt,
+        start: () => {
+          this.stats.started[priority]++;
+          this.stats.waitMs[priority] += this.now() - enqueuedAt;
+          // The slot is freed before the caller resumes
+          const release = () => {
+            this.inFlight--;
+            this.pump();
+          };
+          Promise.resolve()
+            .then(call)
+            .then(
+              value => { release(); resolve(value); },
+              error => { release(); reject(error); }
+            );
+        }
+      });
+      this.stats.maxQueued = Math.max(this.stats.maxQueued, this.queuedCount());
+      this.pump();
+    });
+  }
+
+  // HH said Retry-After: nothing starts until it lapses, then one token at a
+  // time so the queue doesn't hit the limit again in a single burst
+  backoff(ms: number): void {
+    if (ms <= 0) return;
+    const until = this.now() + ms;
+    if (until > this.backoffUntil) {
+      this.backoffUntil = until;
+      this.tokens = Math.min(this.tokens, 1);
+      this.refilledAt = until;
+    }
+    this.stats.backoffs++;
+    this.pump();
+  }
+
+  getMetrics(): HHSchedulerMetrics {
+    this.refill();
+    const queued = perPriority(0);
+    const avgWaitMs = perPriority(0);
+    hhPriorities.forEach(priority => {
+      queued[priority] = this.queues[priority].length;
+      const started = this.stats.started[priority];
+      avgWaitMs[priority] = started === 0 ? 0 : Math.round(this.stats.waitMs[priority] / started);
+    });
+
+    return {
+      ratePerSecond: this.ratePerSecond,
+      burst: this.burst,
+      maxConcurrent: this.maxConcurrent,
+      tokens: Math.floor(this.tokens * 100) / 100,
+      inFlight: this.inFlight,
+      queued,
+      maxQueued: this.stats.maxQueued,
+      started: { ...this.stats.started },
+      avgWaitMs,
+      backoffRemainingMs: Math.max(0, this.backoffUntil - this.now()),
+      backoffs: this.stats.backoffs
+    };
+  }
+
+  private queuedCount(): number {
+    return hhPriorities.reduce((sum, priority) => sum + this.queues[priority].length, 0);
+  }
+
+  private refill(): void {
+    const now = this.now();
+    if (now <= this.refilledAt) return;
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.refilledAt) / 1000) * this.ratePerSecond);
+    this.refilledAt = now;
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.inFlight < this.maxConcurrent) {
+      const priority = hhPriorities.find(candidate => this.queues[candidate].length > 0);
+      if (!priority) return;
+
+      this.refill();
+      const now = this.now();
+      const waitMs = Math.max(
+        this.backoffUntil - now,
+        this.refilledAt - now,
+        this.tokens >= 1 ? 0 : ((1 - this.tokens) / this.ratePerSecond) * 1000
+      );
+      if (waitMs > 0) {
+        // A finishing call or a new backoff re-pumps and replaces this timer
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.pump();
+        }, Math.ceil(waitMs));
+        return;
+      }
+
+      this.tokens -= 1;
+      this.inFlight++;
+      this.queues[priority].shift()!.start();
+    }
+  }
+}
+
+const envNumber = (name: string) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+export const hhScheduler = new HHScheduler({
+  ratePerSecond: envNumber('HH_RATE_PER_SECOND'),
+  burst: envNumber('HH_RATE_BURST'),
+  maxConcurrent: envNumber('HH_MAX_CONCURRENT')
+});
@@ -1,6 +1,6 @@
-import { AIClient } from './aiClient';
-
-const aiClient = new AIClient();
+import { aiClient } from './aiClient';
+import type { AIRequestContext } from './aiQueue';
+import { AIQuotaExceededError } from './aiUsage';
 
 export interface KeywordExpansion {
   original: string;
@@ -36,13 +36,13 @@ Return ONLY a JSON object in this exact format:
   "weakSynonyms": ["weak1", "weak2", ...]
 }`;
 
-export async function generateKeywordExpansions(keywords: string[]): Promise<KeywordExpansion[]> {
+export async function generateKeywordExpansions(keywords: string[], context: AIRequestContext = {}): Promise<KeywordExpansion[]> {
   const expansions: KeywordExpansion[] = [];
   
   for (const keyword of keywords) {
     try {
       const prompt = EXPANSION_PROMPT.replace('{keyword}', keyword);
-      const response = await aiClient.generateJobTitles(keyword); // Use existing method
+      const response = await aiClient.generateJobTitles(keyword, context); // Use existing method
       const parsed = {
         strongSynonyms: response.slice(0, 6),
         weakSynonyms: response.slice(6, 10)
@@ -58,6 +58,7 @@ export async function generateKeywordExpansions(keywords: string[]): Promise<Key
         });
       }
     } catch (error) {
+      if (error instanceof AIQuotaExceededError) throw error;
       console.warn(`Error generating expansions for "${keyword}":`, error);
       // Add empty expansion to maintain array structure
       expansions.push({
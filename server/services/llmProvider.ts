@@ -0,0 +1,242 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+// Text generation behind AIClient. Each AI feature is bound to a provider and
+// model, picked from env (LLM_PROVIDER / LLM_MODEL, or per feature e.g.
+// LLM_FILTER_MAPPING_PROVIDER / LLM_FILTER_MAPPING_MODEL).
+
+export const aiFeatures = ['seedTerms', 'relevanceFiltering', 'filterMapping', 'coverLetter'] as const;
+export type AIFeature = typeof aiFeatures[number];
+
+export interface LLMRequest {
+  feature: AIFeature;
+  model: string;
+  prompt: string;
+  // Ask for a bare JSON document instead of prose
+  json?: boolean;
+  temperature?: number;
+  timeoutMs?: number;
+}
+
+// Token counts as reported by the provider, for usage accounting
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  name: string;
+  generate(request: LLMRequest): Promise<LLMCompletion>;
+  // Whether the provider has what it needs to be called (key, endpoint)
+  isConfigured(): boolean;
+}
+
+export interface FeatureBinding {
+  provider: LLMProvider;
+  model: string;
+}
+
+// Thrown for upstream HTTP failures; status drives AIClient's retry policy
+export class LLMProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+export const DEFAULT_LLM_TIMEOUT_MS = 30000;
+
+export class GeminiLLMProvider implements LLMProvider {
+  name = 'gemini';
+
+  // Read per request so a key saved through /api/gemini/connect takes effect
+  constructor(private getApiKey: () => string = () => process.env.GEMINI_API_KEY || '') {}
+
+  isConfigured(): boolean {
+    return !!this.getApiKey();
+  }
+
+  async generate(request: LLMRequest): Promise<LLMCompletion> {
+    const model = new GoogleGenerativeAI(this.getApiKey()).getGenerativeModel({ model: request.model });
+    const result = await model.generateContent({
+      contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+      generationConfig: {
+        temperature: request.temperature,
+        responseMimeType: request.json ? 'application/json' : undefined
+      }
+    }, { timeout: request.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS });
+    const metadata = result.response.usageMetadata;
+    return {
+      text: result.response.text(),
+      usage: metadata && {
+        promptTokens: metadata.promptTokenCount,
+        completionTokens: metadata.candidatesTokenCount,
+        totalTokens: metadata.totalTokenCount
+      }
+    };
+  }
+}
+
+// Chat completions API as served by OpenAI, llama.cpp's server, Ollama
+// (/v1), vLLM and most gateways
+export class OpenAICompatibleLLMProvider implements LLMProvider {
+  name = 'openai';
+
+  constructor(private baseURL: string, private apiKey?: string) {}
+
+  // Local endpoints usually run without a key; OpenAI itself never does
+  isConfigured(): boolean {
+    return !!this.apiKey || !/^https:\/\/api\.openai\.com\b/.test(this.baseURL);
+  }
+
+  async generate(request: LLMRequest): Promise<LLMCompletion> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), request.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${this.baseURL.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: [{ role: 'user', content: request.prompt }],
+          temperature: request.temperature,
+          ...(request.json ? { response_format: { type: 'json_object' } } : {})
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new LLMProviderError(`LLM endpoint error: ${response.status} ${response.statusText}`, response.status);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new LLMProviderError('LLM endpoint returned no message content');
+      }
+      return {
+        text: content,
+        usage: data.usage && {
+          promptTokens: data.usage.prompt_tokens ?? 0,
+          completionTokens: data.usage.completion_tokens ?? 0,
+          totalTokens: data.usage.total_tokens ?? 0
+        }
+      };
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw new LLMProviderError('LLM request timeout', 504);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+export interface LLMRule {
+  feature?: AIFeature;
+  // Substring or pattern the prompt has to contain
+  match?: string | RegExp;
+  respond: string | ((request: LLMRequest) => string);
+  // Reported as the completion's token usage
+  usage?: LLMUsage;
+}
+
+// Deterministic stand-in for tests and offline runs: the first matching rule
+// answers. Unmatched prompts fail like an unavailable model would, which
+// sends AIClient down its non-AI fallbacks.
+export class RuleBasedLLMProvider implements LLMProvider {
+  name = 'rules';
+  readonly requests: LLMRequest[] = [];
+
+  constructor(private rules: LLMRule[] = []) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+    const rule = this.rules.find(candidate =>
+      (!candidate.feature || candidate.feature === request.feature) &&
+      (candidate.match === undefined || (typeof candidate.match === 'string'
+        ? request.prompt.includes(candidate.match)
+        : candidate.match.test(request.prompt)))
+    );
+    if (!rule) {
+      throw new LLMProviderError(`No rule matches the ${request.feature} prompt`);
+    }
+    return {
+      text: typeof rule.respond === 'function' ? rule.respond(request) : rule.respond,
+      usage: rule.usage
+    };
+  }
+}
+
+// Historical Gemini choices: the pro model only for filter mapping
+const DEFAULT_GEMINI_MODELS: Record<AIFeature, string> = {
+  seedTerms: 'gemini-1.5-flash',
+  relevanceFiltering: 'gemini-1.5-flash',
+  filterMapping: 'gemini-1.5-pro',
+  coverLetter: 'gemini-1.5-flash'
+};
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+function envName(feature: AIFeature, suffix: string): string {
+  return `LLM_${feature.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase()}_${suffix}`;
+}
+
+export function createLLMProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'gemini':
+      if (!process.env.GEMINI_API_KEY) {
+        console.error('GEMINI_API_KEY not found in environment variables');
+      } else {
+        console.log('Gemini API key loaded, length:', process.env.GEMINI_API_KEY.length);
+      }
+      return new GeminiLLMProvider();
+    case 'openai':
+      return new OpenAICompatibleLLMProvider(
+        process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        process.env.OPENAI_API_KEY
+      );
+    case 'rules':
+      return new RuleBasedLLMProvider();
+    default:
+      throw new Error(`Unknown LLM provider "${name}"`);
+  }
+}
+
+export function resolveFeatureBindings(): Record<AIFeature, FeatureBinding> {
+  const providers = new Map<string, LLMProvider>();
+  const providerFor = (name: string) => {
+    if (!providers.has(name)) providers.set(name, createLLMProvider(name));
+    return providers.get(name)!;
+  };
+
+  const globalProvider = process.env.LLM_PROVIDER || 'gemini';
+  const bindings = {} as Record<AIFeature, FeatureBinding>;
+  for (const feature of aiFeatures) {
+    const providerName = process.env[envName(feature, 'PROVIDER')] || globalProvider;
+    // LLM_MODEL belongs to LLM_PROVIDER, not to a feature's own override
+    const globalModel = providerName === globalProvider ? process.env.LLM_MODEL : undefined;
+    const defaultModel = providerName === 'gemini' ? DEFAULT_GEMINI_MODELS[feature]
+      : providerName === 'openai' ? DEFAULT_OPENAI_MODEL
+      : providerName;
+    bindings[feature] = {
+      provider: providerFor(providerName),
+      model: process.env[envName(feature, 'MODEL')] || globalModel || defaultModel
+    };
+  }
+  return bindings;
+}
@@ -0,0 +1,174 @@
+import { inflateSync } from 'zlib';
+import type { ProfileSourceType } from "@shared/schema";
+
+export interface ImportedProfileDocument {
+  content: string;
+  skills: string[];
+}
+
+const MAX_SKILLS = 100;
+const MAX_SKILL_LENGTH = 50;
+
+// Headings that introduce a skills list in English and Russian resumes
+const SKILLS_HEADING = /^(?:key\s+|technical\s+|core\s+)?(?:skills|tech(?:nology)?\s+stack|stack|technologies|ключевые\s+навыки|навыки|технологии|стек(?:\s+технологий)?)\s*:?\s*(.*)$/i;
+
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/\r\n/g, '\n')
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, '$1') // keep code block contents
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+/gm, '')
+    .replace(/^[ \t]{0,3}>[ \t]?/gm, '')
+    .replace(/^[ \t]*[-*+][ \t]+/gm, '- ')
+    .replace(/^[ \t]*\|?(?:[ \t]*:?-{3,}:?[ \t]*\|)+[ \t]*$/gm, '') // table separators
+    .replace(/\|/g, ' ')
+    .replace(/(\*\*|__|\*|_|~~|`)(.+?)\1/g, '$2')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Items from the first "Skills:"-style section: either inline after the heading
+// or the lines below it up to the next blank line
+export function extractSkills(text: string): string[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const collected: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const heading = lines[i].trim().replace(/^[#*\s]+|[*\s]+$/g, '').match(SKILLS_HEADING);
+    if (!heading) continue;
+
+    if (heading[1]) collected.push(heading[1]);
+    let j = i + 1;
+    while (j < lines.length && !lines[j].trim() && collected.length === 0) j++;
+    for (; j < lines.length && lines[j].trim(); j++) {
+      collected.push(lines[j]);
+    }
+    break;
+  }
+
+  const seen = new Set<string>();
+  const skills: string[] = [];
+  for (const part of collected.join('\n').split(/[,;•·|\n]/)) {
+    const skill = part.replace(/^\s*[-*+]\s*/, '').replace(/\.$/, '').trim();
+    const key = skill.toLowerCase();
+    if (skill && skill.length <= MAX_SKILL_LENGTH && !seen.has(key)) {
+      seen.add(key);
+      skills.push(skill);
+    }
+  }
+  return skills.slice(0, MAX_SKILLS);
+}
+
+// Minimal text extraction: inflates FlateDecode content streams and reads the
+// strings shown by Tj/TJ/'/" operators. PDFs whose fonts use custom encodings
+// (common for Cyrillic exports) yield little or no text.
+export function extractPdfText(pdf: Buffer): string {
+  const raw = pdf.toString('latin1');
+  if (!raw.startsWith('%PDF')) {
+    throw new Error('Not a PDF document');
+  }
+
+  const pages: string[] = [];
+  const streamPattern = /obj((?:(?!endobj)[\s\S])*?)stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(raw))) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+    streamPattern.lastIndex = end;
+
+    const dictionary = match[1];
+    let data = pdf.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        data = inflateSync(data);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue; // images and other encodings
+    }
+
+    const text = textFromContentStream(data.toString('latin1'));
+    if (text.trim()) pages.push(text.trim());
+  }
+
+  return pages.join('\n\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function textFromContentStream(content: string): string {
+  let text = '';
+  const blocks = content.match(/\bBT\b[\s\S]*?\bET\b/g) || [];
+
+  for (const block of blocks) {
+    const tokens = block.match(/\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|-?\d*\.?\d+|T\*|Td|TD|Tj|TJ|'|"|\]/g) || [];
+    for (const token of tokens) {
+      if (token.startsWith('(')) {
+        text += decodePdfString(unescapeLiteral(token.slice(1, -1)));
+      } else if (token.startsWith('<')) {
+        text += decodePdfString(hexToBinary(token.slice(1, -1)));
+      } else if (/^-?\d*\.?\d+$/.test(token)) {
+        // Large negative TJ kerning is how many generators encode a space
+        if (parseFloat(token) <= -200 && !text.endsWith(' ')) text += ' ';
+      } else if (token === 'T*' || token === 'Td' || token === 'TD' || token === "'" || token === '"') {
+        if (text && !text.endsWith('\n')) text += '\n';
+      }
+    }
+    if (text && !text.endsWith('\n')) text += '\n';
+  }
+
+  return text;
+}
+
+function unescapeLiteral(value: string): string {
+  return value.replace(/\\(\d{1,3}|[\s\S])/g, (_, escaped: string) => {
+    if (/^\d+$/.test(escaped)) return String.fromCharCode(parseInt(escaped, 8));
+    switch (escaped) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case '\n': case '\r': return '';
+      default: return escaped;
+    }
+  });
+}
+
+function hexToBinary(hex: string): string {
+  const digits = hex.replace(/\s+/g, '');
+  const padded = digits.length % 2 ? `${digits}0` : digits;
+  let result = '';
+  for (let i = 0; i < padded.length; i += 2) {
+    result += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return result;
+}
+
+// Byte strings are PDFDocEncoding (close enough to Latin-1) unless they carry a UTF-16BE BOM
+function decodePdfString(binary: string): string {
+  if (binary.startsWith('\xfe\xff')) {
+    const bytes = Buffer.from(binary.slice(2), 'latin1');
+    return bytes.subarray(0, bytes.length - (bytes.length % 2)).swap16().toString('utf16le');
+  }
+  return binary;
+}
+
+export function importProfileDocument(format: ProfileSourceType, data: string): ImportedProfileDocument {
+  let content: string;
+  switch (format) {
+    case 'pdf':
+      content = extractPdfText(Buffer.from(data, 'base64'));
+      break;
+    case 'markdown':
+      content = markdownToText(data);
+      break;
+    default:
+      content = data.replace(/\r\n/g, '\n').trim();
+  }
+  return { content, skills: extractSkills(content) };
+}
@@ -0,0 +1,199 @@
+import net from "net";
+
+// Just enough of the Redis protocol (RESP2) for the cache backend: commands
+// go out as arrays of bulk strings, replies are parsed incrementally since
+// one may arrive split over several socket reads.
+
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisReplyError';
+  }
+}
+
+export type RedisReply = string | number | null | RedisReplyError | RedisReply[];
+
+export function encodeRespCommand(args: string[]): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    parts.push(`$${Buffer.byteLength(arg)}\r\n${arg}\r\n`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+export function encodeRespReply(reply: RedisReply | 'OK'): Buffer {
+  if (reply === null) return Buffer.from('$-1\r\n');
+  if (reply === 'OK') return Buffer.from('+OK\r\n');
+  if (reply instanceof RedisReplyError) return Buffer.from(`-${reply.message}\r\n`);
+  if (typeof reply === 'number') return Buffer.from(`:${reply}\r\n`);
+  if (Array.isArray(reply)) {
+    return Buffer.concat([Buffer.from(`*${reply.length}\r\n`), ...reply.map(item => encodeRespReply(item))]);
+  }
+  return Buffer.from(`$${Buffer.byteLength(reply)}\r\n${reply}\r\n`);
+}
+
+// One complete value starting at offset, or null if more bytes are needed
+export function parseResp(buffer: Buffer, offset = 0): { value: RedisReply; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next: afterLine };
+    case '-':
+      return { value: new RedisReplyError(line), next: afterLine };
+    case ':':
+      return { value: parseInt(line, 10), next: afterLine };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length === -1) return { value: null, next: afterLine };
+      if (buffer.length < afterLine + length + 2) return null;
+      return { value: buffer.toString('utf8', afterLine, afterLine + length), next: afterLine + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line, 10);
+      if (count === -1) return { value: null, next: afterLine };
+      const items: RedisReply[] = [];
+      let next = afterLine;
+      for (let i = 0; i < count; i++) {
+        const item = parseResp(buffer, next);
+        if (!item) return null;
+        items.push(item.value);
+        next = item.next;
+      }
+      return { value: items, next };
+    }
+    default:
+      throw new RedisReplyError(`Unexpected RESP type byte "${type}"`);
+  }
+}
+
+export interface RedisClientOptions {
+  // Applies to connecting and to every reply; an idle connection stays open
+  timeoutMs?: number;
+}
+
+interface PendingReply {
+  resolve: (value: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+// Single lazily opened connection; commands are pipelined and replies matched
+// to them in order. A dropped connection fails whatever was pending and the
+// next command reconnects.
+export class RedisClient {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+  private url: URL;
+  private timeoutMs: number;
+
+  constructor(url: string, options: RedisClientOptions = {}) {
+    this.url = new URL(url);
+    this.timeoutMs = options.timeoutMs ?? 2000;
+  }
+
+  async command(...args: string[]): Promise<RedisReply> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  close(): void {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  // A late reply would be matched to the wrong command, so a timeout drops
+  // the connection along with everything pending on it
+  private send(socket: net.Socket, args: string[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.destroy(new Error(`Redis at ${this.url.host} timed out`));
+      }, this.timeoutMs);
+      this.pending.push({
+        resolve: value => {
+          clearTimeout(timer);
+          value instanceof RedisReplyError ? reject(value) : resolve(value);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      });
+      socket.write(encodeRespCommand(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.createConnection({
+        host: this.url.hostname || '127.0.0.1',
+        port: parseInt(this.url.port || '6379', 10)
+      });
+      socket.setTimeout(this.timeoutMs, () => {
+        socket.destroy(new Error(`Redis at ${this.url.host} timed out`));
+      });
+
+      socket.on('connect', () => {
+        socket.setTimeout(0);
+        this.socket = socket;
+        this.buffer = Buffer.alloc(0);
+        // Queued before any caller's command, so replies stay in order
+        const password = decodeURIComponent(this.url.password);
+        if (password) {
+          const username = decodeURIComponent(this.url.username);
+          this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]).catch(() => socket.destroy());
+        }
+        const db = this.url.pathname.slice(1);
+        if (db) this.send(socket, ['SELECT', db]).catch(() => socket.destroy());
+        resolve(socket);
+      });
+
+      socket.on('data', chunk => this.onData(socket, chunk));
+
+      socket.on('error', error => {
+        if (this.socket !== socket) reject(error);
+        this.fail(socket, error);
+      });
+
+      socket.on('close', () => this.fail(socket, new Error('Redis connection closed')));
+    }).finally(() => {
+      this.connecting = null;
+    });
+
+    return this.connecting;
+  }
+
+  private onData(socket: net.Socket, chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    let offset = 0;
+    try {
+      let parsed = parseResp(this.buffer, offset);
+      while (parsed) {
+        this.pending.shift()?.resolve(parsed.value);
+        offset = parsed.next;
+        parsed = offset < this.buffer.length ? parseResp(this.buffer, offset) : null;
+      }
+    } catch (error: any) {
+      // Nothing after a malformed reply can be trusted; fails what's pending
+      socket.destroy(error);
+      return;
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private fail(socket: net.Socket, error: Error): void {
+    if (this.socket !== socket && this.socket !== null) return;
+    this.socket = null;
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(reply => reply.reject(error));
+  }
+}
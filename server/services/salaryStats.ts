@@ -0,0 +1,142 @@
+import type { SalaryBasis, SalaryDistribution, SalaryStats } from "@shared/schema";
+
+// Russian personal income tax (НДФЛ); HH.ru salaries marked gross are before it
+export const INCOME_TAX_RATE = 0.13;
+
+const MAX_HISTOGRAM_BINS = 12;
+
+export interface SalaryInput {
+  from?: number | null;
+  to?: number | null;
+  currency?: string | null;
+  gross?: boolean | null;
+}
+
+export interface NormalizeOptions {
+  currency: string;
+  basis: SalaryBasis;
+  rates: Record<string, number>;
+}
+
+// HH's currency dictionary: rate is units of the currency per 1 RUR
+export function currencyRatesFromDictionaries(dictionaries: any): Record<string, number> {
+  const rates: Record<string, number> = {};
+  for (const item of dictionaries?.currency || []) {
+    const code = item.code ?? item.id;
+    if (code && typeof item.rate === 'number' && item.rate > 0) {
+      rates[code] = item.rate;
+    }
+  }
+  return rates;
+}
+
+export function convertAmount(amount: number, from: string, to: string, rates: Record<string, number>): number | null {
+  if (from === to) return amount;
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+}
+
+// Single comparable figure per vacancy: the midpoint of the fork (or its only
+// bound), in the target currency and on the requested tax basis. Salaries
+// without a gross flag are taken as stated.
+export function normalizeSalary(salary: SalaryInput | null | undefined, options: NormalizeOptions): number | null {
+  if (!salary || !salary.currency) return null;
+  const bounds = [salary.from, salary.to].filter((value): value is number => typeof value === 'number' && value > 0);
+  if (bounds.length === 0) return null;
+
+  const midpoint = bounds.reduce((sum, value) => sum + value, 0) / bounds.length;
+  let amount = convertAmount(midpoint, salary.currency, options.currency, options.rates);
+  if (amount === null) return null;
+
+  if (salary.gross === true && options.basis === 'net') {
+    amount *= 1 - INCOME_TAX_RATE;
+  } else if (salary.gross === false && options.basis === 'gross') {
+    amount /= 1 - INCOME_TAX_RATE;
+  }
+  return Math.round(amount);
+}
+
+// Linear interpolation between closest ranks
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return Math.round(sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower));
+}
+
+function describe(values: number[]): SalaryDistribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    p25: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    p75: quantile(sorted, 0.75)
+  };
+}
+
+// 1, 2 or 5 × 10^n so bucket edges read as round numbers
+function niceStep(range: number, bins: number): number {
+  const raw = range / bins;
+  if (raw <= 0) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= raw);
+  return step ?? 10 * magnitude;
+}
+
+export function buildHistogram(values: number[]): SalaryStats['histogram'] {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const step = niceStep(max - min, MAX_HISTOGRAM_BINS);
+  const start = Math.floor(min / step) * step;
+  const binCount = Math.max(1, Math.floor((max - start) / step) + 1);
+
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    from: start + i * step,
+    to: start + (i + 1) * step,
+    count: 0
+  }));
+  for (const value of values) {
+    bins[Math.min(binCount - 1, Math.floor((value - start) / step))].count++;
+  }
+  return bins;
+}
+
+export function computeSalaryStats(vacancies: any[], options: NormalizeOptions): SalaryStats {
+  const values: number[] = [];
+  const byExperience = new Map<string, { name: string; values: number[] }>();
+  let unconvertible = 0;
+
+  for (const vacancy of vacancies) {
+    if (!vacancy.salary) continue;
+    const amount = normalizeSalary(vacancy.salary, options);
+    if (amount === null) {
+      unconvertible++;
+      continue;
+    }
+    values.push(amount);
+
+    const experienceId = vacancy.experience?.id ?? 'unknown';
+    const bucket = byExperience.get(experienceId) ?? { name: vacancy.experience?.name ?? 'Not specified', values: [] as number[] };
+    bucket.values.push(amount);
+    byExperience.set(experienceId, bucket);
+  }
+
+  return {
+    currency: options.currency,
+    basis: options.basis,
+    total: vacancies.length,
+    withSalary: values.length,
+    unconvertible,
+    overall: describe(values),
+    histogram: buildHistogram(values),
+    byExperience: Array.from(byExperience.entries())
+      .map(([experienceId, bucket]) => ({ experienceId, name: bucket.name, ...describe(bucket.values) }))
+      .sort((a, b) => a.median - b.median)
+  };
+}
@@ -0,0 +1,157 @@
+import type { SkillGap, SkillGapAggregateEntry } from "@shared/schema";
+
+// Canonical skill → spellings seen in HH.ru key_skills and resumes (lowercased).
+// Russian transliterations and common abbreviations map onto the same skill.
+const SKILL_ALIASES: Record<string, string[]> = {
+  'JavaScript': ['js', 'javascript', 'java script', 'ecmascript', 'es6', 'es2015', 'джаваскрипт', 'яваскрипт', 'джс'],
+  'TypeScript': ['ts', 'typescript', 'тайпскрипт'],
+  'React': ['react', 'react.js', 'reactjs', 'реакт'],
+  'Vue.js': ['vue', 'vue.js', 'vuejs', 'vue 3', 'вью'],
+  'Angular': ['angular', 'angularjs', 'angular 2+', 'ангуляр'],
+  'Next.js': ['next', 'next.js', 'nextjs'],
+  'Redux': ['redux', 'redux toolkit', 'rtk', 'редакс'],
+  'Node.js': ['node', 'node.js', 'nodejs', 'нода'],
+  'HTML': ['html', 'html5', 'хтмл'],
+  'CSS': ['css', 'css3', 'scss', 'sass', 'less'],
+  'Python': ['python', 'python3', 'питон', 'пайтон'],
+  'Django': ['django', 'джанго'],
+  'FastAPI': ['fastapi', 'fast api'],
+  'Java': ['java', 'джава', 'ява'],
+  'Spring': ['spring', 'spring boot', 'spring framework'],
+  'Kotlin': ['kotlin', 'котлин'],
+  'C#': ['c#', 'csharp', 'c sharp', 'си шарп'],
+  '.NET': ['.net', 'dotnet', 'asp.net', '.net core', 'дотнет'],
+  'Go': ['go', 'golang', 'голанг'],
+  'PHP': ['php', 'пхп'],
+  'SQL': ['sql', 'скл'],
+  'PostgreSQL': ['postgresql', 'postgres', 'pg', 'постгрес', 'постгрес sql'],
+  'MySQL': ['mysql', 'май скл'],
+  'MongoDB': ['mongodb', 'mongo', 'монго'],
+  'Redis': ['redis', 'редис'],
+  'Kafka': ['kafka', 'apache kafka', 'кафка'],
+  'RabbitMQ': ['rabbitmq', 'rabbit mq', 'кролик'],
+  'Docker': ['docker', 'докер'],
+  'Kubernetes': ['kubernetes', 'k8s', 'кубернетес', 'кубер'],
+  'Git': ['git', 'гит', 'github', 'gitlab'],
+  'CI/CD': ['ci/cd', 'continuous integration', 'gitlab ci', 'github actions', 'jenkins'],
+  'Linux': ['linux', 'линукс', 'unix'],
+  'REST API': ['rest', 'rest api', 'restful', 'restful api'],
+  'GraphQL': ['graphql', 'graph ql'],
+  '1С': ['1с', '1c', '1с:предприятие', '1c:enterprise'],
+  'Excel': ['excel', 'ms excel', 'microsoft excel', 'эксель'],
+  'Power BI': ['power bi', 'powerbi'],
+  'English': ['english', 'английский', 'английский язык', 'english language'],
+  'Agile': ['agile', 'аджайл', 'scrum', 'скрам', 'kanban', 'канбан'],
+  'Figma': ['figma', 'фигма']
+};
+
+// Skills that transfer well enough to count as "adjacent" rather than missing
+const ADJACENT_SKILLS: Record<string, string[]> = {
+  'JavaScript': ['TypeScript'],
+  'TypeScript': ['JavaScript'],
+  'React': ['Vue.js', 'Angular', 'Next.js'],
+  'Vue.js': ['React', 'Angular'],
+  'Angular': ['React', 'Vue.js'],
+  'Next.js': ['React'],
+  'Redux': ['React'],
+  'Node.js': ['JavaScript', 'TypeScript'],
+  'Python': ['Django', 'FastAPI'],
+  'Django': ['Python', 'FastAPI'],
+  'FastAPI': ['Python', 'Django'],
+  'Java': ['Kotlin', 'Spring'],
+  'Kotlin': ['Java'],
+  'Spring': ['Java'],
+  'C#': ['.NET', 'Java'],
+  '.NET': ['C#'],
+  'SQL': ['PostgreSQL', 'MySQL'],
+  'PostgreSQL': ['SQL', 'MySQL'],
+  'MySQL': ['SQL', 'PostgreSQL'],
+  'MongoDB': ['Redis'],
+  'Kafka': ['RabbitMQ'],
+  'RabbitMQ': ['Kafka'],
+  'Docker': ['Kubernetes'],
+  'Kubernetes': ['Docker'],
+  'CI/CD': ['Git', 'Docker'],
+  'REST API': ['GraphQL'],
+  'GraphQL': ['REST API'],
+  'Excel': ['Power BI', 'SQL'],
+  'Power BI': ['Excel', 'SQL']
+};
+
+const aliasIndex = new Map<string, string>();
+Object.keys(SKILL_ALIASES).forEach(canonical => {
+  aliasIndex.set(canonical.toLowerCase(), canonical);
+  SKILL_ALIASES[canonical].forEach(alias => aliasIndex.set(alias, canonical));
+});
+
+function cleanSkill(skill: string): string {
+  return skill
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[«»"']/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Canonical name for known skills; unknown ones are compared by their cleaned spelling
+export function normalizeSkill(skill: string): string {
+  const cleaned = cleanSkill(skill);
+  return aliasIndex.get(cleaned)
+    ?? aliasIndex.get(cleaned.replace(/\s*\d+(\.\d+)*\+?$/, '')) // "Python 3", "Vue 3.x"
+    ?? cleaned;
+}
+
+export function analyzeSkillGap(vacancyId: string, vacancySkills: string[], userSkills: string[]): Omit<SkillGap, 'profileName'> {
+  const userByKey = new Map<string, string>();
+  userSkills.forEach(skill => userByKey.set(normalizeSkill(skill), skill));
+
+  const matched: string[] = [];
+  const missing: string[] = [];
+  const adjacent: SkillGap['adjacent'] = [];
+  const seen = new Set<string>();
+
+  for (const skill of vacancySkills) {
+    const key = normalizeSkill(skill);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+
+    if (userByKey.has(key)) {
+      matched.push(skill);
+      continue;
+    }
+
+    const relatedTo = (ADJACENT_SKILLS[key] || [])
+      .filter(related => userByKey.has(related))
+      .map(related => userByKey.get(related)!);
+    if (relatedTo.length > 0) {
+      adjacent.push({ skill, relatedTo });
+    } else {
+      missing.push(skill);
+    }
+  }
+
+  const total = matched.length + missing.length + adjacent.length;
+  // Adjacent skills count half towards coverage
+  const coverage = total ? Math.round(((matched.length + adjacent.length * 0.5) / total) * 100) : 0;
+
+  return { vacancyId, matched, missing, adjacent, coverage };
+}
+
+// Most frequent missing skills over a result set, grouped by canonical name
+export function aggregateMissingSkills(gaps: Array<Pick<SkillGap, 'missing'>>): SkillGapAggregateEntry[] {
+  const counts = new Map<string, SkillGapAggregateEntry>();
+  for (const gap of gaps) {
+    for (const skill of gap.missing) {
+      const key = normalizeSkill(skill);
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(key, { skill: aliasIndex.get(key.toLowerCase()) === key ? key : skill, count: 1 });
+      }
+    }
+  }
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.skill.localeCompare(b.skill));
+}
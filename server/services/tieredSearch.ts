@@ -0,0 +1,471 @@
+import {
+  builtInScoringProfiles,
+  type ExcludedVacancy,
+  type FilterMatchRequest,
+  type FitRankingInfo,
+  type ScoreContribution,
+  type ScoredVacancy,
+  type ScoringProfileConfig,
+  type ScoringProfileRef,
+  type SearchRunResponse,
+  type SearchTier,
+  type SearchTierInfo
+} from "@shared/schema";
+import { parseExcludeWords } from "@shared/hhQuery";
+import type { VacancySearchClient } from "./hhClient";
+import { compileExclusions, findExclusion, toExcludedVacancy, vacancyExclusionTexts } from "./exclusionFilter";
+import { collapseDuplicates, findRepost, type PreviousApplication } from "./duplicateDetection";
+
+export { parseExcludeWords };
+
+// Below this many merged results an AND search is reported as broadened to OR
+export const AND_OR_THRESHOLD = 30;
+
+const HH_PER_PAGE = 100; // HH.ru maximum
+
+export const DEFAULT_SCORING_CONFIG: ScoringProfileConfig = builtInScoringProfiles[0].config;
+
+export interface TieredSearchOptions {
+  // Extra pause between pages; HH pacing itself is up to the client's scheduler
+  pageDelayMs?: number;
+  now?: number;
+  scoringConfig?: ScoringProfileConfig;
+}
+
+// Raw HH items per tier, before exclusion and scoring - what the route caches
+export interface RawTierResult {
+  tier: SearchTier;
+  count: number;
+  items: any[];
+}
+
+export interface TieredSearchResult {
+  items: ScoredVacancy[];
+  tierInfo: SearchTierInfo;
+  excluded: ExcludedVacancy[];
+  fitRanking?: FitRankingInfo;
+}
+
+// Per-request data ranking uses besides the raw tiers: detail-page data the
+// exclusion filter can use for vacancies already fetched, the user's
+// employer lists (HH employer IDs) and their earlier applications
+export interface RankingContext {
+  getVacancySkills?: (vacancyId: string) => string[] | undefined;
+  // Exclusions consult it only when filters.excludeInDescription is set;
+  // duplicate detection always compares full texts when it has them
+  getVacancyText?: (vacancyId: string) => string | undefined;
+  blockedEmployerIds?: Set<string>;
+  favoriteEmployerIds?: Set<string>;
+  previousApplications?: PreviousApplication[];
+}
+
+// Flat points for a favorite employer - enough to lift a vacancy over a plain
+// title match, not enough to beat a weak one with a strong keyword match
+export const FAVORITE_EMPLOYER_BOOST = 20;
+
+export interface VacancyScore {
+  score: number;
+  breakdown: ScoreContribution[];
+}
+
+// Rebuilds the filter-match request Step 4 used to send from the wizard filters
+export function toFilterMatchRequest(selectedKeywords: string[], filters: Record<string, any>): FilterMatchRequest {
+  return {
+    selectedKeywords,
+    enableLocationFilter: filters.enableLocationFilter,
+    enableExperienceFilter: filters.enableExperienceFilter,
+    enableEmploymentFilter: filters.enableEmploymentFilter,
+    enableScheduleFilter: filters.enableScheduleFilter,
+    enableSalaryFilter: filters.enableSalaryFilter,
+    enableMetroFilter: filters.enableMetroFilter,
+    enableLabelFilter: filters.enableLabelFilter,
+    enableEducationFilter: filters.enableEducationFilter,
+    enableWorkFormatFilter: filters.enableWorkFormatFilter,
+    locationText: filters.locationText,
+    remoteHybrid: {
+      remoteOnly: !!filters.remoteOnly,
+      hybridOk: !!filters.hybridOk
+    },
+    experienceText: filters.experience,
+    incomeNumber: filters.salary || undefined,
+    currency: filters.currency,
+    employmentTypes: filters.employmentTypes,
+    scheduleTypes: filters.scheduleTypes,
+    onlyWithSalary: filters.onlyWithSalary,
+    period: filters.period,
+    orderBy: filters.orderBy,
+    metroStation: filters.metroStation,
+    searchFields: filters.searchFields,
+    vacancyLabels: filters.vacancyLabels,
+    employerName: filters.employerName,
+    educationLevel: filters.educationLevel,
+    workFormats: filters.workFormats,
+    titleFirstSearch: filters.titleFirstSearch,
+    useExactPhrases: filters.useExactPhrases,
+    useAndAcrossPhrases: filters.useAndAcrossPhrases,
+    enableDebugMode: filters.enableDebugMode,
+    excludeWords: filters.excludeWords,
+    customQuery: filters.customQuery
+  };
+}
+
+// Trimmed list item; keeps published_at and employer id for the tiebreakers
+export function toVacancySummary(item: any) {
+  return {
+    id: String(item.id),
+    name: item.name,
+    employer: { id: item.employer?.id, name: item.employer?.name },
+    area: { name: item.area?.name },
+    snippet: item.snippet,
+    salary: item.salary,
+    alternate_url: item.alternate_url,
+    published_at: item.published_at,
+    experience: item.experience ? { id: item.experience.id, name: item.experience.name } : undefined
+  };
+}
+
+function vacancyText(vacancy: any) {
+  return {
+    title: vacancy.name?.toLowerCase() || '',
+    description: vacancy.snippet?.requirement?.toLowerCase() || '',
+    responsibility: vacancy.snippet?.responsibility?.toLowerCase() || '',
+    skills: vacancy.key_skills?.map((skill: any) => skill.name?.toLowerCase()).join(' ') || ''
+  };
+}
+
+export function isVacancyExcluded(vacancy: any, excludeKeywords: string[]): boolean {
+  return findExclusion(vacancyExclusionTexts(vacancy), compileExclusions(excludeKeywords)) !== null;
+}
+
+// Each non-zero contribution is kept so the UI can explain the final score
+export function scoreVacancy(
+  vacancy: any,
+  keywords: string[],
+  config: ScoringProfileConfig = DEFAULT_SCORING_CONFIG,
+  now: number = Date.now()
+): VacancyScore {
+  const { weights, keywordWeights, employerBoosts } = config;
+  const breakdown: ScoreContribution[] = [];
+  const add = (label: string, points: number) => {
+    if (points !== 0) breakdown.push({ label, points: Math.round(points * 100) / 100 });
+  };
+
+  const { title, description, responsibility } = vacancyText(vacancy);
+
+  for (const keyword of keywords) {
+    const keywordLower = keyword.toLowerCase();
+    const multiplier = keywordWeights[keywordLower] ?? 1;
+
+    // Title matches (highest value)
+    if (title.startsWith(keywordLower)) {
+      add(`Title starts with "${keyword}"`, weights.titleStart * multiplier);
+    } else if (title.includes(keywordLower)) {
+      add(`Title contains "${keyword}"`, weights.titleContains * multiplier);
+    }
+
+    if (description.includes(keywordLower) || responsibility.includes(keywordLower)) {
+      add(`Description mentions "${keyword}"`, weights.descriptionMatch * multiplier);
+    }
+  }
+
+  if (vacancy.salary) {
+    add('Salary published', weights.hasSalary);
+    if (vacancy.salary.from && vacancy.salary.from > weights.highSalaryThreshold) {
+      add(`Salary above ${weights.highSalaryThreshold.toLocaleString('ru-RU')}`, weights.highSalary);
+    }
+  }
+
+  if (vacancy.published_at) {
+    const daysDiff = (now - new Date(vacancy.published_at).getTime()) / (1000 * 60 * 60 * 24);
+    if (daysDiff <= 3) {
+      add('Posted in the last 3 days', weights.postedWithin3Days);
+    } else if (daysDiff <= 7) {
+      add('Posted in the last 7 days', weights.postedWithin7Days);
+    }
+  }
+
+  const employerName = vacancy.employer?.name?.toLowerCase();
+  const employerBoost = (vacancy.employer?.id && employerBoosts[String(vacancy.employer.id)]) ??
+    (employerName ? employerBoosts[employerName] : undefined);
+  if (employerBoost) {
+    add(`Employer ${employerBoost > 0 ? 'boost' : 'penalty'} (${vacancy.employer?.name})`, employerBoost);
+  }
+
+  const score = Math.round(breakdown.reduce((sum, part) => sum + part.points, 0) * 100) / 100;
+  return { score, breakdown };
+}
+
+// Deterministic order: score desc → posted_at desc → salary desc → employer asc → vacancy id asc
+export function compareScoredVacancies(a: ScoredVacancy, b: ScoredVacancy): number {
+  if (a.relevanceScore !== b.relevanceScore) {
+    return b.relevanceScore - a.relevanceScore;
+  }
+
+  if (a.published_at && b.published_at) {
+    const dateA = new Date(a.published_at).getTime();
+    const dateB = new Date(b.published_at).getTime();
+    if (dateA !== dateB) {
+      return dateB - dateA;
+    }
+  }
+
+  const salaryA = a.salary?.from || a.salary?.to || 0;
+  const salaryB = b.salary?.from || b.salary?.to || 0;
+  if (salaryA !== salaryB) {
+    return salaryB - salaryA;
+  }
+
+  const employerA = a.employer?.id || a.employer?.name || '';
+  const employerB = b.employer?.id || b.employer?.name || '';
+  if (employerA !== employerB) {
+    return employerA.localeCompare(employerB);
+  }
+
+  return a.id.localeCompare(b.id);
+}
+
+function annotateVacancy(
+  vacancy: any,
+  tier: SearchTier,
+  keywords: string[],
+  config: ScoringProfileConfig,
+  now: number,
+  isFavorite: boolean
+): ScoredVacancy {
+  const { title, description, responsibility, skills } = vacancyText(vacancy);
+  const fullText = `${title} ${description} ${responsibility} ${skills}`;
+  let { score, breakdown } = scoreVacancy(vacancy, keywords, config, now);
+  if (isFavorite) {
+    breakdown = [...breakdown, { label: 'Favorite employer', points: FAVORITE_EMPLOYER_BOOST }];
+    score = Math.round((score + FAVORITE_EMPLOYER_BOOST) * 100) / 100;
+  }
+
+  return {
+    ...toVacancySummary(vacancy),
+    searchTier: tier,
+    relevanceScore: score,
+    scoreBreakdown: breakdown,
+    fitScore: null,
+    matchedKeywords: keywords.filter(keyword => fullText.includes(keyword.toLowerCase())),
+    matchLocation: {
+      title: keywords.some(keyword => title.includes(keyword.toLowerCase())),
+      description: keywords.some(keyword =>
+        description.includes(keyword.toLowerCase()) || responsibility.includes(keyword.toLowerCase())
+      ),
+      skills: tier === 'Skills' || !!vacancy.key_skills?.some((skill: any) =>
+        keywords.some(keyword => skill.name?.toLowerCase().includes(keyword.toLowerCase()))
+      )
+    },
+    duplicates: [],
+    repostOf: null
+  };
+}
+
+async function fetchTierPages(
+  client: VacancySearchClient,
+  baseParams: Record<string, any>,
+  searchField: string,
+  maxPages: number,
+  pageDelayMs: number
+): Promise<{ items: any[]; count: number }> {
+  const items: any[] = [];
+  let count = 0;
+
+  for (let page = 0; page < maxPages; page++) {
+    try {
+      const { data } = await client.searchVacancies({
+        ...baseParams,
+        search_field: searchField,
+        page,
+        per_page: HH_PER_PAGE
+      });
+
+      if (page === 0) {
+        count = data.found || 0;
+      }
+      if (!data.items || data.items.length === 0) break;
+      items.push(...data.items);
+      if (page >= (data.pages ?? maxPages) - 1) break;
+    } catch (error: any) {
+      // Rate limits surface to the caller; anything else just ends this tier
+      if (error.error === 'rate_limited') throw error;
+      console.warn(`Tiered search: page ${page} for search_field=${searchField} failed:`, error?.message || error);
+      break;
+    }
+
+    if (pageDelayMs > 0 && page < maxPages - 1) {
+      await new Promise(resolve => setTimeout(resolve, pageDelayMs));
+    }
+  }
+
+  return { items, count };
+}
+
+// Safe Mode filters little, so it loads more; single keywords get one extra page
+function tierPlan(keywords: string[], filters: Record<string, any>) {
+  const isSafeMode = !!filters.safeMode;
+  const pageCount = (basePages: number) => {
+    if (isSafeMode) return basePages + 2;
+    if (keywords.length === 1) return basePages + 1;
+    return basePages;
+  };
+
+  const skillsSearchField = (isSafeMode || filters.useCompanyFallback) ? 'company_name' : 'name';
+  return [
+    { tier: 'Title' as const, searchField: 'name', pages: pageCount(4) },
+    { tier: 'Description' as const, searchField: 'description', pages: pageCount(3) },
+    { tier: 'Skills' as const, searchField: skillsSearchField, pages: pageCount(2) }
+  ];
+}
+
+export async function fetchSearchTiers(
+  client: VacancySearchClient,
+  hhParams: Record<string, any>,
+  keywords: string[],
+  filters: Record<string, any>,
+  options: Pick<TieredSearchOptions, 'pageDelayMs'> = {}
+): Promise<RawTierResult[]> {
+  const { pageDelayMs = 0 } = options;
+
+  const baseParams = { ...hhParams };
+  delete baseParams.search_field;
+
+  const tiers: RawTierResult[] = [];
+  for (const { tier, searchField, pages } of tierPlan(keywords, filters)) {
+    const { items, count } = await fetchTierPages(client, baseParams, searchField, pages, pageDelayMs);
+    tiers.push({ tier, count, items });
+  }
+  return tiers;
+}
+
+function employerIdOf(vacancy: any): string | undefined {
+  return vacancy.employer?.id ? String(vacancy.employer.id) : undefined;
+}
+
+// Blocked employers, hard exclusion, scoring, A → B → C dedup and the
+// deterministic sort - formerly done page by page in Step4Viewer
+export function rankSearchTiers(
+  tiers: RawTierResult[],
+  keywords: string[],
+  filters: Record<string, any>,
+  config: ScoringProfileConfig = DEFAULT_SCORING_CONFIG,
+  now: number = Date.now(),
+  context: RankingContext = {}
+): TieredSearchResult {
+  const isSafeMode = !!filters.safeMode;
+  const useAnd = isSafeMode ? false : (!!filters.useAndAcrossPhrases && keywords.length > 1);
+  const exclusionRules = compileExclusions(isSafeMode ? [] : parseExcludeWords(filters.excludeWords));
+  const getVacancyText = filters.excludeInDescription ? context.getVacancyText : undefined;
+  const blocked = context.blockedEmployerIds ?? new Set<string>();
+  const favorites = context.favoriteEmployerIds ?? new Set<string>();
+
+  let excludedCount = 0;
+  let blockedCount = 0;
+  const excluded = new Map<string, ExcludedVacancy>();
+  const tierResults = tiers.map(({ tier, count, items }) => ({
+    tier,
+    count,
+    items: items
+      .filter(vacancy => {
+        const employerId = employerIdOf(vacancy);
+        if (employerId && blocked.has(employerId)) {
+          blockedCount++;
+          return false;
+        }
+        return true;
+      })
+      .filter(vacancy => {
+        if (exclusionRules.length === 0) return true;
+        const id = String(vacancy.id);
+        const match = findExclusion(
+          vacancyExclusionTexts(vacancy, context.getVacancySkills?.(id), getVacancyText?.(id)),
+          exclusionRules
+        );
+        if (!match) return true;
+        excludedCount++;
+        if (!excluded.has(id)) excluded.set(id, toExcludedVacancy(vacancy, tier, match));
+        return false;
+      })
+      .map(vacancy => {
+        const employerId = employerIdOf(vacancy);
+        return annotateVacancy(vacancy, tier, keywords, config, now, !!employerId && favorites.has(employerId));
+      })
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+  }));
+
+  const totalResults = tierResults.reduce((sum, tier) => sum + tier.items.length, 0);
+  const usedFallback = useAnd && totalResults < AND_OR_THRESHOLD;
+
+  // Merge A → B → C so a vacancy keeps the most specific tier it matched
+  const seenIds = new Set<string>();
+  const merged: ScoredVacancy[] = [];
+  for (const tierResult of tierResults) {
+    for (const item of tierResult.items) {
+      if (!seenIds.has(item.id)) {
+        seenIds.add(item.id);
+        merged.push(item);
+      }
+    }
+  }
+  merged.sort(compareScoredVacancies);
+
+  // Same job under several IDs collapses into its best-ranked card
+  const { items, duplicateCount } = collapseDuplicates(merged, context.getVacancyText);
+  const applications = context.previousApplications ?? [];
+  if (applications.length > 0) {
+    items.forEach(item => {
+      item.repostOf = findRepost(item, applications);
+    });
+  }
+
+  const countFor = (tier: SearchTier) => tierResults.find(result => result.tier === tier)?.count || 0;
+  const tierInfo: SearchTierInfo = {
+    titleCount: countFor('Title'),
+    descriptionCount: countFor('Description'),
+    skillsCount: countFor('Skills'),
+    totalAfterDedup: items.length,
+    excludedCount,
+    blockedCount,
+    duplicateCount,
+    usedFallback
+  };
+
+  if (filters.enableDebugMode) {
+    console.log('🔍 Tiered Search Results:');
+    tierResults.forEach(tier => console.log(`  ${tier.tier}: ${tier.count} found, ${tier.items.length} kept`));
+    console.log(`  Total after dedup: ${items.length}, duplicates: ${duplicateCount}, excluded: ${excludedCount}, blocked: ${blockedCount}, fallback: ${usedFallback}`);
+  }
+
+  return { items, tierInfo, excluded: Array.from(excluded.values()) };
+}
+
+export async function runTieredSearch(
+  client: VacancySearchClient,
+  hhParams: Record<string, any>,
+  keywords: string[],
+  filters: Record<string, any>,
+  options: TieredSearchOptions = {}
+): Promise<TieredSearchResult> {
+  const tiers = await fetchSearchTiers(client, hhParams, keywords, filters, options);
+  return rankSearchTiers(tiers, keywords, filters, options.scoringConfig, options.now);
+}
+
+export function paginateSearchResult(
+  result: TieredSearchResult,
+  page: number,
+  perPage: number,
+  scoringProfile: ScoringProfileRef = 'default'
+): SearchRunResponse {
+  const found = result.items.length;
+  return {
+    items: result.items.slice(page * perPage, (page + 1) * perPage),
+    found,
+    pages: Math.ceil(found / perPage),
+    page,
+    per_page: perPage,
+    tierInfo: result.tierInfo,
+    excluded: result.excluded,
+    scoringProfile,
+    fitRanking: result.fitRanking ?? null
+  };
+}
@@ -0,0 +1,166 @@
+import type { JobApplication } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { storage } from "../storage";
+import { hhClient, type VacancySearchClient } from "./hhClient";
+import { toVacancySummary } from "./tieredSearch";
+
+export interface WatchSchedulerOptions {
+  tickIntervalMs?: number;
+  maxPages?: number;
+  perPage?: number;
+  // Oldest known IDs beyond this are forgotten
+  maxKnownIds?: number;
+}
+
+export interface WatchRunResult {
+  applicationId: number;
+  found: number;
+  newCount: number;
+  baseline: boolean;
+}
+
+export class WatchScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private tickIntervalMs: number;
+  private maxPages: number;
+  private perPage: number;
+  private maxKnownIds: number;
+
+  constructor(
+    private store: IStorage,
+    private client: VacancySearchClient,
+    options: WatchSchedulerOptions = {}
+  ) {
+    this.tickIntervalMs = options.tickIntervalMs ?? 60 * 1000;
+    this.maxPages = options.maxPages ?? 3;
+    this.perPage = options.perPage ?? 100;
+    this.maxKnownIds = options.maxKnownIds ?? 2000;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('👁️ Watch scheduler tick failed:', error));
+    }, this.tickIntervalMs);
+    // Never keep the process alive just for watched searches
+    this.timer.unref();
+    console.log(`👁️ Watch scheduler started (tick every ${Math.round(this.tickIntervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isDue(app: JobApplication, now: Date = new Date()): boolean {
+    if (!app.isWatched || !app.watchParams) return false;
+    if (!app.lastRunAt) return true;
+    return now.getTime() - app.lastRunAt.getTime() >= app.watchIntervalMinutes * 60 * 1000;
+  }
+
+  // Runs every due watched search once; overlapping ticks are skipped
+  async tick(now: Date = new Date()): Promise<WatchRunResult[]> {
+    if (this.running) return [];
+    this.running = true;
+
+    const results: WatchRunResult[] = [];
+    try {
+      const watched = await this.store.getWatchedJobApplications();
+      for (const app of watched.filter(app => this.isDue(app, now))) {
+        try {
+          results.push(await this.runWatch(app, now));
+        } catch (error: any) {
+          if (error.error === 'rate_limited') {
+            // Leave the remaining searches for the next tick
+            console.warn(`👁️ Watch run for application ${app.id} rate limited, retrying in ${error.retryInMs}ms+`);
+            break;
+          }
+          console.error(`👁️ Watch run for application ${app.id} failed:`, error?.message || error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+    return results;
+  }
+
+  // The first run only records a baseline; later runs accumulate unseen vacancies
+  // in newVacancies until the user acknowledges them
+  async runWatch(app: JobApplication, now: Date = new Date()): Promise<WatchRunResult> {
+    if (!app.watchParams) {
+      throw new Error(`Application ${app.id} has no watch parameters`);
+    }
+
+    const items = await this.fetchAll(app.watchParams);
+
+    // The fetch can sit in the background queue for a while; meanwhile the user
+    // may have acknowledged new vacancies or changed the search
+    const current = await this.store.getJobApplication(app.id);
+    if (!current || !current.isWatched || JSON.stringify(current.watchParams) !== JSON.stringify(app.watchParams)) {
+      console.log(`👁️ Watch run for application ${app.id} discarded, the search changed while it ran`);
+      return { applicationId: app.id, found: items.length, newCount: 0, baseline: false };
+    }
+
+    const baseline = !current.lastRunAt;
+    const known = new Set(current.knownVacancyIds);
+    const pending = new Set(current.newVacancies.map((vacancy: any) => vacancy.id));
+    // Blocked employers are still recorded as known, just never reported as new
+    const blocked = new Set((await this.store.getEmployerListEntries(current.userId))
+      .filter(entry => entry.kind === 'blocked')
+      .map(entry => entry.employerId));
+
+    const fresh = baseline
+      ? []
+      : items.filter(item => !known.has(item.id) && !pending.has(item.id) &&
+          !(item.employer.id && blocked.has(String(item.employer.id))));
+
+    const itemIds = items.map(item => item.id);
+    await this.store.updateJobApplicationWatchState(app.id, {
+      lastRunAt: now,
+      knownVacancyIds: this.capKnownIds(Array.from(new Set([...current.knownVacancyIds, ...itemIds])), new Set(itemIds)),
+      newVacancies: [...fresh, ...current.newVacancies]
+    });
+
+    console.log(`👁️ Watch run for application ${app.id}: found=${items.length}, new=${fresh.length}${baseline ? ' (baseline)' : ''}`);
+
+    return { applicationId: app.id, found: items.length, newCount: fresh.length, baseline };
+  }
+
+  // Drops the oldest IDs, but never ones in the current results: those would
+  // come back as new on the next run
+  private capKnownIds(ids: string[], inResults: Set<string>): string[] {
+    let excess = ids.length - this.maxKnownIds;
+    if (excess <= 0) return ids;
+    return ids.filter(id => {
+      if (excess > 0 && !inResults.has(id)) {
+        excess--;
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private async fetchAll(watchParams: Record<string, any>) {
+    const items: ReturnType<typeof toVacancySummary>[] = [];
+
+    for (let page = 0; page < this.maxPages; page++) {
+      const { data } = await this.client.searchVacancies({
+        ...watchParams,
+        order_by: 'publication_time',
+        per_page: this.perPage,
+        page
+      });
+
+      items.push(...(data.items || []).map(toVacancySummary));
+      if (page >= (data.pages ?? 1) - 1) break;
+    }
+
+    return items;
+  }
+}
+
+// Refreshes run at background priority, behind anything a user is waiting on
+export const watchScheduler = new WatchScheduler(storage, hhClient.withPriority('background'));
@@ -4,15 +4,47 @@ import {
   type JobApplication, 
   type InsertJobApplication, 
   type UpdateJobApplication,
+  type JobApplicationWatchState,
   type CreateUserRequest,
   type UpdateUserRequest,
   type SavedPrompt,
   type InsertSavedPromptWithUser,
   type UpdateSavedPrompt,
+  type ScoringProfile,
+  type InsertScoringProfileWithUser,
+  type UpdateScoringProfile,
+  type Profile,
+  type InsertProfileWithUser,
+  type UpdateProfile,
+  type EmployerListEntry,
+  type InsertEmployerListEntry,
   type UserSettings,
   type InsertUserSettings,
-  type UpdateUserSettings
+  type UpdateUserSettings,
+  type AppliedVacancy,
+  type InsertAppliedVacancy,
+  type UpdateAppliedVacancy,
+  type AppliedVacancyStatusChange,
+  type InsertAppliedVacancyStatusChange,
+  type AppliedVacancyStatus,
+  type AIUsageRecord,
+  type InsertAIUsageRecord,
+  type AIUsageTotals,
+  type AIQuota,
+  type AIQuotaLimits,
+  users,
+  jobApplications,
+  savedPrompts,
+  scoringProfiles,
+  profiles,
+  employerListEntries,
+  userSettings,
+  appliedVacancies,
+  appliedVacancyStatusHistory,
+  aiUsage,
+  aiQuotas
 } from "@shared/schema";
+import { and, desc, eq, gte, inArray, ne, sql } from "drizzle-orm";
 
 export interface IStorage {
   // User management
@@ -28,8 +60,11 @@ export interface IStorage {
   getJobApplicationsByUser(userId: number): Promise<JobApplication[]>;
   getLatestJobApplication(userId: number): Promise<JobApplication | undefined>;
   createJobApplication(application: InsertJobApplication): Promise<JobApplication>;
-  updateJobApplication(id: number, updates: UpdateJobApplication): Promise<JobApplication | undefined>;
+  // `watchState` is written along with the user's changes, e.g. rebuilt watch parameters
+  updateJobApplication(id: number, updates: UpdateJobApplication, watchState?: JobApplicationWatchState): Promise<JobApplication | undefined>;
   deleteJobApplication(id: number): Promise<void>;
+  getWatchedJobApplications(): Promise<JobApplication[]>;
+  updateJobApplicationWatchState(id: number, state: JobApplicationWatchState): Promise<JobApplication | undefined>;
   
   // Saved prompt management
   getSavedPrompt(id: number): Promise<SavedPrompt | undefined>;
@@ -39,31 +74,107 @@ export interface IStorage {
   deleteSavedPrompt(id: number): Promise<void>;
   getSavedPromptByUserAndName(userId: number, name: string): Promise<SavedPrompt | undefined>;
   
+  // Scoring profile management
+  getScoringProfile(id: number): Promise<ScoringProfile | undefined>;
+  getScoringProfilesByUser(userId: number): Promise<ScoringProfile[]>;
+  getScoringProfileByUserAndName(userId: number, name: string): Promise<ScoringProfile | undefined>;
+  createScoringProfile(profile: InsertScoringProfileWithUser): Promise<ScoringProfile>;
+  updateScoringProfile(id: number, updates: UpdateScoringProfile): Promise<ScoringProfile | undefined>;
+  deleteScoringProfile(id: number): Promise<void>;
+  
+  // Resume/profile management; at most one default per user
+  getProfile(id: number): Promise<Profile | undefined>;
+  getProfilesByUser(userId: number): Promise<Profile[]>;
+  getDefaultProfile(userId: number): Promise<Profile | undefined>;
+  createProfile(profile: InsertProfileWithUser): Promise<Profile>;
+  updateProfile(id: number, updates: UpdateProfile): Promise<Profile | undefined>;
+  deleteProfile(id: number): Promise<void>;
+  
+  // Employer block/favorite lists; one entry per user and HH employer ID
+  getEmployerListEntries(userId: number): Promise<EmployerListEntry[]>;
+  upsertEmployerListEntry(entry: InsertEmployerListEntry): Promise<EmployerListEntry>;
+  deleteEmployerListEntry(userId: number, employerId: string): Promise<void>;
+  
   // User settings management
   getUserSettings(userId: number): Promise<UserSettings | undefined>;
   createUserSettings(settings: InsertUserSettings): Promise<UserSettings>;
   updateUserSettings(userId: number, updates: UpdateUserSettings): Promise<UserSettings | undefined>;
+  
+  // Applied vacancy management
+  getAppliedVacancy(id: number): Promise<AppliedVacancy | undefined>;
+  getAppliedVacancyByUserAndVacancy(userId: number, vacancyId: string): Promise<AppliedVacancy | undefined>;
+  getAppliedVacanciesByUser(userId: number, vacancyIds?: string[]): Promise<AppliedVacancy[]>;
+  // Undefined when the user has already applied to the vacancy
+  createAppliedVacancy(appliedVacancy: InsertAppliedVacancy): Promise<AppliedVacancy | undefined>;
+  updateAppliedVacancy(id: number, updates: UpdateAppliedVacancy): Promise<AppliedVacancy | undefined>;
+  deleteAppliedVacancy(id: number): Promise<void>;
+  getAppliedVacancyStatusHistory(appliedVacancyId: number): Promise<AppliedVacancyStatusChange[]>;
+  createAppliedVacancyStatusChange(change: InsertAppliedVacancyStatusChange): Promise<AppliedVacancyStatusChange>;
+  // Moves the status and records the change together; undefined when the
+  // status is no longer `fromStatus` (someone else moved it first)
+  transitionAppliedVacancyStatus(
+    id: number,
+    fromStatus: AppliedVacancyStatus,
+    toStatus: AppliedVacancyStatus,
+    note: string | null
+  ): Promise<{ appliedVacancy: AppliedVacancy; change: AppliedVacancyStatusChange } | undefined>;
+  
+  // AI usage accounting; totals are grouped by user and feature
+  recordAIUsage(entry: InsertAIUsageRecord): Promise<AIUsageRecord>;
+  getAIUsageTotals(since: Date, userId?: number): Promise<AIUsageTotals[]>;
+  getAIQuota(userId: number): Promise<AIQuota | undefined>;
+  getAIQuotas(): Promise<AIQuota[]>;
+  upsertAIQuota(userId: number, limits: AIQuotaLimits): Promise<AIQuota>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private jobApplications: Map<number, JobApplication>;
   private savedPrompts: Map<number, SavedPrompt>;
+  private scoringProfiles: Map<number, ScoringProfile>;
+  private profiles: Map<number, Profile>;
+  private employerListEntries: Map<number, EmployerListEntry>;
   private userSettings: Map<number, UserSettings>;
+  private appliedVacancies: Map<number, AppliedVacancy>;
+  private statusChanges: Map<number, AppliedVacancyStatusChange>;
+  private aiUsageRecords: Map<number, AIUsageRecord>;
+  private aiQuotas: Map<number, AIQuota>;
   private userIdCounter: number;
   private appIdCounter: number;
   private promptIdCounter: number;
+  private scoringProfileIdCounter: number;
+  private profileIdCounter: number;
+  private employerListEntryIdCounter: number;
   private settingsIdCounter: number;
+  private appliedVacancyIdCounter: number;
+  private statusChangeIdCounter: number;
+  private aiUsageIdCounter: number;
+  // Start of the UTC month usage records are kept from
+  private aiUsageKeptSince: Date;
 
   constructor() {
     this.users = new Map();
     this.jobApplications = new Map();
     this.savedPrompts = new Map();
+    this.scoringProfiles = new Map();
+    this.profiles = new Map();
+    this.employerListEntries = new Map();
     this.userSettings = new Map();
+    this.appliedVacancies = new Map();
+    this.statusChanges = new Map();
+    this.aiUsageRecords = new Map();
+    this.aiQuotas = new Map();
     this.userIdCounter = 1;
     this.appIdCounter = 1;
     this.promptIdCounter = 1;
+    this.scoringProfileIdCounter = 1;
+    this.profileIdCounter = 1;
+    this.employerListEntryIdCounter = 1;
     this.settingsIdCounter = 1;
+    this.appliedVacancyIdCounter = 1;
+    this.statusChangeIdCounter = 1;
+    this.aiUsageIdCounter = 1;
+    this.aiUsageKeptSince = new Date(0);
     
     // Create default admin user
     this.createDefaultAdmin();
@@ -153,19 +264,26 @@ export class MemStorage implements IStorage {
       ...appData,
       appliedVacancyIds: appData.appliedVacancyIds || [],
       lastEditedAt: new Date(),
-      createdAt: new Date()
+      createdAt: new Date(),
+      isWatched: false,
+      watchIntervalMinutes: 60,
+      watchParams: null,
+      lastRunAt: null,
+      knownVacancyIds: [],
+      newVacancies: []
     };
     this.jobApplications.set(application.id, application);
     return application;
   }
 
-  async updateJobApplication(id: number, updates: UpdateJobApplication): Promise<JobApplication | undefined> {
+  async updateJobApplication(id: number, updates: UpdateJobApplication, watchState: JobApplicationWatchState = {}): Promise<JobApplication | undefined> {
     const application = this.jobApplications.get(id);
     if (!application) return undefined;
 
     const updatedApplication: JobApplication = {
       ...application,
       ...updates,
+      ...watchState,
       lastEditedAt: new Date()
     };
     this.jobApplications.set(id, updatedApplication);
@@ -176,6 +294,20 @@ export class MemStorage implements IStorage {
     this.jobApplications.delete(id);
   }
 
+  async getWatchedJobApplications(): Promise<JobApplication[]> {
+    return Array.from(this.jobApplications.values()).filter(app => app.isWatched);
+  }
+
+  // Watch state is scheduler-owned, so it does not bump lastEditedAt
+  async updateJobApplicationWatchState(id: number, state: JobApplicationWatchState): Promise<JobApplication | undefined> {
+    const application = this.jobApplications.get(id);
+    if (!application) return undefined;
+
+    const updatedApplication: JobApplication = { ...application, ...state };
+    this.jobApplications.set(id, updatedApplication);
+    return updatedApplication;
+  }
+
   // Saved prompt management methods
   async getSavedPrompt(id: number): Promise<SavedPrompt | undefined> {
     return this.savedPrompts.get(id);
@@ -219,6 +351,134 @@ export class MemStorage implements IStorage {
     );
   }
 
+  // Scoring profile management methods
+  async getScoringProfile(id: number): Promise<ScoringProfile | undefined> {
+    return this.scoringProfiles.get(id);
+  }
+
+  async getScoringProfilesByUser(userId: number): Promise<ScoringProfile[]> {
+    return Array.from(this.scoringProfiles.values())
+      .filter(profile => profile.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getScoringProfileByUserAndName(userId: number, name: string): Promise<ScoringProfile | undefined> {
+    return Array.from(this.scoringProfiles.values()).find(
+      profile => profile.userId === userId && profile.name === name
+    );
+  }
+
+  async createScoringProfile(profileData: InsertScoringProfileWithUser): Promise<ScoringProfile> {
+    const now = new Date();
+    const profile: ScoringProfile = {
+      id: this.scoringProfileIdCounter++,
+      ...profileData,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.scoringProfiles.set(profile.id, profile);
+    return profile;
+  }
+
+  async updateScoringProfile(id: number, updates: UpdateScoringProfile): Promise<ScoringProfile | undefined> {
+    const profile = this.scoringProfiles.get(id);
+    if (!profile) return undefined;
+
+    const updatedProfile: ScoringProfile = {
+      ...profile,
+      ...updates,
+      updatedAt: new Date()
+    };
+    this.scoringProfiles.set(id, updatedProfile);
+    return updatedProfile;
+  }
+
+  async deleteScoringProfile(id: number): Promise<void> {
+    this.scoringProfiles.delete(id);
+  }
+
+  // Resume/profile management methods
+  async getProfile(id: number): Promise<Profile | undefined> {
+    return this.profiles.get(id);
+  }
+
+  async getProfilesByUser(userId: number): Promise<Profile[]> {
+    return Array.from(this.profiles.values())
+      .filter(profile => profile.userId === userId)
+      .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getDefaultProfile(userId: number): Promise<Profile | undefined> {
+    return Array.from(this.profiles.values()).find(
+      profile => profile.userId === userId && profile.isDefault
+    );
+  }
+
+  async createProfile(profileData: InsertProfileWithUser): Promise<Profile> {
+    const now = new Date();
+    const profile: Profile = {
+      id: this.profileIdCounter++,
+      ...profileData,
+      createdAt: now,
+      updatedAt: now
+    };
+    if (profile.isDefault) this.clearDefaultProfile(profile.userId, profile.id);
+    this.profiles.set(profile.id, profile);
+    return profile;
+  }
+
+  async updateProfile(id: number, updates: UpdateProfile): Promise<Profile | undefined> {
+    const profile = this.profiles.get(id);
+    if (!profile) return undefined;
+
+    const updatedProfile: Profile = {
+      ...profile,
+      ...updates,
+      updatedAt: new Date()
+    };
+    if (updates.isDefault) this.clearDefaultProfile(profile.userId, id);
+    this.profiles.set(id, updatedProfile);
+    return updatedProfile;
+  }
+
+  async deleteProfile(id: number): Promise<void> {
+    this.profiles.delete(id);
+  }
+
+  private clearDefaultProfile(userId: number, exceptId: number): void {
+    this.profiles.forEach((profile, id) => {
+      if (profile.userId === userId && id !== exceptId && profile.isDefault) {
+        this.profiles.set(id, { ...profile, isDefault: false });
+      }
+    });
+  }
+
+  // Employer list management methods
+  async getEmployerListEntries(userId: number): Promise<EmployerListEntry[]> {
+    return Array.from(this.employerListEntries.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => a.employerName.localeCompare(b.employerName));
+  }
+
+  async upsertEmployerListEntry(entryData: InsertEmployerListEntry): Promise<EmployerListEntry> {
+    const existing = Array.from(this.employerListEntries.values()).find(
+      entry => entry.userId === entryData.userId && entry.employerId === entryData.employerId
+    );
+    const entry: EmployerListEntry = existing
+      ? { ...existing, ...entryData }
+      : { id: this.employerListEntryIdCounter++, ...entryData, createdAt: new Date() };
+    this.employerListEntries.set(entry.id, entry);
+    return entry;
+  }
+
+  async deleteEmployerListEntry(userId: number, employerId: string): Promise<void> {
+    this.employerListEntries.forEach((entry, id) => {
+      if (entry.userId === userId && entry.employerId === employerId) {
+        this.employerListEntries.delete(id);
+      }
+    });
+  }
+
   // User settings management methods
   async getUserSettings(userId: number): Promise<UserSettings | undefined> {
     return Array.from(this.userSettings.values()).find(
@@ -254,6 +514,623 @@ export class MemStorage implements IStorage {
     
     return settings;
   }
+
+  // Applied vacancy management methods
+  async getAppliedVacancy(id: number): Promise<AppliedVacancy | undefined> {
+    return this.appliedVacancies.get(id);
+  }
+
+  async getAppliedVacancyByUserAndVacancy(userId: number, vacancyId: string): Promise<AppliedVacancy | undefined> {
+    return Array.from(this.appliedVacancies.values()).find(
+      applied => applied.userId === userId && applied.vacancyId === vacancyId
+    );
+  }
+
+  async getAppliedVacanciesByUser(userId: number, vacancyIds?: string[]): Promise<AppliedVacancy[]> {
+    return Array.from(this.appliedVacancies.values())
+      .filter(applied => applied.userId === userId)
+      .filter(applied => !vacancyIds || vacancyIds.includes(applied.vacancyId))
+      .sort((a, b) => b.appliedAt.getTime() - a.appliedAt.getTime());
+  }
+
+  async createAppliedVacancy(appliedData: InsertAppliedVacancy): Promise<AppliedVacancy | undefined> {
+    if (await this.getAppliedVacancyByUserAndVacancy(appliedData.userId, appliedData.vacancyId)) {
+      return undefined;
+    }
+    const appliedVacancy: AppliedVacancy = {
+      id: this.appliedVacancyIdCounter++,
+      ...appliedData,
+      appliedAt: new Date(),
+      statusUpdatedAt: new Date()
+    };
+    this.appliedVacancies.set(appliedVacancy.id, appliedVacancy);
+    return appliedVacancy;
+  }
+
+  async updateAppliedVacancy(id: number, updates: UpdateAppliedVacancy): Promise<AppliedVacancy | undefined> {
+    const appliedVacancy = this.appliedVacancies.get(id);
+    if (!appliedVacancy) return undefined;
+
+    const updatedAppliedVacancy: AppliedVacancy = {
+      ...appliedVacancy,
+      ...updates,
+      statusUpdatedAt: updates.status && updates.status !== appliedVacancy.status
+        ? new Date()
+        : appliedVacancy.statusUpdatedAt
+    };
+    this.appliedVacancies.set(id, updatedAppliedVacancy);
+    return updatedAppliedVacancy;
+  }
+
+  async deleteAppliedVacancy(id: number): Promise<void> {
+    this.appliedVacancies.delete(id);
+    Array.from(this.statusChanges.values())
+      .filter(change => change.appliedVacancyId === id)
+      .forEach(change => this.statusChanges.delete(change.id));
+  }
+
+  async getAppliedVacancyStatusHistory(appliedVacancyId: number): Promise<AppliedVacancyStatusChange[]> {
+    return Array.from(this.statusChanges.values())
+      .filter(change => change.appliedVacancyId === appliedVacancyId)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime() || a.id - b.id);
+  }
+
+  async createAppliedVacancyStatusChange(changeData: InsertAppliedVacancyStatusChange): Promise<AppliedVacancyStatusChange> {
+    const change: AppliedVacancyStatusChange = {
+      id: this.statusChangeIdCounter++,
+      ...changeData,
+      changedAt: new Date()
+    };
+    this.statusChanges.set(change.id, change);
+    return change;
+  }
+
+  async transitionAppliedVacancyStatus(
+    id: number,
+    fromStatus: AppliedVacancyStatus,
+    toStatus: AppliedVacancyStatus,
+    note: string | null
+  ): Promise<{ appliedVacancy: AppliedVacancy; change: AppliedVacancyStatusChange } | undefined> {
+    const current = this.appliedVacancies.get(id);
+    if (!current || current.status !== fromStatus) return undefined;
+
+    const appliedVacancy = (await this.updateAppliedVacancy(id, { status: toStatus }))!;
+    const change = await this.createAppliedVacancyStatusChange({ appliedVacancyId: id, fromStatus, toStatus, note });
+    return { appliedVacancy, change };
+  }
+
+  // AI usage accounting methods
+  async recordAIUsage(entryData: InsertAIUsageRecord): Promise<AIUsageRecord> {
+    const record: AIUsageRecord = { id: this.aiUsageIdCounter++, ...entryData, createdAt: new Date() };
+
+    // Quotas and the admin view read back to the start of the month at most,
+    // so earlier records are dropped once a new month begins
+    const monthStart = new Date(Date.UTC(record.createdAt.getUTCFullYear(), record.createdAt.getUTCMonth(), 1));
+    if (monthStart > this.aiUsageKeptSince) {
+      Array.from(this.aiUsageRecords.values()).forEach(existing => {
+        if (existing.createdAt < monthStart) this.aiUsageRecords.delete(existing.id);
+      });
+      this.aiUsageKeptSince = monthStart;
+    }
+
+    this.aiUsageRecords.set(record.id, record);
+    return record;
+  }
+
+  async getAIUsageTotals(since: Date, userId?: number): Promise<AIUsageTotals[]> {
+    const totals = new Map<string, AIUsageTotals>();
+    this.aiUsageRecords.forEach(record => {
+      if (record.createdAt < since || (userId !== undefined && record.userId !== userId)) return;
+      const key = `${record.userId}:${record.feature}`;
+      const entry = totals.get(key) ?? { userId: record.userId, feature: record.feature, requests: 0, tokens: 0, latencyMs: 0 };
+      entry.requests++;
+      entry.tokens += record.totalTokens ?? 0;
+      entry.latencyMs += record.latencyMs;
+      totals.set(key, entry);
+    });
+    return Array.from(totals.values());
+  }
+
+  async getAIQuota(userId: number): Promise<AIQuota | undefined> {
+    return this.aiQuotas.get(userId);
+  }
+
+  async getAIQuotas(): Promise<AIQuota[]> {
+    return Array.from(this.aiQuotas.values());
+  }
+
+  async upsertAIQuota(userId: number, limits: AIQuotaLimits): Promise<AIQuota> {
+    const quota: AIQuota = { userId, ...limits, updatedAt: new Date() };
+    this.aiQuotas.set(userId, quota);
+    return quota;
+  }
+}
+
+type Database = typeof import("./db")["db"];
+type UserSettingsRow = typeof userSettings.$inferSelect;
+
+export class DbStorage implements IStorage {
+  // db.ts throws when DATABASE_URL is missing, so only load it once this
+  // storage is actually chosen
+  private dbPromise: Promise<Database>;
+  private ready: Promise<void>;
+
+  constructor() {
+    this.dbPromise = import("./db").then(module => module.db);
+    this.ready = this.createDefaultAdmin().catch(error => {
+      console.error('Failed to create default admin user:', error);
+    });
+  }
+
+  private async getDb(): Promise<Database> {
+    return this.dbPromise;
+  }
+
+  private async createDefaultAdmin(): Promise<void> {
+    const db = await this.getDb();
+    await db.insert(users)
+      .values({
+        username: "admin",
+        password: "admin123", // TODO: Hash this in production
+        isAdmin: true
+      })
+      .onConflictDoNothing({ target: users.username });
+  }
+
+  private toUserSettings(row: UserSettingsRow): UserSettings {
+    return {
+      id: row.id,
+      userId: row.userId,
+      lastUsedPromptType: row.lastUsedPromptType ?? undefined,
+      lastUsedPromptId: row.lastUsedPromptId ?? undefined,
+      lastUsedCustomPrompt: row.lastUsedCustomPrompt ?? undefined,
+      resumeText: row.resumeText ?? undefined,
+      updatedAt: row.updatedAt
+    };
+  }
+
+  // User management methods
+  async getUser(id: number): Promise<User | undefined> {
+    await this.ready;
+    const db = await this.getDb();
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    await this.ready;
+    const db = await this.getDb();
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    await this.ready;
+    const db = await this.getDb();
+    return db.select().from(users).orderBy(users.id);
+  }
+
+  async createUser(userRequest: CreateUserRequest): Promise<User> {
+    const db = await this.getDb();
+    const [user] = await db.insert(users)
+      .values({
+        username: userRequest.username,
+        password: userRequest.password, // TODO: Hash this in production
+        isAdmin: userRequest.isAdmin
+      })
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: number, updates: UpdateUserRequest): Promise<User | undefined> {
+    const db = await this.getDb();
+    const [user] = await db.update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async updateUserLastLogin(id: number): Promise<void> {
+    const db = await this.getDb();
+    await db.update(users)
+      .set({ lastLoginAt: new Date() })
+      .where(eq(users.id, id));
+  }
+
+  // Job application management methods
+  async getJobApplication(id: number): Promise<JobApplication | undefined> {
+    const db = await this.getDb();
+    const [application] = await db.select().from(jobApplications).where(eq(jobApplications.id, id));
+    return application;
+  }
+
+  async getJobApplicationsByUser(userId: number): Promise<JobApplication[]> {
+    const db = await this.getDb();
+    return db.select()
+      .from(jobApplications)
+      .where(eq(jobApplications.userId, userId))
+      .orderBy(desc(jobApplications.lastEditedAt));
+  }
+
+  async getLatestJobApplication(userId: number): Promise<JobApplication | undefined> {
+    const db = await this.getDb();
+    const [application] = await db.select()
+      .from(jobApplications)
+      .where(and(eq(jobApplications.userId, userId), eq(jobApplications.isCompleted, false)))
+      .orderBy(desc(jobApplications.lastEditedAt))
+      .limit(1);
+    return application;
+  }
+
+  async createJobApplication(appData: InsertJobApplication): Promise<JobApplication> {
+    const db = await this.getDb();
+    const [application] = await db.insert(jobApplications)
+      .values({
+        ...appData,
+        appliedVacancyIds: appData.appliedVacancyIds || []
+      })
+      .returning();
+    return application;
+  }
+
+  async updateJobApplication(id: number, updates: UpdateJobApplication, watchState: JobApplicationWatchState = {}): Promise<JobApplication | undefined> {
+    const db = await this.getDb();
+    const [application] = await db.update(jobApplications)
+      .set({ ...updates, ...watchState, lastEditedAt: new Date() })
+      .where(eq(jobApplications.id, id))
+      .returning();
+    return application;
+  }
+
+  async deleteJobApplication(id: number): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(jobApplications).where(eq(jobApplications.id, id));
+  }
+
+  async getWatchedJobApplications(): Promise<JobApplication[]> {
+    const db = await this.getDb();
+    return db.select().from(jobApplications).where(eq(jobApplications.isWatched, true));
+  }
+
+  async updateJobApplicationWatchState(id: number, state: JobApplicationWatchState): Promise<JobApplication | undefined> {
+    const db = await this.getDb();
+    const [application] = await db.update(jobApplications)
+      .set(state)
+      .where(eq(jobApplications.id, id))
+      .returning();
+    return application;
+  }
+
+  // Saved prompt management methods
+  async getSavedPrompt(id: number): Promise<SavedPrompt | undefined> {
+    const db = await this.getDb();
+    const [prompt] = await db.select().from(savedPrompts).where(eq(savedPrompts.id, id));
+    return prompt;
+  }
+
+  async getSavedPromptsByUser(userId: number): Promise<SavedPrompt[]> {
+    const db = await this.getDb();
+    return db.select()
+      .from(savedPrompts)
+      .where(eq(savedPrompts.userId, userId))
+      .orderBy(desc(savedPrompts.createdAt));
+  }
+
+  async createSavedPrompt(promptData: InsertSavedPromptWithUser): Promise<SavedPrompt> {
+    const db = await this.getDb();
+    const [prompt] = await db.insert(savedPrompts).values(promptData).returning();
+    return prompt;
+  }
+
+  async updateSavedPrompt(id: number, updates: UpdateSavedPrompt): Promise<SavedPrompt | undefined> {
+    const db = await this.getDb();
+    const [prompt] = await db.update(savedPrompts)
+      .set(updates)
+      .where(eq(savedPrompts.id, id))
+      .returning();
+    return prompt;
+  }
+
+  async deleteSavedPrompt(id: number): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(savedPrompts).where(eq(savedPrompts.id, id));
+  }
+
+  async getSavedPromptByUserAndName(userId: number, name: string): Promise<SavedPrompt | undefined> {
+    const db = await this.getDb();
+    const [prompt] = await db.select()
+      .from(savedPrompts)
+      .where(and(eq(savedPrompts.userId, userId), eq(savedPrompts.name, name)));
+    return prompt;
+  }
+
+  // Scoring profile management methods
+  async getScoringProfile(id: number): Promise<ScoringProfile | undefined> {
+    const db = await this.getDb();
+    const [profile] = await db.select().from(scoringProfiles).where(eq(scoringProfiles.id, id));
+    return profile;
+  }
+
+  async getScoringProfilesByUser(userId: number): Promise<ScoringProfile[]> {
+    const db = await this.getDb();
+    return db.select()
+      .from(scoringProfiles)
+      .where(eq(scoringProfiles.userId, userId))
+      .orderBy(scoringProfiles.name);
+  }
+
+  async getScoringProfileByUserAndName(userId: number, name: string): Promise<ScoringProfile | undefined> {
+    const db = await this.getDb();
+    const [profile] = await db.select()
+      .from(scoringProfiles)
+      .where(and(eq(scoringProfiles.userId, userId), eq(scoringProfiles.name, name)));
+    return profile;
+  }
+
+  async createScoringProfile(profileData: InsertScoringProfileWithUser): Promise<ScoringProfile> {
+    const db = await this.getDb();
+    const [profile] = await db.insert(scoringProfiles).values(profileData).returning();
+    return profile;
+  }
+
+  async updateScoringProfile(id: number, updates: UpdateScoringProfile): Promise<ScoringProfile | undefined> {
+    const db = await this.getDb();
+    const [profile] = await db.update(scoringProfiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(scoringProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async deleteScoringProfile(id: number): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(scoringProfiles).where(eq(scoringProfiles.id, id));
+  }
+
+  // Resume/profile management methods
+  async getProfile(id: number): Promise<Profile | undefined> {
+    const db = await this.getDb();
+    const [profile] = await db.select().from(profiles).where(eq(profiles.id, id));
+    return profile;
+  }
+
+  async getProfilesByUser(userId: number): Promise<Profile[]> {
+    const db = await this.getDb();
+    return db.select()
+      .from(profiles)
+      .where(eq(profiles.userId, userId))
+      .orderBy(desc(profiles.isDefault), desc(profiles.updatedAt));
+  }
+
+  async getDefaultProfile(userId: number): Promise<Profile | undefined> {
+    const db = await this.getDb();
+    const [profile] = await db.select()
+      .from(profiles)
+      .where(and(eq(profiles.userId, userId), eq(profiles.isDefault, true)));
+    return profile;
+  }
+
+  async createProfile(profileData: InsertProfileWithUser): Promise<Profile> {
+    const db = await this.getDb();
+    return db.transaction(async (tx) => {
+      const [profile] = await tx.insert(profiles).values(profileData).returning();
+      if (profile.isDefault) {
+        await tx.update(profiles)
+          .set({ isDefault: false })
+          .where(and(eq(profiles.userId, profile.userId), ne(profiles.id, profile.id)));
+      }
+      return profile;
+    });
+  }
+
+  async updateProfile(id: number, updates: UpdateProfile): Promise<Profile | undefined> {
+    const db = await this.getDb();
+    return db.transaction(async (tx) => {
+      const [profile] = await tx.update(profiles)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(profiles.id, id))
+        .returning();
+      if (profile && updates.isDefault) {
+        await tx.update(profiles)
+          .set({ isDefault: false })
+          .where(and(eq(profiles.userId, profile.userId), ne(profiles.id, id)));
+      }
+      return profile;
+    });
+  }
+
+  async deleteProfile(id: number): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(profiles).where(eq(profiles.id, id));
+  }
+
+  // Employer list management methods
+  async getEmployerListEntries(userId: number): Promise<EmployerListEntry[]> {
+    const db = await this.getDb();
+    return db.select()
+      .from(employerListEntries)
+      .where(eq(employerListEntries.userId, userId))
+      .orderBy(employerListEntries.employerName);
+  }
+
+  async upsertEmployerListEntry(entryData: InsertEmployerListEntry): Promise<EmployerListEntry> {
+    const db = await this.getDb();
+    // Moving an employer from blocked to favorite (or back) keeps its row
+    const [entry] = await db.insert(employerListEntries)
+      .values(entryData)
+      .onConflictDoUpdate({
+        target: [employerListEntries.userId, employerListEntries.employerId],
+        set: { kind: entryData.kind, employerName: entryData.employerName }
+      })
+      .returning();
+    return entry;
+  }
+
+  async deleteEmployerListEntry(userId: number, employerId: string): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(employerListEntries)
+      .where(and(eq(employerListEntries.userId, userId), eq(employerListEntries.employerId, employerId)));
+  }
+
+  // User settings management methods
+  async getUserSettings(userId: number): Promise<UserSettings | undefined> {
+    const db = await this.getDb();
+    const [row] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return row ? this.toUserSettings(row) : undefined;
+  }
+
+  async createUserSettings(settingsData: InsertUserSettings): Promise<UserSettings> {
+    const db = await this.getDb();
+    const [row] = await db.insert(userSettings).values(settingsData).returning();
+    return this.toUserSettings(row);
+  }
+
+  async updateUserSettings(userId: number, updates: UpdateUserSettings): Promise<UserSettings | undefined> {
+    const db = await this.getDb();
+    // Upsert keeps the "create on first save" behaviour of MemStorage
+    const [row] = await db.insert(userSettings)
+      .values({ userId, ...updates })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...updates, updatedAt: new Date() }
+      })
+      .returning();
+    return this.toUserSettings(row);
+  }
+
+  // Applied vacancy management methods
+  async getAppliedVacancy(id: number): Promise<AppliedVacancy | undefined> {
+    const db = await this.getDb();
+    const [appliedVacancy] = await db.select().from(appliedVacancies).where(eq(appliedVacancies.id, id));
+    return appliedVacancy;
+  }
+
+  async getAppliedVacancyByUserAndVacancy(userId: number, vacancyId: string): Promise<AppliedVacancy | undefined> {
+    const db = await this.getDb();
+    const [appliedVacancy] = await db.select()
+      .from(appliedVacancies)
+      .where(and(eq(appliedVacancies.userId, userId), eq(appliedVacancies.vacancyId, vacancyId)));
+    return appliedVacancy;
+  }
+
+  async getAppliedVacanciesByUser(userId: number, vacancyIds?: string[]): Promise<AppliedVacancy[]> {
+    if (vacancyIds && vacancyIds.length === 0) return [];
+
+    const db = await this.getDb();
+    return db.select()
+      .from(appliedVacancies)
+      .where(vacancyIds
+        ? and(eq(appliedVacancies.userId, userId), inArray(appliedVacancies.vacancyId, vacancyIds))
+        : eq(appliedVacancies.userId, userId))
+      .orderBy(desc(appliedVacancies.appliedAt));
+  }
+
+  async createAppliedVacancy(appliedData: InsertAppliedVacancy): Promise<AppliedVacancy | undefined> {
+    const db = await this.getDb();
+    // A concurrent apply for the same vacancy loses on the unique index instead of failing
+    const [appliedVacancy] = await db.insert(appliedVacancies)
+      .values(appliedData)
+      .onConflictDoNothing({ target: [appliedVacancies.userId, appliedVacancies.vacancyId] })
+      .returning();
+    return appliedVacancy;
+  }
+
+  async updateAppliedVacancy(id: number, updates: UpdateAppliedVacancy): Promise<AppliedVacancy | undefined> {
+    const db = await this.getDb();
+    const [appliedVacancy] = await db.update(appliedVacancies)
+      .set(updates.status ? { ...updates, statusUpdatedAt: new Date() } : updates)
+      .where(eq(appliedVacancies.id, id))
+      .returning();
+    return appliedVacancy;
+  }
+
+  async deleteAppliedVacancy(id: number): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(appliedVacancies).where(eq(appliedVacancies.id, id));
+  }
+
+  async getAppliedVacancyStatusHistory(appliedVacancyId: number): Promise<AppliedVacancyStatusChange[]> {
+    const db = await this.getDb();
+    return db.select()
+      .from(appliedVacancyStatusHistory)
+      .where(eq(appliedVacancyStatusHistory.appliedVacancyId, appliedVacancyId))
+      .orderBy(appliedVacancyStatusHistory.changedAt, appliedVacancyStatusHistory.id);
+  }
+
+  async createAppliedVacancyStatusChange(changeData: InsertAppliedVacancyStatusChange): Promise<AppliedVacancyStatusChange> {
+    const db = await this.getDb();
+    const [change] = await db.insert(appliedVacancyStatusHistory).values(changeData).returning();
+    return change;
+  }
+
+  async transitionAppliedVacancyStatus(
+    id: number,
+    fromStatus: AppliedVacancyStatus,
+    toStatus: AppliedVacancyStatus,
+    note: string | null
+  ): Promise<{ appliedVacancy: AppliedVacancy; change: AppliedVacancyStatusChange } | undefined> {
+    const db = await this.getDb();
+    return db.transaction(async (tx) => {
+      // Conditional on the old status, so of two concurrent transitions only one applies
+      const [appliedVacancy] = await tx.update(appliedVacancies)
+        .set({ status: toStatus, statusUpdatedAt: new Date() })
+        .where(and(eq(appliedVacancies.id, id), eq(appliedVacancies.status, fromStatus)))
+        .returning();
+      if (!appliedVacancy) return undefined;
+
+      const [change] = await tx.insert(appliedVacancyStatusHistory)
+        .values({ appliedVacancyId: id, fromStatus, toStatus, note })
+        .returning();
+      return { appliedVacancy, change };
+    });
+  }
+
+  // AI usage accounting methods
+  async recordAIUsage(entryData: InsertAIUsageRecord): Promise<AIUsageRecord> {
+    const db = await this.getDb();
+    const [record] = await db.insert(aiUsage).values(entryData).returning();
+    return record;
+  }
+
+  async getAIUsageTotals(since: Date, userId?: number): Promise<AIUsageTotals[]> {
+    const db = await this.getDb();
+    return db.select({
+        userId: aiUsage.userId,
+        feature: aiUsage.feature,
+        requests: sql<number>`count(*)::int`,
+        tokens: sql<number>`coalesce(sum(${aiUsage.totalTokens}), 0)::int`,
+        latencyMs: sql<number>`coalesce(sum(${aiUsage.latencyMs}), 0)::int`
+      })
+      .from(aiUsage)
+      .where(and(
+        gte(aiUsage.createdAt, since),
+        userId !== undefined ? eq(aiUsage.userId, userId) : undefined
+      ))
+      .groupBy(aiUsage.userId, aiUsage.feature);
+  }
+
+  async getAIQuota(userId: number): Promise<AIQuota | undefined> {
+    const db = await this.getDb();
+    const [quota] = await db.select().from(aiQuotas).where(eq(aiQuotas.userId, userId));
+    return quota;
+  }
+
+  async getAIQuotas(): Promise<AIQuota[]> {
+    const db = await this.getDb();
+    return db.select().from(aiQuotas);
+  }
+
+  async upsertAIQuota(userId: number, limits: AIQuotaLimits): Promise<AIQuota> {
+    const db = await this.getDb();
+    const updatedAt = new Date();
+    const [quota] = await db.insert(aiQuotas)
+      .values({ userId, ...limits, updatedAt })
+      .onConflictDoUpdate({ target: aiQuotas.userId, set: { ...limits, updatedAt } })
+      .returning();
+    return quota;
+  }
 }
 
-export const storage = new MemStorage();
+// Use PostgreSQL when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL ? new DbStorage() : new MemStorage();
@@ -0,0 +1,309 @@
+// HH.ru search query language as an AST. Both the wizard (preview in Step 3)
+// and the server (the `text` param) build queries through here, so what the
+// user sees is exactly what gets sent.
+//
+//   java OR kotlin            alternatives
+//   java AND spring           all of them
+//   java NOT script           exclusion
+//   "team lead"               exact phrase
+//   разраб*                   word stem
+//   NAME:(java OR kotlin)     scoped to a field
+
+export const hhQueryFields = ["NAME", "COMPANY_NAME", "DESCRIPTION"] as const;
+export type HHQueryField = typeof hhQueryFields[number];
+
+export type HHQueryNode =
+  | { type: "term"; value: string; wildcard?: boolean }
+  | { type: "phrase"; value: string }
+  | { type: "field"; field: HHQueryField; child: HHQueryNode }
+  | { type: "and"; children: HHQueryNode[] }
+  | { type: "or"; children: HHQueryNode[] }
+  | { type: "not"; child: HHQueryNode };
+
+export class HHQueryError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid search query: ${issues.join("; ")}`);
+    this.name = "HHQueryError";
+  }
+}
+
+// Shortest stem HH expands with `*`
+const MIN_WILDCARD_STEM = 2;
+// Characters that are syntax and can't appear inside a bare term
+const RESERVED_CHARS = /["()\s]/;
+
+export const term = (value: string, wildcard = false): HHQueryNode => ({ type: "term", value, ...(wildcard ? { wildcard } : {}) });
+export const phrase = (value: string): HHQueryNode => ({ type: "phrase", value });
+export const field = (name: HHQueryField, child: HHQueryNode): HHQueryNode => ({ type: "field", field: name, child });
+export const and = (...children: HHQueryNode[]): HHQueryNode => ({ type: "and", children });
+export const or = (...children: HHQueryNode[]): HHQueryNode => ({ type: "or", children });
+export const not = (child: HHQueryNode): HHQueryNode => ({ type: "not", child });
+
+// Whether the node can match anything on its own - a query made only of
+// exclusions is rejected by HH
+function hasPositive(node: HHQueryNode): boolean {
+  switch (node.type) {
+    case "term":
+    case "phrase":
+      return true;
+    case "field":
+      return hasPositive(node.child);
+    case "and":
+      return node.children.some(hasPositive);
+    case "or":
+      return node.children.length > 0 && node.children.every(hasPositive);
+    case "not":
+      return false;
+  }
+}
+
+export function validateQuery(node: HHQueryNode): string[] {
+  const issues: string[] = [];
+
+  const visit = (current: HHQueryNode, inField: boolean) => {
+    switch (current.type) {
+      case "term":
+        if (!current.value) {
+          issues.push("Empty search term");
+        } else if (RESERVED_CHARS.test(current.value) || current.value.includes("*")) {
+          issues.push(`"${current.value}" has to be a quoted phrase`);
+        } else if (current.wildcard && current.value.length < MIN_WILDCARD_STEM) {
+          issues.push(`Stem "${current.value}*" is too short`);
+        }
+        break;
+      case "phrase":
+        if (!current.value.trim()) {
+          issues.push("Empty phrase");
+        } else if (current.value.includes("\"")) {
+          issues.push(`Phrase ${current.value} can't contain quotes`);
+        }
+        break;
+      case "field":
+        if (!hhQueryFields.includes(current.field)) {
+          issues.push(`Unknown search field ${current.field}`);
+        } else if (inField) {
+          issues.push(`${current.field}: can't be nested in another field`);
+        }
+        visit(current.child, true);
+        break;
+      case "and":
+      case "or":
+        if (current.children.length === 0) {
+          issues.push(`Empty ${current.type.toUpperCase()} group`);
+        }
+        if (current.type === "or" && current.children.some(child => child.type === "not")) {
+          issues.push("NOT can't be an OR alternative");
+        }
+        if (current.type === "and" && current.children.length > 0 && !hasPositive(current)) {
+          issues.push("A group can't consist only of NOT terms");
+        }
+        current.children.forEach(child => visit(child, inField));
+        break;
+      case "not":
+        visit(current.child, inField);
+        break;
+    }
+  };
+
+  visit(node, false);
+  if (issues.length === 0 && !hasPositive(node)) {
+    issues.push("The query needs at least one term to search for");
+  }
+  return issues;
+}
+
+function isCompound(node: HHQueryNode): boolean {
+  return (node.type === "and" || node.type === "or") && node.children.length > 1;
+}
+
+// Nested groups are always parenthesized rather than relying on operator precedence
+function serializeNode(node: HHQueryNode, nested: boolean): string {
+  switch (node.type) {
+    case "term":
+      return node.wildcard ? `${node.value}*` : node.value;
+    case "phrase":
+      return `"${node.value.trim()}"`;
+    case "field":
+      return `${node.field}:${serializeNode(node.child, true)}`;
+    case "not":
+      return `NOT ${serializeNode(node.child, true)}`;
+    case "and":
+    case "or": {
+      if (node.children.length === 1) return serializeNode(node.children[0], nested);
+      let text: string;
+      if (node.type === "or") {
+        text = node.children.map(child => serializeNode(child, true)).join(" OR ");
+      } else {
+        // HH reads `a NOT b` as a and not b, so exclusions trail the positive terms
+        const positive = node.children.filter(child => child.type !== "not");
+        const negative = node.children.filter(child => child.type === "not");
+        text = [
+          positive.map(child => serializeNode(child, true)).join(" AND "),
+          ...negative.map(child => serializeNode(child, true))
+        ].join(" ");
+      }
+      return nested && isCompound(node) ? `(${text})` : text;
+    }
+  }
+}
+
+export function serializeQuery(node: HHQueryNode): string {
+  return serializeNode(node, false);
+}
+
+// Validated `text` param; throws HHQueryError listing every problem
+export function toSearchText(node: HHQueryNode): string {
+  const issues = validateQuery(node);
+  if (issues.length > 0) throw new HHQueryError(issues);
+  return serializeQuery(node);
+}
+
+type Token =
+  | { kind: "lparen" | "rparen" | "and" | "or" | "not" }
+  | { kind: "phrase" | "word"; value: string }
+  | { kind: "field"; field: HHQueryField };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\()|(\))|"([^"]*)("?)|([^\s()"]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[1]) {
+      tokens.push({ kind: "lparen" });
+    } else if (match[2]) {
+      tokens.push({ kind: "rparen" });
+    } else if (match[3] !== undefined) {
+      if (!match[4]) throw new HHQueryError([`Unclosed quote before "${match[3]}"`]);
+      tokens.push({ kind: "phrase", value: match[3] });
+    } else {
+      let word = match[5];
+      if (word === "AND" || word === "OR" || word === "NOT") {
+        tokens.push({ kind: word.toLowerCase() as "and" | "or" | "not" });
+        continue;
+      }
+      // NAME:java - the term is glued to the field
+      let scoped: RegExpExecArray | null;
+      while ((scoped = /^([A-Z_]+):(.*)$/.exec(word)) && (hhQueryFields as readonly string[]).includes(scoped[1])) {
+        tokens.push({ kind: "field", field: scoped[1] as HHQueryField });
+        word = scoped[2];
+      }
+      if (word) tokens.push({ kind: "word", value: word });
+    }
+  }
+  return tokens;
+}
+
+// Precedence low to high: OR, AND (explicit or by juxtaposition), NOT, field scope
+export function parseQuery(text: string): HHQueryNode {
+  const tokens = tokenize(text);
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const parseOr = (): HHQueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === "or") {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : or(...children);
+  };
+
+  const parseAnd = (): HHQueryNode => {
+    const children = [parseUnary()];
+    while (peek() && peek().kind !== "or" && peek().kind !== "rparen") {
+      if (peek().kind === "and") position++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : and(...children);
+  };
+
+  const parseUnary = (): HHQueryNode => {
+    if (peek()?.kind === "not") {
+      position++;
+      return not(parseUnary());
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): HHQueryNode => {
+    const token = tokens[position++];
+    if (!token) throw new HHQueryError(["Query ends where a term was expected"]);
+    switch (token.kind) {
+      case "lparen": {
+        const inner = parseOr();
+        if (tokens[position++]?.kind !== "rparen") throw new HHQueryError(["Missing closing parenthesis"]);
+        return inner;
+      }
+      case "phrase":
+        return phrase(token.value);
+      case "word":
+        return token.value.endsWith("*") ? term(token.value.slice(0, -1), true) : term(token.value);
+      case "field":
+        return field(token.field, parsePrimary());
+      default:
+        throw new HHQueryError([`Unexpected ${token.kind === "rparen" ? ")" : token.kind.toUpperCase()}`]);
+    }
+  };
+
+  if (tokens.length === 0) throw new HHQueryError(["Query is empty"]);
+  const root = parseOr();
+  if (position < tokens.length) throw new HHQueryError(["Unexpected )"]);
+  return root;
+}
+
+export interface QueryPreview {
+  text: string | null;
+  issues: string[];
+}
+
+// Parse, validate and re-serialize a hand-written query, for the Step 3 editor
+export function previewQuery(text: string): QueryPreview {
+  try {
+    return { text: toSearchText(parseQuery(text)), issues: [] };
+  } catch (error) {
+    if (error instanceof HHQueryError) return { text: null, issues: error.issues };
+    throw error;
+  }
+}
+
+// Comma-separated list; quoted phrases are matched without their quotes
+export function parseExcludeWords(excludeWords: string | undefined): string[] {
+  return (excludeWords || "")
+    .split(",")
+    .map(word => {
+      const trimmed = word.trim();
+      return trimmed.startsWith("\"") && trimmed.endsWith("\"")
+        ? trimmed.slice(1, -1)
+        : trimmed;
+    })
+    .filter(word => word.length > 0);
+}
+
+export interface KeywordQueryOptions {
+  useExactPhrases?: boolean;
+  useAndAcrossPhrases?: boolean;
+  excludeWords?: string;
+}
+
+function keywordNode(keyword: string, exact: boolean): HHQueryNode {
+  const cleaned = keyword.replace(/"/g, "").trim();
+  if (exact) return phrase(cleaned);
+  const words = cleaned.split(/\s+/).map(word => word.endsWith("*") && word.length > 1
+    ? term(word.slice(0, -1), true)
+    : /[()*]/.test(word) ? phrase(word) : term(word));
+  return words.length === 1 ? words[0] : and(...words);
+}
+
+// The wizard's selected keywords and phrase/AND toggles as a query
+export function keywordsQuery(keywords: string[], options: KeywordQueryOptions = {}): HHQueryNode {
+  const alternatives = keywords
+    .filter(keyword => keyword.replace(/"/g, "").trim())
+    .map(keyword => keywordNode(keyword, !!options.useExactPhrases));
+  const positive = options.useAndAcrossPhrases ? and(...alternatives) : or(...alternatives);
+
+  const excluded = parseExcludeWords(options.excludeWords)
+    .map(word => not(/\s/.test(word) ? phrase(word)
+      : word.endsWith("*") && word.length > 1 ? term(word.slice(0, -1), true)
+      : term(word)));
+  return excluded.length > 0 ? and(positive, ...excluded) : positive;
+}
@@ -1,4 +1,15 @@
 import { z } from "zod";
+import {
+  pgTable,
+  serial,
+  integer,
+  text,
+  boolean,
+  timestamp,
+  jsonb,
+  index,
+  uniqueIndex
+} from "drizzle-orm/pg-core";
 
 // HH.ru API response types
 export const hhSuggestionSchema = z.object({
@@ -86,7 +97,9 @@ export const filterMatchRequestSchema = z.object({
   useExactPhrases: z.boolean().optional(),
   useAndAcrossPhrases: z.boolean().optional(),
   enableDebugMode: z.boolean().optional(),
-  excludeWords: z.string().optional()
+  excludeWords: z.string().optional(),
+  // Hand-edited HH query from Step 3; replaces the keyword-built text
+  customQuery: z.string().optional()
 });
 
 export const filterMatchResponseSchema = z.object({
@@ -106,6 +119,71 @@ export const filterMatchResponseSchema = z.object({
   employer_id: z.string().optional()
 });
 
+// Structured AI outputs. Responses are validated against these before use;
+// invalid ones get a repair round trip (see AIClient.generateStructured).
+const dropNulls = (value: unknown) => value && typeof value === "object" && !Array.isArray(value)
+  ? Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== null && entry !== ""))
+  : value;
+
+// IDs sometimes come back as numbers
+const aiIdSchema = z.union([z.string(), z.number()]).transform(String);
+
+export const aiJobCandidatesSchema = z.object({
+  domain: z.string().nullish().transform(value => value ?? ""),
+  candidates: z.array(z.object({ title: z.string().trim().min(1) }))
+});
+
+export const aiRankedTitlesSchema = z.object({
+  ranked: z.array(z.object({
+    rank: z.coerce.number().int().positive(),
+    title: z.string().trim().min(1),
+    reason: z.string().default("")
+  }))
+});
+
+// JSON-object-only endpoints wrap the array, e.g. {"keywords": [...]}
+export const aiKeywordRelevanceSchema = z.preprocess(
+  value => Array.isArray(value) ? value : Object.values(value ?? {}).find(Array.isArray),
+  z.array(z.object({
+    text: z.string().trim().min(1),
+    relevanceScore: z.coerce.number().min(0).max(10)
+  }))
+);
+
+// Several users' keyword lists scored in one request, matched back by index
+export const aiKeywordRelevanceBatchSchema = z.preprocess(
+  value => Array.isArray(value) ? value : Object.values(value ?? {}).find(Array.isArray),
+  z.array(z.object({
+    query: z.coerce.number().int().min(0),
+    keywords: aiKeywordRelevanceSchema
+  }))
+);
+
+// Only the free-text filters the deterministic mapper couldn't resolve
+export const aiUnresolvedFiltersSchema = z.preprocess(dropNulls, z.object({
+  area: aiIdSchema.optional(),
+  metro: aiIdSchema.optional()
+}));
+
+export const aiFilterMappingSchema = z.preprocess(dropNulls, z.object({
+  text: z.string(),
+  area: aiIdSchema.optional(),
+  experience: z.string().optional(),
+  employment: z.array(z.string()).optional(),
+  schedule: z.array(z.string()).optional(),
+  salary: z.coerce.number().optional(),
+  currency: z.string().optional(),
+  only_with_salary: z.boolean().optional(),
+  period: z.coerce.number().optional(),
+  order_by: z.string().optional(),
+  metro: aiIdSchema.optional(),
+  search_field: z.array(z.string()).optional(),
+  label: z.array(z.string()).optional(),
+  employer_id: aiIdSchema.optional(),
+  education_level: z.string().optional(),
+  working_time_modes: z.array(z.string()).optional()
+}));
+
 export const hhVacancyListItemSchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -122,7 +200,8 @@ export const hhVacancyListItemSchema = z.object({
   salary: z.object({
     from: z.number().nullable(),
     to: z.number().nullable(),
-    currency: z.string()
+    currency: z.string(),
+    gross: z.boolean().nullable().optional()
   }).nullable(),
   alternate_url: z.string()
 });
@@ -131,6 +210,7 @@ export const hhVacancyDetailSchema = z.object({
   id: z.string(),
   name: z.string(),
   employer: z.object({
+    id: z.string().optional(),
     name: z.string(),
     url: z.string().optional(),
     alternate_url: z.string().optional(),
@@ -170,6 +250,32 @@ export const hhVacancyDetailSchema = z.object({
   }).optional()
 });
 
+// Full employer record from HH.ru, kept by the server's employer store and
+// refreshed once it's older than a day
+export const hhEmployerSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string().nullable(),
+  trusted: z.boolean(),
+  site_url: z.string().nullable(),
+  alternate_url: z.string().nullable(),
+  descriptionHtmlSanitized: z.string(),
+  area: hhDictionaryItemSchema.nullable(),
+  industries: z.array(hhDictionaryItemSchema),
+  logo_urls: z.record(z.string()).nullable(),
+  open_vacancies: z.number().nullable(),
+  fetchedAt: z.string()
+});
+
+// The employer's open vacancies, newest first, for the Step 4 employer panel
+export const employerVacanciesResponseSchema = z.object({
+  items: z.array(hhVacancyListItemSchema.extend({
+    employer: z.object({ id: z.string().optional(), name: z.string() }),
+    published_at: z.string().optional()
+  })),
+  found: z.number()
+});
+
 export const coverLetterRequestSchema = z.object({
   name: z.string(),
   employerName: z.string(),
@@ -177,6 +283,7 @@ export const coverLetterRequestSchema = z.object({
   skillsList: z.array(z.string()),
   plainDescription: z.string(),
   userProfile: z.string().optional(),
+  profileId: z.number().int().optional(), // Stored profile to use when userProfile is omitted
   customPrompt: z.string().optional()
 });
 
@@ -184,16 +291,399 @@ export const coverLetterResponseSchema = z.object({
   text: z.string()
 });
 
+// Relevance scoring profiles - the weights scoreVacancy applies to each match
+export const scoringWeightsSchema = z.object({
+  titleStart: z.number(),
+  titleContains: z.number(),
+  descriptionMatch: z.number(),
+  hasSalary: z.number(),
+  highSalary: z.number(),
+  highSalaryThreshold: z.number().min(0),
+  postedWithin3Days: z.number(),
+  postedWithin7Days: z.number()
+});
+
+// Scoring looks keywords and employer names up lowercased
+const trimmedLowercaseKeys = (record: Record<string, number>) =>
+  Object.fromEntries(Object.entries(record).map(([key, value]) => [key.trim().toLowerCase(), value]));
+
+export const scoringProfileConfigSchema = z.object({
+  weights: scoringWeightsSchema,
+  // Multiplier for a keyword's match points, keyed by lowercased keyword
+  keywordWeights: z.record(z.number().min(0)).transform(trimmedLowercaseKeys).default({}),
+  // Flat points per employer, keyed by lowercased employer name or HH employer id
+  employerBoosts: z.record(z.number()).transform(trimmedLowercaseKeys).default({})
+});
+
+export const defaultScoringWeights: z.infer<typeof scoringWeightsSchema> = {
+  titleStart: 30,
+  titleContains: 15,
+  descriptionMatch: 6,
+  hasSalary: 4,
+  highSalary: 6,
+  highSalaryThreshold: 100000,
+  postedWithin3Days: 3,
+  postedWithin7Days: 2
+};
+
+export const builtInScoringProfiles = [
+  {
+    key: 'default',
+    name: 'Balanced',
+    description: 'Title matches first, then description, salary and freshness',
+    config: { weights: defaultScoringWeights, keywordWeights: {}, employerBoosts: {} }
+  },
+  {
+    key: 'salary-first',
+    name: 'Salary first',
+    description: 'Vacancies with a published, high salary rise to the top',
+    config: {
+      weights: { ...defaultScoringWeights, hasSalary: 20, highSalary: 30 },
+      keywordWeights: {},
+      employerBoosts: {}
+    }
+  },
+  {
+    key: 'fresh-first',
+    name: 'Fresh first',
+    description: 'Recently published vacancies rank above older ones',
+    config: {
+      weights: { ...defaultScoringWeights, postedWithin3Days: 40, postedWithin7Days: 20 },
+      keywordWeights: {},
+      employerBoosts: {}
+    }
+  },
+  {
+    key: 'title-strict',
+    name: 'Title strict',
+    description: 'Only title matches really count',
+    config: {
+      weights: { ...defaultScoringWeights, titleStart: 60, titleContains: 40, descriptionMatch: 0, hasSalary: 1, highSalary: 1 },
+      keywordWeights: {},
+      employerBoosts: {}
+    }
+  }
+] as const;
+
+export const scoringProfileSchema = z.object({
+  id: z.number(),
+  userId: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  config: scoringProfileConfigSchema,
+  createdAt: z.date(),
+  updatedAt: z.date()
+});
+
+export const insertScoringProfileSchema = z.object({
+  name: z.string().min(1, "Profile name is required").max(50),
+  description: z.string().max(200).nullable().default(null),
+  config: scoringProfileConfigSchema
+});
+
+export const insertScoringProfileWithUserSchema = insertScoringProfileSchema.extend({
+  userId: z.number()
+});
+
+export const updateScoringProfileSchema = insertScoringProfileSchema.partial();
+
+// Built-in profiles are referenced by key, the user's own by numeric id
+export const scoringProfileRefSchema = z.union([z.string().min(1), z.number().int()]);
+
+// Server-side tiered search (POST /api/search/run)
+export const searchTiers = ['Title', 'Description', 'Skills'] as const;
+
+export const searchRunRequestSchema = z.object({
+  keywords: z.array(z.string().min(1)).min(1),
+  filters: z.record(z.any()).default({}),
+  scoringProfile: scoringProfileRefSchema.default('default'),
+  // Second-stage re-rank by similarity to the user's resume, when one is stored
+  rerankByFit: z.boolean().default(true),
+  page: z.number().int().min(0).default(0),
+  perPage: z.number().int().min(1).max(100).default(50)
+});
+
+export const scoreContributionSchema = z.object({
+  label: z.string(),
+  points: z.number()
+});
+
+// A near-duplicate folded into a higher-ranked card: the same job reposted
+// under a new ID or posted by the same employer in another city
+export const duplicateVacancySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  areaName: z.string().nullable(),
+  alternate_url: z.string(),
+  published_at: z.string().optional()
+});
+
+// An earlier application to what looks like the same job under another ID
+export const repostMatchSchema = z.object({
+  vacancyId: z.string(),
+  status: z.string(),
+  appliedAt: z.string()
+});
+
+export const scoredVacancySchema = hhVacancyListItemSchema.extend({
+  employer: z.object({
+    id: z.string().optional(),
+    name: z.string()
+  }),
+  published_at: z.string().optional(),
+  experience: hhDictionaryItemSchema.optional(),
+  searchTier: z.enum(searchTiers),
+  relevanceScore: z.number(),
+  scoreBreakdown: z.array(scoreContributionSchema),
+  fitScore: z.number().nullable(), // 0-100 resume similarity, null when not re-ranked
+  matchedKeywords: z.array(z.string()),
+  matchLocation: z.object({
+    title: z.boolean(),
+    description: z.boolean(),
+    skills: z.boolean()
+  }),
+  duplicates: z.array(duplicateVacancySchema),
+  repostOf: repostMatchSchema.nullable()
+});
+
+// Where an exclude word was found; description only when full texts are checked
+export const exclusionFields = ['title', 'snippet', 'skills', 'description'] as const;
+
+export const excludedVacancySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  employerName: z.string().nullable(),
+  tier: z.enum(searchTiers),
+  word: z.string(),
+  field: z.enum(exclusionFields)
+});
+
+export const searchTierInfoSchema = z.object({
+  titleCount: z.number(),
+  descriptionCount: z.number(),
+  skillsCount: z.number(),
+  totalAfterDedup: z.number(),
+  excludedCount: z.number(),
+  // Vacancies from employers on the user's blocklist, dropped before ranking
+  blockedCount: z.number(),
+  // Near-duplicates folded into another card
+  duplicateCount: z.number(),
+  usedFallback: z.boolean()
+});
+
+// Salary analytics over a search result set
+export const salaryBases = ['net', 'gross'] as const;
+
+export const salaryStatsRequestSchema = z.object({
+  keywords: z.array(z.string().min(1)).min(1),
+  filters: z.record(z.any()).default({}),
+  currency: z.string().min(3).max(3).default('RUR'),
+  basis: z.enum(salaryBases).default('net')
+});
+
+export const salaryDistributionSchema = z.object({
+  count: z.number(),
+  min: z.number(),
+  max: z.number(),
+  p25: z.number(),
+  median: z.number(),
+  p75: z.number()
+});
+
+export const salaryStatsSchema = z.object({
+  currency: z.string(),
+  basis: z.enum(salaryBases),
+  total: z.number(),
+  withSalary: z.number(),
+  unconvertible: z.number(), // salaries in a currency without a known rate
+  overall: salaryDistributionSchema,
+  histogram: z.array(z.object({
+    from: z.number(),
+    to: z.number(),
+    count: z.number()
+  })),
+  byExperience: z.array(salaryDistributionSchema.extend({
+    experienceId: z.string(),
+    name: z.string()
+  }))
+});
+
+export const fitRankingInfoSchema = z.object({
+  provider: z.string(),
+  reranked: z.number()
+});
+
+export const searchRunResponseSchema = z.object({
+  items: z.array(scoredVacancySchema),
+  found: z.number(),
+  pages: z.number(),
+  page: z.number(),
+  per_page: z.number(),
+  tierInfo: searchTierInfoSchema,
+  // Every vacancy the exclude words removed, with the word that did it
+  excluded: z.array(excludedVacancySchema),
+  scoringProfile: scoringProfileRefSchema,
+  fitRanking: fitRankingInfoSchema.nullable()
+});
+
+// Skill gap between a vacancy's key_skills and the default profile's skills
+export const skillGapSchema = z.object({
+  vacancyId: z.string(),
+  profileName: z.string().nullable(),
+  matched: z.array(z.string()),
+  missing: z.array(z.string()),
+  adjacent: z.array(z.object({
+    skill: z.string(),
+    relatedTo: z.array(z.string()) // the user's skills that make it adjacent
+  })),
+  coverage: z.number() // 0-100
+});
+
+export const skillGapAggregateRequestSchema = z.object({
+  vacancyIds: z.array(z.string().min(1)).min(1).max(100)
+});
+
+export const skillGapAggregateEntrySchema = z.object({
+  skill: z.string(),
+  count: z.number()
+});
+
+export const skillGapAggregateResponseSchema = z.object({
+  profileName: z.string().nullable(),
+  analyzed: z.number(),
+  skipped: z.number(),
+  missing: z.array(skillGapAggregateEntrySchema)
+});
+
+// Admin view of the server caches. Counters are since process start; staleMs,
+// staleHits and backendErrors only apply to tiered caches.
+export const cacheSummarySchema = z.object({
+  name: z.string(),
+  kind: z.enum(['lru', 'tiered']),
+  backend: z.string(),
+  size: z.number(),
+  maxSize: z.number(),
+  ttlMs: z.number(),
+  staleMs: z.number(),
+  hits: z.number(),
+  staleHits: z.number(),
+  misses: z.number(),
+  evictions: z.number(),
+  backendErrors: z.number(),
+  warmable: z.boolean()
+});
+
+// An in-process entry; expired tiered entries that can still be served stale
+// are listed with a negative ttlRemainingMs
+export const cacheKeyInfoSchema = z.object({
+  key: z.string(),
+  expiresAt: z.string(),
+  ttlRemainingMs: z.number()
+});
+
+export const cacheKeysResponseSchema = z.object({
+  total: z.number(),
+  keys: z.array(cacheKeyInfoSchema)
+});
+
+export const cacheInvalidateRequestSchema = z.object({
+  // Every cache when omitted
+  cache: z.string().optional(),
+  // Empty clears the whole cache
+  prefix: z.string().max(200)
+});
+
+export const cacheInvalidateResponseSchema = z.object({
+  invalidated: z.record(z.number())
+});
+
+// The user's place in the shared AI request queue. position counts the users
+// served first (0 = next); null when none of their requests are waiting.
+export const aiQueueStatusSchema = z.object({
+  position: z.number().nullable(),
+  queued: z.number(),
+  estimatedWaitMs: z.number(),
+  totalQueued: z.number(),
+  inFlight: z.number(),
+  requestsPerMinute: z.number()
+});
+
+export const hhPrioritySchema = z.enum(['interactive', 'search', 'background']);
+
+const perHHPrioritySchema = z.object({
+  interactive: z.number(),
+  search: z.number(),
+  background: z.number()
+});
+
+// Shared HH.ru request scheduler: token bucket state, queue depth per
+// priority and the Retry-After backoff currently in force
+export const hhSchedulerMetricsSchema = z.object({
+  ratePerSecond: z.number(),
+  burst: z.number(),
+  maxConcurrent: z.number(),
+  tokens: z.number(),
+  inFlight: z.number(),
+  queued: perHHPrioritySchema,
+  // High-water mark of all queues together since start
+  maxQueued: z.number(),
+  started: perHHPrioritySchema,
+  avgWaitMs: perHHPrioritySchema,
+  backoffRemainingMs: z.number(),
+  backoffs: z.number()
+});
+
 export type HHSuggestion = z.infer<typeof hhSuggestionSchema>;
 export type AIKeywordsResponse = z.infer<typeof aiKeywordsResponseSchema>;
 export type HHArea = z.infer<typeof hhAreaSchema>;
 export type HHDictionaries = z.infer<typeof hhDictionariesSchema>;
 export type FilterMatchRequest = z.infer<typeof filterMatchRequestSchema>;
 export type FilterMatchResponse = z.infer<typeof filterMatchResponseSchema>;
+export type AIJobCandidates = z.infer<typeof aiJobCandidatesSchema>;
+export type AIRankedTitles = z.infer<typeof aiRankedTitlesSchema>;
+export type AIKeywordRelevance = z.infer<typeof aiKeywordRelevanceSchema>;
+export type AIKeywordRelevanceBatch = z.infer<typeof aiKeywordRelevanceBatchSchema>;
+export type AIFilterMapping = z.infer<typeof aiFilterMappingSchema>;
 export type HHVacancyListItem = z.infer<typeof hhVacancyListItemSchema>;
 export type HHVacancyDetail = z.infer<typeof hhVacancyDetailSchema>;
+export type HHEmployer = z.infer<typeof hhEmployerSchema>;
+export type EmployerVacanciesResponse = z.infer<typeof employerVacanciesResponseSchema>;
 export type CoverLetterRequest = z.infer<typeof coverLetterRequestSchema>;
 export type CoverLetterResponse = z.infer<typeof coverLetterResponseSchema>;
+export type ScoringWeights = z.infer<typeof scoringWeightsSchema>;
+export type ScoringProfileConfig = z.infer<typeof scoringProfileConfigSchema>;
+export type ScoringProfile = z.infer<typeof scoringProfileSchema>;
+export type InsertScoringProfile = z.infer<typeof insertScoringProfileSchema>;
+export type InsertScoringProfileWithUser = z.infer<typeof insertScoringProfileWithUserSchema>;
+export type UpdateScoringProfile = z.infer<typeof updateScoringProfileSchema>;
+export type ScoringProfileRef = z.infer<typeof scoringProfileRefSchema>;
+export type ScoreContribution = z.infer<typeof scoreContributionSchema>;
+export type SearchTier = typeof searchTiers[number];
+export type SearchRunRequest = z.infer<typeof searchRunRequestSchema>;
+export type ScoredVacancy = z.infer<typeof scoredVacancySchema>;
+export type DuplicateVacancy = z.infer<typeof duplicateVacancySchema>;
+export type RepostMatch = z.infer<typeof repostMatchSchema>;
+export type SearchTierInfo = z.infer<typeof searchTierInfoSchema>;
+export type ExclusionField = typeof exclusionFields[number];
+export type ExcludedVacancy = z.infer<typeof excludedVacancySchema>;
+export type FitRankingInfo = z.infer<typeof fitRankingInfoSchema>;
+export type SalaryBasis = typeof salaryBases[number];
+export type SalaryStatsRequest = z.infer<typeof salaryStatsRequestSchema>;
+export type SalaryDistribution = z.infer<typeof salaryDistributionSchema>;
+export type SalaryStats = z.infer<typeof salaryStatsSchema>;
+export type SkillGap = z.infer<typeof skillGapSchema>;
+export type SkillGapAggregateRequest = z.infer<typeof skillGapAggregateRequestSchema>;
+export type SkillGapAggregateEntry = z.infer<typeof skillGapAggregateEntrySchema>;
+export type SkillGapAggregateResponse = z.infer<typeof skillGapAggregateResponseSchema>;
+export type SearchRunResponse = z.infer<typeof searchRunResponseSchema>;
+export type CacheSummary = z.infer<typeof cacheSummarySchema>;
+export type CacheKeyInfo = z.infer<typeof cacheKeyInfoSchema>;
+export type CacheKeysResponse = z.infer<typeof cacheKeysResponseSchema>;
+export type CacheInvalidateRequest = z.infer<typeof cacheInvalidateRequestSchema>;
+export type CacheInvalidateResponse = z.infer<typeof cacheInvalidateResponseSchema>;
+export type AIQueueStatus = z.infer<typeof aiQueueStatusSchema>;
+export type HHPriority = z.infer<typeof hhPrioritySchema>;
+export type HHSchedulerMetrics = z.infer<typeof hhSchedulerMetricsSchema>;
 
 
 
@@ -236,7 +726,15 @@ export const jobApplicationSchema = z.object({
   appliedVacancyIds: z.array(z.string()),
   lastEditedAt: z.date(),
   createdAt: z.date(),
-  isCompleted: z.boolean()
+  isCompleted: z.boolean(),
+  // Watched searches: the server re-runs watchParams every watchIntervalMinutes,
+  // diffs the result against knownVacancyIds and keeps unseen hits in newVacancies
+  isWatched: z.boolean().default(false),
+  watchIntervalMinutes: z.number().default(60),
+  watchParams: z.record(z.any()).nullable().default(null),
+  lastRunAt: z.date().nullable().default(null),
+  knownVacancyIds: z.array(z.string()).default([]),
+  newVacancies: z.array(z.any()).default([])
 });
 
 export const insertJobApplicationSchema = z.object({
@@ -255,6 +753,23 @@ export const insertJobApplicationSchema = z.object({
 
 export const updateJobApplicationSchema = insertJobApplicationSchema.partial().omit({ userId: true });
 
+export const minWatchIntervalMinutes = 15;
+
+export const watchJobApplicationRequestSchema = z.object({
+  isWatched: z.boolean(),
+  intervalMinutes: z.number().int().min(minWatchIntervalMinutes).max(7 * 24 * 60).optional()
+});
+
+// Fields owned by the watch scheduler - never accepted from the client directly
+export const jobApplicationWatchStateSchema = z.object({
+  isWatched: z.boolean(),
+  watchIntervalMinutes: z.number(),
+  watchParams: z.record(z.any()).nullable(),
+  lastRunAt: z.date().nullable(),
+  knownVacancyIds: z.array(z.string()),
+  newVacancies: z.array(z.any())
+}).partial();
+
 // Admin user management schemas
 export const createUserSchema = z.object({
   username: z.string().min(1).max(50),
@@ -274,6 +789,8 @@ export type LoginRequest = z.infer<typeof loginSchema>;
 export type JobApplication = z.infer<typeof jobApplicationSchema>;
 export type InsertJobApplication = z.infer<typeof insertJobApplicationSchema>;
 export type UpdateJobApplication = z.infer<typeof updateJobApplicationSchema>;
+export type WatchJobApplicationRequest = z.infer<typeof watchJobApplicationRequestSchema>;
+export type JobApplicationWatchState = z.infer<typeof jobApplicationWatchStateSchema>;
 
 // Saved Prompts Schema
 export const savedPromptSchema = z.object({
@@ -309,6 +826,7 @@ export const userSettingsSchema = z.object({
   lastUsedPromptType: z.string().optional(), // 'default', 'technical', 'creative', or saved prompt ID
   lastUsedPromptId: z.number().optional(), // For saved prompts
   lastUsedCustomPrompt: z.string().optional(), // For custom prompt text
+  resumeText: z.string().optional(), // Resume/profile text for fit re-ranking
   updatedAt: z.date(),
 });
 
@@ -317,10 +835,93 @@ export const insertUserSettingsSchema = z.object({
   lastUsedPromptType: z.string().optional(),
   lastUsedPromptId: z.number().optional(),
   lastUsedCustomPrompt: z.string().optional(),
+  resumeText: z.string().max(20000).optional(),
 });
 
 export const updateUserSettingsSchema = insertUserSettingsSchema.partial().omit({ userId: true });
 
+// Resume/profile documents - several per user, one of them the default used by
+// cover letters and resume fit ranking
+export const profileSourceTypes = ['text', 'markdown', 'pdf'] as const;
+
+export const profileSchema = z.object({
+  id: z.number(),
+  userId: z.number(),
+  name: z.string(),
+  content: z.string(),
+  skills: z.array(z.string()),
+  sourceType: z.enum(profileSourceTypes),
+  isDefault: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+});
+
+export const insertProfileSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  content: z.string().min(1, "Profile text is required").max(50000),
+  skills: z.array(z.string().min(1).max(100)).max(200).default([]),
+  sourceType: z.enum(profileSourceTypes).default('text'),
+  isDefault: z.boolean().default(false)
+});
+
+export const insertProfileWithUserSchema = insertProfileSchema.extend({
+  userId: z.number()
+});
+
+export const updateProfileSchema = insertProfileSchema.partial();
+
+// Text and Markdown are sent as-is, PDFs as base64
+export const profileImportRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  format: z.enum(profileSourceTypes),
+  data: z.string().min(1),
+  isDefault: z.boolean().default(false)
+});
+
+export type Profile = z.infer<typeof profileSchema>;
+export type ProfileSourceType = typeof profileSourceTypes[number];
+export type InsertProfile = z.infer<typeof insertProfileSchema>;
+export type InsertProfileWithUser = z.infer<typeof insertProfileWithUserSchema>;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
+export type ProfileImportRequest = z.infer<typeof profileImportRequestSchema>;
+
+// Per-user employer lists keyed by HH employer ID: blocked employers are
+// dropped from search results, favorites are ranked higher
+export const employerListKinds = ['blocked', 'favorite'] as const;
+
+export const employerListEntrySchema = z.object({
+  id: z.number(),
+  userId: z.number(),
+  employerId: z.string(),
+  employerName: z.string(),
+  kind: z.enum(employerListKinds),
+  createdAt: z.date()
+});
+
+export const insertEmployerListEntrySchema = z.object({
+  userId: z.number(),
+  employerId: z.string().regex(/^\d+$/, "HH employer ID must be numeric"),
+  employerName: z.string().min(1).max(300),
+  kind: z.enum(employerListKinds)
+});
+
+export const employerListRequestSchema = insertEmployerListEntrySchema.omit({ userId: true, employerId: true });
+
+export const hhEmployerSearchResultSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  url: z.string().optional(),
+  alternate_url: z.string().optional(),
+  logo_urls: z.record(z.string()).nullable().optional(),
+  open_vacancies: z.number().optional()
+});
+
+export type EmployerListKind = typeof employerListKinds[number];
+export type EmployerListEntry = z.infer<typeof employerListEntrySchema>;
+export type InsertEmployerListEntry = z.infer<typeof insertEmployerListEntrySchema>;
+export type EmployerListRequest = z.infer<typeof employerListRequestSchema>;
+export type HHEmployerSearchResult = z.infer<typeof hhEmployerSearchResultSchema>;
+
 export type UserSettings = z.infer<typeof userSettingsSchema>;
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 export type UpdateUserSettings = z.infer<typeof updateUserSettingsSchema>;
@@ -328,6 +929,29 @@ export type CreateUserRequest = z.infer<typeof createUserSchema>;
 export type UpdateUserRequest = z.infer<typeof updateUserSchema>;
 
 // Applied Vacancies schema for tracking job applications
+// Pipeline stages in order, followed by the terminal outcomes
+export const appliedVacancyPipelineStages = ['applied', 'viewed', 'invited', 'interview', 'offer'] as const;
+export const appliedVacancyTerminalStatuses = ['rejected', 'withdrawn'] as const;
+export const appliedVacancyStatuses = [...appliedVacancyPipelineStages, ...appliedVacancyTerminalStatuses] as const;
+
+export type AppliedVacancyStatus = typeof appliedVacancyStatuses[number];
+
+// A vacancy can move forward through the pipeline (skipping stages is fine,
+// e.g. straight to an invite) or end as rejected/withdrawn. Terminal states are final.
+export function getAllowedStatusTransitions(from: AppliedVacancyStatus): AppliedVacancyStatus[] {
+  const stageIndex = (appliedVacancyPipelineStages as readonly string[]).indexOf(from);
+  if (stageIndex === -1) return [];
+  
+  return [
+    ...appliedVacancyPipelineStages.slice(stageIndex + 1),
+    ...appliedVacancyTerminalStatuses
+  ];
+}
+
+export function canTransitionStatus(from: AppliedVacancyStatus, to: AppliedVacancyStatus): boolean {
+  return getAllowedStatusTransitions(from).includes(to);
+}
+
 export const appliedVacancySchema = z.object({
   id: z.number(),
   userId: z.number(),
@@ -335,7 +959,8 @@ export const appliedVacancySchema = z.object({
   vacancyTitle: z.string(),
   companyName: z.string(),
   appliedAt: z.date(),
-  status: z.enum(['applied', 'viewed', 'rejected', 'invited']).default('applied')
+  status: z.enum(appliedVacancyStatuses).default('applied'),
+  statusUpdatedAt: z.date()
 });
 
 export const insertAppliedVacancySchema = z.object({
@@ -343,8 +968,265 @@ export const insertAppliedVacancySchema = z.object({
   vacancyId: z.string(),
   vacancyTitle: z.string(),
   companyName: z.string(),
-  status: z.enum(['applied', 'viewed', 'rejected', 'invited']).default('applied')
+  status: z.enum(appliedVacancyStatuses).default('applied')
+});
+
+export const updateAppliedVacancySchema = insertAppliedVacancySchema.partial().omit({ userId: true, vacancyId: true });
+
+export const appliedVacancyStatusChangeSchema = z.object({
+  id: z.number(),
+  appliedVacancyId: z.number(),
+  fromStatus: z.enum(appliedVacancyStatuses).nullable(),
+  toStatus: z.enum(appliedVacancyStatuses),
+  note: z.string().nullable(),
+  changedAt: z.date()
+});
+
+export const insertAppliedVacancyStatusChangeSchema = z.object({
+  appliedVacancyId: z.number(),
+  fromStatus: z.enum(appliedVacancyStatuses).nullable(),
+  toStatus: z.enum(appliedVacancyStatuses),
+  note: z.string().nullable().default(null)
+});
+
+export const updateAppliedVacancyStatusRequestSchema = z.object({
+  status: z.enum(appliedVacancyStatuses),
+  note: z.string().max(2000).optional()
 });
 
 export type AppliedVacancy = z.infer<typeof appliedVacancySchema>;
 export type InsertAppliedVacancy = z.infer<typeof insertAppliedVacancySchema>;
+export type UpdateAppliedVacancy = z.infer<typeof updateAppliedVacancySchema>;
+export type AppliedVacancyStatusChange = z.infer<typeof appliedVacancyStatusChangeSchema>;
+export type InsertAppliedVacancyStatusChange = z.infer<typeof insertAppliedVacancyStatusChangeSchema>;
+export type UpdateAppliedVacancyStatusRequest = z.infer<typeof updateAppliedVacancyStatusRequestSchema>;
+
+// AI usage accounting: one row per provider call, attributed to the user and
+// feature (seedTerms, relevanceFiltering, filterMapping, coverLetter, and
+// fitRanking for hosted embeddings)
+export const aiUsageRecordSchema = z.object({
+  id: z.number(),
+  userId: z.number().nullable(),
+  feature: z.string(),
+  provider: z.string(),
+  model: z.string(),
+  // From the provider's usage metadata; null when it reports none or the call failed
+  promptTokens: z.number().nullable(),
+  completionTokens: z.number().nullable(),
+  totalTokens: z.number().nullable(),
+  latencyMs: z.number(),
+  success: z.boolean(),
+  createdAt: z.date()
+});
+
+export const insertAIUsageRecordSchema = aiUsageRecordSchema.omit({ id: true, createdAt: true });
+
+// Calls and tokens per user and feature since some point in time
+export const aiUsageTotalsSchema = z.object({
+  userId: z.number().nullable(),
+  feature: z.string(),
+  requests: z.number(),
+  tokens: z.number(),
+  latencyMs: z.number()
+});
+
+// Null limits are unlimited; a user without a row has no quota at all
+export const aiQuotaLimitsSchema = z.object({
+  dailyRequests: z.number().int().positive().nullable(),
+  monthlyRequests: z.number().int().positive().nullable(),
+  dailyTokens: z.number().int().positive().nullable(),
+  monthlyTokens: z.number().int().positive().nullable()
+});
+
+export const aiQuotaSchema = aiQuotaLimitsSchema.extend({
+  userId: z.number(),
+  updatedAt: z.date()
+});
+
+export const aiUsagePeriods = ['day', 'month'] as const;
+
+const aiUsageCountsSchema = z.object({
+  requests: z.number(),
+  tokens: z.number()
+});
+
+// One row of the admin AI usage table; periods are UTC calendar days and months
+export const aiUserUsageSchema = z.object({
+  userId: z.number(),
+  username: z.string(),
+  today: aiUsageCountsSchema,
+  month: aiUsageCountsSchema.extend({
+    avgLatencyMs: z.number(),
+    byFeature: z.record(aiUsageCountsSchema)
+  }),
+  quota: aiQuotaLimitsSchema
+});
+
+export type AIUsageRecord = z.infer<typeof aiUsageRecordSchema>;
+export type InsertAIUsageRecord = z.infer<typeof insertAIUsageRecordSchema>;
+export type AIUsageTotals = z.infer<typeof aiUsageTotalsSchema>;
+export type AIQuotaLimits = z.infer<typeof aiQuotaLimitsSchema>;
+export type AIQuota = z.infer<typeof aiQuotaSchema>;
+export type AIUsagePeriod = typeof aiUsagePeriods[number];
+export type AIUserUsage = z.infer<typeof aiUserUsageSchema>;
+
+// Database tables (Drizzle) - mirror the zod schemas above so DbStorage can
+// return the same shapes as MemStorage
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  isAdmin: boolean("is_admin").notNull().default(false),
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+});
+
+export const jobApplications = pgTable("job_applications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  currentStep: integer("current_step").notNull(),
+  selectedKeywords: jsonb("selected_keywords").$type<string[]>().notNull().default([]),
+  suggestedKeywords: jsonb("suggested_keywords").$type<string[]>().notNull().default([]),
+  filters: jsonb("filters").$type<Record<string, any>>().notNull().default({}),
+  currentVacancyIndex: integer("current_vacancy_index").notNull().default(0),
+  vacancies: jsonb("vacancies").$type<any[]>().notNull().default([]),
+  totalVacancies: integer("total_vacancies").notNull().default(0),
+  appliedVacancyIds: jsonb("applied_vacancy_ids").$type<string[]>().notNull().default([]),
+  lastEditedAt: timestamp("last_edited_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  isCompleted: boolean("is_completed").notNull().default(false),
+  isWatched: boolean("is_watched").notNull().default(false),
+  watchIntervalMinutes: integer("watch_interval_minutes").notNull().default(60),
+  watchParams: jsonb("watch_params").$type<Record<string, any>>(),
+  lastRunAt: timestamp("last_run_at"),
+  knownVacancyIds: jsonb("known_vacancy_ids").$type<string[]>().notNull().default([]),
+  newVacancies: jsonb("new_vacancies").$type<any[]>().notNull().default([])
+}, (table) => [
+  index("job_applications_user_id_idx").on(table.userId),
+  index("job_applications_is_watched_idx").on(table.isWatched)
+]);
+
+export const savedPrompts = pgTable("saved_prompts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  prompt: text("prompt").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => [
+  uniqueIndex("saved_prompts_user_id_name_idx").on(table.userId, table.name)
+]);
+
+export const scoringProfiles = pgTable("scoring_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  config: jsonb("config").$type<z.infer<typeof scoringProfileConfigSchema>>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+}, (table) => [
+  uniqueIndex("scoring_profiles_user_id_name_idx").on(table.userId, table.name)
+]);
+
+export const profiles = pgTable("profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  content: text("content").notNull(),
+  skills: jsonb("skills").$type<string[]>().notNull().default([]),
+  sourceType: text("source_type").$type<ProfileSourceType>().notNull().default("text"),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+}, (table) => [
+  index("profiles_user_id_idx").on(table.userId)
+]);
+
+export const employerListEntries = pgTable("employer_list_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  employerId: text("employer_id").notNull(),
+  employerName: text("employer_name").notNull(),
+  kind: text("kind", { enum: employerListKinds }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => [
+  // An employer is either blocked or a favorite, never both
+  uniqueIndex("employer_list_entries_user_id_employer_id_idx").on(table.userId, table.employerId)
+]);
+
+export const userSettings = pgTable("user_settings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  lastUsedPromptType: text("last_used_prompt_type"),
+  lastUsedPromptId: integer("last_used_prompt_id"),
+  lastUsedCustomPrompt: text("last_used_custom_prompt"),
+  resumeText: text("resume_text"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
+export const appliedVacancies = pgTable("applied_vacancies", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  vacancyId: text("vacancy_id").notNull(),
+  vacancyTitle: text("vacancy_title").notNull(),
+  companyName: text("company_name").notNull(),
+  appliedAt: timestamp("applied_at").notNull().defaultNow(),
+  status: text("status", { enum: appliedVacancyStatuses }).notNull().default("applied"),
+  statusUpdatedAt: timestamp("status_updated_at").notNull().defaultNow()
+}, (table) => [
+  uniqueIndex("applied_vacancies_user_id_vacancy_id_idx").on(table.userId, table.vacancyId)
+]);
+
+export const appliedVacancyStatusHistory = pgTable("applied_vacancy_status_history", {
+  id: serial("id").primaryKey(),
+  appliedVacancyId: integer("applied_vacancy_id").notNull().references(() => appliedVacancies.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status", { enum: appliedVacancyStatuses }),
+  toStatus: text("to_status", { enum: appliedVacancyStatuses }).notNull(),
+  note: text("note"),
+  changedAt: timestamp("changed_at").notNull().defaultNow()
+}, (table) => [
+  index("applied_vacancy_status_history_applied_vacancy_id_idx").on(table.appliedVacancyId)
+]);
+
+// Persistent tier of the server caches (CACHE_BACKEND=postgres). Rows stay
+// until retain_until so stale entries can still be served while refreshing.
+export const cacheEntries = pgTable("cache_entries", {
+  namespace: text("namespace").notNull(),
+  key: text("key").notNull(),
+  value: jsonb("value").notNull(),
+  storedAt: timestamp("stored_at").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  retainUntil: timestamp("retain_until").notNull()
+}, (table) => [
+  uniqueIndex("cache_entries_namespace_key_idx").on(table.namespace, table.key),
+  index("cache_entries_retain_until_idx").on(table.retainUntil)
+]);
+
+export const aiUsage = pgTable("ai_usage", {
+  id: serial("id").primaryKey(),
+  // Null for calls made outside a signed-in request
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  feature: text("feature").notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  totalTokens: integer("total_tokens"),
+  latencyMs: integer("latency_ms").notNull(),
+  success: boolean("success").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => [
+  index("ai_usage_user_id_created_at_idx").on(table.userId, table.createdAt),
+  index("ai_usage_created_at_idx").on(table.createdAt)
+]);
+
+export const aiQuotas = pgTable("ai_quotas", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  dailyRequests: integer("daily_requests"),
+  monthlyRequests: integer("monthly_requests"),
+  dailyTokens: integer("daily_tokens"),
+  monthlyTokens: integer("monthly_tokens"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
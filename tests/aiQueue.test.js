@@ -0,0 +1,151 @@
+/**
+ * Shared AI request queue: concurrency, round-robin fairness between users,
+ * the per-minute budget, cancellation of queued requests, and batching of
+ * relevance scoring into one provider call
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AIRequestQueue, AIRequestCancelledError, RequestBatcher } from '../server/services/aiQueue.js';
+import { createClient, deferred } from './helpers.js';
+
+describe('AIRequestQueue', () => {
+  it('runs requests side by side up to maxConcurrent', async () => {
+    const queue = new AIRequestQueue({ requestsPerMinute: 0, maxConcurrent: 3 });
+    let running = 0;
+    let peak = 0;
+
+    await Promise.all(Array.from({ length: 7 }, (_, index) => queue.enqueue(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    }, { userId: index })));
+
+    expect(peak).toBe(3);
+  });
+
+  it('takes queued requests round-robin per user', async () => {
+    const queue = new AIRequestQueue({ requestsPerMinute: 0, maxConcurrent: 1 });
+    const blocker = deferred();
+    const order = [];
+    const track = (label) => async () => { order.push(label); };
+
+    const first = queue.enqueue(() => blocker.promise);
+    const calls = [
+      queue.enqueue(track('a1'), { userId: 1 }),
+      queue.enqueue(track('a2'), { userId: 1 }),
+      queue.enqueue(track('a3'), { userId: 1 }),
+      queue.enqueue(track('b1'), { userId: 2 })
+    ];
+
+    expect(queue.getStatus(1)).toMatchObject({ position: 0, queued: 3, totalQueued: 4, inFlight: 1 });
+    expect(queue.getStatus(2)).toMatchObject({ position: 1, queued: 1 });
+    expect(queue.getStatus(3)).toMatchObject({ position: null, queued: 0, estimatedWaitMs: 0 });
+
+    blocker.resolve();
+    await Promise.all([first, ...calls]);
+    expect(order).toEqual(['a1', 'b1', 'a2', 'a3']);
+  });
+
+  it('holds requests beyond the per-minute budget and estimates the wait', async () => {
+    const clock = { time: 0 };
+    const queue = new AIRequestQueue({ requestsPerMinute: 2, maxConcurrent: 5, now: () => clock.time });
+
+    await queue.enqueue(async () => {}, { userId: 1 });
+    clock.time = 10000;
+    await queue.enqueue(async () => {}, { userId: 1 });
+
+    const controller = new AbortController();
+    let ran = false;
+    const third = queue.enqueue(async () => { ran = true; }, { userId: 2, signal: controller.signal });
+
+    expect(queue.getStatus(2)).toMatchObject({ position: 0, estimatedWaitMs: 50000, requestsPerMinute: 2 });
+
+    controller.abort();
+    await expect(third).rejects.toBeInstanceOf(AIRequestCancelledError);
+    expect(ran).toBe(false);
+    expect(queue.getStatus(2).position).toBeNull();
+  });
+
+  it('drops a cancelled request without touching the others', async () => {
+    const queue = new AIRequestQueue({ requestsPerMinute: 0, maxConcurrent: 1 });
+    const blocker = deferred();
+    const controller = new AbortController();
+    const ran = [];
+
+    const first = queue.enqueue(() => blocker.promise);
+    const cancelled = queue.enqueue(async () => { ran.push('cancelled'); }, { userId: 1, signal: controller.signal });
+    const kept = queue.enqueue(async () => { ran.push('kept'); }, { userId: 2 });
+
+    controller.abort();
+    await expect(cancelled).rejects.toThrow('AI request cancelled');
+    blocker.resolve();
+    await Promise.all([first, kept]);
+    expect(ran).toEqual(['kept']);
+  });
+});
+
+describe('RequestBatcher', () => {
+  it('runs items that arrive together in one call', async () => {
+    const calls = [];
+    const batcher = new RequestBatcher(async (items, context) => {
+      calls.push({ items, userId: context.userId });
+      return items.map(item => item * 10);
+    }, { windowMs: 10 });
+
+    const results = await Promise.all([batcher.add(1, { userId: 7 }), batcher.add(2, { userId: 8 })]);
+
+    expect(results).toEqual([10, 20]);
+    expect(calls).toEqual([{ items: [1, 2], userId: 7 }]);
+  });
+
+  it('flushes early at maxSize', async () => {
+    const sizes = [];
+    const batcher = new RequestBatcher(async items => {
+      sizes.push(items.length);
+      return items;
+    }, { windowMs: 1000, maxSize: 2 });
+
+    await Promise.all([batcher.add('a'), batcher.add('b')]);
+    expect(sizes).toEqual([2]);
+  });
+
+  it('leaves out callers that cancel before the batch runs', async () => {
+    const calls = [];
+    const batcher = new RequestBatcher(async items => {
+      calls.push(items);
+      return items;
+    }, { windowMs: 10 });
+    const controller = new AbortController();
+
+    const cancelled = batcher.add('gone', { signal: controller.signal });
+    const kept = batcher.add('kept');
+    controller.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(AIRequestCancelledError);
+    expect(await kept).toBe('kept');
+    expect(calls).toEqual([['kept']]);
+  });
+});
+
+describe('AIClient relevance batching', () => {
+  it('scores concurrent relevance requests with one provider call', async () => {
+    const { client, provider } = createClient([{
+      feature: 'relevanceFiltering',
+      respond: JSON.stringify({ results: [
+        { query: 0, keywords: [{ text: 'vue', relevanceScore: 3 }, { text: 'react', relevanceScore: 9 }] },
+        { query: 1, keywords: [{ text: 'kotlin', relevanceScore: 8 }] }
+      ] })
+    }], { relevanceBatch: { windowMs: 10 } });
+
+    const [frontend, android] = await Promise.all([
+      client.filterKeywordsByRelevance('react', ['vue', 'react'], { userId: 1 }),
+      client.filterKeywordsByRelevance('android', ['kotlin'], { userId: 2 })
+    ]);
+
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].prompt).toContain('Запрос: "android"');
+    expect(frontend).toEqual([{ text: 'react', relevanceScore: 9 }, { text: 'vue', relevanceScore: 3 }]);
+    expect(android).toEqual([{ text: 'kotlin', relevanceScore: 8 }]);
+  });
+});
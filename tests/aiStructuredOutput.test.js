@@ -0,0 +1,58 @@
+/**
+ * Structured AI outputs: responses are validated against the shared zod
+ * schemas, invalid ones are repaired with the validation errors, and
+ * failures are counted per feature
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { extractJson } from '../server/services/aiClient.js';
+import { createClient } from './helpers.js';
+
+describe('extractJson', () => {
+  it('reads JSON wrapped in code fences or prose', () => {
+    expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Here you go:\n[{"a": [1]}]\nThanks')).toEqual([{ a: [1] }]);
+  });
+});
+
+describe('AIClient structured outputs', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('repairs an invalid filter mapping using the validation errors', async () => {
+    const { client, provider } = createClient([
+      { feature: 'filterMapping', match: 'could not be used', respond: '{"area":1,"metro":null}' },
+      { feature: 'filterMapping', respond: 'Sure! {"area": {"id": 1}}' }
+    ]);
+
+    const answers = { selectedKeywords: ['react'], enableLocationFilter: true, locationText: 'Atlantis' };
+    expect(await client.mapFiltersToHH(answers, {}, []))
+      .toEqual({ text: 'react', period: 7, order_by: 'relevance', area: '1' });
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].prompt).toContain('- area: Invalid input');
+    expect(client.getOutputMetrics().filterMapping).toMatchObject({ requests: 1, validationFailures: 1, repaired: 1, failed: 0 });
+  });
+
+  it('falls back only after the repair attempts are exhausted', async () => {
+    const { client, provider } = createClient([
+      { feature: 'relevanceFiltering', respond: 'not json at all' }
+    ]);
+
+    const scored = await client.filterKeywordsByRelevance('react', ['react', 'vue']);
+    expect(scored[0]).toEqual({ text: 'react', relevanceScore: 10 });
+    expect(provider.requests).toHaveLength(3);
+    expect(client.getOutputMetrics().relevanceFiltering).toMatchObject({ parseFailures: 3, failed: 1 });
+  });
+
+  it('validates seed term candidates and rankings', async () => {
+    const { client } = createClient([
+      { feature: 'seedTerms', match: 'Список должностей', respond: '{"ranked":[{"rank":"1","title":"Frontend-разработчик"}]}' },
+      { feature: 'seedTerms', respond: '{"domain":null,"candidates":[{"title":"Frontend-разработчик"}]}' }
+    ]);
+
+    expect(await client.generateRankedJobTitles('frontend'))
+      .toEqual([{ rank: 1, title: 'Frontend-разработчик', reason: '' }]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * AI usage accounting: every provider call is recorded against the user and
+ * feature with its tokens and latency, and daily/monthly quotas turn requests
+ * away with AIQuotaExceededError before they reach the provider
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AIUsageTracker, AIQuotaExceededError } from '../server/services/aiUsage.js';
+import { MemStorage } from '../server/storage.js';
+import { createClient as createRuleClient } from './helpers.js';
+
+const COVER_LETTER = 'Dear hiring team, I would love to join you as a frontend developer.';
+
+function createClient(store, now) {
+  return createRuleClient([
+    { feature: 'coverLetter', respond: COVER_LETTER, usage: { promptTokens: 40, completionTokens: 20, totalTokens: 60 } }
+  ], { usage: new AIUsageTracker(store, now) });
+}
+
+const letterRequest = {
+  name: 'Frontend developer',
+  employerName: 'Acme',
+  areaName: 'Moscow',
+  skillsList: ['React'],
+  plainDescription: 'Build the UI'
+};
+
+// Recording doesn't hold up the AI call, so let it land first
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const noLimits = { dailyRequests: null, monthlyRequests: null, dailyTokens: null, monthlyTokens: null };
+
+describe('AIUsageTracker', () => {
+  let store;
+
+  beforeEach(() => {
+    store = new MemStorage();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('records calls with their tokens, latency, user and feature', async () => {
+    const { client } = createClient(store);
+
+    await client.generateCoverLetter(letterRequest, { userId: 1 });
+    await settle();
+
+    const totals = await store.getAIUsageTotals(new Date(0));
+    expect(totals).toMatchObject([{ userId: 1, feature: 'coverLetter', requests: 1, tokens: 60 }]);
+    expect(totals[0].latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('records failed calls without tokens', async () => {
+    const { client } = createClient(store);
+
+    await client.mapFiltersToHH(
+      { selectedKeywords: ['react'], enableLocationFilter: true, locationText: 'Atlantis' },
+      { experience: [], employment: [], schedule: [], vacancy_search_order: [], currency: [] },
+      [],
+      [],
+      { userId: 2 }
+    );
+    await settle();
+
+    const totals = await store.getAIUsageTotals(new Date(0), 2);
+    expect(totals).toMatchObject([{ userId: 2, feature: 'filterMapping', requests: 1, tokens: 0 }]);
+  });
+
+  it('rejects requests once the daily request quota is used up', async () => {
+    const { client, provider } = createClient(store);
+    await store.upsertAIQuota(1, { ...noLimits, dailyRequests: 1 });
+
+    await client.generateCoverLetter(letterRequest, { userId: 1 });
+    await settle();
+
+    const error = await client.generateCoverLetter(letterRequest, { userId: 1 }).catch(caught => caught);
+    expect(error).toBeInstanceOf(AIQuotaExceededError);
+    expect(error).toMatchObject({ period: 'day', limit: 'requests', used: 1, quota: 1 });
+    expect(provider.requests).toHaveLength(1);
+
+    // Other users are unaffected
+    expect(await client.generateCoverLetter(letterRequest, { userId: 2 })).toBe(COVER_LETTER);
+  });
+
+  it('counts tokens against the monthly quota and resets with the period', async () => {
+    let now = new Date('2026-03-31T23:00:00Z');
+    const { client } = createClient(store, () => now);
+    await store.upsertAIQuota(1, { ...noLimits, monthlyTokens: 50 });
+
+    await client.generateCoverLetter(letterRequest, { userId: 1 });
+    await settle();
+
+    const error = await client.generateCoverLetter(letterRequest, { userId: 1 }).catch(caught => caught);
+    expect(error).toMatchObject({ period: 'month', limit: 'tokens', used: 60, quota: 50 });
+    expect(error.resetAt.toISOString()).toBe('2026-04-01T00:00:00.000Z');
+    expect(error.toResponse()).toMatchObject({ error: 'ai_quota_exceeded', resetAt: '2026-04-01T00:00:00.000Z' });
+
+    // Records are stamped with the real clock, so move the tracker to a later month
+    now = new Date(Date.now() + 40 * 24 * 60 * 60 * 1000);
+    expect(await client.generateCoverLetter(letterRequest, { userId: 1 })).toBe(COVER_LETTER);
+  });
+
+  it('splits a batched relevance call between its callers by keyword count', async () => {
+    const { client } = createRuleClient([{
+      feature: 'relevanceFiltering',
+      respond: JSON.stringify({ results: [
+        { query: 0, keywords: [{ text: 'vue', relevanceScore: 3 }, { text: 'react', relevanceScore: 9 }] },
+        { query: 1, keywords: [{ text: 'kotlin', relevanceScore: 8 }] }
+      ] }),
+      usage: { promptTokens: 60, completionTokens: 30, totalTokens: 90 }
+    }], { usage: new AIUsageTracker(store), relevanceBatch: { windowMs: 10 } });
+
+    await Promise.all([
+      client.filterKeywordsByRelevance('react', ['vue', 'react'], { userId: 1 }),
+      client.filterKeywordsByRelevance('android', ['kotlin'], { userId: 2 })
+    ]);
+    await settle();
+
+    const totals = (await store.getAIUsageTotals(new Date(0))).sort((a, b) => a.userId - b.userId);
+    expect(totals).toMatchObject([
+      { userId: 1, feature: 'relevanceFiltering', requests: 1, tokens: 60 },
+      { userId: 2, feature: 'relevanceFiltering', requests: 1, tokens: 30 }
+    ]);
+  });
+
+  it('turns away only the caller who went over quota while a batch was collecting', async () => {
+    const { client, provider } = createRuleClient([{
+      feature: 'relevanceFiltering',
+      respond: JSON.stringify([{ text: 'react', relevanceScore: 9 }])
+    }], { usage: new AIUsageTracker(store), relevanceBatch: { windowMs: 20 } });
+    await store.recordAIUsage({ userId: 2, feature: 'coverLetter', provider: 'rules', model: 'rules', promptTokens: null, completionTokens: null, totalTokens: null, latencyMs: 1, success: true });
+
+    const within = client.filterKeywordsByRelevance('react', ['react'], { userId: 1 });
+    const over = client.filterKeywordsByRelevance('react', ['react'], { userId: 2 }).catch(caught => caught);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await store.upsertAIQuota(2, { ...noLimits, dailyRequests: 1 });
+
+    expect(await within).toEqual([{ text: 'react', relevanceScore: 9 }]);
+    expect(await over).toBeInstanceOf(AIQuotaExceededError);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('drops records from before the current month', async () => {
+    const entry = { userId: 1, feature: 'coverLetter', provider: 'rules', model: 'rules', promptTokens: null, completionTokens: null, totalTokens: 10, latencyMs: 1, success: true };
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2026-03-31T23:00:00Z'));
+      await store.recordAIUsage(entry);
+      vi.setSystemTime(new Date('2026-04-01T01:00:00Z'));
+      await store.recordAIUsage(entry);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(await store.getAIUsageTotals(new Date(0))).toMatchObject([{ userId: 1, requests: 1, tokens: 10 }]);
+  });
+
+  it('never limits calls without a user', async () => {
+    const tracker = new AIUsageTracker(store);
+    await expect(tracker.checkQuota(undefined)).resolves.toBeUndefined();
+  });
+
+  it('logs instead of failing when recording fails', async () => {
+    const tracker = new AIUsageTracker({
+      recordAIUsage: async () => { throw new Error('db down'); }
+    });
+
+    await expect(tracker.record({ userId: 1, feature: 'coverLetter', provider: 'rules', model: 'rules', promptTokens: null, completionTokens: null, totalTokens: null, latencyMs: 5, success: true })).resolves.toBeUndefined();
+  });
+
+  it('lists usage per user with today, this month, features and quota', async () => {
+    const { client } = createClient(store);
+    const user = await store.createUser({ username: 'maria', password: 'secret1', isAdmin: false });
+    await store.upsertAIQuota(user.id, { ...noLimits, dailyRequests: 20 });
+
+    await client.generateCoverLetter(letterRequest, { userId: user.id });
+    await client.generateCoverLetter(letterRequest, { userId: user.id });
+    await settle();
+
+    const tracker = new AIUsageTracker(store);
+    const [admin, maria] = await tracker.listUsage(await store.getAllUsers());
+    expect(admin).toMatchObject({ username: 'admin', today: { requests: 0, tokens: 0 }, quota: noLimits });
+    expect(maria).toMatchObject({
+      username: 'maria',
+      today: { requests: 2, tokens: 120 },
+      month: { requests: 2, tokens: 120, byFeature: { coverLetter: { requests: 2, tokens: 120 } } },
+      quota: { ...noLimits, dailyRequests: 20 }
+    });
+  });
+});
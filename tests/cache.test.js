@@ -0,0 +1,312 @@
+/**
+ * Caches: LRU stats and eviction, the tiered cache's per-namespace TTLs,
+ * stale-while-revalidate and prefix invalidation in front of the shared
+ * backends (file store, Redis protocol)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import net from 'net';
+import { LRUCache, TieredCache } from '../server/services/cache.js';
+import { FileCacheBackend, MemoryCacheBackend, RedisCacheBackend } from '../server/services/cacheBackends.js';
+import { RedisClient, parseResp } from '../server/services/redisClient.js';
+import { startRedisMockServer } from '../server/mock/redisMockServer.js';
+
+function createClock() {
+  const clock = { time: 0, now: () => clock.time };
+  return clock;
+}
+
+describe('LRUCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts hits, misses and evictions', () => {
+    const cache = new LRUCache(2, 1000);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.summary()).toMatchObject({ kind: 'lru', size: 2, maxSize: 2, hits: 1, misses: 1, evictions: 1 });
+  });
+
+  it('purges expired entries before evicting a live one', () => {
+    vi.useFakeTimers();
+    const cache = new LRUCache(2, 1000);
+    cache.set('live', 1, 10000);
+    cache.set('short', 2, 100);
+    vi.advanceTimersByTime(500);
+    cache.set('new', 3);
+
+    expect(cache.get('live')).toBe(1);
+    expect(cache.summary().evictions).toBe(0);
+  });
+
+  it('lists keys with their remaining TTL and invalidates by prefix', async () => {
+    const cache = new LRUCache(10, 1000);
+    cache.set('vacancy:1', 1);
+    cache.set('vacancy:2', 2, 5000);
+    cache.set('employer:1', 3);
+
+    expect(cache.keys('vacancy:').map(info => info.key)).toEqual(['vacancy:1', 'vacancy:2']);
+    expect(cache.keys('vacancy:2')[0].ttlRemainingMs).toBeGreaterThan(1000);
+    expect(await cache.invalidate('vacancy:')).toBe(2);
+    expect(cache.keys().map(info => info.key)).toEqual(['employer:1']);
+  });
+});
+
+describe('TieredCache', () => {
+  it('serves fresh entries and counts hits and misses', async () => {
+    const clock = createClock();
+    const cache = new TieredCache('areas', { ttlMs: 1000, now: clock.now });
+    let loads = 0;
+    const load = async () => ++loads;
+
+    expect(await cache.getOrLoad('areas', load)).toBe(1);
+    clock.time = 999;
+    expect(await cache.getOrLoad('areas', load)).toBe(1);
+    clock.time = 1000;
+    expect(await cache.getOrLoad('areas', load)).toBe(2);
+    expect(cache.getStats()).toMatchObject({ hits: 1, staleHits: 0, misses: 2, size: 1 });
+  });
+
+  it('returns stale entries while refreshing them in the background', async () => {
+    const clock = createClock();
+    const cache = new TieredCache('dictionaries', { ttlMs: 1000, staleMs: 5000, now: clock.now });
+    let loads = 0;
+    const load = async () => ++loads;
+
+    await cache.getOrLoad('dictionaries', load);
+    clock.time = 2000;
+    expect(await cache.getOrLoad('dictionaries', load)).toBe(1);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(await cache.getOrLoad('dictionaries', load)).toBe(2);
+    expect(cache.getStats().staleHits).toBe(1);
+
+    clock.time = 10000;
+    expect(await cache.getOrLoad('dictionaries', load)).toBe(3);
+  });
+
+  it('shares one load between concurrent callers', async () => {
+    const cache = new TieredCache('suggestions', { ttlMs: 1000 });
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return 'value';
+    };
+
+    await Promise.all([cache.getOrLoad('q', load), cache.getOrLoad('q', load), cache.getOrLoad('q', load)]);
+    expect(loads).toBe(1);
+  });
+
+  it('picks up entries another instance wrote to the backend', async () => {
+    const backend = new MemoryCacheBackend();
+    const first = new TieredCache('areas', { ttlMs: 60000, backend });
+    const second = new TieredCache('areas', { ttlMs: 60000, backend });
+
+    await first.set('areas', [{ id: '1' }]);
+    expect(await second.get('areas')).toEqual([{ id: '1' }]);
+
+    await second.clear();
+    expect(await new TieredCache('areas', { ttlMs: 60000, backend }).get('areas')).toBeUndefined();
+  });
+
+  it('invalidates a prefix in both tiers', async () => {
+    const backend = new MemoryCacheBackend();
+    const cache = new TieredCache('suggestions', { ttlMs: 60000, backend });
+    await cache.set('ai-keywords-ru:react', 1);
+    await cache.set('ai-keywords-ru:java', 2);
+    await cache.set('hh:react', 3);
+
+    expect(await cache.invalidate('ai-keywords-ru:')).toBe(2);
+    expect(await new TieredCache('suggestions', { ttlMs: 60000, backend }).get('ai-keywords-ru:java')).toBeUndefined();
+    expect(cache.keys().map(info => info.key)).toEqual(['hh:react']);
+  });
+
+  it('reloads fresh entries on demand', async () => {
+    const cache = new TieredCache('dictionaries', { ttlMs: 60000 });
+    await cache.set('dictionaries', 'old');
+
+    expect(await cache.reload('dictionaries', async () => 'new')).toBe('new');
+    expect(await cache.get('dictionaries')).toBe('new');
+  });
+
+  it('counts evictions from the in-process tier', async () => {
+    const cache = new TieredCache('areas', { ttlMs: 60000, maxSize: 1 });
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+
+    expect(cache.summary()).toMatchObject({ kind: 'tiered', backend: 'memory', size: 1, evictions: 1 });
+  });
+
+  it('treats backend failures as misses', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const backend = {
+      kind: 'redis',
+      get: async () => { throw new Error('ECONNREFUSED'); },
+      set: async () => { throw new Error('ECONNREFUSED'); },
+      delete: async () => {},
+      clear: async () => {}
+    };
+    const cache = new TieredCache('areas', { ttlMs: 1000, backend });
+
+    expect(await cache.getOrLoad('areas', async () => 'loaded')).toBe('loaded');
+    expect(cache.getStats().backendErrors).toBe(2);
+  });
+});
+
+describe('FileCacheBackend', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps entries across instances until the retain time', async () => {
+    const clock = createClock();
+    const entry = { value: { id: '1' }, storedAt: 0, expiresAt: 1000 };
+    await new FileCacheBackend(dir, clock.now).set('areas', 'areas', entry, 5000);
+
+    const reopened = new FileCacheBackend(dir, clock.now);
+    expect(await reopened.get('areas', 'areas')).toEqual(entry);
+    clock.time = 5000;
+    expect(await reopened.get('areas', 'areas')).toBeUndefined();
+  });
+
+  it('clears one namespace', async () => {
+    const backend = new FileCacheBackend(dir);
+    const entry = { value: 1, storedAt: 0, expiresAt: Date.now() + 1000 };
+    await backend.set('areas', 'areas', entry, 60000);
+    await backend.set('dictionaries', 'dictionaries', entry, 60000);
+
+    await backend.clear('areas');
+    expect(await backend.get('areas', 'areas')).toBeUndefined();
+    expect(await backend.get('dictionaries', 'dictionaries')).toEqual(entry);
+  });
+
+  it('clears keys by prefix', async () => {
+    const backend = new FileCacheBackend(dir);
+    const entry = { value: 1, storedAt: 0, expiresAt: Date.now() + 1000 };
+    await backend.set('vacancy-details', 'vacancy:1', entry, 60000);
+    await backend.set('vacancy-details', 'other:1', entry, 60000);
+
+    await backend.clear('vacancy-details', 'vacancy:');
+    expect(await backend.get('vacancy-details', 'vacancy:1')).toBeUndefined();
+    expect(await backend.get('vacancy-details', 'other:1')).toEqual(entry);
+  });
+});
+
+describe('RedisCacheBackend', () => {
+  let mock;
+  let client;
+
+  beforeEach(async () => {
+    mock = await startRedisMockServer();
+    client = new RedisClient(mock.url);
+  });
+
+  afterEach(async () => {
+    client.close();
+    await mock.close();
+  });
+
+  it('stores entries with a PX expiry under the namespace prefix', async () => {
+    const backend = new RedisCacheBackend(client);
+    const entry = { value: { name: 'Москва' }, storedAt: 0, expiresAt: 1000 };
+
+    await backend.set('areas', 'areas', entry, 5000);
+    expect(await backend.get('areas', 'areas')).toEqual(entry);
+    expect(mock.commands).toContainEqual(['SET', 'hh-finder:cache:areas:areas', JSON.stringify(entry), 'PX', '5000']);
+  });
+
+  it('clears one namespace by SCAN', async () => {
+    const backend = new RedisCacheBackend(client);
+    const entry = { value: 1, storedAt: 0, expiresAt: 1000 };
+    await backend.set('suggestions', 'ai-keywords-ru:react', entry, 5000);
+    await backend.set('suggestions', 'ai-keywords-ru:java', entry, 5000);
+    await backend.set('areas', 'areas', entry, 5000);
+
+    await backend.clear('suggestions');
+    expect(await backend.get('suggestions', 'ai-keywords-ru:react')).toBeUndefined();
+    expect(await backend.get('areas', 'areas')).toEqual(entry);
+  });
+
+  it('clears keys by prefix, escaping glob characters', async () => {
+    const backend = new RedisCacheBackend(client);
+    const entry = { value: 1, storedAt: 0, expiresAt: 1000 };
+    await backend.set('suggestions', 'ai-keywords-ru:c*', entry, 5000);
+    await backend.set('suggestions', 'ai-keywords-ru:cpp', entry, 5000);
+
+    await backend.clear('suggestions', 'ai-keywords-ru:c*');
+    expect(await backend.get('suggestions', 'ai-keywords-ru:c*')).toBeUndefined();
+    expect(await backend.get('suggestions', 'ai-keywords-ru:cpp')).toEqual(entry);
+  });
+
+  it('reconnects after the connection drops', async () => {
+    const backend = new RedisCacheBackend(client);
+    const entry = { value: 1, storedAt: 0, expiresAt: 1000 };
+    await backend.set('areas', 'areas', entry, 5000);
+
+    mock.dropConnections();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(await backend.get('areas', 'areas')).toEqual(entry);
+  });
+
+  it('keeps an idle connection open past the reply timeout', async () => {
+    const quick = new RedisClient(mock.url, { timeoutMs: 30 });
+    const backend = new RedisCacheBackend(quick);
+
+    await backend.get('areas', 'areas');
+    await new Promise(resolve => setTimeout(resolve, 80));
+    await backend.get('areas', 'areas');
+    quick.close();
+
+    expect(mock.connectionCount()).toBe(1);
+  });
+});
+
+describe('RedisClient against a misbehaving server', () => {
+  let server;
+  let client;
+
+  async function listen(onData) {
+    server = net.createServer(socket => socket.on('data', () => onData(socket)));
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    return new RedisClient(`redis://127.0.0.1:${server.address().port}`, { timeoutMs: 50 });
+  }
+
+  afterEach(async () => {
+    client.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('fails the pending command on a malformed reply', async () => {
+    client = await listen(socket => socket.write('?what\r\n'));
+
+    await expect(client.command('GET', 'key')).rejects.toThrow('Unexpected RESP type byte');
+  });
+
+  it('fails a command that gets no reply in time', async () => {
+    client = await listen(() => {});
+
+    await expect(client.command('GET', 'key')).rejects.toThrow('timed out');
+  });
+});
+
+describe('parseResp', () => {
+  it('waits for replies split across reads', () => {
+    const reply = Buffer.from('*2\r\n$6\r\nМир\r\n:3\r\n');
+    expect(parseResp(reply.subarray(0, 10))).toBeNull();
+    expect(parseResp(reply)).toEqual({ value: ['Мир', 3], next: reply.length });
+  });
+});
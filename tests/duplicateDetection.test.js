@@ -0,0 +1,110 @@
+/**
+ * Duplicate detection: the same job posted in several cities or reposted
+ * under a new ID collapses into one card, and earlier applications are
+ * matched against reposts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  collapseDuplicates,
+  findRepost,
+  normalizeTitle,
+  textSimilarity
+} from '../server/services/duplicateDetection.js';
+
+function scored(id, name, extra = {}) {
+  return {
+    id,
+    name,
+    employer: { id: '1740', name: 'Яндекс' },
+    area: { name: 'Москва' },
+    snippet: {
+      requirement: 'Опыт разработки на <highlighttext>React</highlighttext> от 3 лет',
+      responsibility: 'Разработка интерфейсов сервиса'
+    },
+    salary: null,
+    alternate_url: `https://hh.ru/vacancy/${id}`,
+    published_at: '2025-01-01T00:00:00Z',
+    searchTier: 'Title',
+    relevanceScore: 50,
+    scoreBreakdown: [],
+    fitScore: null,
+    matchedKeywords: [],
+    matchLocation: { title: true, description: false, skills: false },
+    duplicates: [],
+    repostOf: null,
+    ...extra
+  };
+}
+
+describe('normalizeTitle', () => {
+  it('ignores case, ё and punctuation', () => {
+    expect(normalizeTitle('Frontend-разработчик (React), Ведущий')).toBe(normalizeTitle('frontend разработчик react ведущий'));
+    expect(normalizeTitle('Приёмщик')).toBe('приемщик');
+  });
+});
+
+describe('textSimilarity', () => {
+  it('compares stemmed word sets', () => {
+    expect(textSimilarity('Разработка интерфейсов', 'разработку интерфейса')).toBe(1);
+    expect(textSimilarity('Разработка интерфейсов', 'Поддержка серверов')).toBe(0);
+  });
+});
+
+describe('collapseDuplicates', () => {
+  it('folds the same job from another city into the higher-ranked card', () => {
+    const items = [
+      scored('1', 'Frontend-разработчик'),
+      scored('2', 'Backend-разработчик'),
+      scored('3', 'Frontend разработчик', { area: { name: 'Казань' } })
+    ];
+
+    const { items: collapsed, duplicateCount } = collapseDuplicates(items);
+
+    expect(duplicateCount).toBe(1);
+    expect(collapsed.map(item => item.id)).toEqual(['1', '2']);
+    expect(collapsed[0].duplicates).toEqual([
+      { id: '3', name: 'Frontend разработчик', areaName: 'Казань', alternate_url: 'https://hh.ru/vacancy/3', published_at: '2025-01-01T00:00:00Z' }
+    ]);
+    expect(items[0].duplicates).toEqual([]);
+  });
+
+  it('keeps same-titled vacancies of different employers apart', () => {
+    const items = [
+      scored('1', 'Frontend-разработчик'),
+      scored('2', 'Frontend-разработчик', { employer: { id: '3529', name: 'Сбер' } })
+    ];
+
+    expect(collapseDuplicates(items).duplicateCount).toBe(0);
+  });
+
+  it('prefers full descriptions over snippets when both are cached', () => {
+    const items = [scored('1', 'Frontend-разработчик'), scored('2', 'Frontend-разработчик')];
+    const texts = {
+      '1': 'Команда платежей, React и TypeScript',
+      '2': 'Команда поиска, Vue и Python, офис в Сочи'
+    };
+
+    expect(collapseDuplicates(items, id => texts[id]).duplicateCount).toBe(0);
+    expect(collapseDuplicates(items).duplicateCount).toBe(1);
+  });
+});
+
+describe('findRepost', () => {
+  const applications = [
+    { vacancyId: '900', vacancyTitle: 'Frontend-разработчик', companyName: 'Яндекс', status: 'rejected', appliedAt: new Date('2024-12-01T00:00:00Z') }
+  ];
+
+  it('flags the same title and company under a new ID', () => {
+    expect(findRepost(scored('1', 'Frontend разработчик'), applications)).toEqual({
+      vacancyId: '900',
+      status: 'rejected',
+      appliedAt: '2024-12-01T00:00:00.000Z'
+    });
+  });
+
+  it('ignores the application to the vacancy itself and other titles', () => {
+    expect(findRepost(scored('900', 'Frontend-разработчик'), applications)).toBeNull();
+    expect(findRepost(scored('1', 'Backend-разработчик'), applications)).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Per-user employer lists: blocked employers dropped before ranking, favorites
+ * boosted, storage upserts, and employer search on the mock HH server
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { FAVORITE_EMPLOYER_BOOST, rankSearchTiers } from '../server/services/tieredSearch.js';
+import { MemStorage } from '../server/storage.js';
+import { startHHMockServer } from '../server/mock/hhMockServer.js';
+import { HHClient } from '../server/services/hhClient.js';
+
+const NOW = new Date('2024-03-10T12:00:00+0300').getTime();
+
+const vacancy = (id, employerId, name = 'React developer') => ({
+  id,
+  name,
+  employer: { id: employerId, name: `Employer ${employerId}` },
+  snippet: {},
+  published_at: '2024-02-01T10:00:00+0300'
+});
+
+describe('rankSearchTiers employer lists', () => {
+  const tiers = [
+    { tier: 'Title', count: 3, items: [vacancy('1', '10'), vacancy('2', '20'), vacancy('3', '30')] },
+    { tier: 'Description', count: 1, items: [vacancy('4', '20', 'Frontend developer')] }
+  ];
+  const context = { blockedEmployerIds: new Set(['20']), favoriteEmployerIds: new Set(['30']) };
+
+  it('drops blocked employers from every tier before scoring', () => {
+    const result = rankSearchTiers(tiers, ['react'], {}, undefined, NOW, context);
+
+    expect(result.items.map(item => item.id)).toEqual(['3', '1']);
+    expect(result.tierInfo.blockedCount).toBe(2);
+    expect(result.tierInfo.excludedCount).toBe(0);
+    expect(result.excluded).toEqual([]);
+  });
+
+  it('boosts favorites and explains the boost', () => {
+    const result = rankSearchTiers(tiers, ['react'], {}, undefined, NOW, context);
+    const [favorite, plain] = result.items;
+
+    expect(favorite.relevanceScore - plain.relevanceScore).toBe(FAVORITE_EMPLOYER_BOOST);
+    expect(favorite.scoreBreakdown).toContainEqual({ label: 'Favorite employer', points: FAVORITE_EMPLOYER_BOOST });
+  });
+
+  it('keeps everything without lists', () => {
+    const result = rankSearchTiers(tiers, ['react'], {}, undefined, NOW);
+    expect(result.items).toHaveLength(4);
+    expect(result.tierInfo.blockedCount).toBe(0);
+  });
+});
+
+describe('MemStorage employer lists', () => {
+  it('keeps one entry per employer, moving it between lists', async () => {
+    const storage = new MemStorage();
+    await storage.upsertEmployerListEntry({ userId: 1, employerId: '1740', employerName: 'Яндекс', kind: 'blocked' });
+    await storage.upsertEmployerListEntry({ userId: 1, employerId: '1740', employerName: 'Яндекс', kind: 'favorite' });
+    await storage.upsertEmployerListEntry({ userId: 2, employerId: '1740', employerName: 'Яндекс', kind: 'blocked' });
+
+    const entries = await storage.getEmployerListEntries(1);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ employerId: '1740', kind: 'favorite' });
+
+    await storage.deleteEmployerListEntry(1, '1740');
+    expect(await storage.getEmployerListEntries(1)).toEqual([]);
+    expect(await storage.getEmployerListEntries(2)).toHaveLength(1);
+  });
+});
+
+describe('HH employer search', () => {
+  let mock;
+  let client;
+
+  beforeAll(async () => {
+    mock = await startHHMockServer();
+    client = new HHClient({ baseURL: mock.url, requestDefaults: { timeout: 200, retryAttempts: 1, retryDelay: 10 } });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  it('finds employers by part of the name', async () => {
+    const { data } = await client.searchEmployers('янд');
+    expect(data.items.map(item => item.id)).toContain('1740');
+    expect(data.items.every(item => item.name.toLowerCase().includes('янд'))).toBe(true);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Employer store: full HH employer records kept per ID, refreshed after the
+ * TTL and served stale when HH is unavailable
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { EmployerStore, toEmployerRecord } from '../server/services/employerStore.js';
+import { loadHHMockFixtures } from '../server/mock/hhMockServer.js';
+
+const { employers } = loadHHMockFixtures();
+
+function createStubClient() {
+  const client = {
+    calls: 0,
+    fail: false,
+    async getEmployer(id) {
+      client.calls++;
+      if (client.fail) throw new Error('HH.ru API error: 503 Service Unavailable');
+      return { data: { ...employers[id], open_vacancies: employers[id].open_vacancies + client.calls }, timing: {} };
+    }
+  };
+  return client;
+}
+
+describe('toEmployerRecord', () => {
+  it('keeps the full record with a sanitized description', () => {
+    const record = toEmployerRecord(employers['1740'], 0);
+
+    expect(record).toMatchObject({
+      id: '1740',
+      name: 'Яндекс',
+      trusted: true,
+      site_url: 'https://yandex.ru',
+      area: { id: '1', name: 'Москва' },
+      industries: [{ id: '7.540', name: 'Разработка программного обеспечения' }],
+      logo_urls: null,
+      fetchedAt: '1970-01-01T00:00:00.000Z'
+    });
+    expect(record.descriptionHtmlSanitized).toContain('<p>Яндекс');
+  });
+});
+
+describe('EmployerStore', () => {
+  it('serves cached records until the TTL runs out', async () => {
+    let now = 0;
+    const client = createStubClient();
+    const store = new EmployerStore(client, { ttlMs: 1000, now: () => now });
+
+    expect((await store.get('1740')).open_vacancies).toBe(3);
+    now = 999;
+    expect((await store.get('1740')).open_vacancies).toBe(3);
+    now = 1000;
+    expect((await store.get('1740')).open_vacancies).toBe(4);
+    expect(client.calls).toBe(2);
+  });
+
+  it('makes one request for concurrent reads', async () => {
+    const client = createStubClient();
+    const store = new EmployerStore(client);
+
+    await Promise.all([store.get('1740'), store.get('1740'), store.get('1740')]);
+    expect(client.calls).toBe(1);
+  });
+
+  it('falls back to the stale record when a refresh fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let now = 0;
+    const client = createStubClient();
+    const store = new EmployerStore(client, { ttlMs: 1000, now: () => now });
+
+    await store.get('1740');
+    client.fail = true;
+    now = 5000;
+    expect((await store.get('1740')).name).toBe('Яндекс');
+    await expect(store.get('3529')).rejects.toThrow('503');
+  });
+
+  it('evicts the oldest record when full', async () => {
+    const client = createStubClient();
+    const store = new EmployerStore(client, { maxSize: 1 });
+
+    await store.get('1740');
+    await store.get('3529');
+    expect(store.peek('1740')).toBeUndefined();
+    expect(store.peek('3529')?.id).toBe('3529');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Exclusion filter: Russian/English morphology, stems and phrases, and the
+ * per-vacancy audit trail rankSearchTiers reports
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileExclusions, findExclusion, stemWord } from '../server/services/exclusionFilter.js';
+import { rankSearchTiers } from '../server/services/tieredSearch.js';
+
+const vacancy = (id, name, extra = {}) => ({
+  id,
+  name,
+  employer: { id: `e${id}`, name: `Employer ${id}` },
+  snippet: {},
+  published_at: '2024-03-01T10:00:00+0300',
+  ...extra
+});
+
+describe('stemWord', () => {
+  it('reduces Russian inflections to the Snowball stem', () => {
+    expect(['стажер', 'стажеры', 'стажёра'].map(stemWord)).toEqual(['стажер', 'стажер', 'стажер']);
+    expect(['разработчик', 'разработчиками'].map(stemWord)).toEqual(['разработчик', 'разработчик']);
+    expect(['интересная', 'интересный', 'важнейшие'].map(stemWord)).toEqual(['интересн', 'интересн', 'важн']);
+  });
+
+  it('strips English plurals only', () => {
+    expect(['juniors', 'leads', 'companies', 'boxes'].map(stemWord)).toEqual(['junior', 'lead', 'company', 'box']);
+    expect(['senior', 'analysis'].map(stemWord)).toEqual(['senior', 'analysis']);
+  });
+});
+
+describe('findExclusion', () => {
+  const rules = compileExclusions(['стажер', 'team lead', 'продаж*', 'junior']);
+
+  it('matches any word form, phrases and stems, naming the word and field', () => {
+    expect(findExclusion({ title: 'Стажёра в команду' }, rules)).toEqual({ word: 'стажер', field: 'title' });
+    expect(findExclusion({ title: 'Team Leads wanted' }, rules)).toEqual({ word: 'team lead', field: 'title' });
+    expect(findExclusion({ title: 'Менеджер', snippet: 'опыт <highlighttext>продажами</highlighttext>' }, rules))
+      .toEqual({ word: 'продаж*', field: 'snippet' });
+    expect(findExclusion({ title: 'Junior-разработчик' }, rules)).toEqual({ word: 'junior', field: 'title' });
+  });
+
+  it('matches whole words rather than substrings', () => {
+    expect(findExclusion({ title: 'Senior developer', snippet: 'lead the team' }, rules)).toBeNull();
+    expect(findExclusion({ title: 'Стажировка' }, compileExclusions(['стажер']))).toBeNull();
+  });
+});
+
+describe('rankSearchTiers exclusions', () => {
+  const tiers = [
+    { tier: 'Title', count: 3, items: [vacancy('1', 'React developer'), vacancy('2', 'React стажёр'), vacancy('3', 'React developer')] },
+    { tier: 'Skills', count: 2, items: [vacancy('2', 'React стажёр'), vacancy('4', 'React dev')] }
+  ];
+  const sources = {
+    getVacancySkills: id => (id === '4' ? ['Redux'] : undefined),
+    getVacancyText: id => (id === '3' ? 'React developer\nРабота со стажерами' : undefined)
+  };
+
+  it('uses cached key skills and reports each excluded vacancy once', () => {
+    const result = rankSearchTiers(tiers, ['react'], { excludeWords: 'стажер, redux' }, undefined, Date.now(), sources);
+
+    expect(result.items.map(item => item.id)).toEqual(['1', '3']);
+    expect(result.tierInfo.excludedCount).toBe(3);
+    expect(result.excluded).toEqual([
+      { id: '2', name: 'React стажёр', employerName: 'Employer 2', tier: 'Title', word: 'стажер', field: 'title' },
+      { id: '4', name: 'React dev', employerName: 'Employer 4', tier: 'Skills', word: 'redux', field: 'skills' }
+    ]);
+  });
+
+  it('checks full descriptions only when asked to', () => {
+    const filters = { excludeWords: 'стажер', excludeInDescription: true };
+    const result = rankSearchTiers(tiers, ['react'], filters, undefined, Date.now(), sources);
+
+    expect(result.items.map(item => item.id)).toEqual(['1', '4']);
+    expect(result.excluded.find(item => item.id === '3')).toMatchObject({ word: 'стажер', field: 'description' });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Deterministic filter mapping: HH query text, dictionary and area resolution
+ * against the mock HH fixtures, and the LLM only asked about what's left over
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { buildSearchText, resolveArea, resolveEmployer, mapFiltersDeterministically } from '../server/services/filterMapper.js';
+import { loadHHMockFixtures } from '../server/mock/hhMockServer.js';
+import { HHQueryError } from '../shared/hhQuery.js';
+import { createClient } from './helpers.js';
+
+const { dictionaries, areas } = loadHHMockFixtures();
+
+describe('buildSearchText', () => {
+  it('joins keywords with OR, grouping multi-word ones', () => {
+    expect(buildSearchText(['react', 'frontend developer'])).toBe('react OR (frontend AND developer)');
+    expect(buildSearchText(['frontend developer'])).toBe('frontend AND developer');
+    expect(buildSearchText([])).toBe('');
+  });
+
+  it('quotes exact phrases and joins with AND when asked', () => {
+    expect(buildSearchText(['react', 'type"script'], { useExactPhrases: true, useAndAcrossPhrases: true }))
+      .toBe('"react" AND "typescript"');
+  });
+
+  it('appends exclusions as NOT terms', () => {
+    expect(buildSearchText(['react', 'vue'], { excludeWords: 'junior, team lead' }))
+      .toBe('(react OR vue) NOT junior NOT "team lead"');
+  });
+
+  it('uses a hand-edited query instead of the keywords, once it validates', () => {
+    expect(buildSearchText(['react'], { customQuery: 'NAME:(react OR vue)  разраб*' })).toBe('NAME:(react OR vue) AND разраб*');
+    expect(() => buildSearchText(['react'], { customQuery: 'NOT junior' })).toThrow(HHQueryError);
+  });
+});
+
+describe('resolveArea', () => {
+  it('resolves aliases, city prefixes and partial names', () => {
+    expect(resolveArea('Moscow', areas)).toBe('1');
+    expect(resolveArea('спб', areas)).toBe('2');
+    expect(resolveArea('г. Казань', areas)).toBe('88');
+    expect(resolveArea('Казан', areas)).toBe('88');
+  });
+
+  it('tolerates misspellings but not unknown places', () => {
+    expect(resolveArea('Алмата', areas)).toBe('160');
+    expect(resolveArea('Atlantis', areas)).toBeUndefined();
+  });
+});
+
+describe('mapFiltersDeterministically', () => {
+  it('maps dictionary-backed answers by ID or name', () => {
+    const { params, unresolved } = mapFiltersDeterministically({
+      selectedKeywords: ['golang'],
+      enableLocationFilter: true,
+      locationText: 'Москва',
+      remoteHybrid: { remoteOnly: true },
+      enableExperienceFilter: true,
+      experienceText: 'от 3 до 6 лет',
+      enableEmploymentFilter: true,
+      employmentTypes: ['full', 'Частичная занятость'],
+      enableSalaryFilter: true,
+      incomeNumber: 250000,
+      currency: 'USD',
+      orderBy: 'по дате изменения'
+    }, dictionaries, areas);
+
+    expect(params).toEqual({
+      text: 'golang',
+      period: 7,
+      order_by: 'publication_time',
+      area: '1',
+      schedule: ['remote'],
+      experience: 'between3And6',
+      employment: ['full', 'part'],
+      salary: 250000,
+      currency: 'USD',
+      only_with_salary: false
+    });
+    expect(unresolved).toEqual({});
+  });
+
+  it('leaves unknown places and metro names unresolved', () => {
+    const { params, unresolved } = mapFiltersDeterministically({
+      selectedKeywords: ['qa'],
+      enableLocationFilter: true,
+      locationText: 'Atlantis',
+      enableMetroFilter: true,
+      metroStation: 'Тверская'
+    }, dictionaries, areas);
+
+    expect(params).not.toHaveProperty('area');
+    expect(unresolved).toEqual({ locationText: 'Atlantis', metroStation: 'Тверская' });
+  });
+
+  it('drops an employer name HH employer search found nothing for', () => {
+    const { params, unresolved } = mapFiltersDeterministically({ selectedKeywords: ['qa'], employerName: 'Рога и копыта' }, dictionaries, areas, []);
+    expect(params).not.toHaveProperty('employer_id');
+    expect(unresolved).toEqual({});
+  });
+});
+
+describe('resolveEmployer', () => {
+  const employers = [
+    { id: '9498120', name: 'Яндекс Крауд' },
+    { id: '1740', name: 'Яндекс' },
+    { id: '3529', name: 'ПАО Сбербанк' }
+  ];
+
+  it('takes numeric input as the employer ID', () => {
+    expect(resolveEmployer(' 1740 ')).toBe('1740');
+  });
+
+  it('prefers the exact name, ignoring legal forms', () => {
+    expect(resolveEmployer('яндекс', employers)).toBe('1740');
+    expect(resolveEmployer('ООО Яндекс', employers)).toBe('1740');
+    expect(resolveEmployer('Сбербанк', employers)).toBe('3529');
+  });
+
+  it('falls back to a partial match and gives up without candidates', () => {
+    expect(resolveEmployer('Крауд', employers)).toBe('9498120');
+    expect(resolveEmployer('Яндекс', [])).toBeUndefined();
+  });
+});
+
+describe('AIClient.mapFiltersToHH', () => {
+  it('skips the LLM when everything resolves', async () => {
+    const { client, provider } = createClient([]);
+
+    const filters = await client.mapFiltersToHH({ selectedKeywords: ['react'], enableLocationFilter: true, locationText: 'spb' }, dictionaries, areas);
+    expect(filters).toMatchObject({ text: 'react', area: '2' });
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it('asks the LLM only about unresolved fields', async () => {
+    const { client, provider } = createClient([
+      { feature: 'filterMapping', respond: '{"metro":"6.8","area":"113"}' }
+    ]);
+
+    const filters = await client.mapFiltersToHH({
+      selectedKeywords: ['react'],
+      enableLocationFilter: true,
+      locationText: 'Москва',
+      enableMetroFilter: true,
+      metroStation: 'Тверская',
+      employerName: 'Яндекс'
+    }, dictionaries, areas, [{ id: '1740', name: 'Яндекс' }]);
+
+    expect(filters).toMatchObject({ area: '1', metro: '6.8', employer_id: '1740' });
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].prompt).toContain('Тверская');
+    expect(provider.requests[0].prompt).not.toContain('Москва');
+    expect(provider.requests[0].prompt).not.toContain('Яндекс');
+  });
+
+  it('drops unresolved fields when the LLM fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { client } = createClient([]);
+
+    const filters = await client.mapFiltersToHH({ selectedKeywords: ['react'], enableLocationFilter: true, locationText: 'Atlantis' }, dictionaries, areas);
+    expect(filters).toEqual({ text: 'react', period: 7, order_by: 'relevance' });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Resume fit re-ranking: the offline TF-IDF provider must order the head of
+ * the list by similarity to the resume and leave the tail untouched
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { TfIdfEmbeddingProvider, rerankByFit, tokenize } from '../server/services/fitRanking.js';
+import { AIQuotaExceededError } from '../server/services/aiUsage.js';
+
+function scored(id, name, requirement, relevanceScore) {
+  return {
+    id,
+    name,
+    employer: { id: `e${id}`, name: `Employer ${id}` },
+    area: { name: 'Москва' },
+    snippet: { requirement, responsibility: '' },
+    salary: null,
+    alternate_url: `https://hh.ru/vacancy/${id}`,
+    searchTier: 'Title',
+    relevanceScore,
+    scoreBreakdown: [],
+    fitScore: null,
+    matchedKeywords: [],
+    matchLocation: { title: true, description: false, skills: false }
+  };
+}
+
+const tierInfo = { titleCount: 3, descriptionCount: 0, skillsCount: 0, totalAfterDedup: 3, excludedCount: 0, usedFallback: false };
+
+describe('rerankByFit', () => {
+  const items = [
+    scored('1', 'Java developer', 'Spring, Hibernate, Kafka', 40),
+    scored('2', 'Frontend developer', 'React, TypeScript, Redux', 30),
+    scored('3', 'Data analyst', 'SQL, Excel, Power BI', 20)
+  ];
+  const resume = 'Frontend engineer: five years of React and TypeScript, Redux, Next.js';
+
+  it('moves the best resume match to the top and reports the provider', async () => {
+    const result = await rerankByFit({ items, tierInfo }, resume, new TfIdfEmbeddingProvider());
+
+    expect(result.items[0].id).toBe('2');
+    expect(result.items[0].fitScore).toBeGreaterThan(result.items[1].fitScore);
+    expect(result.fitRanking).toEqual({ provider: 'tfidf', reranked: 3 });
+  });
+
+  it('only re-ranks the head and prefers full detail text over the snippet', async () => {
+    const result = await rerankByFit({ items, tierInfo }, 'SQL Power BI dashboards', new TfIdfEmbeddingProvider(), {
+      limit: 2,
+      getVacancyText: (id) => id === '1' ? 'Analytics: SQL, Power BI' : undefined
+    });
+
+    expect(result.items.map(item => item.id)).toEqual(['1', '2', '3']);
+    expect(result.items[0].fitScore).toBeGreaterThan(0);
+    expect(result.items[2].fitScore).toBeNull();
+  });
+
+  it('falls back to TF-IDF when the hosted provider fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = { name: 'gemini', embed: async () => { throw new Error('quota exhausted'); } };
+
+    const result = await rerankByFit({ items, tierInfo }, resume, failing);
+
+    expect(result.items[0].id).toBe('2');
+    expect(result.fitRanking).toEqual({ provider: 'tfidf', reranked: 3 });
+  });
+
+  it('passes a quota error through instead of falling back', async () => {
+    const quotaError = new AIQuotaExceededError('day', 'requests', 5, 5, new Date());
+    const overQuota = { name: 'gemini', embed: async () => { throw quotaError; } };
+
+    await expect(rerankByFit({ items, tierInfo }, resume, overQuota)).rejects.toBe(quotaError);
+  });
+
+  it('is a no-op without resume text', async () => {
+    const result = await rerankByFit({ items, tierInfo }, '   ', new TfIdfEmbeddingProvider());
+    expect(result.items).toBe(items);
+    expect(result.fitRanking).toBeUndefined();
+  });
+});
+
+describe('tokenize', () => {
+  it('folds Russian inflections onto a shared prefix', () => {
+    expect(tokenize('Разработчик разработчика')).toEqual(['разраб', 'разраб']);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Fixtures shared by the test files
+ */
+
+import { AIClient } from '../server/services/aiClient.js';
+import { RuleBasedLLMProvider } from '../server/services/llmProvider.js';
+
+// AIClient with every feature on one rule-based provider and no request budget;
+// `options` adds to or overrides the client options
+export function createClient(rules, options = {}) {
+  const provider = new RuleBasedLLMProvider(rules);
+  const binding = { provider, model: 'rules' };
+  const client = new AIClient({
+    requestsPerMinute: 0,
+    bindings: { seedTerms: binding, relevanceFiltering: binding, filterMapping: binding, coverLetter: binding },
+    ...options
+  });
+  return { client, provider };
+}
+
+// A promise with its resolve function, to hold a call open until the test lets go
+export function deferred() {
+  let resolve;
+  const promise = new Promise(r => { resolve = r; });
+  return { promise, resolve };
+}
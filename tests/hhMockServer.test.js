@@ -0,0 +1,78 @@
+/**
+ * Offline HH.ru stand-in: HHClient talks to the fixture-driven mock through
+ * HH_API_BASE_URL-style configuration, including simulated 429s and timeouts
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { startHHMockServer } from '../server/mock/hhMockServer.js';
+import { HHClient } from '../server/services/hhClient.js';
+import { fetchSearchTiers, rankSearchTiers } from '../server/services/tieredSearch.js';
+
+describe('HH.ru mock server', () => {
+  let mock;
+  let client;
+
+  beforeAll(async () => {
+    mock = await startHHMockServer();
+    client = new HHClient({
+      baseURL: mock.url,
+      requestDefaults: { timeout: 200, retryAttempts: 2, retryDelay: 10 }
+    });
+  });
+
+  afterEach(() => {
+    mock.clearFaults();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  it('paginates search results and serves list items without descriptions', async () => {
+    const { data: first } = await client.searchVacancies({ text: 'frontend OR react', per_page: 2, page: 0 });
+    const { data: second } = await client.searchVacancies({ text: 'frontend OR react', per_page: 2, page: 1 });
+
+    expect(first.found).toBe(5);
+    expect(first.pages).toBe(3);
+    expect(first.items.map(item => item.id)).toEqual(['93000001', '93000002']);
+    expect(second.items.map(item => item.id)).toEqual(['93000005', '93000006']);
+    expect(first.items[0].description).toBeUndefined();
+  });
+
+  it('applies search_field and matches child areas of a country', async () => {
+    const { data } = await client.searchVacancies({ text: 'react', search_field: 'name', area: '113' });
+    expect(data.items.map(item => item.id)).toEqual(['93000001', '93000006']);
+  });
+
+  it('serves vacancy details and employers with links back to the mock', async () => {
+    const { data: vacancy } = await client.getVacancy('93000001');
+    expect(vacancy.key_skills.map(skill => skill.name)).toContain('React');
+    expect(vacancy.employer.url).toBe(`${mock.url}/employers/1740`);
+
+    const { data: employer } = await client.getEmployer(vacancy.employer.url);
+    expect(employer.name).toBe('Яндекс');
+  });
+
+  it('retries after a single 429 and surfaces rate_limited once retries run out', async () => {
+    mock.addFault({ type: 'rate_limit', times: 1, retryAfterSeconds: 0 });
+    const { data } = await client.getDictionaries();
+    expect(data.currency.map(currency => currency.code)).toContain('RUR');
+
+    mock.addFault({ type: 'rate_limit', retryAfterSeconds: 0 });
+    await expect(client.getAreas()).rejects.toMatchObject({ error: 'rate_limited', status: 429 });
+  });
+
+  it('lets slow responses hit the client timeout', async () => {
+    mock.addFault({ type: 'timeout', path: '/vacancies', delayMs: 1000 });
+    await expect(client.getVacancy('93000002')).rejects.toThrow('Request timeout');
+  });
+
+  it('runs the tiered search end to end', async () => {
+    const tiers = await fetchSearchTiers(client, { text: 'react' }, ['react'], {}, { pageDelayMs: 0 });
+    expect(tiers.map(tier => [tier.tier, tier.count])).toEqual([['Title', 3], ['Description', 5], ['Skills', 3]]);
+
+    const result = rankSearchTiers(tiers, ['react'], {});
+    expect(result.items).toHaveLength(5);
+    expect(result.items.filter(item => item.searchTier === 'Title')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * HH query builder: parsing, validation and serialization of the search
+ * syntax, and the mock HH server evaluating the same queries
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  and,
+  field,
+  keywordsQuery,
+  not,
+  or,
+  parseQuery,
+  phrase,
+  previewQuery,
+  serializeQuery,
+  term,
+  toSearchText,
+  validateQuery,
+  HHQueryError
+} from '../shared/hhQuery.js';
+import { matchesSearchText } from '../server/mock/hhMockServer.js';
+
+describe('serializeQuery', () => {
+  it('parenthesizes nested groups and puts exclusions last', () => {
+    const query = and(not(term('junior')), or(term('java'), field('NAME', phrase('team lead'))), term('spring', true));
+    expect(serializeQuery(query)).toBe('(java OR NAME:"team lead") AND spring* NOT junior');
+  });
+
+  it('unwraps single-child groups', () => {
+    expect(serializeQuery(or(and(term('go'))))).toBe('go');
+  });
+});
+
+describe('parseQuery', () => {
+  it('round-trips field scopes, phrases, stems and NOT', () => {
+    const text = 'NAME:(java OR kotlin) AND разраб* NOT "team lead"';
+    expect(parseQuery(text)).toEqual(and(
+      field('NAME', or(term('java'), term('kotlin'))),
+      term('разраб', true),
+      not(phrase('team lead'))
+    ));
+    expect(toSearchText(parseQuery(text))).toBe(text);
+  });
+
+  it('reads juxtaposed terms as AND, binding tighter than OR', () => {
+    expect(serializeQuery(parseQuery('a b OR c'))).toBe('(a AND b) OR c');
+  });
+
+  it('rejects malformed syntax', () => {
+    expect(() => parseQuery('"team lead')).toThrow(HHQueryError);
+    expect(() => parseQuery('(java OR go')).toThrow('Missing closing parenthesis');
+    expect(() => parseQuery('java AND')).toThrow(HHQueryError);
+    expect(() => parseQuery('   ')).toThrow('Query is empty');
+  });
+});
+
+describe('validateQuery', () => {
+  it('accepts a plain query', () => {
+    expect(validateQuery(or(term('java'), phrase('spring boot')))).toEqual([]);
+  });
+
+  it('flags queries HH would reject or misread', () => {
+    expect(validateQuery(not(term('java')))).toEqual(['The query needs at least one term to search for']);
+    expect(validateQuery(or(term('java'), not(term('go'))))).toContain("NOT can't be an OR alternative");
+    expect(validateQuery(term('team lead'))).toEqual(['"team lead" has to be a quoted phrase']);
+    expect(validateQuery(term('р', true))).toEqual(['Stem "р*" is too short']);
+    expect(validateQuery(field('NAME', field('DESCRIPTION', term('java'))))).toEqual(["DESCRIPTION: can't be nested in another field"]);
+    expect(validateQuery(or())).toContain('Empty OR group');
+  });
+
+  it('reports every problem from toSearchText', () => {
+    expect(() => toSearchText(and(term(''), phrase(' ')))).toThrow('Empty search term; Empty phrase');
+  });
+});
+
+describe('keywordsQuery', () => {
+  it('builds the wizard query from keywords and toggles', () => {
+    expect(serializeQuery(keywordsQuery(['react', 'frontend dev*'], { excludeWords: '"team lead", junior' })))
+      .toBe('(react OR (frontend AND dev*)) NOT "team lead" NOT junior');
+    expect(serializeQuery(keywordsQuery(['react', 'vue'], { useExactPhrases: true, useAndAcrossPhrases: true })))
+      .toBe('"react" AND "vue"');
+  });
+});
+
+describe('previewQuery', () => {
+  it('returns the normalized query or the issues', () => {
+    expect(previewQuery('java  kotlin')).toEqual({ text: 'java AND kotlin', issues: [] });
+    expect(previewQuery('NOT java')).toEqual({ text: null, issues: ['The query needs at least one term to search for'] });
+  });
+});
+
+describe('mock HH query evaluation', () => {
+  const document = {
+    NAME: 'senior react developer',
+    DESCRIPTION: 'разработка интерфейсов в команде',
+    COMPANY_NAME: 'яндекс'
+  };
+
+  it('honours field scopes, stems and exclusions', () => {
+    expect(matchesSearchText('react NOT junior', document)).toBe(true);
+    expect(matchesSearchText('react NOT senior', document)).toBe(false);
+    expect(matchesSearchText('NAME:разраб*', document)).toBe(false);
+    expect(matchesSearchText('DESCRIPTION:разраб*', document)).toBe(true);
+    expect(matchesSearchText('COMPANY_NAME:Яндекс AND react', document)).toBe(true);
+  });
+
+  it('limits unscoped terms to search_field', () => {
+    expect(matchesSearchText('react', document, ['company_name'])).toBe(false);
+    expect(matchesSearchText('react', document, ['name', 'description'])).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Shared HH.ru scheduler: token bucket pacing, priority order, the
+ * concurrency cap and the global Retry-After backoff against the HH mock
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { HHScheduler } from '../server/services/hhScheduler.js';
+import { HHClient } from '../server/services/hhClient.js';
+import { startHHMockServer } from '../server/mock/hhMockServer.js';
+import { deferred } from './helpers.js';
+
+describe('HHScheduler', () => {
+  it('starts a burst at once and paces the rest', async () => {
+    const scheduler = new HHScheduler({ ratePerSecond: 50, burst: 2, maxConcurrent: 10 });
+    const startedAt = Date.now();
+    const startTimes = [];
+
+    await Promise.all([0, 1, 2, 3].map(() => scheduler.schedule(async () => {
+      startTimes.push(Date.now() - startedAt);
+    })));
+
+    expect(startTimes[1]).toBeLessThan(15);
+    // Two more tokens at 20 ms each
+    expect(startTimes[3]).toBeGreaterThanOrEqual(35);
+  });
+
+  it('starts queued calls by priority', async () => {
+    const scheduler = new HHScheduler({ ratePerSecond: 1000, burst: 10, maxConcurrent: 1 });
+    const blocker = deferred();
+    const order = [];
+
+    const first = scheduler.schedule(() => blocker.promise);
+    const calls = [
+      scheduler.schedule(async () => { order.push('background'); }, 'background'),
+      scheduler.schedule(async () => { order.push('search'); }, 'search'),
+      scheduler.schedule(async () => { order.push('interactive'); }, 'interactive')
+    ];
+
+    expect(scheduler.getMetrics()).toMatchObject({
+      inFlight: 1,
+      queued: { interactive: 1, search: 1, background: 1 },
+      maxQueued: 3
+    });
+
+    blocker.resolve();
+    await Promise.all([first, ...calls]);
+    expect(order).toEqual(['interactive', 'search', 'background']);
+    expect(scheduler.getMetrics().started).toEqual({ interactive: 2, search: 1, background: 1 });
+  });
+
+  it('never runs more than maxConcurrent calls at once', async () => {
+    const scheduler = new HHScheduler({ ratePerSecond: 1000, burst: 20, maxConcurrent: 2 });
+    let running = 0;
+    let peak = 0;
+
+    await Promise.all(Array.from({ length: 6 }, () => scheduler.schedule(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    })));
+
+    expect(peak).toBe(2);
+  });
+
+  it('passes failures through and frees the slot', async () => {
+    const scheduler = new HHScheduler({ maxConcurrent: 1 });
+
+    await expect(scheduler.schedule(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(await scheduler.schedule(async () => 'next')).toBe('next');
+    expect(scheduler.getMetrics().inFlight).toBe(0);
+  });
+
+  it('holds every queued call during a backoff', async () => {
+    const scheduler = new HHScheduler({ ratePerSecond: 1000, burst: 10 });
+    scheduler.backoff(50);
+    expect(scheduler.getMetrics().backoffRemainingMs).toBeGreaterThan(0);
+
+    const startedAt = Date.now();
+    await scheduler.schedule(async () => {});
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+    expect(scheduler.getMetrics().backoffs).toBe(1);
+  });
+});
+
+describe('HHClient with a scheduler', () => {
+  let mock;
+
+  beforeAll(async () => {
+    mock = await startHHMockServer();
+  });
+
+  afterEach(() => {
+    mock.clearFaults();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  it('backs off all requests when HH answers with Retry-After', async () => {
+    const scheduler = new HHScheduler({ ratePerSecond: 100, burst: 10 });
+    const client = new HHClient({
+      baseURL: mock.url,
+      scheduler,
+      requestDefaults: { timeout: 2000, retryAttempts: 2, retryDelay: 10 }
+    });
+    mock.addFault({ type: 'rate_limit', path: '/dictionaries', times: 1, retryAfterSeconds: 1 });
+
+    const startedAt = Date.now();
+    const dictionaries = client.getDictionaries();
+    while (scheduler.getMetrics().backoffs === 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    // Unrelated to the 429, but it still waits for the backoff to lapse
+    const { data: areas } = await client.withPriority('background').getAreas();
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(950);
+    expect(areas.length).toBeGreaterThan(0);
+
+    const { data } = await dictionaries;
+    expect(data.currency.map(currency => currency.code)).toContain('RUR');
+    expect(scheduler.getMetrics()).toMatchObject({ backoffs: 1, inFlight: 0 });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * LLM providers: AIClient features run against the deterministic rule-based
+ * provider, and per-feature provider/model selection follows the LLM_* env
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { resolveFeatureBindings } from '../server/services/llmProvider.js';
+import { createClient } from './helpers.js';
+
+describe('AIClient with the rule-based provider', () => {
+  it('passes feature, JSON mode and temperature through to the provider', async () => {
+    const { client, provider } = createClient([
+      { feature: 'filterMapping', match: 'Atlantis', respond: '```json\n{"area":"1"}\n```' }
+    ]);
+
+    const answers = { selectedKeywords: ['frontend'], enableLocationFilter: true, locationText: 'Atlantis' };
+    expect(await client.mapFiltersToHH(answers, {}, [])).toMatchObject({ text: 'frontend', area: '1' });
+    expect(provider.requests[0]).toMatchObject({ feature: 'filterMapping', json: true, temperature: 0.1 });
+  });
+
+  it('accepts relevance scores wrapped in a JSON object', async () => {
+    const { client } = createClient([
+      { feature: 'relevanceFiltering', respond: '{"keywords":[{"text":"vue","relevanceScore":4},{"text":"react","relevanceScore":9}]}' }
+    ]);
+
+    expect(await client.filterKeywordsByRelevance('react', ['vue', 'react'])).toEqual([
+      { text: 'react', relevanceScore: 9 },
+      { text: 'vue', relevanceScore: 4 }
+    ]);
+  });
+
+  it('keeps the deterministic filter mapping when no rule matches', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { client } = createClient([]);
+
+    const filters = await client.mapFiltersToHH({
+      selectedKeywords: ['backend', 'go'],
+      useExactPhrases: true,
+      enableLocationFilter: true,
+      locationText: 'Atlantis'
+    }, {}, []);
+    expect(filters.text).toBe('"backend" OR "go"');
+    expect(filters.area).toBeUndefined();
+  });
+});
+
+describe('resolveFeatureBindings', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('applies the global provider and per-feature overrides', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('LLM_PROVIDER', 'openai');
+    vi.stubEnv('LLM_MODEL', 'qwen2.5');
+    vi.stubEnv('LLM_FILTER_MAPPING_MODEL', 'qwen2.5-32b');
+    vi.stubEnv('LLM_COVER_LETTER_PROVIDER', 'gemini');
+
+    const bindings = resolveFeatureBindings();
+    expect([bindings.seedTerms.provider.name, bindings.seedTerms.model]).toEqual(['openai', 'qwen2.5']);
+    expect(bindings.filterMapping.model).toBe('qwen2.5-32b');
+    expect([bindings.coverLetter.provider.name, bindings.coverLetter.model]).toEqual(['gemini', 'gemini-1.5-flash']);
+  });
+
+  it('reports a keyless local endpoint as configured, a keyless Gemini binding not', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('GEMINI_API_KEY', '');
+    vi.stubEnv('LLM_PROVIDER', 'openai');
+    vi.stubEnv('OPENAI_BASE_URL', 'http://localhost:11434/v1');
+    vi.stubEnv('LLM_COVER_LETTER_PROVIDER', 'gemini');
+
+    const bindings = resolveFeatureBindings();
+    expect(bindings.seedTerms.provider.isConfigured()).toBe(true);
+    expect(bindings.coverLetter.provider.isConfigured()).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Profile import: Markdown and PDF resumes are reduced to plain text and the
+ * skills section is turned into a structured list
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'zlib';
+import {
+  markdownToText,
+  extractSkills,
+  extractPdfText,
+  importProfileDocument
+} from '../server/services/profileImport.js';
+
+function buildPdf(contentStream) {
+  const compressed = deflateSync(Buffer.from(contentStream, 'latin1'));
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\n', 'latin1'),
+    Buffer.from(`4 0 obj\n<< /Length ${compressed.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+    compressed,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n', 'latin1')
+  ]);
+}
+
+describe('markdownToText', () => {
+  it('strips headings, emphasis and links but keeps list items', () => {
+    const text = markdownToText('# Jane Doe\n\n**Senior** [frontend](https://x.dev) developer\n\n* React\n* TypeScript');
+    expect(text).toBe('Jane Doe\n\nSenior frontend developer\n\n- React\n- TypeScript');
+  });
+});
+
+describe('extractSkills', () => {
+  it('reads an inline skills line', () => {
+    expect(extractSkills('Summary\nSkills: React, TypeScript; Node.js • react')).toEqual(['React', 'TypeScript', 'Node.js']);
+  });
+
+  it('reads a Russian section heading followed by a list', () => {
+    expect(extractSkills('Опыт\n\nКлючевые навыки\n\n- Python\n- SQL\n\nОбразование')).toEqual(['Python', 'SQL']);
+  });
+});
+
+describe('extractPdfText', () => {
+  it('reads Tj and TJ strings from compressed content streams', () => {
+    const pdf = buildPdf('BT /F1 12 Tf 72 720 Td (Jane Doe) Tj 0 -14 Td [(Skills:) -250 (Go, Kafka)] TJ ET');
+    expect(extractPdfText(pdf)).toBe('Jane Doe\nSkills: Go, Kafka');
+  });
+
+  it('rejects non-PDF input', () => {
+    expect(() => extractPdfText(Buffer.from('hello'))).toThrow('Not a PDF document');
+  });
+});
+
+describe('importProfileDocument', () => {
+  it('decodes base64 PDFs and extracts skills from the text', () => {
+    const pdf = buildPdf('BT (Skills: Go, Kafka) Tj ET');
+    expect(importProfileDocument('pdf', pdf.toString('base64'))).toEqual({
+      content: 'Skills: Go, Kafka',
+      skills: ['Go', 'Kafka']
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Salary analytics: forks are reduced to one figure, converted with HH.ru
+ * currency rates and put on a common net/gross basis before aggregation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  currencyRatesFromDictionaries,
+  normalizeSalary,
+  quantile,
+  buildHistogram,
+  computeSalaryStats
+} from '../server/services/salaryStats.js';
+
+const rates = currencyRatesFromDictionaries({
+  currency: [
+    { code: 'RUR', rate: 1 },
+    { code: 'USD', rate: 0.01 },
+    { code: 'EUR', rate: 0.009 }
+  ]
+});
+
+describe('normalizeSalary', () => {
+  it('takes the fork midpoint and deducts income tax from gross salaries for net', () => {
+    expect(normalizeSalary({ from: 100000, to: 200000, currency: 'RUR', gross: true }, { currency: 'RUR', basis: 'net', rates }))
+      .toBe(130500);
+  });
+
+  it('converts between currencies via the ruble rate', () => {
+    expect(normalizeSalary({ from: 2000, currency: 'USD', gross: false }, { currency: 'RUR', basis: 'net', rates }))
+      .toBe(200000);
+  });
+
+  it('grosses up net salaries when the gross basis is requested', () => {
+    expect(normalizeSalary({ to: 87000, currency: 'RUR', gross: false }, { currency: 'RUR', basis: 'gross', rates }))
+      .toBe(100000);
+  });
+
+  it('returns null for unknown currencies and empty forks', () => {
+    expect(normalizeSalary({ from: 1000, currency: 'KZT' }, { currency: 'RUR', basis: 'net', rates })).toBeNull();
+    expect(normalizeSalary({ from: null, to: null, currency: 'RUR' }, { currency: 'RUR', basis: 'net', rates })).toBeNull();
+  });
+});
+
+describe('quantile and histogram', () => {
+  it('interpolates between ranks', () => {
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(3);
+    expect(quantile([10], 0.25)).toBe(10);
+  });
+
+  it('uses round bucket edges and counts every value once', () => {
+    const bins = buildHistogram([100000, 120000, 150000, 210000, 250000]);
+    expect(bins[0]).toEqual({ from: 100000, to: 120000, count: 1 });
+    expect(bins.every(bin => bin.to - bin.from === 20000)).toBe(true);
+    expect(bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(5);
+  });
+});
+
+describe('computeSalaryStats', () => {
+  it('summarizes the result set overall and by experience', () => {
+    const stats = computeSalaryStats([
+      { salary: { from: 100000, currency: 'RUR', gross: false }, experience: { id: 'noExperience', name: 'Нет опыта' } },
+      { salary: { from: 200000, to: 300000, currency: 'RUR', gross: false }, experience: { id: 'between3And6', name: 'От 3 до 6 лет' } },
+      { salary: { from: 3000, currency: 'USD', gross: false }, experience: { id: 'between3And6', name: 'От 3 до 6 лет' } },
+      { salary: { from: 500, currency: 'KZT' } },
+      { salary: null }
+    ], { currency: 'RUR', basis: 'net', rates });
+
+    expect(stats.total).toBe(5);
+    expect(stats.withSalary).toBe(3);
+    expect(stats.unconvertible).toBe(1);
+    expect(stats.overall.median).toBe(250000);
+    expect(stats.byExperience.map(row => row.experienceId)).toEqual(['noExperience', 'between3And6']);
+    expect(stats.byExperience[1].median).toBe(275000);
+  });
+});
@@ -3,13 +3,15 @@
  * This test ensures the API key is never exposed to client-side code or network traffic
  */
 
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 describe('Gemini API Key Security', () => {
   // Mock console to capture all log outputs
   let consoleSpy;
   
   beforeEach(() => {
+    // Each test imports aiClient afresh so its load-time key check runs again
+    vi.resetModules();
     consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
   });
   
@@ -32,7 +34,7 @@ describe('Gemini API Key Security', () => {
     expect(allLogsString).not.toContain('test-secret-key-123');
     
     // Verify only the length is logged
-    expect(allLogsString).toContain('length: 17');
+    expect(allLogsString).toContain('length: 19');
   });
   
   it('should handle missing API key without exposure', async () => {
@@ -0,0 +1,52 @@
+/**
+ * Skill gap: HH.ru key_skills are compared with the profile's skills after
+ * alias normalization, with related skills reported as adjacent
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeSkill, analyzeSkillGap, aggregateMissingSkills } from '../server/services/skillGap.js';
+
+describe('normalizeSkill', () => {
+  it('maps English, Russian and abbreviated spellings onto one skill', () => {
+    expect(normalizeSkill('JS')).toBe('JavaScript');
+    expect(normalizeSkill('ДжаваСкрипт')).toBe('JavaScript');
+    expect(normalizeSkill(' javascript ')).toBe('JavaScript');
+    expect(normalizeSkill('Python 3')).toBe('Python');
+    expect(normalizeSkill('Figma Plugins')).toBe('figma plugins');
+  });
+});
+
+describe('analyzeSkillGap', () => {
+  it('splits vacancy skills into matched, adjacent and missing', () => {
+    const gap = analyzeSkillGap(
+      '42',
+      ['JavaScript', 'React', 'Vue.js', 'Docker', 'Webpack', 'js'],
+      ['JS', 'Реакт', 'TypeScript']
+    );
+
+    expect(gap.matched).toEqual(['JavaScript', 'React']);
+    expect(gap.adjacent).toEqual([{ skill: 'Vue.js', relatedTo: ['Реакт'] }]);
+    expect(gap.missing).toEqual(['Docker', 'Webpack']);
+    expect(gap.coverage).toBe(50);
+  });
+
+  it('reports zero coverage when the vacancy lists no skills', () => {
+    expect(analyzeSkillGap('1', [], ['Go'])).toMatchObject({ matched: [], missing: [], coverage: 0 });
+  });
+});
+
+describe('aggregateMissingSkills', () => {
+  it('counts missing skills across vacancies by canonical name', () => {
+    const result = aggregateMissingSkills([
+      { missing: ['Docker', 'k8s'] },
+      { missing: ['докер'] },
+      { missing: ['Kubernetes', 'Docker', 'Terraform'] }
+    ]);
+
+    expect(result).toEqual([
+      { skill: 'Docker', count: 3 },
+      { skill: 'Kubernetes', count: 2 },
+      { skill: 'Terraform', count: 1 }
+    ]);
+  });
+});
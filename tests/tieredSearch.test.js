@@ -0,0 +1,150 @@
+/**
+ * Tiered search: the server-side Title → Description → Skills merge must give
+ * the same ranking for the same HH.ru responses
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  runTieredSearch,
+  paginateSearchResult,
+  parseExcludeWords,
+  scoreVacancy
+} from '../server/services/tieredSearch.js';
+import { scoringProfileConfigSchema, defaultScoringWeights } from '../shared/schema.js';
+
+const NOW = new Date('2025-03-10T12:00:00Z').getTime();
+
+function vacancy(id, name, extra = {}) {
+  return {
+    id,
+    name,
+    employer: { id: `e${id}`, name: `Employer ${id}` },
+    area: { name: 'Москва' },
+    snippet: { requirement: '', responsibility: '' },
+    salary: null,
+    alternate_url: `https://hh.ru/vacancy/${id}`,
+    published_at: '2025-01-01T00:00:00Z',
+    ...extra
+  };
+}
+
+function createStubClient(tiers) {
+  return {
+    calls: [],
+    async searchVacancies(params) {
+      this.calls.push(params);
+      const items = params.page === 0 ? (tiers[params.search_field] || []) : [];
+      return { data: { items, found: items.length, pages: 1, page: params.page }, timing: {} };
+    }
+  };
+}
+
+describe('runTieredSearch', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('merges tiers, keeps the first tier a vacancy matched and sorts deterministically', async () => {
+    const client = createStubClient({
+      name: [vacancy('2', 'Senior React developer'), vacancy('1', 'React developer')],
+      description: [
+        vacancy('1', 'React developer'),
+        vacancy('3', 'Frontend engineer', { snippet: { requirement: 'React, TypeScript', responsibility: '' } })
+      ]
+    });
+
+    const result = await runTieredSearch(client, { text: 'React', search_field: ['name'] }, ['react'], {}, { pageDelayMs: 0, now: NOW });
+
+    expect(result.items.map(item => item.id)).toEqual(['1', '2', '3']);
+    expect(result.items[0]).toMatchObject({ searchTier: 'Title', relevanceScore: 30, matchedKeywords: ['react'] });
+    expect(result.items[2]).toMatchObject({ searchTier: 'Description', matchLocation: { title: false, description: true } });
+    expect(result.tierInfo).toMatchObject({ titleCount: 2, descriptionCount: 2, totalAfterDedup: 3 });
+    expect(client.calls.every(call => call.text === 'React')).toBe(true);
+  });
+
+  it('hard-filters excluded words and reports the AND fallback', async () => {
+    const client = createStubClient({
+      name: [vacancy('1', 'React developer'), vacancy('2', 'React стажер')]
+    });
+
+    const result = await runTieredSearch(
+      client,
+      { text: 'React' },
+      ['react', 'typescript'],
+      { excludeWords: '"стажер", junior', useAndAcrossPhrases: true },
+      { pageDelayMs: 0, now: NOW }
+    );
+
+    expect(result.items.map(item => item.id)).toEqual(['1']);
+    expect(result.tierInfo.excludedCount).toBe(2); // Title and Skills tiers both searched by name
+    expect(result.tierInfo.usedFallback).toBe(true);
+  });
+
+  it('pages the merged list', async () => {
+    const items = Array.from({ length: 5 }, (_, i) => vacancy(String(i + 1), `React ${i + 1}`));
+    const result = await runTieredSearch(createStubClient({ name: items }), { text: 'React' }, ['react'], {}, { pageDelayMs: 0, now: NOW });
+
+    const page = paginateSearchResult(result, 1, 2);
+    expect(page).toMatchObject({ found: 5, pages: 3, page: 1, per_page: 2 });
+    expect(page.items.map(item => item.id)).toEqual(['3', '4']);
+  });
+});
+
+describe('scoreVacancy', () => {
+  it('applies profile weights, keyword multipliers and employer boosts with a breakdown', () => {
+    const config = {
+      weights: { titleStart: 10, titleContains: 5, descriptionMatch: 0, hasSalary: 2, highSalary: 0, highSalaryThreshold: 100000, postedWithin3Days: 0, postedWithin7Days: 0 },
+      keywordWeights: { react: 2 },
+      employerBoosts: { 'employer 1': -4 }
+    };
+    const result = scoreVacancy(vacancy('1', 'React developer', { salary: { from: 50000 } }), ['React'], config, NOW);
+
+    expect(result.score).toBe(18);
+    expect(result.breakdown).toEqual([
+      { label: 'Title starts with "React"', points: 20 },
+      { label: 'Salary published', points: 2 },
+      { label: 'Employer penalty (Employer 1)', points: -4 }
+    ]);
+  });
+
+  it('matches keyword multipliers regardless of how the profile spelled the keyword', () => {
+    const config = scoringProfileConfigSchema.parse({
+      weights: { ...defaultScoringWeights, titleContains: 0, descriptionMatch: 0, hasSalary: 0, postedWithin3Days: 0, postedWithin7Days: 0 },
+      keywordWeights: { ' React ': 3 }
+    });
+
+    expect(config.keywordWeights).toEqual({ react: 3 });
+    expect(scoreVacancy(vacancy('1', 'React developer'), ['react'], config, NOW).score).toBe(90);
+  });
+
+  it('matches employer boosts regardless of how the profile spelled the employer', () => {
+    const config = scoringProfileConfigSchema.parse({
+      weights: { ...defaultScoringWeights, titleStart: 0, titleContains: 0, descriptionMatch: 0, hasSalary: 0, postedWithin3Days: 0, postedWithin7Days: 0 },
+      employerBoosts: { ' Employer 1 ': 5 }
+    });
+
+    expect(config.employerBoosts).toEqual({ 'employer 1': 5 });
+    expect(scoreVacancy(vacancy('1', 'React developer'), ['react'], config, NOW).score).toBe(5);
+  });
+
+  it('re-ranks the same tiers when the scoring profile changes', async () => {
+    const tiers = { name: [vacancy('1', 'React developer'), vacancy('2', 'Senior React developer', { salary: { from: 300000 } })] };
+    const salaryFirst = {
+      weights: { titleStart: 1, titleContains: 1, descriptionMatch: 0, hasSalary: 20, highSalary: 30, highSalaryThreshold: 100000, postedWithin3Days: 0, postedWithin7Days: 0 },
+      keywordWeights: {},
+      employerBoosts: {}
+    };
+
+    const byDefault = await runTieredSearch(createStubClient(tiers), { text: 'React' }, ['react'], {}, { pageDelayMs: 0, now: NOW });
+    const bySalary = await runTieredSearch(createStubClient(tiers), { text: 'React' }, ['react'], {}, { pageDelayMs: 0, now: NOW, scoringConfig: salaryFirst });
+
+    expect(byDefault.items.map(item => item.id)).toEqual(['1', '2']);
+    expect(bySalary.items.map(item => item.id)).toEqual(['2', '1']);
+  });
+});
+
+describe('parseExcludeWords', () => {
+  it('splits on commas and strips phrase quotes', () => {
+    expect(parseExcludeWords(' senior , "team lead",, ')).toEqual(['senior', 'team lead']);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Watched searches: the scheduler re-runs saved HH.ru queries against a stub
+ * client and only surfaces vacancies that were not seen in earlier runs
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MemStorage } from '../server/storage.js';
+import { WatchScheduler } from '../server/services/watchScheduler.js';
+
+function createStubClient(pages) {
+  return {
+    calls: [],
+    async searchVacancies(params) {
+      this.calls.push(params);
+      const items = (pages[params.page] || []).map(id => ({
+        id,
+        name: `Vacancy ${id}`,
+        employer: { name: 'ООО Тест' },
+        alternate_url: `https://hh.ru/vacancy/${id}`
+      }));
+      return { data: { items, found: items.length, pages: pages.length, page: params.page }, timing: {} };
+    }
+  };
+}
+
+describe('WatchScheduler', () => {
+  let storage;
+  let app;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    storage = new MemStorage();
+    const created = await storage.createJobApplication({
+      userId: 1,
+      title: 'Frontend',
+      currentStep: 4,
+      selectedKeywords: ['frontend'],
+      suggestedKeywords: [],
+      filters: {},
+      currentVacancyIndex: 0,
+      vacancies: [],
+      totalVacancies: 0,
+      appliedVacancyIds: [],
+      isCompleted: false
+    });
+    app = await storage.updateJobApplicationWatchState(created.id, {
+      isWatched: true,
+      watchIntervalMinutes: 60,
+      watchParams: { text: 'frontend', area: '1' }
+    });
+  });
+
+  it('records a baseline on the first run without reporting anything as new', async () => {
+    const client = createStubClient([['1', '2'], ['3']]);
+    const scheduler = new WatchScheduler(storage, client);
+
+    const result = await scheduler.runWatch(app);
+    const updated = await storage.getJobApplication(app.id);
+
+    expect(result).toMatchObject({ found: 3, newCount: 0, baseline: true });
+    expect(updated.knownVacancyIds).toEqual(['1', '2', '3']);
+    expect(updated.newVacancies).toEqual([]);
+    expect(client.calls[0]).toMatchObject({ text: 'frontend', area: '1', page: 0 });
+    expect(client.calls).toHaveLength(2);
+  });
+
+  it('surfaces only vacancies that appeared since the last run', async () => {
+    const scheduler = new WatchScheduler(storage, createStubClient([['1', '2']]));
+    await scheduler.runWatch(app);
+
+    const nextScheduler = new WatchScheduler(storage, createStubClient([['4', '1', '2']]));
+    const result = await nextScheduler.runWatch(await storage.getJobApplication(app.id));
+    const updated = await storage.getJobApplication(app.id);
+
+    expect(result.newCount).toBe(1);
+    expect(updated.newVacancies.map(v => v.id)).toEqual(['4']);
+    expect(updated.knownVacancyIds).toEqual(['1', '2', '4']);
+  });
+
+  it('keeps vacancies acknowledged while the fetch was running', async () => {
+    await new WatchScheduler(storage, createStubClient([['1']])).runWatch(app);
+    await new WatchScheduler(storage, createStubClient([['2', '1']])).runWatch(await storage.getJobApplication(app.id));
+
+    const snapshot = await storage.getJobApplication(app.id);
+    const client = createStubClient([['3', '2', '1']]);
+    const search = client.searchVacancies.bind(client);
+    client.searchVacancies = async (params) => {
+      // The user acknowledges vacancy 2 mid-fetch
+      await storage.updateJobApplicationWatchState(app.id, { newVacancies: [] });
+      return search(params);
+    };
+
+    await new WatchScheduler(storage, client).runWatch(snapshot);
+    const updated = await storage.getJobApplication(app.id);
+
+    expect(updated.newVacancies.map(v => v.id)).toEqual(['3']);
+  });
+
+  it('discards a run whose search was changed while it fetched', async () => {
+    const client = createStubClient([['1']]);
+    const search = client.searchVacancies.bind(client);
+    client.searchVacancies = async (params) => {
+      await storage.updateJobApplicationWatchState(app.id, {
+        watchParams: { text: 'backend' },
+        lastRunAt: null,
+        knownVacancyIds: [],
+        newVacancies: []
+      });
+      return search(params);
+    };
+
+    await new WatchScheduler(storage, client).runWatch(app);
+    const updated = await storage.getJobApplication(app.id);
+
+    expect(updated.lastRunAt).toBeNull();
+    expect(updated.knownVacancyIds).toEqual([]);
+  });
+
+  it('forgets the oldest known vacancies beyond the cap, but not current ones', async () => {
+    await storage.updateJobApplicationWatchState(app.id, { knownVacancyIds: ['a', 'b', 'c', 'd'], lastRunAt: new Date() });
+    const scheduler = new WatchScheduler(storage, createStubClient([['a', 'e']]), { maxKnownIds: 3 });
+
+    await scheduler.runWatch(await storage.getJobApplication(app.id));
+    const updated = await storage.getJobApplication(app.id);
+
+    expect(updated.knownVacancyIds).toEqual(['a', 'd', 'e']);
+  });
+
+  it('only runs searches whose interval has elapsed', async () => {
+    const client = createStubClient([['1']]);
+    const scheduler = new WatchScheduler(storage, client);
+    const start = new Date('2025-01-01T10:00:00Z');
+
+    expect(await scheduler.tick(start)).toHaveLength(1);
+    expect(await scheduler.tick(new Date('2025-01-01T10:30:00Z'))).toHaveLength(0);
+    expect(await scheduler.tick(new Date('2025-01-01T11:00:00Z'))).toHaveLength(1);
+    expect(client.calls).toHaveLength(2);
+  });
+
+  it('skips searches that are no longer watched', async () => {
+    await storage.updateJobApplicationWatchState(app.id, { isWatched: false });
+    const client = createStubClient([['1']]);
+
+    expect(await new WatchScheduler(storage, client).tick()).toHaveLength(0);
+    expect(client.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Server and shared code only; vite.config.ts is rooted at the client
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: "@shared", replacement: path.resolve(import.meta.dirname, "shared") },
+      // Tests import the TypeScript sources with the .js extension Node ESM expects
+      { find: /^(\.\.\/(?:server|shared)\/.*)\.js$/, replacement: "$1.ts" },
+    ],
+  },
+  test: {
+    include: ["tests/**/*.test.js"],
+    environment: "node",
+  },
+});